@@ -0,0 +1,356 @@
+// region imports
+
+import {readdir} from 'fs/promises';
+import {join, resolve} from 'path';
+import {IUFPhpConfigOptions, UFPhp} from '../tools/UFPhp.js';
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {UFPhpKeyPath} from '../tools/UFPhpConfigEditor.js';
+import {UFPhpArrayMode} from '../parser/UFPhpEvaluator.js';
+import {UFPhpParseError} from '../parser/UFPhpParseError.js';
+
+// endregion
+
+// region types
+
+/**
+ * The ways {@link UFPhpConfigLoader} can merge configurations.
+ */
+export enum UFPhpMergeMode {
+  /**
+   * Php `array_merge`: only the top level is merged; entries with a string key are replaced, entries with an
+   * integer key are appended.
+   */
+  ArrayMerge = 'arrayMerge',
+
+  /**
+   * Php `array_replace_recursive`: nested arrays are merged; all other entries (also with integer keys) are
+   * replaced.
+   */
+  ArrayReplaceRecursive = 'arrayReplaceRecursive',
+
+  /**
+   * CakePHP `Hash::merge` (used by `Configure::load`): nested arrays are merged when the existing array is not
+   * empty; entries with an integer key are appended when the key is already in use, other entries are replaced.
+   */
+  HashMerge = 'hashMerge',
+}
+
+/**
+ * Options for {@link UFPhpConfigLoader}.
+ */
+export interface IUFPhpConfigLoaderOptions extends IUFPhpConfigOptions {
+  /**
+   * How to merge configurations, default is {@link UFPhpMergeMode.ArrayReplaceRecursive}.
+   */
+  merge?: UFPhpMergeMode;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpConfigLoader} combines several php configuration files into one configuration, the way php
+ * frameworks do:
+ * - {@link loadFiles} merges files into the configuration in order, for example CakePHP `app.php` followed by
+ *   `app_local.php` (use {@link UFPhpMergeMode.HashMerge} to get the same result as `Configure::load`)
+ * - {@link loadDirectory} stores every file in a directory using its name as key, like Laravel does with the
+ *   files in `config/`
+ *
+ * Use {@link get} to read values using a dotted path.
+ *
+ * @example
+ * const loader = new UFPhpConfigLoader({merge: UFPhpMergeMode.HashMerge});
+ * await loader.loadFiles(['config/app.php', 'config/app_local.php']);
+ * const host = loader.get('Datasources.default.host', 'localhost');
+ */
+export class UFPhpConfigLoader {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpConfigLoaderOptions;
+
+  /**
+   * Merged configuration
+   *
+   * @private
+   */
+  private m_data: UFPhpArray = new UFPhpArray();
+
+  /**
+   * Files that contributed to the configuration
+   *
+   * @private
+   */
+  private readonly m_files: string[] = [];
+
+  /**
+   * Diagnostics of all loaded files
+   *
+   * @private
+   */
+  private readonly m_diagnostics: UFPhpParseError[] = [];
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpConfigLoader}.
+   *
+   * @param {IUFPhpConfigLoaderOptions} anOptions
+   *   Options for parsing and merging; the `arrayMode` option determines how arrays are returned by {@link value}
+   *   and {@link get}
+   */
+  constructor(anOptions: IUFPhpConfigLoaderOptions = {}) {
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * The merged configuration.
+   */
+  get value(): any {
+    return this.convert(this.m_data);
+  }
+
+  /**
+   * Absolute paths of the files that contributed to the configuration, including included files.
+   */
+  get files(): string[] {
+    return [...this.m_files];
+  }
+
+  /**
+   * Diagnostics of all loaded files, see {@link IUFPhpConfigResult.diagnostics}.
+   */
+  get diagnostics(): UFPhpParseError[] {
+    return [...this.m_diagnostics];
+  }
+
+  /**
+   * Loads files and merges them in order into the configuration.
+   *
+   * @param {string[]} aFilenames
+   *   Files to load
+   *
+   * @return {any} the merged configuration
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {Error} when a file can not be read or does not return an array
+   */
+  async loadFiles(aFilenames: string[]): Promise<any> {
+    for (const filename of aFilenames) {
+      this.m_data = UFPhpConfigLoader.merge(this.m_data, await this.loadFile(filename), this.mergeMode);
+    }
+    return this.value;
+  }
+
+  /**
+   * Loads all php files in a directory (and its sub directories) and stores each configuration using the name of
+   * the file without extension as key. Files in sub directories are stored in nested arrays, so
+   * `services/mail.php` can be accessed with `get('services.mail')`.
+   *
+   * @param {string} aDirectory
+   *   Directory to load
+   *
+   * @return {any} the merged configuration
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {Error} when a file can not be read or does not return an array
+   */
+  async loadDirectory(aDirectory: string): Promise<any> {
+    const configuration = new UFPhpArray();
+    await this.loadDirectoryEntries(resolve(aDirectory), configuration);
+    this.m_data = UFPhpConfigLoader.merge(this.m_data, configuration, this.mergeMode);
+    return this.value;
+  }
+
+  /**
+   * Gets a value from the configuration.
+   *
+   * @param {UFPhpKeyPath} aPath
+   *   Keys separated by dots or an array of keys
+   * @param {any} aDefault
+   *   Value to return when there is no entry for the path
+   *
+   * @return {any} the value or aDefault
+   */
+  get(aPath: UFPhpKeyPath, aDefault: any = null): any {
+    const value = this.getEntry(aPath);
+    return value === undefined ? aDefault : this.convert(value);
+  }
+
+  /**
+   * Checks if the configuration contains an entry.
+   *
+   * @param {UFPhpKeyPath} aPath
+   *   Keys separated by dots or an array of keys
+   *
+   * @return {boolean} true if there is an entry for the path
+   */
+  has(aPath: UFPhpKeyPath): boolean {
+    return this.getEntry(aPath) !== undefined;
+  }
+
+  /**
+   * Removes all loaded configuration.
+   */
+  clear(): void {
+    this.m_data = new UFPhpArray();
+    this.m_files.length = 0;
+    this.m_diagnostics.length = 0;
+  }
+
+  /**
+   * Merges two php arrays. The arrays are not changed.
+   *
+   * @param {UFPhpArray} aTarget
+   *   Array to merge into
+   * @param {UFPhpArray} aSource
+   *   Array to merge
+   * @param {UFPhpMergeMode} aMode
+   *   Merge semantics to use
+   *
+   * @return {UFPhpArray} merged array
+   */
+  static merge(aTarget: UFPhpArray, aSource: UFPhpArray, aMode: UFPhpMergeMode): UFPhpArray {
+    if (aMode === UFPhpMergeMode.ArrayMerge) {
+      // array_merge also renumbers the integer keys of the first array
+      const merged = new UFPhpArray();
+      [aTarget, aSource].forEach(array => array.forEach(
+        (value, key) => typeof key === 'number' ? merged.push(value) : merged.set(key, value)
+      ));
+      return merged;
+    }
+    const result = new UFPhpArray(aTarget);
+    switch (aMode) {
+      case UFPhpMergeMode.ArrayReplaceRecursive:
+        aSource.forEach((value, key) => {
+          const current = result.get(key);
+          result.set(
+            key,
+            (current instanceof UFPhpArray) && (value instanceof UFPhpArray)
+              ? UFPhpConfigLoader.merge(current, value, aMode)
+              : value
+          );
+        });
+        break;
+      case UFPhpMergeMode.HashMerge:
+        aSource.forEach((value, key) => {
+          const current = result.get(key);
+          if ((current instanceof UFPhpArray) && current.size && (value instanceof UFPhpArray)) {
+            result.set(key, UFPhpConfigLoader.merge(current, value, aMode));
+          }
+          // isset() is false for null
+          else if ((typeof key === 'number') && (current !== undefined) && (current !== null)) {
+            result.push(value);
+          }
+          else {
+            result.set(key, value);
+          }
+        });
+        break;
+    }
+    return result;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Merge mode to use.
+   *
+   * @private
+   */
+  private get mergeMode(): UFPhpMergeMode {
+    return this.m_options.merge || UFPhpMergeMode.ArrayReplaceRecursive;
+  }
+
+  /**
+   * Parses a file and registers the contributing files and diagnostics.
+   *
+   * @private
+   */
+  private async loadFile(aFilename: string): Promise<UFPhpArray> {
+    const result = await UFPhp.parsePhpConfig(aFilename, {...this.m_options, arrayMode: UFPhpArrayMode.PhpArray});
+    if (!(result.value instanceof UFPhpArray)) {
+      throw new Error(resolve(aFilename) + ' does not return an array');
+    }
+    result.files.filter(file => !this.m_files.includes(file)).forEach(file => this.m_files.push(file));
+    this.m_diagnostics.push(...result.diagnostics);
+    return result.value;
+  }
+
+  /**
+   * Loads the php files in a directory into an array, sub directories are loaded into nested arrays.
+   *
+   * @private
+   */
+  private async loadDirectoryEntries(aDirectory: string, aConfiguration: UFPhpArray): Promise<void> {
+    const entries = (await readdir(aDirectory, {withFileTypes: true}))
+      .sort((first, second) => first.name < second.name ? -1 : (first.name > second.name ? 1 : 0));
+    for (const entry of entries) {
+      const path = join(aDirectory, entry.name);
+      if (entry.isDirectory()) {
+        const current = aConfiguration.get(entry.name);
+        const nested = current instanceof UFPhpArray ? current : new UFPhpArray();
+        await this.loadDirectoryEntries(path, nested);
+        aConfiguration.set(entry.name, nested);
+      }
+      else if (entry.isFile() && entry.name.endsWith('.php')) {
+        const key = entry.name.substring(0, entry.name.length - 4);
+        const current = aConfiguration.get(key);
+        const value = await this.loadFile(path);
+        // a file and directory with the same name are combined
+        aConfiguration.set(
+          key, current instanceof UFPhpArray ? UFPhpConfigLoader.merge(value, current, this.mergeMode) : value
+        );
+      }
+    }
+  }
+
+  /**
+   * Gets the (not converted) value for a path.
+   *
+   * @return {any} value or undefined if there is no entry
+   *
+   * @private
+   */
+  private getEntry(aPath: UFPhpKeyPath): any {
+    const keys: UFPhpArrayKey[] = typeof aPath === 'string' ? aPath.split('.') : aPath;
+    let value: any = this.m_data;
+    for (const key of keys) {
+      if (!(value instanceof UFPhpArray) || !value.has(key)) {
+        return undefined;
+      }
+      value = value.get(key);
+    }
+    return value;
+  }
+
+  /**
+   * Converts a value depending on the array mode option.
+   *
+   * @private
+   */
+  private convert(aValue: any): any {
+    return (this.m_options.arrayMode !== UFPhpArrayMode.PhpArray) && (aValue instanceof UFPhpArray)
+      ? aValue.toNative()
+      : aValue;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,456 @@
+// region imports
+
+import {EventEmitter} from 'events';
+import {FSWatcher, watch} from 'fs';
+import {basename, dirname, join, resolve} from 'path';
+import {IUFPhpConfigOptions, IUFPhpConfigResult, UFPhp} from '../tools/UFPhp.js';
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {UFPhpPlaceholder} from '../parser/UFPhpPlaceholder.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Prefix for log
+ */
+const LOG_PREFIX = 'PHP_CONFIG_WATCHER';
+
+/**
+ * Default time in milliseconds to wait for more changes before reloading
+ */
+const DEFAULT_DEBOUNCE = 100;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpConfigWatcher}.
+ */
+export interface IUFPhpConfigWatcherOptions extends IUFPhpConfigOptions {
+  /**
+   * Time in milliseconds to wait for more changes before the configuration is reloaded, default is 100.
+   */
+  debounce?: number;
+
+  /**
+   * When false the file system watchers do not keep the process running, default is true.
+   */
+  persistent?: boolean;
+}
+
+/**
+ * Information passed with the `change` event of {@link UFPhpConfigWatcher}.
+ */
+export interface IUFPhpConfigChange {
+  /**
+   * Configuration before the change
+   */
+  readonly oldValue: any;
+
+  /**
+   * Configuration after the change
+   */
+  readonly newValue: any;
+
+  /**
+   * Key paths of the entries that were added, removed or changed; when an array was added or removed, only the
+   * path to that array is included
+   */
+  readonly changedPaths: UFPhpArrayKey[][];
+
+  /**
+   * Result of parsing the configuration
+   */
+  readonly result: IUFPhpConfigResult;
+}
+
+/**
+ * Events emitted by {@link UFPhpConfigWatcher}.
+ */
+export interface IUFPhpConfigWatcherEvents {
+  /**
+   * Emitted after the configuration was reloaded and its value changed.
+   */
+  change: (aChange: IUFPhpConfigChange) => void;
+
+  /**
+   * Emitted when reloading the configuration failed; the watcher keeps the last valid configuration. Without
+   * listeners, the error is only written to the log (if any).
+   */
+  error: (anError: Error) => void;
+}
+
+/**
+ * Typed versions of the {@link EventEmitter} methods.
+ */
+export declare interface UFPhpConfigWatcher {
+  on<K extends keyof IUFPhpConfigWatcherEvents>(anEvent: K, aListener: IUFPhpConfigWatcherEvents[K]): this;
+
+  once<K extends keyof IUFPhpConfigWatcherEvents>(anEvent: K, aListener: IUFPhpConfigWatcherEvents[K]): this;
+
+  off<K extends keyof IUFPhpConfigWatcherEvents>(anEvent: K, aListener: IUFPhpConfigWatcherEvents[K]): this;
+
+  emit<K extends keyof IUFPhpConfigWatcherEvents>(
+    anEvent: K, ...anArguments: Parameters<IUFPhpConfigWatcherEvents[K]>
+  ): boolean;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpConfigWatcher} parses a php configuration file and reloads it when the file or one of the files
+ * it includes changes.
+ *
+ * The directories containing the files are watched, so editors that replace a file when saving are supported.
+ * Changes are debounced; after reloading a `change` event is emitted when the value changed. When reloading fails,
+ * the last valid configuration is kept and an `error` event is emitted.
+ *
+ * @example
+ * const watcher = new UFPhpConfigWatcher('config/app.php', {log});
+ * let config = watcher.start().value;
+ * watcher.on('change', change => config = change.newValue);
+ */
+export class UFPhpConfigWatcher extends EventEmitter {
+  // region private variables
+
+  /**
+   * Absolute path to the configuration file
+   *
+   * @private
+   */
+  private readonly m_filename: string;
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpConfigWatcherOptions;
+
+  /**
+   * Last valid result
+   *
+   * @private
+   */
+  private m_result: IUFPhpConfigResult | null = null;
+
+  /**
+   * Watchers mapped by directory
+   *
+   * @private
+   */
+  private readonly m_watchers: Map<string, FSWatcher> = new Map();
+
+  /**
+   * Absolute paths of the watched files
+   *
+   * @private
+   */
+  private m_files: Set<string> = new Set();
+
+  /**
+   * Timer used for debouncing
+   *
+   * @private
+   */
+  private m_timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * True while reloading
+   *
+   * @private
+   */
+  private m_reloading: boolean = false;
+
+  /**
+   * True when a change was detected while reloading
+   *
+   * @private
+   */
+  private m_pending: boolean = false;
+
+  /**
+   * True after {@link stop} was called, no new reloads are scheduled
+   *
+   * @private
+   */
+  private m_stopped: boolean = false;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpConfigWatcher}.
+   *
+   * @param {string} aFilename
+   *   Configuration file to watch
+   * @param {IUFPhpConfigWatcherOptions} anOptions
+   *   Options for parsing and watching
+   */
+  constructor(aFilename: string, anOptions: IUFPhpConfigWatcherOptions = {}) {
+    super();
+    this.m_filename = resolve(aFilename);
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * The last valid configuration or undefined if {@link start} has not been called.
+   */
+  get value(): any {
+    return this.m_result ? this.m_result.value : undefined;
+  }
+
+  /**
+   * The last valid result or null if {@link start} has not been called.
+   */
+  get result(): IUFPhpConfigResult | null {
+    return this.m_result;
+  }
+
+  /**
+   * Parses the configuration synchronously and starts watching the files. Calling this method while watching
+   * has no effect.
+   *
+   * @return {IUFPhpConfigResult} the parsed configuration
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {Error} when the file can not be read
+   */
+  start(): IUFPhpConfigResult {
+    if (this.m_result && this.m_watchers.size) {
+      return this.m_result;
+    }
+    this.m_result = UFPhp.parsePhpConfigSync(this.m_filename, this.m_options);
+    this.m_stopped = false;
+    this.updateWatchers(this.m_result.files);
+    return this.m_result;
+  }
+
+  /**
+   * Stops watching the files. The last valid configuration stays available.
+   */
+  stop(): void {
+    this.m_stopped = true;
+    this.m_pending = false;
+    if (this.m_timer) {
+      clearTimeout(this.m_timer);
+      this.m_timer = null;
+    }
+    this.m_watchers.forEach(watcher => watcher.close());
+    this.m_watchers.clear();
+    this.m_files.clear();
+  }
+
+  /**
+   * Reloads the configuration and emits a `change` event if the value changed. Errors thrown by `change`
+   * listeners are written to the log and emitted as `error` event.
+   *
+   * @return {boolean} true if the configuration was reloaded, false if reloading failed
+   */
+  async reload(): Promise<boolean> {
+    if (this.m_reloading) {
+      this.m_pending = true;
+      return false;
+    }
+    this.m_reloading = true;
+    let change: IUFPhpConfigChange | null = null;
+    try {
+      const result = await UFPhp.parsePhpConfig(this.m_filename, this.m_options);
+      const oldValue = this.value;
+      this.m_result = result;
+      if (this.m_watchers.size) {
+        this.updateWatchers(result.files);
+      }
+      const changedPaths = UFPhpConfigWatcher.getChangedPaths(oldValue, result.value, []);
+      if (changedPaths.length) {
+        change = {oldValue, newValue: result.value, changedPaths, result};
+      }
+    } catch (error: any) {
+      this.reportError(error);
+      return false;
+    } finally {
+      this.m_reloading = false;
+      if (this.m_pending) {
+        this.m_pending = false;
+        this.scheduleReload();
+      }
+    }
+    if (change) {
+      this.m_options.log?.info(LOG_PREFIX, 'reload', this.m_filename, change.changedPaths.length + ' change(s)');
+      try {
+        this.emit('change', change);
+      } catch (error: any) {
+        this.reportError(error);
+      }
+    }
+    return true;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Watches the directories of a list of files and stops watching directories that are no longer used.
+   *
+   * @private
+   */
+  private updateWatchers(aFiles: string[]): void {
+    // keep watching the configuration file, also when it failed to load
+    this.m_files = new Set([this.m_filename, ...aFiles]);
+    const directories = new Set(Array.from(this.m_files, file => dirname(file)));
+    this.m_watchers.forEach((watcher, directory) => {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.m_watchers.delete(directory);
+      }
+    });
+    directories.forEach(directory => {
+      if (this.m_watchers.has(directory)) {
+        return;
+      }
+      try {
+        const watcher = watch(
+          directory,
+          {persistent: this.m_options.persistent !== false},
+          (anEvent, aFilename) => this.handleChange(directory, aFilename)
+        );
+        watcher.on('error', error => this.m_options.log?.error(LOG_PREFIX, error, 'watch', directory));
+        this.m_watchers.set(directory, watcher);
+      } catch (error) {
+        this.m_options.log?.error(LOG_PREFIX, error, 'watch', directory);
+      }
+    });
+  }
+
+  /**
+   * Handles a change in a watched directory.
+   *
+   * @private
+   */
+  private handleChange(aDirectory: string, aFilename: string | Buffer | null): void {
+    // some platforms do not pass the name of the changed file
+    if (aFilename && !this.m_files.has(join(aDirectory, basename(aFilename.toString())))) {
+      return;
+    }
+    this.scheduleReload();
+  }
+
+  /**
+   * Writes an error to the log and emits it as `error` event if there are listeners.
+   *
+   * @private
+   */
+  private reportError(anError: Error): void {
+    this.m_options.log?.error(LOG_PREFIX, anError, 'reload', this.m_filename);
+    if (this.listenerCount('error')) {
+      this.emit('error', anError);
+    }
+  }
+
+  /**
+   * Reloads the configuration after the debounce time, unless {@link stop} was called.
+   *
+   * @private
+   */
+  private scheduleReload(): void {
+    if (this.m_stopped) {
+      return;
+    }
+    if (this.m_timer) {
+      clearTimeout(this.m_timer);
+    }
+    this.m_timer = setTimeout(
+      () => {
+        this.m_timer = null;
+        // an error listener that throws rejects the promise
+        this.reload().catch(error => this.m_options.log?.error(LOG_PREFIX, error, 'reload', this.m_filename));
+      },
+      this.m_options.debounce === undefined ? DEFAULT_DEBOUNCE : this.m_options.debounce
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Gets the paths of the entries that differ between two values.
+   *
+   * @param {any} anOld
+   *   Old value
+   * @param {any} aNew
+   *   New value
+   * @param {UFPhpArrayKey[]} aPath
+   *   Path to the values
+   *
+   * @return {UFPhpArrayKey[][]} paths of changed entries
+   *
+   * @private
+   */
+  private static getChangedPaths(anOld: any, aNew: any, aPath: UFPhpArrayKey[]): UFPhpArrayKey[][] {
+    const oldArray = UFPhpConfigWatcher.toArray(anOld);
+    const newArray = UFPhpConfigWatcher.toArray(aNew);
+    if (!oldArray || !newArray) {
+      return (oldArray || newArray || !UFPhpConfigWatcher.isSame(anOld, aNew)) ? [aPath] : [];
+    }
+    const result: UFPhpArrayKey[][] = [];
+    oldArray.forEach((value, key) => {
+      if (newArray.has(key)) {
+        result.push(...UFPhpConfigWatcher.getChangedPaths(value, newArray.get(key), [...aPath, key]));
+      }
+      else {
+        result.push([...aPath, key]);
+      }
+    });
+    newArray.forEach((value, key) => {
+      if (!oldArray.has(key)) {
+        result.push([...aPath, key]);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Gets the entries of an array value.
+   *
+   * @return {UFPhpArray|null} entries or null if the value is not an array
+   *
+   * @private
+   */
+  private static toArray(aValue: any): UFPhpArray | null {
+    if (aValue instanceof UFPhpArray) {
+      return aValue;
+    }
+    if ((typeof aValue !== 'object') || (aValue === null) || (aValue instanceof UFPhpPlaceholder)) {
+      return null;
+    }
+    return new UFPhpArray(Object.entries(aValue));
+  }
+
+  /**
+   * Checks if two values that are not arrays are the same.
+   *
+   * @private
+   */
+  private static isSame(anOld: any, aNew: any): boolean {
+    if ((anOld instanceof UFPhpPlaceholder) && (aNew instanceof UFPhpPlaceholder)) {
+      return anOld.code === aNew.code;
+    }
+    return Object.is(anOld, aNew);
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,552 @@
+// region imports
+
+import {readFile} from 'fs/promises';
+import {join} from 'path';
+import {UFPhpEnvironment} from '../parser/UFPhpResolver.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Splits a value into the tokens the phpdotenv lexer creates
+ */
+const TOKEN = /[\r\n]+|[^\S\r\n]+|\\|'|"|#|\$|[^\s\\'"#$]+/g;
+
+/**
+ * Matches a valid variable name
+ */
+const NAME = /^[\p{Ll}\p{Lu}\p{M}\p{N}_.]+$/u;
+
+/**
+ * Matches a variable reference at the start of a string
+ */
+const VARIABLE = /^\$\{([a-zA-Z0-9_.]+)}/;
+
+/**
+ * Characters of the escape sequences supported in double quoted values
+ */
+const ESCAPES: { [char: string]: string } = {
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+  'v': '\v',
+};
+
+// endregion
+
+// region local types
+
+/**
+ * States of the value parser
+ */
+enum DotenvState {
+  Initial,
+  Unquoted,
+  SingleQuoted,
+  DoubleQuoted,
+  EscapeSequence,
+  Whitespace,
+  Comment,
+}
+
+/**
+ * Parsed entry: name, value (null for an entry without `=`) and positions of variable references in the value
+ */
+type DotenvEntry = [string, string | null, number[]];
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpDotenv}.
+ */
+export interface IUFPhpDotenvOptions {
+  /**
+   * Existing environment variables, when missing `process.env` is used. They are used to resolve `${NAME}`
+   * references and are not overwritten unless `mutable` is set.
+   */
+  env?: UFPhpEnvironment;
+
+  /**
+   * When true, existing environment variables are overwritten (like `Dotenv::createMutable`); when false (default)
+   * they are kept (like `Dotenv::createImmutable`, which Laravel uses).
+   */
+  mutable?: boolean;
+
+  /**
+   * When true, the loaded variables are written to (and removed from) `env`; when false (default) `env` is not
+   * changed and the variables are only available via {@link UFPhpDotenv.environment}.
+   */
+  populate?: boolean;
+}
+
+/**
+ * Variables loaded by {@link UFPhpDotenv}, null for variables that were cleared by an entry without value.
+ */
+export type UFPhpDotenvVariables = { [name: string]: string | null };
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpDotenv} loads `.env` files like vlucas/phpdotenv (version 5) does.
+ *
+ * Each line contains `NAME=value`, optionally prefixed by `export`. Lines starting with `#` are comments. Values
+ * can be unquoted (no whitespace allowed, `#` starts a comment), single quoted (used as is) or double quoted (may
+ * span multiple lines and supports the escapes `\"`, `\\`, `\$`, `\f`, `\n`, `\r`, `\t` and `\v`). Unquoted and
+ * double quoted values can reference variables with `${NAME}`; the references are resolved with the variables
+ * loaded so far and the existing environment variables, unknown references are kept as they are. An entry with
+ * only a name clears the variable.
+ *
+ * Existing environment variables are not overwritten unless the `mutable` option is set. Variables defined by
+ * the loaded files can always be overwritten by later entries.
+ *
+ * Syntax errors are thrown as Error with the message phpdotenv uses.
+ *
+ * @example
+ * const dotenv = new UFPhpDotenv();
+ * await dotenv.safeLoadFiles('/var/www/app');
+ * const config = await UFPhp.parsePhpConfig('/var/www/app/config/app.php', {env: dotenv.environment});
+ */
+export class UFPhpDotenv {
+  // region private variables
+
+  /**
+   * Existing environment variables
+   *
+   * @private
+   */
+  private readonly m_env: UFPhpEnvironment;
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpDotenvOptions;
+
+  /**
+   * Values of loaded variables (null for cleared variables) that have not been written to the environment
+   *
+   * @private
+   */
+  private readonly m_values: Map<string, string | null> = new Map();
+
+  /**
+   * Names of the variables set by this instance
+   *
+   * @private
+   */
+  private readonly m_loaded: Set<string> = new Set();
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpDotenv}.
+   *
+   * @param {IUFPhpDotenvOptions} anOptions
+   *   Options to use
+   */
+  constructor(anOptions: IUFPhpDotenvOptions = {}) {
+    this.m_env = anOptions.env || process.env;
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * The existing environment variables combined with the loaded variables; it can be used as `env` option for
+   * {@link UFPhp.parsePhpConfig} so `env()` returns the same values as in php.
+   */
+  get environment(): UFPhpEnvironment {
+    const result: UFPhpEnvironment = {...this.m_env};
+    this.m_values.forEach((value, name) => {
+      if (value === null) {
+        delete result[name];
+      }
+      else {
+        result[name] = value;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Gets the value of a variable (like phpdotenv repositories do).
+   *
+   * @param {string} aName
+   *   Name of variable
+   *
+   * @return {string|undefined} value or undefined if the variable does not exist
+   */
+  get(aName: string): string | undefined {
+    if (this.m_values.has(aName)) {
+      const value = this.m_values.get(aName);
+      return value === null ? undefined : value;
+    }
+    return this.m_env[aName];
+  }
+
+  /**
+   * Loads variables from dotenv source.
+   *
+   * @param {string} aSource
+   *   Contents of a `.env` file
+   *
+   * @return {UFPhpDotenvVariables} the variables that were set or cleared
+   *
+   * @throws {Error} when the source is invalid
+   */
+  load(aSource: string): UFPhpDotenvVariables {
+    const result: UFPhpDotenvVariables = {};
+    UFPhpDotenv.parseEntries(aSource).forEach(([name, value, variables]) => {
+      if (value === null) {
+        if (this.write(name, null)) {
+          result[name] = null;
+        }
+        return;
+      }
+      const resolved = this.resolve(value, variables);
+      if (this.write(name, resolved)) {
+        result[name] = resolved;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Loads variables from files (like `Dotenv::load`). Every name is tried in every path, the contents of the
+   * files that exist are combined.
+   *
+   * @param {string|string[]} aPaths
+   *   Directories to look in
+   * @param {string|string[]} aNames
+   *   Names of the files
+   * @param {boolean} aShortCircuit
+   *   When true (default), only the first file that exists is loaded
+   *
+   * @return {Promise<UFPhpDotenvVariables>} the variables that were set or cleared
+   *
+   * @throws {Error} when none of the files can be read or a file is invalid
+   */
+  async loadFiles(
+    aPaths: string | string[], aNames: string | string[] = '.env', aShortCircuit: boolean = true
+  ): Promise<UFPhpDotenvVariables> {
+    const filenames = UFPhpDotenv.getFilenames(aPaths, aNames);
+    const contents = await UFPhpDotenv.readFiles(filenames, aShortCircuit);
+    if (!contents.length) {
+      throw new Error('Unable to read any of the environment file(s) at [' + filenames.join(', ') + '].');
+    }
+    return this.load(contents.join('\n'));
+  }
+
+  /**
+   * Loads variables from files like {@link loadFiles}, but does nothing when none of the files exist (like
+   * `Dotenv::safeLoad`).
+   *
+   * @param {string|string[]} aPaths
+   *   Directories to look in
+   * @param {string|string[]} aNames
+   *   Names of the files
+   * @param {boolean} aShortCircuit
+   *   When true (default), only the first file that exists is loaded
+   *
+   * @return {Promise<UFPhpDotenvVariables>} the variables that were set or cleared
+   *
+   * @throws {Error} when a file is invalid
+   */
+  async safeLoadFiles(
+    aPaths: string | string[], aNames: string | string[] = '.env', aShortCircuit: boolean = true
+  ): Promise<UFPhpDotenvVariables> {
+    const contents = await UFPhpDotenv.readFiles(UFPhpDotenv.getFilenames(aPaths, aNames), aShortCircuit);
+    return contents.length ? this.load(contents.join('\n')) : {};
+  }
+
+  /**
+   * Parses dotenv source without using or changing the environment (like `Dotenv::parse`); references can only
+   * use variables defined earlier in the source.
+   *
+   * @param {string} aSource
+   *   Contents of a `.env` file
+   *
+   * @return {UFPhpDotenvVariables} parsed variables
+   *
+   * @throws {Error} when the source is invalid
+   */
+  static parse(aSource: string): UFPhpDotenvVariables {
+    return new UFPhpDotenv({env: {}, mutable: true}).load(aSource);
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Sets or clears a variable, respecting the `mutable` option.
+   *
+   * @return {boolean} true if the variable was changed
+   *
+   * @private
+   */
+  private write(aName: string, aValue: string | null): boolean {
+    // variables that existed before loading are kept (like `ENV[key] ||= value` in ruby dotenv)
+    if (!this.m_options.mutable && (this.get(aName) !== undefined) && !this.m_loaded.has(aName)) {
+      return false;
+    }
+    if (!this.m_options.populate) {
+      this.m_values.set(aName, aValue);
+    }
+    else if (aValue === null) {
+      delete this.m_env[aName];
+    }
+    else {
+      this.m_env[aName] = aValue;
+    }
+    if (aValue === null) {
+      this.m_loaded.delete(aName);
+    }
+    else {
+      this.m_loaded.add(aName);
+    }
+    return true;
+  }
+
+  /**
+   * Replaces variable references, starting with the last one.
+   *
+   * @private
+   */
+  private resolve(aValue: string, aPositions: number[]): string {
+    return aPositions.slice().reverse().reduce(
+      (result, position) => result.substring(0, position) + result.substring(position).replace(
+        VARIABLE, (match, name) => {
+          const value = this.get(name);
+          return value === undefined ? match : value;
+        }
+      ),
+      aValue
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Gets the combinations of paths and names.
+   *
+   * @private
+   */
+  private static getFilenames(aPaths: string | string[], aNames: string | string[]): string[] {
+    const names = Array.isArray(aNames) ? aNames : [aNames];
+    return (Array.isArray(aPaths) ? aPaths : [aPaths]).flatMap(path => names.map(name => join(path, name)));
+  }
+
+  /**
+   * Reads the files that exist.
+   *
+   * @private
+   */
+  private static async readFiles(aFilenames: string[], aShortCircuit: boolean): Promise<string[]> {
+    const result: string[] = [];
+    for (const filename of aFilenames) {
+      let content: string;
+      try {
+        content = (await readFile(filename)).toString('utf8');
+      } catch (error) {
+        continue;
+      }
+      result.push(content.replace(/^\ufeff/, ''));
+      if (aShortCircuit) {
+        break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Splits the source into entries, combining the lines of multi-line values and skipping comments.
+   *
+   * @private
+   */
+  private static parseEntries(aSource: string): DotenvEntry[] {
+    const entries: DotenvEntry[] = [];
+    let buffer: string[] | null = null;
+    for (const line of aSource.split(/\r\n|\n|\r/)) {
+      let entry = line;
+      if (buffer) {
+        buffer.push(line);
+        if (!UFPhpDotenv.isMultilineStop(line, false)) {
+          continue;
+        }
+        entry = buffer.join('\n');
+        buffer = null;
+      }
+      else if (line.includes('="') && !UFPhpDotenv.isMultilineStop(line, true)) {
+        buffer = [line];
+        continue;
+      }
+      const trimmed = entry.trim();
+      if (trimmed.length && !trimmed.startsWith('#')) {
+        entries.push(UFPhpDotenv.parseEntry(entry));
+      }
+    }
+    // an unterminated multi-line value is ignored
+    return entries;
+  }
+
+  /**
+   * Checks if a line closes a multi-line value.
+   *
+   * @param {string} aLine
+   *   Line to check
+   * @param {boolean} aStarted
+   *   True if the value starts on the line
+   *
+   * @private
+   */
+  private static isMultilineStop(aLine: string, aStarted: boolean): boolean {
+    if (aLine === '"') {
+      return true;
+    }
+    const count = (aLine.replace(/\\\\/g, '').match(/(?=[^\\]")/g) || []).length;
+    return aStarted ? count > 1 : count >= 1;
+  }
+
+  /**
+   * Parses an entry.
+   *
+   * @private
+   */
+  private static parseEntry(anEntry: string): DotenvEntry {
+    const separator = anEntry.indexOf('=');
+    let name = (separator < 0 ? anEntry : anEntry.substring(0, separator)).trim();
+    if (!name.length) {
+      UFPhpDotenv.fail('an unexpected equals', anEntry);
+    }
+    if ((name.length > 8) && name.startsWith('export') && /\s/.test(name[6])) {
+      name = name.substring(6).trimStart();
+    }
+    if ((name.length > 2) && ['"', '\''].includes(name[0]) && (name[0] === name[name.length - 1])) {
+      name = name.substring(1, name.length - 1);
+    }
+    if (!NAME.test(name)) {
+      UFPhpDotenv.fail('an invalid name', name);
+    }
+    if (separator < 0) {
+      return [name, null, []];
+    }
+    const [value, variables] = UFPhpDotenv.parseValue(anEntry.substring(separator + 1).trim());
+    return [name, value, variables];
+  }
+
+  /**
+   * Parses a value, returns the unquoted value and the positions of variable references.
+   *
+   * @private
+   */
+  private static parseValue(aValue: string): [string, number[]] {
+    let state = DotenvState.Initial;
+    let value = '';
+    const variables: number[] = [];
+    for (const token of aValue.match(TOKEN) || []) {
+      const [text, variable, next] = UFPhpDotenv.processToken(state, token, aValue);
+      if (variable) {
+        variables.push(value.length);
+      }
+      value += text;
+      state = next;
+    }
+    if ([DotenvState.SingleQuoted, DotenvState.DoubleQuoted, DotenvState.EscapeSequence].includes(state)) {
+      UFPhpDotenv.fail('a missing closing quote', aValue);
+    }
+    return [value, variables];
+  }
+
+  /**
+   * Processes a token of a value.
+   *
+   * @return {[string, boolean, DotenvState]} text to append, true if the text starts a variable reference and
+   *   the next state
+   *
+   * @private
+   */
+  private static processToken(aState: DotenvState, aToken: string, aValue: string): [string, boolean, DotenvState] {
+    const space = /^\s+$/.test(aToken);
+    switch (aState) {
+      case DotenvState.Initial:
+        if (aToken === '\'') {
+          return ['', false, DotenvState.SingleQuoted];
+        }
+        if (aToken === '"') {
+          return ['', false, DotenvState.DoubleQuoted];
+        }
+        if (aToken === '#') {
+          return ['', false, DotenvState.Comment];
+        }
+        return [aToken, aToken === '$', DotenvState.Unquoted];
+      case DotenvState.Unquoted:
+        if (aToken === '#') {
+          return ['', false, DotenvState.Comment];
+        }
+        if (space) {
+          return ['', false, DotenvState.Whitespace];
+        }
+        return [aToken, aToken === '$', DotenvState.Unquoted];
+      case DotenvState.SingleQuoted:
+        return aToken === '\'' ? ['', false, DotenvState.Whitespace] : [aToken, false, DotenvState.SingleQuoted];
+      case DotenvState.DoubleQuoted:
+        if (aToken === '"') {
+          return ['', false, DotenvState.Whitespace];
+        }
+        if (aToken === '\\') {
+          return ['', false, DotenvState.EscapeSequence];
+        }
+        return [aToken, aToken === '$', DotenvState.DoubleQuoted];
+      case DotenvState.EscapeSequence:
+        if ((aToken === '"') || (aToken === '\\') || (aToken === '$')) {
+          return [aToken, false, DotenvState.DoubleQuoted];
+        }
+        if (!ESCAPES.hasOwnProperty(aToken[0])) {
+          UFPhpDotenv.fail('an unexpected escape sequence', aValue);
+        }
+        return [ESCAPES[aToken[0]] + aToken.substring(1), false, DotenvState.DoubleQuoted];
+      case DotenvState.Whitespace:
+        if (aToken === '#') {
+          return ['', false, DotenvState.Comment];
+        }
+        if (!space) {
+          UFPhpDotenv.fail('unexpected whitespace', aValue);
+        }
+        return ['', false, DotenvState.Whitespace];
+      default:
+        return ['', false, DotenvState.Comment];
+    }
+  }
+
+  /**
+   * Throws an error using the message phpdotenv uses.
+   *
+   * @param {string} aCause
+   *   Description of the problem
+   * @param {string} aText
+   *   Text containing the problem, only the first line is included in the message
+   *
+   * @private
+   */
+  private static fail(aCause: string, aText: string): never {
+    throw new Error('Failed to parse dotenv file. Encountered ' + aCause + ' at [' + aText.split('\n')[0] + '].');
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,487 @@
+// region imports
+
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {IUFPhpSourceLocation, UFPhpEvaluator} from '../parser/UFPhpEvaluator.js';
+import {UFPhpPlaceholder} from '../parser/UFPhpPlaceholder.js';
+
+// endregion
+
+// region types
+
+/**
+ * The kinds of values a {@link IUFPhpSchema} can describe.
+ */
+export enum UFPhpSchemaKind {
+  String = 'string',
+  Integer = 'integer',
+  Number = 'number',
+  Boolean = 'boolean',
+  Enumeration = 'enumeration',
+  Object = 'object',
+  List = 'list',
+  Map = 'map',
+  Any = 'any',
+}
+
+/**
+ * Describes the expected value of a configuration entry. Use the static methods of {@link UFPhpSchema} to create
+ * schemas, so the type of the validated value can be inferred.
+ */
+export interface IUFPhpSchema<T = any> {
+  /**
+   * Kind of value
+   */
+  readonly kind: UFPhpSchemaKind;
+
+  /**
+   * True if the entry may be missing
+   */
+  readonly optional?: boolean;
+
+  /**
+   * True if {@link defaultValue} should be used when the entry is missing
+   */
+  readonly hasDefault?: boolean;
+
+  /**
+   * Value to use when the entry is missing
+   */
+  readonly defaultValue?: T;
+
+  /**
+   * True if the value may be null
+   */
+  readonly nullable?: boolean;
+
+  /**
+   * Allowed values for {@link UFPhpSchemaKind.Enumeration}
+   */
+  readonly values?: readonly any[];
+
+  /**
+   * Schemas of the entries for {@link UFPhpSchemaKind.Object}
+   */
+  readonly properties?: { readonly [key: string]: IUFPhpSchema };
+
+  /**
+   * When false, entries not in {@link properties} are reported as failure; else they are left out of the value
+   */
+  readonly allowUnknown?: boolean;
+
+  /**
+   * Schema of the items for {@link UFPhpSchemaKind.List} and of the values for {@link UFPhpSchemaKind.Map}
+   */
+  readonly items?: IUFPhpSchema;
+
+  /**
+   * Never set, only used by the compiler to infer the type of the validated value
+   */
+  readonly valueType?: T;
+}
+
+/**
+ * The type of the value described by a schema.
+ */
+export type UFPhpSchemaType<S> = S extends IUFPhpSchema<infer T> ? T : never;
+
+/**
+ * An entry that does not match its schema.
+ */
+export interface IUFPhpSchemaFailure {
+  /**
+   * Keys of the entry, empty for the returned value itself
+   */
+  readonly path: UFPhpArrayKey[];
+
+  /**
+   * Description of the problem
+   */
+  readonly message: string;
+
+  /**
+   * Location of the entry in the source or, if the entry is missing, of the array that should contain it; null
+   * when the location is not known
+   */
+  readonly location: IUFPhpSourceLocation | null;
+}
+
+/**
+ * Result of a successful validation.
+ */
+export interface IUFPhpSchemaValid<T> {
+  readonly valid: true;
+
+  /**
+   * Validated value, with defaults applied and php arrays converted to javascript objects and arrays
+   */
+  readonly value: T;
+}
+
+/**
+ * Result of a failed validation.
+ */
+export interface IUFPhpSchemaInvalid {
+  readonly valid: false;
+
+  /**
+   * All entries that do not match their schema
+   */
+  readonly failures: IUFPhpSchemaFailure[];
+
+  /**
+   * Readable description of the failures, one line per failure
+   */
+  readonly message: string;
+}
+
+/**
+ * Result of {@link UFPhpSchema.validate}.
+ */
+export type UFPhpSchemaResult<T> = IUFPhpSchemaValid<T> | IUFPhpSchemaInvalid;
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpSchema} creates schemas that describe configurations and validates values against them.
+ *
+ * @example
+ * const schema = UFPhpSchema.object({
+ *   debug: UFPhpSchema.optional(UFPhpSchema.boolean(), false),
+ *   driver: UFPhpSchema.enumeration('mysql', 'pgsql'),
+ *   hosts: UFPhpSchema.list(UFPhpSchema.string()),
+ * });
+ * const result = await UFPhp.parsePhpConfigTyped('config/database.php', schema);
+ * if (!result.valid) {
+ *   throw new Error(result.message);
+ * }
+ * // result.value is typed as {debug: boolean, driver: 'mysql' | 'pgsql', hosts: string[]}
+ */
+export class UFPhpSchema {
+  // region public methods
+
+  /**
+   * Creates a schema for a string.
+   *
+   * @return {IUFPhpSchema<string>} schema
+   */
+  static string(): IUFPhpSchema<string> {
+    return {kind: UFPhpSchemaKind.String};
+  }
+
+  /**
+   * Creates a schema for an integer.
+   *
+   * @return {IUFPhpSchema<number>} schema
+   */
+  static integer(): IUFPhpSchema<number> {
+    return {kind: UFPhpSchemaKind.Integer};
+  }
+
+  /**
+   * Creates a schema for a number (integer or float).
+   *
+   * @return {IUFPhpSchema<number>} schema
+   */
+  static number(): IUFPhpSchema<number> {
+    return {kind: UFPhpSchemaKind.Number};
+  }
+
+  /**
+   * Creates a schema for a boolean.
+   *
+   * @return {IUFPhpSchema<boolean>} schema
+   */
+  static boolean(): IUFPhpSchema<boolean> {
+    return {kind: UFPhpSchemaKind.Boolean};
+  }
+
+  /**
+   * Creates a schema for a value that must be one of a list of values.
+   *
+   * @param {Array} aValues
+   *   Allowed values (passed as separate arguments, so their literal types are kept)
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static enumeration<V extends string | number | boolean>(...aValues: V[]): IUFPhpSchema<V> {
+    return {kind: UFPhpSchemaKind.Enumeration, values: aValues};
+  }
+
+  /**
+   * Creates a schema for an array with known string keys.
+   *
+   * @param {object} aProperties
+   *   Schemas of the entries
+   * @param {boolean} anAllowUnknown
+   *   When false, entries that are not in aProperties are reported as failure
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static object<P extends { [key: string]: IUFPhpSchema }>(
+    aProperties: P, anAllowUnknown: boolean = true
+  ): IUFPhpSchema<{ [K in keyof P]: UFPhpSchemaType<P[K]> }> {
+    return {kind: UFPhpSchemaKind.Object, properties: aProperties, allowUnknown: anAllowUnknown};
+  }
+
+  /**
+   * Creates a schema for a php list (an array with the keys 0 to n - 1 in order).
+   *
+   * @param {IUFPhpSchema} anItem
+   *   Schema of the items
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static list<T>(anItem: IUFPhpSchema<T>): IUFPhpSchema<T[]> {
+    return {kind: UFPhpSchemaKind.List, items: anItem};
+  }
+
+  /**
+   * Creates a schema for an array with any keys and values of the same type.
+   *
+   * @param {IUFPhpSchema} aValue
+   *   Schema of the values
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static map<T>(aValue: IUFPhpSchema<T>): IUFPhpSchema<{ [key: string]: T }> {
+    return {kind: UFPhpSchemaKind.Map, items: aValue};
+  }
+
+  /**
+   * Creates a schema that accepts any value, including a {@link UFPhpPlaceholder}.
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static any(): IUFPhpSchema<any> {
+    return {kind: UFPhpSchemaKind.Any};
+  }
+
+  /**
+   * Makes an entry optional. When a default value is specified, it is used for a missing entry; else the
+   * entry is left out of the validated value.
+   *
+   * @param {IUFPhpSchema} aSchema
+   *   Schema of the entry
+   * @param {any} aDefault
+   *   Optional default value
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static optional<T>(aSchema: IUFPhpSchema<T>): IUFPhpSchema<T | undefined>;
+  static optional<T>(aSchema: IUFPhpSchema<T>, aDefault: T): IUFPhpSchema<T>;
+  static optional<T>(aSchema: IUFPhpSchema<T>, ...aDefault: T[]): IUFPhpSchema<T | undefined> {
+    return aDefault.length
+      ? {...aSchema, optional: true, hasDefault: true, defaultValue: aDefault[0]}
+      : {...aSchema, optional: true};
+  }
+
+  /**
+   * Allows null as value.
+   *
+   * @param {IUFPhpSchema} aSchema
+   *   Schema of the value
+   *
+   * @return {IUFPhpSchema} schema
+   */
+  static nullable<T>(aSchema: IUFPhpSchema<T>): IUFPhpSchema<T | null> {
+    return {...aSchema, nullable: true} as IUFPhpSchema<T | null>;
+  }
+
+  /**
+   * Validates a value. The value can be the result of {@link UFPhpEvaluator} (in any array mode) or a javascript
+   * value.
+   *
+   * @param {any} aValue
+   *   Value to validate
+   * @param {IUFPhpSchema} aSchema
+   *   Schema to validate with
+   * @param {UFPhpEvaluator} anEvaluator
+   *   When set, the evaluator that created the value; it is used to add the source location to the failures
+   *   (this requires {@link UFPhpArrayMode.PhpArray})
+   *
+   * @return {UFPhpSchemaResult} validated value or failures
+   */
+  static validate<S extends IUFPhpSchema>(
+    aValue: any, aSchema: S, anEvaluator?: UFPhpEvaluator
+  ): UFPhpSchemaResult<UFPhpSchemaType<S>> {
+    const failures: IUFPhpSchemaFailure[] = [];
+    const value = UFPhpSchema.validateValue(aValue, aSchema, [], null, failures, anEvaluator);
+    if (failures.length) {
+      return {valid: false, failures, message: failures.map(failure => UFPhpSchema.formatFailure(failure)).join('\n')};
+    }
+    return {valid: true, value};
+  }
+
+  /**
+   * Converts a failure to a readable text.
+   *
+   * @param {IUFPhpSchemaFailure} aFailure
+   *   Failure to convert
+   *
+   * @return {string} text like `database.port: expected integer, got string at /app/config.php:12:5`
+   */
+  static formatFailure(aFailure: IUFPhpSchemaFailure): string {
+    const path = aFailure.path.length ? aFailure.path.join('.') : '(root)';
+    const location = aFailure.location
+      ? ' at ' + (aFailure.location.filename || '(source)') + ':' + aFailure.location.line + ':' +
+        aFailure.location.column
+      : '';
+    return path + ': ' + aFailure.message + location;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Validates a value and converts it.
+   *
+   * @param {any} aValue
+   *   Value to validate
+   * @param {IUFPhpSchema} aSchema
+   *   Schema to validate with
+   * @param {UFPhpArrayKey[]} aPath
+   *   Path to the value
+   * @param {IUFPhpSourceLocation|null} aLocation
+   *   Location of the value
+   * @param {IUFPhpSchemaFailure[]} aFailures
+   *   Failures are added to this list
+   * @param {UFPhpEvaluator} anEvaluator
+   *   Evaluator to get locations from
+   *
+   * @return {any} converted value
+   *
+   * @private
+   */
+  private static validateValue(
+    aValue: any,
+    aSchema: IUFPhpSchema,
+    aPath: UFPhpArrayKey[],
+    aLocation: IUFPhpSourceLocation | null,
+    aFailures: IUFPhpSchemaFailure[],
+    anEvaluator?: UFPhpEvaluator
+  ): any {
+    const fail = (aMessage: string): undefined => {
+      aFailures.push({path: aPath, message: aMessage, location: aLocation});
+      return undefined;
+    };
+    if (aSchema.kind === UFPhpSchemaKind.Any) {
+      return aValue instanceof UFPhpArray ? aValue.toNative() : aValue;
+    }
+    if (aValue instanceof UFPhpPlaceholder) {
+      return fail('expression ' + aValue.code + ' could not be evaluated');
+    }
+    if (aValue === null) {
+      return aSchema.nullable ? null : fail('expected ' + UFPhpSchema.describeSchema(aSchema) + ', got null');
+    }
+    const mismatch = () => fail(
+      'expected ' + UFPhpSchema.describeSchema(aSchema) + ', got ' + UFPhpSchema.describeValue(aValue)
+    );
+    switch (aSchema.kind) {
+      case UFPhpSchemaKind.String:
+        return typeof aValue === 'string' ? aValue : mismatch();
+      case UFPhpSchemaKind.Integer:
+        return Number.isInteger(aValue) ? aValue : mismatch();
+      case UFPhpSchemaKind.Number:
+        return typeof aValue === 'number' ? aValue : mismatch();
+      case UFPhpSchemaKind.Boolean:
+        return typeof aValue === 'boolean' ? aValue : mismatch();
+      case UFPhpSchemaKind.Enumeration:
+        return aSchema.values!.includes(aValue)
+          ? aValue
+          : fail(
+            'expected one of ' + aSchema.values!.map(value => JSON.stringify(value)).join(', ') + ', got ' +
+            JSON.stringify(aValue)
+          );
+    }
+    const array = UFPhpArray.fromNative(aValue);
+    if (!(array instanceof UFPhpArray)) {
+      return mismatch();
+    }
+    const validateEntry = (aKey: UFPhpArrayKey, anEntrySchema: IUFPhpSchema) => UFPhpSchema.validateValue(
+      array.get(aKey),
+      anEntrySchema,
+      [...aPath, aKey],
+      anEvaluator?.getLocation(array, aKey) || aLocation,
+      aFailures,
+      anEvaluator
+    );
+    if (aSchema.kind === UFPhpSchemaKind.List) {
+      return array.isList() ? Array.from(array.keys(), key => validateEntry(key, aSchema.items!)) : mismatch();
+    }
+    const result: { [key: string]: any } = {};
+    if (aSchema.kind === UFPhpSchemaKind.Map) {
+      array.forEach((value, key) => result[key] = validateEntry(key, aSchema.items!));
+      return result;
+    }
+    const properties = aSchema.properties!;
+    Object.keys(properties).forEach(key => {
+      const property = properties[key];
+      if (array.has(key)) {
+        result[key] = validateEntry(key, property);
+      }
+      else if (property.hasDefault) {
+        result[key] = property.defaultValue;
+      }
+      else if (!property.optional) {
+        aFailures.push({
+          path: [...aPath, key],
+          message: 'missing required entry',
+          location: anEvaluator?.getLocation(array) || aLocation,
+        });
+      }
+    });
+    if (aSchema.allowUnknown === false) {
+      array.forEach((value, key) => {
+        if (!properties.hasOwnProperty(key)) {
+          aFailures.push({
+            path: [...aPath, key],
+            message: 'unknown entry',
+            location: anEvaluator?.getLocation(array, key) || aLocation,
+          });
+        }
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Gets a description of a schema for use in failure messages.
+   *
+   * @private
+   */
+  private static describeSchema(aSchema: IUFPhpSchema): string {
+    switch (aSchema.kind) {
+      case UFPhpSchemaKind.Object:
+      case UFPhpSchemaKind.Map:
+        return 'array';
+      default:
+        return aSchema.kind;
+    }
+  }
+
+  /**
+   * Gets the php type of a value for use in failure messages.
+   *
+   * @private
+   */
+  private static describeValue(aValue: any): string {
+    switch (typeof aValue) {
+      case 'number':
+        return Number.isInteger(aValue) ? 'integer' : 'float';
+      case 'object':
+        if (aValue instanceof UFPhpArray) {
+          return aValue.isList() ? 'list' : 'array';
+        }
+        return Array.isArray(aValue) ? 'list' : 'array';
+      default:
+        return typeof aValue;
+    }
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,403 @@
+// region imports
+
+import {writeFile} from 'fs/promises';
+import {IUFPhpConfigOptions, UFPhp} from '../tools/UFPhp.js';
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {UFPhpArrayMode, UFPhpEvaluator} from '../parser/UFPhpEvaluator.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Order in which primitive types are written in a union
+ */
+const PRIMITIVE_ORDER = ['boolean', 'number', 'string', 'null'];
+
+/**
+ * Property names that can be written without quotes
+ */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// endregion
+
+// region local types
+
+/**
+ * Entry of an array that is used as object.
+ */
+interface IProperty {
+  /**
+   * Types of the values
+   */
+  readonly shape: IShape;
+
+  /**
+   * Number of arrays that contained the entry
+   */
+  count: number;
+
+  /**
+   * Doc comment of the first entry that has one
+   */
+  docComment: string | null;
+}
+
+/**
+ * The combined types of a set of values.
+ */
+interface IShape {
+  /**
+   * Names of primitive types
+   */
+  readonly primitives: Set<string>;
+
+  /**
+   * Entries of arrays with keys or null if no such array was found
+   */
+  properties: Map<UFPhpArrayKey, IProperty> | null;
+
+  /**
+   * Number of arrays with keys
+   */
+  objectCount: number;
+
+  /**
+   * Items of lists or null if no list with items was found
+   */
+  items: IShape | null;
+
+  /**
+   * Number of empty arrays
+   */
+  emptyCount: number;
+}
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpTypeGenerator}.
+ */
+export interface IUFPhpTypeGeneratorOptions extends IUFPhpConfigOptions {
+  /**
+   * Name of the generated interface, default is `IConfig`.
+   */
+  name?: string;
+
+  /**
+   * Text used for one level of indentation, default is two spaces.
+   */
+  indent?: string;
+
+  /**
+   * When true, all properties are declared readonly.
+   */
+  readonly?: boolean;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpTypeGenerator} creates a typescript declaration describing the shape of one or more php
+ * configuration files.
+ *
+ * Every file that is added is parsed with {@link UFPhp.parsePhpConfig} and merged with the shape of the files
+ * added before, so the files of several environments can be combined: entries that are missing in some files are
+ * declared optional and entries with different types get a union type. Php lists become typescript arrays, other
+ * php arrays become object types. Doc comments before entries are copied to the declaration (`@var` tags are
+ * left out). Values that could not be evaluated are declared as `unknown`.
+ *
+ * @example
+ * const generator = new UFPhpTypeGenerator({name: 'IAppConfig'});
+ * await generator.addFile('config/app.php');
+ * await generator.addFile('config/app_production.php');
+ * await generator.writeFile('src/types/IAppConfig.d.ts');
+ */
+export class UFPhpTypeGenerator {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpTypeGeneratorOptions;
+
+  /**
+   * Combined shape of all added values
+   *
+   * @private
+   */
+  private m_shape: IShape = UFPhpTypeGenerator.createShape();
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpTypeGenerator}.
+   *
+   * @param {IUFPhpTypeGeneratorOptions} anOptions
+   *   Options for parsing and generating
+   */
+  constructor(anOptions: IUFPhpTypeGeneratorOptions = {}) {
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Parses a configuration file and adds its shape.
+   *
+   * @param {string} aFilename
+   *   File to add
+   *
+   * @return {UFPhpTypeGenerator} this instance
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {Error} when the file can not be read
+   */
+  async addFile(aFilename: string): Promise<UFPhpTypeGenerator> {
+    const result = await UFPhp.parsePhpConfig(aFilename, {...this.m_options, arrayMode: UFPhpArrayMode.PhpArray});
+    return this.addValue(result.value, result.evaluator);
+  }
+
+  /**
+   * Adds the shape of a value.
+   *
+   * @param {any} aValue
+   *   Value to add
+   * @param {UFPhpEvaluator|null} anEvaluator
+   *   When set, the evaluator that created the value (using {@link UFPhpArrayMode.PhpArray}); it is used to get
+   *   the doc comments
+   *
+   * @return {UFPhpTypeGenerator} this instance
+   */
+  addValue(aValue: any, anEvaluator: UFPhpEvaluator | null = null): UFPhpTypeGenerator {
+    UFPhpTypeGenerator.addToShape(this.m_shape, UFPhpArray.fromNative(aValue), anEvaluator);
+    return this;
+  }
+
+  /**
+   * Creates the typescript declaration for the added values.
+   *
+   * @return {string} typescript source exporting an interface (or a type, if the configuration does not return
+   *   an array with keys)
+   */
+  generate(): string {
+    const name = this.m_options.name || 'IConfig';
+    const type = this.createType(this.m_shape, '');
+    const header = '// generated from php configuration, do not edit\n\n';
+    const isObject = !this.m_shape.primitives.size && !this.m_shape.items && this.m_shape.properties;
+    return header + (
+      isObject ? 'export interface ' + name + ' ' + type + '\n' : 'export type ' + name + ' = ' + type + ';\n'
+    );
+  }
+
+  /**
+   * Writes the typescript declaration to a file.
+   *
+   * @param {string} aFilename
+   *   File to write (usually with `.d.ts` extension)
+   */
+  async writeFile(aFilename: string): Promise<void> {
+    await writeFile(aFilename, this.generate());
+  }
+
+  /**
+   * Creates the typescript declaration for one or more configuration files.
+   *
+   * @param {string[]} aFilenames
+   *   Files to combine, for example the configurations for several environments
+   * @param {IUFPhpTypeGeneratorOptions} anOptions
+   *   Options for parsing and generating
+   *
+   * @return {string} typescript source
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {Error} when a file can not be read
+   */
+  static async generateFromFiles(aFilenames: string[], anOptions: IUFPhpTypeGeneratorOptions = {}): Promise<string> {
+    const generator = new UFPhpTypeGenerator(anOptions);
+    for (const filename of aFilenames) {
+      await generator.addFile(filename);
+    }
+    return generator.generate();
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Creates the type for a shape.
+   *
+   * @param {IShape} aShape
+   *   Shape to convert
+   * @param {string} anIndent
+   *   Indentation of the line the type starts on
+   *
+   * @return {string} typescript type
+   *
+   * @private
+   */
+  private createType(aShape: IShape, anIndent: string): string {
+    if (aShape.primitives.has('unknown')) {
+      return 'unknown';
+    }
+    const types: string[] = [];
+    if (aShape.properties) {
+      types.push(this.createObjectType(aShape, anIndent));
+    }
+    if (aShape.items) {
+      const item = this.createType(aShape.items, anIndent);
+      types.push((UFPhpTypeGenerator.isUnion(aShape.items) ? '(' + item + ')' : item) + '[]');
+    }
+    else if (aShape.emptyCount && !aShape.properties) {
+      types.push('unknown[]');
+    }
+    PRIMITIVE_ORDER.filter(primitive => aShape.primitives.has(primitive)).forEach(primitive => types.push(primitive));
+    return types.length ? types.join(' | ') : 'unknown';
+  }
+
+  /**
+   * Creates an object type.
+   *
+   * @private
+   */
+  private createObjectType(aShape: IShape, anIndent: string): string {
+    const indent = anIndent + (this.m_options.indent === undefined ? '  ' : this.m_options.indent);
+    const modifier = this.m_options.readonly ? 'readonly ' : '';
+    // empty arrays are treated as objects without entries
+    const count = aShape.objectCount + aShape.emptyCount;
+    let result = '{\n';
+    aShape.properties!.forEach((property, key) => {
+      if (property.docComment) {
+        result += UFPhpTypeGenerator.convertDocComment(property.docComment, indent);
+      }
+      const name = (typeof key === 'number') || IDENTIFIER.test(key)
+        ? key
+        : '\'' + key.replace(/\\/g, '\\\\').replace(/'/g, '\\\'') + '\'';
+      const optional = property.count < count ? '?' : '';
+      result += indent + modifier + name + optional + ': ' + this.createType(property.shape, indent) + ';\n';
+    });
+    return result + anIndent + '}';
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Creates an empty shape.
+   *
+   * @private
+   */
+  private static createShape(): IShape {
+    return {primitives: new Set(), properties: null, objectCount: 0, items: null, emptyCount: 0};
+  }
+
+  /**
+   * Adds a value to a shape.
+   *
+   * @private
+   */
+  private static addToShape(aShape: IShape, aValue: any, anEvaluator: UFPhpEvaluator | null): void {
+    if (!(aValue instanceof UFPhpArray)) {
+      aShape.primitives.add(UFPhpTypeGenerator.getPrimitive(aValue));
+      return;
+    }
+    if (!aValue.size) {
+      aShape.emptyCount++;
+      return;
+    }
+    if (aValue.isList()) {
+      aShape.items = aShape.items || UFPhpTypeGenerator.createShape();
+      aValue.forEach(item => UFPhpTypeGenerator.addToShape(aShape.items!, item, anEvaluator));
+      return;
+    }
+    aShape.objectCount++;
+    const properties = aShape.properties || new Map();
+    aShape.properties = properties;
+    aValue.forEach((value, key) => {
+      let property = properties.get(key);
+      if (!property) {
+        property = {shape: UFPhpTypeGenerator.createShape(), count: 0, docComment: null};
+        properties.set(key, property);
+      }
+      property.count++;
+      property.docComment = property.docComment || anEvaluator?.getDocComment(aValue, key) || null;
+      UFPhpTypeGenerator.addToShape(property.shape, value, anEvaluator);
+    });
+  }
+
+  /**
+   * Gets the typescript type of a value that is not an array.
+   *
+   * @private
+   */
+  private static getPrimitive(aValue: any): string {
+    switch (typeof aValue) {
+      case 'boolean':
+      case 'number':
+      case 'string':
+        return typeof aValue;
+      case 'object':
+        return aValue === null ? 'null' : 'unknown';
+      default:
+        return 'unknown';
+    }
+  }
+
+  /**
+   * Checks if the type created for a shape is a union.
+   *
+   * @private
+   */
+  private static isUnion(aShape: IShape): boolean {
+    if (aShape.primitives.has('unknown')) {
+      return false;
+    }
+    const arrays = aShape.properties ? 1 + (aShape.items ? 1 : 0) : (aShape.items || aShape.emptyCount ? 1 : 0);
+    return arrays + aShape.primitives.size > 1;
+  }
+
+  /**
+   * Converts a php doc comment to a TSDoc comment.
+   *
+   * @private
+   */
+  private static convertDocComment(aComment: string, anIndent: string): string {
+    const lines = aComment
+      .replace(/^\/\*\*/, '')
+      .replace(/\*\/$/, '')
+      .split(/\r?\n/)
+      .map(line => line.replace(/^\s*(\* ?)?/, '').replace(/\s+$/, ''))
+      .filter(line => !/^@var\b/.test(line));
+    // remove empty lines at the start and end
+    while (lines.length && !lines[0].trim()) {
+      lines.shift();
+    }
+    while (lines.length && !lines[lines.length - 1].trim()) {
+      lines.pop();
+    }
+    if (!lines.length) {
+      return '';
+    }
+    return anIndent + '/**\n' +
+      lines.map(line => anIndent + (line ? ' * ' + line.replace(/\*\//g, '*\\/') : ' *') + '\n').join('') +
+      anIndent + ' */\n';
+  }
+
+  // endregion
+}
+
+// endregion
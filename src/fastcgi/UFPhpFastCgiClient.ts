@@ -0,0 +1,740 @@
+// region imports
+
+import {STATUS_CODES} from 'http';
+import {Readable} from 'stream';
+import {IUFPhpFastCgiConnectionOptions, UFPhpFastCgiConnection} from './UFPhpFastCgiConnection.js';
+import {UFPhpFastCgiError} from './UFPhpFastCgiError.js';
+import {IUFPhpFastCgiEndRequest, UFPhpFastCgiProtocolStatus} from './UFPhpFastCgiProtocol.js';
+import {UFPhpQuery} from '../tools/UFPhpQuery.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default maximum number of connections
+ */
+const DEFAULT_MAX_CONNECTIONS = 8;
+
+/**
+ * Default time in milliseconds a request may take
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Default time in milliseconds an unused connection is kept open, below the default `pm.process_idle_timeout` (10
+ * seconds) after which php-fpm ends idle workers and closes their connections
+ */
+const DEFAULT_IDLE_TIMEOUT = 5000;
+
+/**
+ * Reasons for the protocol status values other than {@link UFPhpFastCgiProtocolStatus.RequestComplete}
+ */
+const PROTOCOL_STATUS_REASONS: { [status: number]: string } = {
+  [UFPhpFastCgiProtocolStatus.CantMultiplexConnection]: 'Server can not handle multiple requests per connection',
+  [UFPhpFastCgiProtocolStatus.Overloaded]: 'Server is overloaded',
+  [UFPhpFastCgiProtocolStatus.UnknownRole]: 'Server does not support the responder role',
+};
+
+// endregion
+
+// region local types
+
+/**
+ * A request waiting for a connection.
+ */
+interface IUFPhpFastCgiWaiting {
+  /**
+   * Called with the connection to use
+   */
+  resolve: (aConnection: UFPhpFastCgiConnection) => void;
+
+  /**
+   * Called when no connection could be opened
+   */
+  reject: (anError: Error) => void;
+}
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpFastCgiClient}.
+ */
+export interface IUFPhpFastCgiClientOptions extends IUFPhpFastCgiConnectionOptions {
+  /**
+   * Maximum number of open connections, default is 8. Requests wait for a connection when all connections are in
+   * use.
+   */
+  maxConnections?: number;
+
+  /**
+   * Maximum number of requests sent over one connection at the same time, default is 1. Only use a larger value
+   * when the server supports multiplexing (php-fpm does not).
+   */
+  maxRequestsPerConnection?: number;
+
+  /**
+   * When true (default) connections are kept open and reused for other requests.
+   */
+  keepAlive?: boolean;
+
+  /**
+   * Time in milliseconds a request may take (including waiting for a connection) before it fails, default is
+   * 30000. Use 0 to wait forever.
+   */
+  timeout?: number;
+
+  /**
+   * Time in milliseconds an unused connection is kept open, default is 5000. Unused connections do not keep the
+   * process running. Use a value below the time after which the server closes idle connections (for php-fpm
+   * `pm.process_idle_timeout`), else a request might be sent over a connection the server is closing.
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Status and headers of a response.
+ */
+export interface IUFPhpFastCgiResponseHead {
+  /**
+   * Http status from the `Status` header, 200 if the header is missing
+   */
+  readonly status: number;
+
+  /**
+   * Text of the status from the `Status` header or the default text for the status
+   */
+  readonly statusText: string;
+
+  /**
+   * Headers mapped by lower case name (without the `Status` header); every header can occur multiple times
+   */
+  readonly headers: { [name: string]: string[] };
+}
+
+/**
+ * Response to a request.
+ */
+export interface IUFPhpFastCgiResponse extends IUFPhpFastCgiResponseHead {
+  /**
+   * Body of the response; empty when the body was passed to {@link IUFPhpFastCgiRequestOptions.onStdout}
+   */
+  readonly body: Buffer;
+
+  /**
+   * Output the server wrote to stderr (for php-fpm the warnings and errors that were logged)
+   */
+  readonly stderr: string;
+
+  /**
+   * Exit status of the application
+   */
+  readonly appStatus: number;
+}
+
+/**
+ * Options for {@link UFPhpFastCgiClient.request}.
+ */
+export interface IUFPhpFastCgiRequestOptions {
+  /**
+   * Data to send as request body. A stream is sent while it is being read; the `CONTENT_LENGTH` param must be set
+   * by the caller.
+   */
+  stdin?: string | Buffer | Readable;
+
+  /**
+   * Time in milliseconds the request may take, overrides {@link IUFPhpFastCgiClientOptions.timeout}.
+   */
+  timeout?: number;
+
+  /**
+   * Called when the status and headers of the response have been received.
+   */
+  onHeaders?: (aHead: IUFPhpFastCgiResponseHead) => void;
+
+  /**
+   * Called with every part of the body when it is received; when set, the body is not collected in the response.
+   */
+  onStdout?: (aData: Buffer) => void;
+
+  /**
+   * Called with every part of the output the server wrote to stderr when it is received.
+   */
+  onStderr?: (aData: Buffer) => void;
+}
+
+/**
+ * Options for {@link UFPhpFastCgiClient.run}.
+ */
+export interface IUFPhpFastCgiRunOptions extends IUFPhpFastCgiRequestOptions {
+  /**
+   * Http method, default is `GET`.
+   */
+  method?: string;
+
+  /**
+   * Query string or data to build the query string from (see {@link UFPhpQuery.build}).
+   */
+  query?: string | { [key: string]: any };
+
+  /**
+   * Content type of the request body.
+   */
+  contentType?: string;
+
+  /**
+   * Additional params, they override the params {@link UFPhpFastCgiClient.run} sets.
+   */
+  params?: { [name: string]: string | number | Buffer };
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFastCgiClient} sends requests to a FastCGI server like php-fpm, over TCP or a unix socket. Use it
+ * to call php scripts in an existing php-fpm pool instead of starting the php cli interpreter for every call.
+ *
+ * The client keeps a pool of connections: connections are reused when {@link IUFPhpFastCgiClientOptions.keepAlive}
+ * is true, requests wait when all connections are in use and connections that were not used for a while are
+ * closed. Requests that take too long fail with a {@link UFPhpFastCgiError}.
+ *
+ * The output of the script is parsed as CGI response: the `Status` header sets the http status; the other headers
+ * and the body are returned separately. Stdout and stderr can be streamed with callbacks.
+ *
+ * @example
+ * const client = new UFPhpFastCgiClient({path: '/run/php/php8.2-fpm.sock'});
+ * const response = await client.run('/var/www/app/api.php', {method: 'POST', stdin: JSON.stringify(data)});
+ * const result = JSON.parse(response.body.toString());
+ */
+export class UFPhpFastCgiClient {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpFastCgiClientOptions;
+
+  /**
+   * Open connections
+   *
+   * @private
+   */
+  private m_connections: UFPhpFastCgiConnection[] = [];
+
+  /**
+   * Number of requests using a connection, mapped by connection
+   *
+   * @private
+   */
+  private readonly m_usage: Map<UFPhpFastCgiConnection, number> = new Map();
+
+  /**
+   * Timers that close unused connections, mapped by connection
+   *
+   * @private
+   */
+  private readonly m_idleTimers: Map<UFPhpFastCgiConnection, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Requests waiting for a connection
+   *
+   * @private
+   */
+  private m_waiting: IUFPhpFastCgiWaiting[] = [];
+
+  /**
+   * Number of connections being opened
+   *
+   * @private
+   */
+  private m_connecting: number = 0;
+
+  /**
+   * True after {@link close} was called
+   *
+   * @private
+   */
+  private m_closed: boolean = false;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFastCgiClient}.
+   *
+   * @param {IUFPhpFastCgiClientOptions} anOptions
+   *   Options to use
+   */
+  constructor(anOptions: IUFPhpFastCgiClientOptions = {}) {
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Address of the server: the path of the unix socket or host and port.
+   */
+  get address(): string {
+    return UFPhpFastCgiConnection.getAddress(this.m_options);
+  }
+
+  /**
+   * Sends a request.
+   *
+   * @param {object} aParams
+   *   Params (CGI environment variables) of the request, php-fpm requires at least `SCRIPT_FILENAME` and
+   *   `REQUEST_METHOD`
+   * @param {IUFPhpFastCgiRequestOptions} anOptions
+   *   Request body, timeout and callbacks
+   *
+   * @return {IUFPhpFastCgiResponse} the response
+   *
+   * @throws {UFPhpFastCgiError} when the server can not be reached, the request times out, the connection is
+   *   closed before the request ended or the server rejects the request
+   */
+  request(
+    aParams: { [name: string]: string | number | Buffer }, anOptions: IUFPhpFastCgiRequestOptions = {}
+  ): Promise<IUFPhpFastCgiResponse> {
+    return new Promise((aResolve, aReject) => {
+      const timeout = anOptions.timeout === undefined ? this.timeout : anOptions.timeout;
+      const stderr: Buffer[] = [];
+      const body: Buffer[] = [];
+      let head: IUFPhpFastCgiResponseHead | null = null;
+      let headData = Buffer.alloc(0);
+      let connection: UFPhpFastCgiConnection | null = null;
+      let requestId = 0;
+      let finished = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const finish = (aReason: string | null, anEnd?: IUFPhpFastCgiEndRequest) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (connection) {
+          this.releaseConnection(connection, requestId, aReason === null);
+        }
+        const stderrText = Buffer.concat(stderr).toString('utf8');
+        if (aReason !== null) {
+          aReject(new UFPhpFastCgiError(aReason, this.address, stderrText));
+        }
+        else if (anEnd && (anEnd.protocolStatus !== UFPhpFastCgiProtocolStatus.RequestComplete)) {
+          aReject(new UFPhpFastCgiError(
+            PROTOCOL_STATUS_REASONS[anEnd.protocolStatus] || 'Unknown protocol status ' + anEnd.protocolStatus,
+            this.address,
+            stderrText
+          ));
+        }
+        else if (!head) {
+          aReject(new UFPhpFastCgiError('Response does not contain headers', this.address, stderrText));
+        }
+        else {
+          aResolve({...head, body: Buffer.concat(body), stderr: stderrText, appStatus: anEnd ? anEnd.appStatus : 0});
+        }
+      };
+      const addBody = (aData: Buffer) => {
+        if (!aData.length) {
+          return;
+        }
+        if (anOptions.onStdout) {
+          anOptions.onStdout(aData);
+        }
+        else {
+          body.push(aData);
+        }
+      };
+      if (timeout > 0) {
+        timer = setTimeout(() => finish('Request did not finish within ' + timeout + ' ms'), timeout);
+      }
+      this.acquireConnection().then(
+        acquired => {
+          if (finished) {
+            this.releaseConnection(acquired, 0, true);
+            return;
+          }
+          connection = acquired;
+          requestId = connection.begin(aParams, this.keepAlive, {
+            stdout: data => {
+              if (head) {
+                addBody(data);
+                return;
+              }
+              headData = Buffer.concat([headData, data]);
+              const end = UFPhpFastCgiClient.findHeadEnd(headData);
+              if (end) {
+                head = UFPhpFastCgiClient.parseHead(headData.subarray(0, end.offset));
+                if (anOptions.onHeaders) {
+                  anOptions.onHeaders(head);
+                }
+                addBody(headData.subarray(end.offset + end.length));
+              }
+            },
+            stderr: data => {
+              stderr.push(data);
+              if (anOptions.onStderr) {
+                anOptions.onStderr(data);
+              }
+            },
+            end: end => finish(null, end),
+            error: reason => finish(reason),
+          });
+          return this.sendStdin(connection, requestId, anOptions.stdin);
+        }
+      ).catch(
+        error => finish(error instanceof UFPhpFastCgiError ? error.reason : error.message)
+      );
+    });
+  }
+
+  /**
+   * Runs a php script with the params a web server would set for a request to the script.
+   *
+   * @param {string} aFilename
+   *   Path of the script on the server (it is not resolved, since the server might use another file system)
+   * @param {IUFPhpFastCgiRunOptions} anOptions
+   *   Request data, timeout and callbacks
+   *
+   * @return {IUFPhpFastCgiResponse} the response
+   *
+   * @throws {UFPhpFastCgiError} when the server can not be reached, the request times out, the connection is
+   *   closed before the request ended or the server rejects the request
+   */
+  run(aFilename: string, anOptions: IUFPhpFastCgiRunOptions = {}): Promise<IUFPhpFastCgiResponse> {
+    const query = typeof anOptions.query === 'object' ? UFPhpQuery.build(anOptions.query) : anOptions.query || '';
+    const scriptName = '/' + aFilename.split('/').pop();
+    const params: { [name: string]: string | number | Buffer } = {
+      'GATEWAY_INTERFACE': 'CGI/1.1',
+      'SERVER_SOFTWARE': 'Node.js',
+      'SERVER_PROTOCOL': 'HTTP/1.1',
+      'SERVER_NAME': 'localhost',
+      'REMOTE_ADDR': '127.0.0.1',
+      'REQUEST_METHOD': (anOptions.method || 'GET').toUpperCase(),
+      'SCRIPT_FILENAME': aFilename,
+      'SCRIPT_NAME': scriptName,
+      'REQUEST_URI': scriptName + (query ? '?' + query : ''),
+      'QUERY_STRING': query,
+    };
+    if (anOptions.contentType) {
+      params['CONTENT_TYPE'] = anOptions.contentType;
+    }
+    if ((typeof anOptions.stdin === 'string') || Buffer.isBuffer(anOptions.stdin)) {
+      params['CONTENT_LENGTH'] = Buffer.byteLength(anOptions.stdin);
+    }
+    return this.request({...params, ...anOptions.params}, anOptions);
+  }
+
+  /**
+   * Closes all connections. Requests that are waiting for a connection or running fail; new requests fail
+   * immediately.
+   */
+  close(): void {
+    this.m_closed = true;
+    const waiting = this.m_waiting;
+    this.m_waiting = [];
+    waiting.forEach(entry => entry.reject(new UFPhpFastCgiError('Client was closed', this.address)));
+    this.m_connections.forEach(connection => this.closeConnection(connection));
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Time in milliseconds a request may take.
+   *
+   * @private
+   */
+  private get timeout(): number {
+    return this.m_options.timeout === undefined ? DEFAULT_TIMEOUT : this.m_options.timeout;
+  }
+
+  /**
+   * True if connections are reused.
+   *
+   * @private
+   */
+  private get keepAlive(): boolean {
+    return this.m_options.keepAlive === undefined ? true : this.m_options.keepAlive;
+  }
+
+  /**
+   * Maximum number of open connections.
+   *
+   * @private
+   */
+  private get maxConnections(): number {
+    return Math.max(1, this.m_options.maxConnections || DEFAULT_MAX_CONNECTIONS);
+  }
+
+  /**
+   * Maximum number of requests sent over one connection at the same time.
+   *
+   * @private
+   */
+  private get maxRequestsPerConnection(): number {
+    return Math.max(1, this.m_options.maxRequestsPerConnection || 1);
+  }
+
+  /**
+   * Time in milliseconds an unused connection is kept open.
+   *
+   * @private
+   */
+  private get idleTimeout(): number {
+    return this.m_options.idleTimeout === undefined ? DEFAULT_IDLE_TIMEOUT : this.m_options.idleTimeout;
+  }
+
+  /**
+   * Gets a connection that can be used for a request.
+   *
+   * @return {UFPhpFastCgiConnection} connection
+   *
+   * @throws {UFPhpFastCgiError} when the client was closed or no connection could be opened
+   *
+   * @private
+   */
+  private acquireConnection(): Promise<UFPhpFastCgiConnection> {
+    if (this.m_closed) {
+      return Promise.reject(new UFPhpFastCgiError('Client was closed', this.address));
+    }
+    return new Promise((aResolve, aReject) => {
+      this.m_waiting.push({resolve: aResolve, reject: aReject});
+      this.processWaiting();
+    });
+  }
+
+  /**
+   * Passes a connection back to the pool after a request finished.
+   *
+   * @param {UFPhpFastCgiConnection} aConnection
+   *   Connection that was used
+   * @param {number} aRequestId
+   *   Request that used the connection, 0 if the connection was not used
+   * @param {boolean} aCompleted
+   *   True if the request completed, false if it failed or was aborted
+   *
+   * @private
+   */
+  private releaseConnection(aConnection: UFPhpFastCgiConnection, aRequestId: number, aCompleted: boolean): void {
+    const usage = (this.m_usage.get(aConnection) || 1) - 1;
+    this.m_usage.set(aConnection, usage);
+    // only a connection that is shared by multiple requests is kept when aborting, since servers that do not
+    // support multiplexing might ignore the abort
+    const aborted = !aCompleted && (aRequestId > 0);
+    if (aborted && (this.maxRequestsPerConnection > 1)) {
+      aConnection.abort(aRequestId);
+    }
+    if (
+      aConnection.isClosed || (aborted && (this.maxRequestsPerConnection === 1)) ||
+      (!usage && (!this.keepAlive || this.m_closed))
+    ) {
+      this.closeConnection(aConnection);
+    }
+    else if (!usage) {
+      const timer = setTimeout(() => this.closeConnection(aConnection), this.idleTimeout);
+      timer.unref();
+      this.m_idleTimers.set(aConnection, timer);
+      aConnection.unref();
+    }
+    this.processWaiting();
+  }
+
+  /**
+   * Passes connections to waiting requests, opening new connections when possible.
+   *
+   * @private
+   */
+  private processWaiting(): void {
+    this.m_connections = this.m_connections.filter(connection => !connection.isClosed);
+    while (this.m_waiting.length) {
+      const connection = this.m_connections.find(
+        connection => (this.m_usage.get(connection) || 0) < this.maxRequestsPerConnection
+      );
+      if (connection) {
+        this.useConnection(connection, this.m_waiting.shift()!);
+      }
+      else if (this.m_connections.length + this.m_connecting < this.maxConnections) {
+        this.openConnection(this.m_waiting.shift()!);
+      }
+      else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Opens a new connection for a waiting request.
+   *
+   * @param {IUFPhpFastCgiWaiting} aWaiting
+   *   Request to pass the connection to
+   *
+   * @private
+   */
+  private openConnection(aWaiting: IUFPhpFastCgiWaiting): void {
+    this.m_connecting++;
+    UFPhpFastCgiConnection.connect(this.m_options).then(
+      connection => {
+        this.m_connecting--;
+        if (this.m_closed) {
+          connection.close();
+          aWaiting.reject(new UFPhpFastCgiError('Client was closed', this.address));
+          return;
+        }
+        this.m_connections.push(connection);
+        this.useConnection(connection, aWaiting);
+        this.processWaiting();
+      },
+      error => {
+        this.m_connecting--;
+        aWaiting.reject(error);
+        this.processWaiting();
+      }
+    );
+  }
+
+  /**
+   * Passes a connection to a waiting request.
+   *
+   * @param {UFPhpFastCgiConnection} aConnection
+   *   Connection to use
+   * @param {IUFPhpFastCgiWaiting} aWaiting
+   *   Request to pass the connection to
+   *
+   * @private
+   */
+  private useConnection(aConnection: UFPhpFastCgiConnection, aWaiting: IUFPhpFastCgiWaiting): void {
+    const timer = this.m_idleTimers.get(aConnection);
+    if (timer) {
+      clearTimeout(timer);
+      this.m_idleTimers.delete(aConnection);
+    }
+    aConnection.ref();
+    this.m_usage.set(aConnection, (this.m_usage.get(aConnection) || 0) + 1);
+    aWaiting.resolve(aConnection);
+  }
+
+  /**
+   * Closes a connection and removes it from the pool.
+   *
+   * @param {UFPhpFastCgiConnection} aConnection
+   *   Connection to close
+   *
+   * @private
+   */
+  private closeConnection(aConnection: UFPhpFastCgiConnection): void {
+    const timer = this.m_idleTimers.get(aConnection);
+    if (timer) {
+      clearTimeout(timer);
+      this.m_idleTimers.delete(aConnection);
+    }
+    this.m_usage.delete(aConnection);
+    this.m_connections = this.m_connections.filter(connection => connection !== aConnection);
+    aConnection.close();
+  }
+
+  /**
+   * Sends the request body.
+   *
+   * @param {UFPhpFastCgiConnection} aConnection
+   *   Connection of the request
+   * @param {number} aRequestId
+   *   Request to send the body for
+   * @param {string|Buffer|Readable|undefined} aStdin
+   *   Body to send
+   *
+   * @throws {Error} when reading the stream fails
+   *
+   * @private
+   */
+  private async sendStdin(
+    aConnection: UFPhpFastCgiConnection, aRequestId: number, aStdin: string | Buffer | Readable | undefined
+  ): Promise<void> {
+    if (aStdin instanceof Readable) {
+      await new Promise<void>((aResolve, aReject) => {
+        aStdin.on('data', data => {
+          aStdin.pause();
+          aConnection.write(aRequestId, data).then(() => aStdin.resume());
+        });
+        aStdin.once('end', () => aResolve());
+        aStdin.once('error', error => aReject(new Error('Reading the request body failed: ' + error.message)));
+      });
+    }
+    else if (aStdin !== undefined) {
+      await aConnection.write(aRequestId, aStdin);
+    }
+    aConnection.end(aRequestId);
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Finds the empty line that ends the headers.
+   *
+   * @param {Buffer} aData
+   *   Start of the output
+   *
+   * @return {object|null} offset and length of the line ends that end the headers or null if they were not
+   *   received yet
+   *
+   * @private
+   */
+  private static findHeadEnd(aData: Buffer): { offset: number, length: number } | null {
+    const crlf = aData.indexOf('\r\n\r\n');
+    const lf = aData.indexOf('\n\n');
+    if ((lf >= 0) && ((crlf < 0) || (lf < crlf))) {
+      return {offset: lf, length: 2};
+    }
+    return crlf >= 0 ? {offset: crlf, length: 4} : null;
+  }
+
+  /**
+   * Parses the headers of a CGI response.
+   *
+   * @param {Buffer} aData
+   *   Headers without the empty line that ends them
+   *
+   * @return {IUFPhpFastCgiResponseHead} status and headers
+   *
+   * @private
+   */
+  private static parseHead(aData: Buffer): IUFPhpFastCgiResponseHead {
+    const headers: { [name: string]: string[] } = {};
+    let status = 200;
+    let statusText = '';
+    aData.toString('latin1').split(/\r?\n/).forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        return;
+      }
+      const name = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+      if (name === 'status') {
+        const match = /^(\d{3})\s*(.*)$/.exec(value);
+        if (match) {
+          status = parseInt(match[1], 10);
+          statusText = match[2];
+        }
+        return;
+      }
+      (headers[name] = headers[name] || []).push(value);
+    });
+    return {status, statusText: statusText || STATUS_CODES[status] || '', headers};
+  }
+
+  // endregion
+}
+
+// endregion
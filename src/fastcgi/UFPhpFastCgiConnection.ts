@@ -0,0 +1,469 @@
+// region imports
+
+import {connect, Socket} from 'net';
+import {UFPhpFastCgiError} from './UFPhpFastCgiError.js';
+import {
+  IUFPhpFastCgiEndRequest, IUFPhpFastCgiRecord, UFPhpFastCgiProtocol, UFPhpFastCgiRecordType
+} from './UFPhpFastCgiProtocol.js';
+import {UFPhpFastCgiRecordReader} from './UFPhpFastCgiRecordReader.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default host of the FastCGI server
+ */
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Default port of the FastCGI server (php-fpm)
+ */
+const DEFAULT_PORT = 9000;
+
+/**
+ * Default time in milliseconds to wait for a connection
+ */
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+
+/**
+ * Largest request id
+ */
+const MAX_REQUEST_ID = 0xffff;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpFastCgiConnection.connect}.
+ */
+export interface IUFPhpFastCgiConnectionOptions {
+  /**
+   * Host of the FastCGI server, default is `127.0.0.1`.
+   */
+  host?: string;
+
+  /**
+   * Port of the FastCGI server, default is 9000.
+   */
+  port?: number;
+
+  /**
+   * Path of the unix socket of the FastCGI server; when set, {@link host} and {@link port} are ignored.
+   */
+  path?: string;
+
+  /**
+   * Time in milliseconds to wait for a connection, default is 5000.
+   */
+  connectTimeout?: number;
+}
+
+/**
+ * Receives the output of a request sent with {@link UFPhpFastCgiConnection.begin}. After `end` or `error` was
+ * called, no other methods are called.
+ */
+export interface IUFPhpFastCgiStreamHandler {
+  /**
+   * Called with data the server wrote to stdout.
+   */
+  stdout: (aData: Buffer) => void;
+
+  /**
+   * Called with data the server wrote to stderr.
+   */
+  stderr: (aData: Buffer) => void;
+
+  /**
+   * Called when the server ended the request.
+   */
+  end: (anEnd: IUFPhpFastCgiEndRequest) => void;
+
+  /**
+   * Called when the connection failed or was closed before the request ended.
+   */
+  error: (aReason: string) => void;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFastCgiConnection} is a connection to a FastCGI server. Requests are identified by a request id,
+ * so several requests can use the connection at the same time if the server supports multiplexing (php-fpm does
+ * not). Usually {@link UFPhpFastCgiClient} is used, which manages a pool of connections.
+ *
+ * @example
+ * const connection = await UFPhpFastCgiConnection.connect({path: '/run/php/php8.2-fpm.sock'});
+ * const requestId = connection.begin(params, false, handler);
+ * connection.end(requestId);
+ */
+export class UFPhpFastCgiConnection {
+  // region private variables
+
+  /**
+   * Socket of the connection
+   *
+   * @private
+   */
+  private readonly m_socket: Socket;
+
+  /**
+   * Address of the server
+   *
+   * @private
+   */
+  private readonly m_address: string;
+
+  /**
+   * Splits the received data into records
+   *
+   * @private
+   */
+  private readonly m_reader: UFPhpFastCgiRecordReader = new UFPhpFastCgiRecordReader();
+
+  /**
+   * Handlers of the active requests mapped by request id
+   *
+   * @private
+   */
+  private readonly m_handlers: Map<number, IUFPhpFastCgiStreamHandler> = new Map();
+
+  /**
+   * Request ids of aborted requests the server did not end yet
+   *
+   * @private
+   */
+  private readonly m_aborted: Set<number> = new Set();
+
+  /**
+   * Last used request id
+   *
+   * @private
+   */
+  private m_lastRequestId: number = 0;
+
+  /**
+   * Reason the connection failed or null if no error occurred
+   *
+   * @private
+   */
+  private m_failure: string | null = null;
+
+  /**
+   * True after the connection was closed
+   *
+   * @private
+   */
+  private m_closed: boolean = false;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFastCgiConnection}.
+   *
+   * @param {Socket} aSocket
+   *   Connected socket
+   * @param {string} anAddress
+   *   Address of the server
+   *
+   * @private
+   */
+  private constructor(aSocket: Socket, anAddress: string) {
+    this.m_socket = aSocket;
+    this.m_address = anAddress;
+    aSocket.on('data', data => this.handleData(data));
+    aSocket.on('error', error => this.m_failure = this.m_failure || error.message);
+    aSocket.on('close', () => this.handleClose());
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Address of the server: the path of the unix socket or host and port.
+   */
+  get address(): string {
+    return this.m_address;
+  }
+
+  /**
+   * True if the connection was closed (by either side).
+   */
+  get isClosed(): boolean {
+    return this.m_closed;
+  }
+
+  /**
+   * Number of requests that have not ended yet, including aborted requests.
+   */
+  get activeRequests(): number {
+    return this.m_handlers.size + this.m_aborted.size;
+  }
+
+  /**
+   * Starts a request: sends the begin request record and the params. The stdin stream must be sent with
+   * {@link write} and ended with {@link end}.
+   *
+   * @param {object} aParams
+   *   Params (CGI environment variables) of the request
+   * @param {boolean} aKeepConnection
+   *   True to ask the server to keep the connection open after the request
+   * @param {IUFPhpFastCgiStreamHandler} aHandler
+   *   Receives the output of the request
+   *
+   * @return {number} request id
+   *
+   * @throws {UFPhpFastCgiError} when the connection is closed or there are too many active requests
+   */
+  begin(
+    aParams: { [name: string]: string | number | Buffer }, aKeepConnection: boolean,
+    aHandler: IUFPhpFastCgiStreamHandler
+  ): number {
+    if (this.m_closed) {
+      throw new UFPhpFastCgiError(this.m_failure || 'Connection is closed', this.m_address);
+    }
+    const requestId = this.getRequestId();
+    this.m_handlers.set(requestId, aHandler);
+    const params = UFPhpFastCgiProtocol.encodePairs(aParams);
+    this.m_socket.write(Buffer.concat([
+      UFPhpFastCgiProtocol.encodeBeginRequest(requestId, aKeepConnection),
+      params.length ? UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Params, requestId, params) : params,
+      UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Params, requestId),
+    ]));
+    return requestId;
+  }
+
+  /**
+   * Sends data to the stdin stream of a request. Data for requests that ended or were aborted is ignored.
+   *
+   * @param {number} aRequestId
+   *   Request to send the data to
+   * @param {string|Buffer} aData
+   *   Data to send; nothing is sent for empty data, use {@link end} to end the stream
+   *
+   * @return {Promise<void>} resolves when the socket can accept more data
+   */
+  write(aRequestId: number, aData: string | Buffer): Promise<void> {
+    if (!aData.length || this.m_closed || !this.m_handlers.has(aRequestId)) {
+      return Promise.resolve();
+    }
+    if (this.m_socket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stdin, aRequestId, aData))) {
+      return Promise.resolve();
+    }
+    return new Promise(aResolve => {
+      const done = () => {
+        this.m_socket.off('drain', done);
+        this.m_socket.off('close', done);
+        aResolve();
+      };
+      this.m_socket.on('drain', done);
+      this.m_socket.on('close', done);
+    });
+  }
+
+  /**
+   * Ends the stdin stream of a request.
+   *
+   * @param {number} aRequestId
+   *   Request to end the stream of
+   */
+  end(aRequestId: number): void {
+    if (!this.m_closed && this.m_handlers.has(aRequestId)) {
+      this.m_socket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stdin, aRequestId));
+    }
+  }
+
+  /**
+   * Aborts a request; its handler is not called anymore. The request id stays in use until the server ends the
+   * request.
+   *
+   * @param {number} aRequestId
+   *   Request to abort
+   */
+  abort(aRequestId: number): void {
+    if (this.m_handlers.delete(aRequestId) && !this.m_closed) {
+      this.m_aborted.add(aRequestId);
+      this.m_socket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.AbortRequest, aRequestId));
+    }
+  }
+
+  /**
+   * Closes the connection; the handlers of active requests are called with an error.
+   */
+  close(): void {
+    this.m_socket.destroy();
+  }
+
+  /**
+   * Lets the connection keep the process running (the default).
+   */
+  ref(): void {
+    this.m_socket.ref();
+  }
+
+  /**
+   * Lets the process exit while the connection is open.
+   */
+  unref(): void {
+    this.m_socket.unref();
+  }
+
+  /**
+   * Connects to a FastCGI server.
+   *
+   * @param {IUFPhpFastCgiConnectionOptions} anOptions
+   *   Address of the server
+   *
+   * @return {UFPhpFastCgiConnection} the connection
+   *
+   * @throws {UFPhpFastCgiError} when the server can not be reached in time
+   */
+  static connect(anOptions: IUFPhpFastCgiConnectionOptions = {}): Promise<UFPhpFastCgiConnection> {
+    const address = UFPhpFastCgiConnection.getAddress(anOptions);
+    const timeout = anOptions.connectTimeout === undefined ? DEFAULT_CONNECT_TIMEOUT : anOptions.connectTimeout;
+    return new Promise((aResolve, aReject) => {
+      const socket = anOptions.path
+        ? connect(anOptions.path)
+        : connect(anOptions.port || DEFAULT_PORT, anOptions.host || DEFAULT_HOST);
+      const timer = setTimeout(
+        () => {
+          socket.destroy();
+          aReject(new UFPhpFastCgiError('Connecting did not finish within ' + timeout + ' ms', address));
+        },
+        timeout
+      );
+      const handleError = (anError: Error) => {
+        clearTimeout(timer);
+        aReject(new UFPhpFastCgiError(anError.message, address));
+      };
+      socket.once('error', handleError);
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        socket.off('error', handleError);
+        socket.setNoDelay(true);
+        aResolve(new UFPhpFastCgiConnection(socket, address));
+      });
+    });
+  }
+
+  /**
+   * Gets the address of a server as text.
+   *
+   * @param {IUFPhpFastCgiConnectionOptions} anOptions
+   *   Address of the server
+   *
+   * @return {string} the path of the unix socket or host and port
+   */
+  static getAddress(anOptions: IUFPhpFastCgiConnectionOptions): string {
+    return anOptions.path || ((anOptions.host || DEFAULT_HOST) + ':' + (anOptions.port || DEFAULT_PORT));
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Gets an unused request id.
+   *
+   * @return {number} request id
+   *
+   * @throws {UFPhpFastCgiError} when all request ids are in use
+   *
+   * @private
+   */
+  private getRequestId(): number {
+    for (let count = 0; count < MAX_REQUEST_ID; count++) {
+      this.m_lastRequestId = (this.m_lastRequestId % MAX_REQUEST_ID) + 1;
+      if (!this.m_handlers.has(this.m_lastRequestId) && !this.m_aborted.has(this.m_lastRequestId)) {
+        return this.m_lastRequestId;
+      }
+    }
+    throw new UFPhpFastCgiError('Too many active requests', this.m_address);
+  }
+
+  /**
+   * Processes received data.
+   *
+   * @param {Buffer} aData
+   *   Received data
+   *
+   * @private
+   */
+  private handleData(aData: Buffer): void {
+    let records: IUFPhpFastCgiRecord[];
+    try {
+      records = this.m_reader.push(aData);
+    } catch (error) {
+      this.m_failure = 'Invalid data received: ' + (error as Error).message;
+      this.m_socket.destroy();
+      return;
+    }
+    records.forEach(record => this.handleRecord(record));
+  }
+
+  /**
+   * Passes a record to the handler of its request. Records of unknown requests and management records are
+   * ignored.
+   *
+   * @param {IUFPhpFastCgiRecord} aRecord
+   *   Record to process
+   *
+   * @private
+   */
+  private handleRecord(aRecord: IUFPhpFastCgiRecord): void {
+    if ((aRecord.type === UFPhpFastCgiRecordType.EndRequest) && this.m_aborted.delete(aRecord.requestId)) {
+      return;
+    }
+    const handler = this.m_handlers.get(aRecord.requestId);
+    if (!handler) {
+      return;
+    }
+    switch (aRecord.type) {
+      case UFPhpFastCgiRecordType.Stdout:
+        if (aRecord.content.length) {
+          handler.stdout(aRecord.content);
+        }
+        break;
+      case UFPhpFastCgiRecordType.Stderr:
+        if (aRecord.content.length) {
+          handler.stderr(aRecord.content);
+        }
+        break;
+      case UFPhpFastCgiRecordType.EndRequest:
+        this.m_handlers.delete(aRecord.requestId);
+        let end: IUFPhpFastCgiEndRequest;
+        try {
+          end = UFPhpFastCgiProtocol.decodeEndRequest(aRecord.content);
+        } catch (error) {
+          handler.error((error as Error).message);
+          break;
+        }
+        handler.end(end);
+        break;
+    }
+  }
+
+  /**
+   * Calls the handlers of the active requests with an error after the connection was closed.
+   *
+   * @private
+   */
+  private handleClose(): void {
+    this.m_closed = true;
+    const reason = this.m_failure || 'Connection was closed before the request ended';
+    const handlers = Array.from(this.m_handlers.values());
+    this.m_handlers.clear();
+    this.m_aborted.clear();
+    handlers.forEach(handler => handler.error(reason));
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,51 @@
+// region class
+
+/**
+ * {@link UFPhpFastCgiError} is thrown by {@link UFPhpFastCgiClient} when the FastCGI server can not be reached,
+ * a request times out, the connection is closed before the request ended, the server rejects the request or sends
+ * invalid data.
+ */
+export class UFPhpFastCgiError extends Error {
+  // region public variables
+
+  /**
+   * Description of the problem without address
+   */
+  readonly reason: string;
+
+  /**
+   * Address of the FastCGI server (host and port or path of the unix socket)
+   */
+  readonly address: string;
+
+  /**
+   * Output the server wrote to stderr for the request before the problem occurred
+   */
+  readonly stderr: string;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFastCgiError}.
+   *
+   * @param {string} aReason
+   *   Description of the problem
+   * @param {string} anAddress
+   *   Address of the server
+   * @param {string} aStderr
+   *   Output written to stderr
+   */
+  constructor(aReason: string, anAddress: string, aStderr: string = '') {
+    super(aReason + ' while calling ' + anAddress);
+    this.name = 'UFPhpFastCgiError';
+    this.reason = aReason;
+    this.address = anAddress;
+    this.stderr = aStderr;
+  }
+
+  // endregion
+}
+
+// endregion
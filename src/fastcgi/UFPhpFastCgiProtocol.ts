@@ -0,0 +1,437 @@
+// region local constants
+
+/**
+ * Version of the FastCGI protocol
+ */
+const VERSION = 1;
+
+/**
+ * Size of a record header
+ */
+const HEADER_SIZE = 8;
+
+/**
+ * Maximum length of the content of a single record
+ */
+const MAX_CONTENT_LENGTH = 0xffff;
+
+/**
+ * Flag in a begin request record that asks the server to keep the connection open
+ */
+const KEEP_CONNECTION = 1;
+
+// endregion
+
+// region types
+
+/**
+ * FastCGI record types, the values match the `FCGI_*` constants of the specification.
+ */
+export enum UFPhpFastCgiRecordType {
+  BeginRequest = 1,
+  AbortRequest = 2,
+  EndRequest = 3,
+  Params = 4,
+  Stdin = 5,
+  Stdout = 6,
+  Stderr = 7,
+  Data = 8,
+  GetValues = 9,
+  GetValuesResult = 10,
+  UnknownType = 11,
+}
+
+/**
+ * FastCGI roles, the values match the `FCGI_*` constants of the specification. Php-fpm only supports the
+ * responder role.
+ */
+export enum UFPhpFastCgiRole {
+  Responder = 1,
+  Authorizer = 2,
+  Filter = 3,
+}
+
+/**
+ * Protocol status in an end request record, the values match the `FCGI_*` constants of the specification.
+ */
+export enum UFPhpFastCgiProtocolStatus {
+  /**
+   * The request was handled.
+   */
+  RequestComplete = 0,
+
+  /**
+   * The server does not handle more than one request per connection.
+   */
+  CantMultiplexConnection = 1,
+
+  /**
+   * The server is out of resources.
+   */
+  Overloaded = 2,
+
+  /**
+   * The server does not support the requested role.
+   */
+  UnknownRole = 3,
+}
+
+/**
+ * A single FastCGI record.
+ */
+export interface IUFPhpFastCgiRecord {
+  /**
+   * Type of record, see {@link UFPhpFastCgiRecordType}
+   */
+  readonly type: number;
+
+  /**
+   * Request the record belongs to, 0 for management records
+   */
+  readonly requestId: number;
+
+  /**
+   * Content without padding
+   */
+  readonly content: Buffer;
+}
+
+/**
+ * Header of a FastCGI record.
+ */
+export interface IUFPhpFastCgiRecordHeader {
+  /**
+   * Type of record, see {@link UFPhpFastCgiRecordType}
+   */
+  readonly type: number;
+
+  /**
+   * Request the record belongs to, 0 for management records
+   */
+  readonly requestId: number;
+
+  /**
+   * Length of the content following the header
+   */
+  readonly contentLength: number;
+
+  /**
+   * Length of the padding following the content
+   */
+  readonly paddingLength: number;
+}
+
+/**
+ * Content of a begin request record.
+ */
+export interface IUFPhpFastCgiBeginRequest {
+  /**
+   * Role of the server, see {@link UFPhpFastCgiRole}
+   */
+  readonly role: number;
+
+  /**
+   * True if the server should keep the connection open after the request
+   */
+  readonly keepConnection: boolean;
+}
+
+/**
+ * Content of an end request record.
+ */
+export interface IUFPhpFastCgiEndRequest {
+  /**
+   * Exit status of the application
+   */
+  readonly appStatus: number;
+
+  /**
+   * Status of the request, see {@link UFPhpFastCgiProtocolStatus}
+   */
+  readonly protocolStatus: number;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFastCgiProtocol} encodes and decodes FastCGI records and their contents. It is used by
+ * {@link UFPhpFastCgiClient} and can be used to write a FastCGI server (for example a stand-in for php-fpm in
+ * tests), together with {@link UFPhpFastCgiRecordReader}.
+ *
+ * @example
+ * socket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stdout, 1, 'Status: 200 OK\r\n\r\n'));
+ * socket.end(UFPhpFastCgiProtocol.encodeEndRequest(1, 0));
+ */
+export class UFPhpFastCgiProtocol {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFastCgiProtocol}; all methods are static.
+   *
+   * @private
+   */
+  private constructor() {
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Encodes content as records. Content that does not fit in one record is split; empty content results in one
+   * empty record (which ends a stream).
+   *
+   * @param {number} aType
+   *   Type of record
+   * @param {number} aRequestId
+   *   Request the records belong to
+   * @param {string|Buffer} aContent
+   *   Content to encode, strings are encoded as UTF-8
+   *
+   * @return {Buffer} one or more records
+   */
+  static encodeRecord(aType: number, aRequestId: number, aContent: string | Buffer = Buffer.alloc(0)): Buffer {
+    const content = Buffer.isBuffer(aContent) ? aContent : Buffer.from(aContent);
+    const records: Buffer[] = [];
+    let offset = 0;
+    do {
+      const length = Math.min(content.length - offset, MAX_CONTENT_LENGTH);
+      // keep records aligned to 8 bytes, as recommended by the specification
+      const padding = (8 - (length % 8)) % 8;
+      const header = Buffer.alloc(HEADER_SIZE);
+      header.writeUInt8(VERSION, 0);
+      header.writeUInt8(aType, 1);
+      header.writeUInt16BE(aRequestId, 2);
+      header.writeUInt16BE(length, 4);
+      header.writeUInt8(padding, 6);
+      records.push(header, content.subarray(offset, offset + length), Buffer.alloc(padding));
+      offset += length;
+    } while (offset < content.length);
+    return Buffer.concat(records);
+  }
+
+  /**
+   * Encodes a begin request record.
+   *
+   * @param {number} aRequestId
+   *   Request to begin
+   * @param {boolean} aKeepConnection
+   *   True to ask the server to keep the connection open after the request
+   * @param {number} aRole
+   *   Role of the server
+   *
+   * @return {Buffer} record
+   */
+  static encodeBeginRequest(
+    aRequestId: number, aKeepConnection: boolean, aRole: number = UFPhpFastCgiRole.Responder
+  ): Buffer {
+    const content = Buffer.alloc(8);
+    content.writeUInt16BE(aRole, 0);
+    content.writeUInt8(aKeepConnection ? KEEP_CONNECTION : 0, 2);
+    return UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.BeginRequest, aRequestId, content);
+  }
+
+  /**
+   * Encodes an end request record.
+   *
+   * @param {number} aRequestId
+   *   Request that ended
+   * @param {number} anAppStatus
+   *   Exit status of the application
+   * @param {number} aProtocolStatus
+   *   Status of the request
+   *
+   * @return {Buffer} record
+   */
+  static encodeEndRequest(
+    aRequestId: number, anAppStatus: number, aProtocolStatus: number = UFPhpFastCgiProtocolStatus.RequestComplete
+  ): Buffer {
+    const content = Buffer.alloc(8);
+    content.writeUInt32BE(anAppStatus >>> 0, 0);
+    content.writeUInt8(aProtocolStatus, 4);
+    return UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.EndRequest, aRequestId, content);
+  }
+
+  /**
+   * Encodes name value pairs, as used by params and get values records.
+   *
+   * @param {object} aPairs
+   *   Pairs to encode, names and values are encoded as UTF-8
+   *
+   * @return {Buffer} encoded pairs
+   */
+  static encodePairs(aPairs: { [name: string]: string | number | Buffer }): Buffer {
+    const parts: Buffer[] = [];
+    Object.keys(aPairs).forEach(name => {
+      const value = aPairs[name];
+      const nameBytes = Buffer.from(name);
+      const valueBytes = Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+      parts.push(
+        UFPhpFastCgiProtocol.encodeLength(nameBytes.length),
+        UFPhpFastCgiProtocol.encodeLength(valueBytes.length),
+        nameBytes,
+        valueBytes
+      );
+    });
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Decodes name value pairs.
+   *
+   * @param {Buffer} aContent
+   *   Encoded pairs
+   *
+   * @return {object} decoded pairs
+   *
+   * @throws {Error} when the content is truncated
+   */
+  static decodePairs(aContent: Buffer): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+    let offset = 0;
+    while (offset < aContent.length) {
+      const nameLength = UFPhpFastCgiProtocol.decodeLength(aContent, offset);
+      offset += aContent[offset] & 0x80 ? 4 : 1;
+      const valueLength = UFPhpFastCgiProtocol.decodeLength(aContent, offset);
+      offset += aContent[offset] & 0x80 ? 4 : 1;
+      if (offset + nameLength + valueLength > aContent.length) {
+        throw new Error('Truncated name value pair');
+      }
+      const name = aContent.toString('utf8', offset, offset + nameLength);
+      offset += nameLength;
+      result[name] = aContent.toString('utf8', offset, offset + valueLength);
+      offset += valueLength;
+    }
+    return result;
+  }
+
+  /**
+   * Decodes the content of a begin request record.
+   *
+   * @param {Buffer} aContent
+   *   Content to decode
+   *
+   * @return {IUFPhpFastCgiBeginRequest} decoded content
+   *
+   * @throws {Error} when the content is too short
+   */
+  static decodeBeginRequest(aContent: Buffer): IUFPhpFastCgiBeginRequest {
+    if (aContent.length < 8) {
+      throw new Error('Invalid begin request record');
+    }
+    return {
+      role: aContent.readUInt16BE(0),
+      keepConnection: (aContent.readUInt8(2) & KEEP_CONNECTION) !== 0,
+    };
+  }
+
+  /**
+   * Decodes the content of an end request record.
+   *
+   * @param {Buffer} aContent
+   *   Content to decode
+   *
+   * @return {IUFPhpFastCgiEndRequest} decoded content
+   *
+   * @throws {Error} when the content is too short
+   */
+  static decodeEndRequest(aContent: Buffer): IUFPhpFastCgiEndRequest {
+    if (aContent.length < 8) {
+      throw new Error('Invalid end request record');
+    }
+    return {
+      appStatus: aContent.readUInt32BE(0),
+      protocolStatus: aContent.readUInt8(4),
+    };
+  }
+
+  /**
+   * Decodes the header of a record.
+   *
+   * @param {Buffer} aData
+   *   Data starting with a header
+   *
+   * @return {IUFPhpFastCgiRecordHeader|null} header values or null when the data is shorter than a header
+   *
+   * @throws {Error} when the record uses another protocol version
+   */
+  static decodeHeader(aData: Buffer): IUFPhpFastCgiRecordHeader | null {
+    if (aData.length < HEADER_SIZE) {
+      return null;
+    }
+    const version = aData.readUInt8(0);
+    if (version !== VERSION) {
+      throw new Error('Unsupported FastCGI version ' + version);
+    }
+    return {
+      type: aData.readUInt8(1),
+      requestId: aData.readUInt16BE(2),
+      contentLength: aData.readUInt16BE(4),
+      paddingLength: aData.readUInt8(6),
+    };
+  }
+
+  /**
+   * Size of a record header in bytes.
+   */
+  static get headerSize(): number {
+    return HEADER_SIZE;
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Encodes the length of a name or value: one byte for lengths up to 127, else four bytes with the highest bit
+   * set.
+   *
+   * @param {number} aLength
+   *   Length to encode
+   *
+   * @return {Buffer} encoded length
+   *
+   * @private
+   */
+  private static encodeLength(aLength: number): Buffer {
+    if (aLength < 128) {
+      return Buffer.from([aLength]);
+    }
+    const result = Buffer.alloc(4);
+    result.writeUInt32BE((aLength | 0x80000000) >>> 0, 0);
+    return result;
+  }
+
+  /**
+   * Decodes the length of a name or value.
+   *
+   * @param {Buffer} aContent
+   *   Encoded pairs
+   * @param {number} anOffset
+   *   Offset of the length
+   *
+   * @return {number} decoded length
+   *
+   * @throws {Error} when the content is truncated
+   *
+   * @private
+   */
+  private static decodeLength(aContent: Buffer, anOffset: number): number {
+    if (anOffset >= aContent.length) {
+      throw new Error('Truncated name value pair');
+    }
+    if (aContent[anOffset] < 128) {
+      return aContent[anOffset];
+    }
+    if (anOffset + 4 > aContent.length) {
+      throw new Error('Truncated name value pair');
+    }
+    return aContent.readUInt32BE(anOffset) & 0x7fffffff;
+  }
+
+  // endregion
+}
+
+// endregion
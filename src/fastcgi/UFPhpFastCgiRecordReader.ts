@@ -0,0 +1,74 @@
+// region imports
+
+import {IUFPhpFastCgiRecord, UFPhpFastCgiProtocol} from './UFPhpFastCgiProtocol.js';
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFastCgiRecordReader} splits the data received from a FastCGI connection into records. Data can be
+ * passed in chunks of any size; records that are not complete yet are kept until more data arrives.
+ *
+ * @example
+ * const reader = new UFPhpFastCgiRecordReader();
+ * socket.on('data', data => reader.push(data).forEach(record => handleRecord(record)));
+ */
+export class UFPhpFastCgiRecordReader {
+  // region private variables
+
+  /**
+   * Data that does not form a complete record yet
+   *
+   * @private
+   */
+  private m_buffer: Buffer = Buffer.alloc(0);
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * True if data of an incomplete record is waiting for more data.
+   */
+  get hasPending(): boolean {
+    return this.m_buffer.length > 0;
+  }
+
+  /**
+   * Adds received data.
+   *
+   * @param {Buffer} aData
+   *   Data to add
+   *
+   * @return {IUFPhpFastCgiRecord[]} the records that are complete
+   *
+   * @throws {Error} when a record uses another protocol version
+   */
+  push(aData: Buffer): IUFPhpFastCgiRecord[] {
+    this.m_buffer = this.m_buffer.length ? Buffer.concat([this.m_buffer, aData]) : aData;
+    const records: IUFPhpFastCgiRecord[] = [];
+    let offset = 0;
+    for (let header = UFPhpFastCgiProtocol.decodeHeader(this.m_buffer); header;) {
+      const start = offset + UFPhpFastCgiProtocol.headerSize;
+      const end = start + header.contentLength + header.paddingLength;
+      if (end > this.m_buffer.length) {
+        break;
+      }
+      records.push({
+        type: header.type,
+        requestId: header.requestId,
+        // copy the content, so the received data can be released
+        content: Buffer.from(this.m_buffer.subarray(start, start + header.contentLength)),
+      });
+      offset = end;
+      header = UFPhpFastCgiProtocol.decodeHeader(this.m_buffer.subarray(offset));
+    }
+    this.m_buffer = this.m_buffer.subarray(offset);
+    return records;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -1,4 +1,58 @@
+// config
+
+export * from './config/UFPhpConfigLoader.js';
+export * from './config/UFPhpConfigWatcher.js';
+export * from './config/UFPhpDotenv.js';
+export * from './config/UFPhpSchema.js';
+export * from './config/UFPhpTypeGenerator.js';
+
+// fastcgi
+
+export * from './fastcgi/UFPhpFastCgiClient.js';
+export * from './fastcgi/UFPhpFastCgiConnection.js';
+export * from './fastcgi/UFPhpFastCgiError.js';
+export * from './fastcgi/UFPhpFastCgiProtocol.js';
+export * from './fastcgi/UFPhpFastCgiRecordReader.js';
+
+// parser
+
+export * from './parser/UFPhpEvaluator.js';
+export * from './parser/UFPhpNode.js';
+export * from './parser/UFPhpParseError.js';
+export * from './parser/UFPhpParser.js';
+export * from './parser/UFPhpPlaceholder.js';
+export * from './parser/UFPhpResolver.js';
+export * from './parser/UFPhpTokenizer.js';
+
+// session
+
+export * from './session/UFPhpFileLock.js';
+export * from './session/UFPhpSession.js';
+export * from './session/UFPhpSessionFile.js';
+export * from './session/UFPhpSessionFiles.js';
+
 // tools
 
+export * from './tools/UFLaravelDecryptError.js';
+export * from './tools/UFLaravelEncrypter.js';
 export * from './tools/UFPhp.js';
+export * from './tools/UFPhpArray.js';
+export * from './tools/UFPhpConfigEditor.js';
+export * from './tools/UFPhpFormat.js';
+export * from './tools/UFPhpIni.js';
+export * from './tools/UFPhpInterpreter.js';
+export * from './tools/UFPhpInterpreterError.js';
+export * from './tools/UFPhpJson.js';
+export * from './tools/UFPhpJsonError.js';
+export * from './tools/UFPhpObject.js';
+export * from './tools/UFPhpPack.js';
+export * from './tools/UFPhpPassword.js';
+export * from './tools/UFPhpQuery.js';
+export * from './tools/UFPhpRandom.js';
+export * from './tools/UFPhpRegExp.js';
+export * from './tools/UFPhpRegExpError.js';
+export * from './tools/UFPhpSerializer.js';
+export * from './tools/UFPhpText.js';
+export * from './tools/UFPhpValue.js';
+export * from './tools/UFPhpWriter.js';
 export * from './tools/UFTimezone.js';
@@ -0,0 +1,826 @@
+// region imports
+
+import {readFileSync} from 'fs';
+import {dirname, isAbsolute, resolve} from 'path';
+import {
+  IUFPhpArrayNode,
+  IUFPhpBinaryNode,
+  IUFPhpCallNode,
+  IUFPhpCastNode,
+  IUFPhpClassConstantNode,
+  IUFPhpConstantNode,
+  IUFPhpFileNode,
+  IUFPhpIncludeNode,
+  IUFPhpUnaryNode,
+  IUFPhpUse,
+  UFPhpNode,
+  UFPhpNodeType
+} from './UFPhpNode.js';
+import {IUFPhpEvaluationContext, IUFPhpResolver, UFPhpEnvironment, UFPhpResolver} from './UFPhpResolver.js';
+import {UFPhpPlaceholder} from './UFPhpPlaceholder.js';
+import {UFPhpParser} from './UFPhpParser.js';
+import {UFPhpParseError} from './UFPhpParseError.js';
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {UFPhpValue} from '../tools/UFPhpValue.js';
+
+// endregion
+
+// region types
+
+/**
+ * The ways {@link UFPhpEvaluator} can return php arrays.
+ */
+export enum UFPhpArrayMode {
+  /**
+   * Lists (keys 0 to n - 1 in order) become javascript arrays, other arrays become objects. Objects list integer
+   * keys first, so the order of mixed arrays is not preserved.
+   */
+  Native = 'native',
+
+  /**
+   * Arrays become {@link UFPhpArray} instances, preserving integer keys and the order of entries.
+   */
+  PhpArray = 'phpArray',
+}
+
+/**
+ * Location of an array or array entry in a php source.
+ */
+export interface IUFPhpSourceLocation {
+  /**
+   * Absolute path of the file or an empty string if the source did not come from a file
+   */
+  readonly filename: string;
+
+  /**
+   * Line number (starting at 1)
+   */
+  readonly line: number;
+
+  /**
+   * Column number (starting at 1)
+   */
+  readonly column: number;
+}
+
+/**
+ * Options for {@link UFPhpEvaluator}.
+ */
+export interface IUFPhpEvaluatorOptions {
+  /**
+   * Environment variables used by `env()` and `getenv()`, when missing `process.env` is used.
+   */
+  env?: UFPhpEnvironment;
+
+  /**
+   * Resolver for functions and constants, when missing a {@link UFPhpResolver} instance is used.
+   */
+  resolver?: IUFPhpResolver;
+
+  /**
+   * When true, expressions that can not be evaluated cause a {@link UFPhpParseError}. When false (default) they
+   * are replaced by a {@link UFPhpPlaceholder} and reported in {@link UFPhpEvaluator.diagnostics}.
+   */
+  strict?: boolean;
+
+  /**
+   * Absolute path of the file being evaluated, used for `__DIR__`, `__FILE__` and to resolve included files.
+   */
+  filename?: string;
+
+  /**
+   * Directory used for `__DIR__` and to resolve included files when there is no filename, when missing the
+   * current working directory is used.
+   */
+  baseDir?: string;
+
+  /**
+   * How to return arrays, default is {@link UFPhpArrayMode.Native}.
+   */
+  arrayMode?: UFPhpArrayMode;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpEvaluator} converts the nodes created by {@link UFPhpParser} to javascript values.
+ *
+ * Arrays are evaluated as {@link UFPhpArray}, using the php rules for keys: numeric string keys become integer
+ * keys and entries without a key get the next available integer key. Depending on the `arrayMode` option, the
+ * arrays are returned as is or converted to javascript arrays and objects.
+ *
+ * Expressions are evaluated using the php type conversion rules. Functions and constants are looked up via a
+ * {@link IUFPhpResolver}. Expressions that can not be evaluated (unknown functions or constants, unsupported
+ * code) either cause an error or are replaced by a {@link UFPhpPlaceholder}, depending on the `strict` option.
+ * Bitwise operators use 32 bit integers.
+ *
+ * Included files are read synchronously and resolved relative to the directory of the including file. Including a
+ * file that is already being evaluated is reported as cycle. The files that contributed to the result are
+ * available via {@link files}.
+ */
+export class UFPhpEvaluator {
+  // region private variables
+
+  /**
+   * Resolver to use
+   *
+   * @private
+   */
+  private readonly m_resolver: IUFPhpResolver;
+
+  /**
+   * True to throw errors for unresolved expressions
+   *
+   * @private
+   */
+  private readonly m_strict: boolean;
+
+  /**
+   * Context passed to functions
+   *
+   * @private
+   */
+  private m_context: IUFPhpEvaluationContext;
+
+  /**
+   * Directory to use when there is no filename
+   *
+   * @private
+   */
+  private readonly m_baseDir: string;
+
+  /**
+   * How to return arrays
+   *
+   * @private
+   */
+  private readonly m_arrayMode: UFPhpArrayMode;
+
+  /**
+   * Absolute paths of the files that were evaluated
+   *
+   * @private
+   */
+  private readonly m_files: string[] = [];
+
+  /**
+   * Absolute paths of the files currently being evaluated, the last entry is the innermost file
+   *
+   * @private
+   */
+  private readonly m_stack: string[] = [];
+
+  /**
+   * Problems found while evaluating
+   *
+   * @private
+   */
+  private readonly m_diagnostics: UFPhpParseError[] = [];
+
+  /**
+   * Locations of the evaluated array literals and their entries
+   *
+   * @private
+   */
+  private readonly m_locations: WeakMap<UFPhpArray, [IUFPhpSourceLocation, Map<UFPhpArrayKey, IUFPhpSourceLocation>]> =
+    new WeakMap();
+
+  /**
+   * Doc comments of the entries of the evaluated array literals
+   *
+   * @private
+   */
+  private readonly m_docComments: WeakMap<UFPhpArray, Map<UFPhpArrayKey, string>> = new WeakMap();
+
+  /**
+   * Source of the file being evaluated
+   *
+   * @private
+   */
+  private m_source: string = '';
+
+  /**
+   * Namespace of the file being evaluated
+   *
+   * @private
+   */
+  private m_namespace: string = '';
+
+  /**
+   * Use statements of the file being evaluated
+   *
+   * @private
+   */
+  private m_uses: IUFPhpUse[] = [];
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpEvaluator}.
+   *
+   * @param {IUFPhpEvaluatorOptions} anOptions
+   *   Options to use
+   */
+  constructor(anOptions: IUFPhpEvaluatorOptions = {}) {
+    this.m_resolver = anOptions.resolver || new UFPhpResolver();
+    this.m_strict = anOptions.strict || false;
+    this.m_context = {
+      env: anOptions.env || process.env,
+      filename: anOptions.filename || ''
+    };
+    this.m_baseDir = resolve(anOptions.baseDir || process.cwd());
+    this.m_arrayMode = anOptions.arrayMode || UFPhpArrayMode.Native;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Absolute paths of the files that contributed to the evaluated values (including the file set via the
+   * `filename` option), in the order they were first evaluated.
+   */
+  get files(): string[] {
+    return [...this.m_files];
+  }
+
+  /**
+   * Problems found while evaluating: expressions replaced by a placeholder and included files that could not be
+   * read.
+   */
+  get diagnostics(): UFPhpParseError[] {
+    return [...this.m_diagnostics];
+  }
+
+  /**
+   * Gets the location of an array or one of its entries in the source. Only arrays written as array literal are
+   * known; with {@link UFPhpArrayMode.Native} the arrays are converted, so use {@link UFPhpArrayMode.PhpArray}.
+   *
+   * @param {UFPhpArray} anArray
+   *   Array returned by this evaluator
+   * @param {UFPhpArrayKey} aKey
+   *   Key of entry or undefined to get the location of the array itself
+   *
+   * @return {IUFPhpSourceLocation|undefined} the location or undefined if it is not known
+   */
+  getLocation(anArray: UFPhpArray, aKey?: UFPhpArrayKey): IUFPhpSourceLocation | undefined {
+    const locations = this.m_locations.get(anArray);
+    if (!locations) {
+      return undefined;
+    }
+    return aKey === undefined ? locations[0] : locations[1].get(UFPhpArray.normalizeKey(aKey));
+  }
+
+  /**
+   * Gets the doc comment written before an entry of an array. Like {@link getLocation}, this requires
+   * {@link UFPhpArrayMode.PhpArray}.
+   *
+   * @param {UFPhpArray} anArray
+   *   Array returned by this evaluator
+   * @param {UFPhpArrayKey} aKey
+   *   Key of entry
+   *
+   * @return {string|undefined} the text of the doc comment (including `/**` and `*\/`) or undefined if there is
+   *   none
+   */
+  getDocComment(anArray: UFPhpArray, aKey: UFPhpArrayKey): string | undefined {
+    return this.m_docComments.get(anArray)?.get(UFPhpArray.normalizeKey(aKey));
+  }
+
+  /**
+   * Evaluates the return value of a file. The namespace and use statements of the file are used to resolve names.
+   *
+   * @param {IUFPhpFileNode} aFile
+   *   File to evaluate
+   *
+   * @return {any} the value returned by the file
+   *
+   * @throws {UFPhpParseError} in strict mode when an expression can not be evaluated and when an included file
+   *   contains invalid or unsupported code
+   */
+  evaluateFile(aFile: IUFPhpFileNode): any {
+    return this.convertArrays(this.evaluateFileNode(aFile));
+  }
+
+  /**
+   * Evaluates a node.
+   *
+   * @param {UFPhpNode} aNode
+   *   Node to evaluate
+   *
+   * @return {any} the value of the node
+   *
+   * @throws {UFPhpParseError} in strict mode when an expression can not be evaluated and when an included file
+   *   contains invalid or unsupported code
+   */
+  evaluate(aNode: UFPhpNode): any {
+    return this.convertArrays(this.evaluateNode(aNode));
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Evaluates the return value of a file without converting arrays.
+   *
+   * @private
+   */
+  private evaluateFileNode(aFile: IUFPhpFileNode): any {
+    const filename = this.m_context.filename;
+    if (filename && !this.m_files.includes(filename)) {
+      this.m_files.push(filename);
+    }
+    this.m_source = aFile.source;
+    this.m_namespace = aFile.namespace;
+    this.m_uses = aFile.uses;
+    this.m_stack.push(filename);
+    try {
+      return this.evaluateNode(aFile.returnValue);
+    }
+    finally {
+      this.m_stack.pop();
+    }
+  }
+
+  /**
+   * Evaluates a node without converting arrays.
+   *
+   * @private
+   */
+  private evaluateNode(aNode: UFPhpNode): any {
+    switch (aNode.type) {
+      case UFPhpNodeType.Literal:
+        return aNode.value;
+      case UFPhpNodeType.Array:
+        return this.evaluateArray(aNode);
+      case UFPhpNodeType.Constant:
+        return this.evaluateConstant(aNode);
+      case UFPhpNodeType.ClassConstant:
+        return this.evaluateClassConstant(aNode);
+      case UFPhpNodeType.Call:
+        return this.evaluateCall(aNode);
+      case UFPhpNodeType.Unary:
+        return this.evaluateUnary(aNode);
+      case UFPhpNodeType.Binary:
+        return this.evaluateBinary(aNode);
+      case UFPhpNodeType.Ternary: {
+        const condition = this.evaluateNode(aNode.condition);
+        if (condition instanceof UFPhpPlaceholder) {
+          return this.propagate(aNode, condition);
+        }
+        if (UFPhpValue.toBoolean(condition)) {
+          return aNode.whenTrue === null ? condition : this.evaluateNode(aNode.whenTrue);
+        }
+        return this.evaluateNode(aNode.whenFalse);
+      }
+      case UFPhpNodeType.Cast:
+        return this.evaluateCast(aNode);
+      case UFPhpNodeType.Include:
+        return this.evaluateInclude(aNode);
+      case UFPhpNodeType.Raw:
+        return this.unresolved(aNode, 'Unsupported expression');
+    }
+  }
+
+  /**
+   * Converts the arrays in a value depending on the array mode.
+   *
+   * @private
+   */
+  private convertArrays(aValue: any): any {
+    return (this.m_arrayMode === UFPhpArrayMode.Native) && (aValue instanceof UFPhpArray)
+      ? aValue.toNative()
+      : aValue;
+  }
+
+  /**
+   * Evaluates an array node.
+   *
+   * @private
+   */
+  private evaluateArray(aNode: IUFPhpArrayNode): UFPhpArray {
+    const result = new UFPhpArray();
+    const locations: Map<UFPhpArrayKey, IUFPhpSourceLocation> = new Map();
+    const docComments: Map<UFPhpArrayKey, string> = new Map();
+    const filename = this.m_context.filename;
+    for (const item of aNode.items) {
+      const key = item.key === null ? result.nextIndex : UFPhpArray.normalizeKey(this.evaluateNode(item.key));
+      result.set(key, this.evaluateNode(item.value));
+      locations.set(key, {filename, line: item.line, column: item.column});
+      if (item.docComment !== null) {
+        docComments.set(key, item.docComment);
+      }
+      // a duplicate key without doc comment should not use the comment of the earlier entry
+      else {
+        docComments.delete(key);
+      }
+    }
+    this.m_locations.set(result, [{filename, line: aNode.line, column: aNode.column}, locations]);
+    this.m_docComments.set(result, docComments);
+    return result;
+  }
+
+  /**
+   * Evaluates a (magic) constant.
+   *
+   * @private
+   */
+  private evaluateConstant(aNode: IUFPhpConstantNode): any {
+    switch (aNode.name.toUpperCase()) {
+      case '__DIR__':
+        return this.currentDir;
+      case '__FILE__':
+        return this.m_context.filename || this.unresolved(aNode, '__FILE__ requires a filename');
+      case '__LINE__':
+        return aNode.line;
+      case '__NAMESPACE__':
+        return this.m_namespace;
+      case '__CLASS__':
+      case '__FUNCTION__':
+      case '__METHOD__':
+      case '__TRAIT__':
+        return '';
+    }
+    const name = this.resolveNames(aNode.name, 'const').find(name => this.m_resolver.hasConstant(name));
+    return name === undefined
+      ? this.unresolved(aNode, 'Unknown constant ' + aNode.name)
+      : this.m_resolver.getConstant(name);
+  }
+
+  /**
+   * Evaluates a class constant.
+   *
+   * @private
+   */
+  private evaluateClassConstant(aNode: IUFPhpClassConstantNode): any {
+    const className = this.resolveClassName(aNode.className);
+    if (aNode.name.toLowerCase() === 'class') {
+      return className;
+    }
+    const name = className + '::' + aNode.name;
+    return this.m_resolver.hasConstant(name)
+      ? this.m_resolver.getConstant(name)
+      : this.unresolved(aNode, 'Unknown class constant ' + name);
+  }
+
+  /**
+   * Evaluates a function or static method call.
+   *
+   * @private
+   */
+  private evaluateCall(aNode: IUFPhpCallNode): any {
+    const names = aNode.className === null
+      ? this.resolveNames(aNode.name, 'function')
+      : [this.resolveClassName(aNode.className) + '::' + aNode.name];
+    const name = names.find(name => this.m_resolver.getFunction(name) !== undefined);
+    if (name === undefined) {
+      return this.unresolved(aNode, 'Unknown function ' + names[names.length - 1]);
+    }
+    const args = aNode.arguments.map(argument => this.evaluateNode(argument));
+    const placeholder = args.find(argument => argument instanceof UFPhpPlaceholder);
+    if (placeholder) {
+      return this.propagate(aNode, placeholder);
+    }
+    try {
+      return UFPhpArray.fromNative(this.m_resolver.getFunction(name)!(args, this.m_context));
+    } catch (error: any) {
+      return this.unresolved(aNode, error.message || String(error));
+    }
+  }
+
+  /**
+   * Evaluates an unary operation.
+   *
+   * @private
+   */
+  private evaluateUnary(aNode: IUFPhpUnaryNode): any {
+    const operand = this.evaluateNode(aNode.operand);
+    if (operand instanceof UFPhpPlaceholder) {
+      return this.propagate(aNode, operand);
+    }
+    switch (aNode.operator) {
+      case '!':
+        return !UFPhpValue.toBoolean(operand);
+      case '-':
+        return -UFPhpValue.toNumber(operand);
+      case '+':
+        return UFPhpValue.toNumber(operand);
+      case '~':
+        return ~UFPhpValue.toInteger(operand);
+    }
+    return this.unresolved(aNode, 'Unsupported operator ' + aNode.operator);
+  }
+
+  /**
+   * Evaluates a binary operation. The logical operators and `??` only evaluate the right operand when needed.
+   *
+   * @private
+   */
+  private evaluateBinary(aNode: IUFPhpBinaryNode): any {
+    const left = this.evaluateNode(aNode.left);
+    if (left instanceof UFPhpPlaceholder) {
+      return this.propagate(aNode, left);
+    }
+    switch (aNode.operator) {
+      case '??':
+        return (left === null) || (left === undefined) ? this.evaluateOperand(aNode, aNode.right) : left;
+      case '&&':
+      case 'and':
+        return UFPhpValue.toBoolean(left) && UFPhpValue.toBoolean(this.evaluateOperand(aNode, aNode.right));
+      case '||':
+      case 'or':
+        return UFPhpValue.toBoolean(left) || UFPhpValue.toBoolean(this.evaluateOperand(aNode, aNode.right));
+    }
+    const right = this.evaluateNode(aNode.right);
+    if (right instanceof UFPhpPlaceholder) {
+      return this.propagate(aNode, right);
+    }
+    switch (aNode.operator) {
+      case 'xor':
+        return UFPhpValue.toBoolean(left) !== UFPhpValue.toBoolean(right);
+      case '.':
+        return UFPhpValue.toString(left) + UFPhpValue.toString(right);
+      case '+':
+        if ((left instanceof UFPhpArray) && (right instanceof UFPhpArray)) {
+          // array union
+          const result = new UFPhpArray(left);
+          right.forEach((value, key) => !result.has(key) && result.set(key, value));
+          return result;
+        }
+        return UFPhpValue.toNumber(left) + UFPhpValue.toNumber(right);
+      case '-':
+        return UFPhpValue.toNumber(left) - UFPhpValue.toNumber(right);
+      case '*':
+        return UFPhpValue.toNumber(left) * UFPhpValue.toNumber(right);
+      case '/':
+        if (UFPhpValue.toNumber(right) === 0) {
+          return this.unresolved(aNode, 'Division by zero');
+        }
+        return UFPhpValue.toNumber(left) / UFPhpValue.toNumber(right);
+      case '%':
+        if (UFPhpValue.toInteger(right) === 0) {
+          return this.unresolved(aNode, 'Modulo by zero');
+        }
+        return UFPhpValue.toInteger(left) % UFPhpValue.toInteger(right);
+      case '**':
+        return Math.pow(UFPhpValue.toNumber(left), UFPhpValue.toNumber(right));
+      case '&':
+        return UFPhpValue.toInteger(left) & UFPhpValue.toInteger(right);
+      case '|':
+        return UFPhpValue.toInteger(left) | UFPhpValue.toInteger(right);
+      case '^':
+        return UFPhpValue.toInteger(left) ^ UFPhpValue.toInteger(right);
+      case '<<':
+        return UFPhpValue.toInteger(left) << UFPhpValue.toInteger(right);
+      case '>>':
+        return UFPhpValue.toInteger(left) >> UFPhpValue.toInteger(right);
+      case '==':
+        return UFPhpValue.compare(left, right) === 0;
+      case '!=':
+      case '<>':
+        return UFPhpValue.compare(left, right) !== 0;
+      case '===':
+        return UFPhpValue.isIdentical(left, right);
+      case '!==':
+        return !UFPhpValue.isIdentical(left, right);
+      case '<':
+        return UFPhpValue.compare(left, right) < 0;
+      case '<=':
+        return UFPhpValue.compare(left, right) <= 0;
+      case '>':
+        return UFPhpValue.compare(left, right) > 0;
+      case '>=':
+        return UFPhpValue.compare(left, right) >= 0;
+      case '<=>':
+        return UFPhpValue.compare(left, right);
+    }
+    return this.unresolved(aNode, 'Unsupported operator ' + aNode.operator);
+  }
+
+  /**
+   * Evaluates the right operand of a binary operation, replacing a placeholder with one for the whole operation.
+   *
+   * @private
+   */
+  private evaluateOperand(aNode: IUFPhpBinaryNode, anOperand: UFPhpNode): any {
+    const value = this.evaluateNode(anOperand);
+    return value instanceof UFPhpPlaceholder ? this.propagate(aNode, value) : value;
+  }
+
+  /**
+   * Evaluates a cast.
+   *
+   * @private
+   */
+  private evaluateCast(aNode: IUFPhpCastNode): any {
+    const operand = this.evaluateNode(aNode.operand);
+    if (operand instanceof UFPhpPlaceholder) {
+      return this.propagate(aNode, operand);
+    }
+    switch (aNode.castType) {
+      case 'int':
+        return UFPhpValue.toInteger(operand);
+      case 'float':
+        return UFPhpValue.toNumber(operand);
+      case 'string':
+        return UFPhpValue.toString(operand);
+      case 'bool':
+        return UFPhpValue.toBoolean(operand);
+      case 'array':
+      case 'object':
+        if ((operand === null) || (operand === undefined)) {
+          return new UFPhpArray();
+        }
+        return operand instanceof UFPhpArray ? operand : new UFPhpArray([[0, operand]]);
+    }
+    return this.unresolved(aNode, 'Unsupported cast ' + aNode.castType);
+  }
+
+  /**
+   * Evaluates an include or require expression by parsing and evaluating the included file.
+   *
+   * @private
+   */
+  private evaluateInclude(aNode: IUFPhpIncludeNode): any {
+    const path = this.evaluateNode(aNode.path);
+    if (path instanceof UFPhpPlaceholder) {
+      return this.propagate(aNode, path);
+    }
+    const pathText = UFPhpValue.toString(path);
+    const filename = isAbsolute(pathText) ? resolve(pathText) : resolve(this.currentDir, pathText);
+    const once = aNode.kind.endsWith('_once');
+    if (once && this.m_files.includes(filename)) {
+      return true;
+    }
+    if (this.m_stack.includes(filename)) {
+      const cycle = [...this.m_stack.slice(this.m_stack.indexOf(filename)), filename];
+      return this.unresolved(aNode, 'Include cycle: ' + cycle.join(' -> '));
+    }
+    let source: string;
+    try {
+      source = readFileSync(filename).toString();
+    }
+    catch (error: any) {
+      if (aNode.kind.startsWith('require')) {
+        return this.unresolved(aNode, 'Failed opening required ' + filename);
+      }
+      // include only emits a warning and returns false
+      this.m_diagnostics.push(this.createError(aNode, 'Failed opening ' + filename + ' for inclusion'));
+      return false;
+    }
+    const file = new UFPhpParser(source, filename).parse();
+    const previousSource = this.m_source;
+    const previousNamespace = this.m_namespace;
+    const previousUses = this.m_uses;
+    const previousContext = this.m_context;
+    this.m_context = {...previousContext, filename};
+    try {
+      return this.evaluateFileNode(file);
+    }
+    finally {
+      this.m_source = previousSource;
+      this.m_namespace = previousNamespace;
+      this.m_uses = previousUses;
+      this.m_context = previousContext;
+    }
+  }
+
+  /**
+   * @return {string} the directory of the file being evaluated or the base directory if there is no file
+   *
+   * @private
+   */
+  private get currentDir(): string {
+    return this.m_context.filename ? dirname(this.m_context.filename) : this.m_baseDir;
+  }
+
+  /**
+   * Resolves a class name using the namespace and use statements.
+   *
+   * @param {string} aName
+   *   Name as written in the source
+   *
+   * @return {string} fully qualified name without leading backslash
+   *
+   * @private
+   */
+  private resolveClassName(aName: string): string {
+    if (aName.startsWith('\\')) {
+      return aName.substring(1);
+    }
+    const parts = aName.split('\\');
+    if (parts[0].toLowerCase() === 'namespace') {
+      return this.prefixNamespace(parts.slice(1).join('\\'));
+    }
+    const use = this.m_uses.find(
+      use => (use.kind === 'class') && (use.alias.toLowerCase() === parts[0].toLowerCase())
+    );
+    if (use) {
+      return [use.name, ...parts.slice(1)].join('\\');
+    }
+    return this.prefixNamespace(aName);
+  }
+
+  /**
+   * Gets the fully qualified names a function or constant name can refer to, in the order php checks them.
+   *
+   * @param {string} aName
+   *   Name as written in the source
+   * @param {string} aKind
+   *   Type of name
+   *
+   * @return {string[]} one or two names
+   *
+   * @private
+   */
+  private resolveNames(aName: string, aKind: 'function' | 'const'): string[] {
+    if (aName.includes('\\')) {
+      return [this.resolveClassName(aName)];
+    }
+    const use = this.m_uses.find(
+      use => (use.kind === aKind) &&
+        (aKind === 'function' ? use.alias.toLowerCase() === aName.toLowerCase() : use.alias === aName)
+    );
+    if (use) {
+      return [use.name];
+    }
+    // unqualified names fall back to the global namespace
+    return this.m_namespace ? [this.prefixNamespace(aName), aName] : [aName];
+  }
+
+  /**
+   * Adds the current namespace to a name.
+   *
+   * @private
+   */
+  private prefixNamespace(aName: string): string {
+    return this.m_namespace ? this.m_namespace + '\\' + aName : aName;
+  }
+
+  /**
+   * Handles an expression that can not be evaluated.
+   *
+   * @param {UFPhpNode} aNode
+   *   Node that could not be evaluated
+   * @param {string} aReason
+   *   Reason why the node could not be evaluated
+   *
+   * @return {UFPhpPlaceholder} placeholder for the expression
+   *
+   * @throws {UFPhpParseError} in strict mode
+   *
+   * @private
+   */
+  private unresolved(aNode: UFPhpNode, aReason: string): UFPhpPlaceholder {
+    const error = this.createError(aNode, aReason);
+    if (this.m_strict) {
+      throw error;
+    }
+    this.m_diagnostics.push(error);
+    return this.propagate(aNode, error);
+  }
+
+  /**
+   * Creates a placeholder for an expression containing an expression that could not be evaluated. The problem
+   * has already been reported, so no diagnostic is added.
+   *
+   * @param {UFPhpNode} aNode
+   *   Node containing the unresolved expression
+   * @param {UFPhpPlaceholder|UFPhpParseError} aCause
+   *   Placeholder or error of the unresolved expression
+   *
+   * @return {UFPhpPlaceholder} placeholder for the node
+   *
+   * @private
+   */
+  private propagate(aNode: UFPhpNode, aCause: UFPhpPlaceholder | UFPhpParseError): UFPhpPlaceholder {
+    return new UFPhpPlaceholder(
+      this.m_source.substring(aNode.start, aNode.end), aCause.reason, aNode.line, aNode.column
+    );
+  }
+
+  /**
+   * Creates an error for a node in the file being evaluated.
+   *
+   * @private
+   */
+  private createError(aNode: UFPhpNode, aReason: string): UFPhpParseError {
+    return new UFPhpParseError(
+      aReason,
+      this.m_source,
+      aNode.line,
+      aNode.column,
+      this.m_source.substring(aNode.start, aNode.end),
+      this.m_context.filename
+    );
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,355 @@
+// region types
+
+/**
+ * The different types of nodes {@link UFPhpParser} creates.
+ */
+export enum UFPhpNodeType {
+  /**
+   * A php file, see {@link IUFPhpFileNode}.
+   */
+  File = 'file',
+
+  /**
+   * A string, number, boolean or null value, see {@link IUFPhpLiteralNode}.
+   */
+  Literal = 'literal',
+
+  /**
+   * An array, see {@link IUFPhpArrayNode}.
+   */
+  Array = 'array',
+
+  /**
+   * A constant, see {@link IUFPhpConstantNode}.
+   */
+  Constant = 'constant',
+
+  /**
+   * A class constant, see {@link IUFPhpClassConstantNode}.
+   */
+  ClassConstant = 'classConstant',
+
+  /**
+   * A function or static method call, see {@link IUFPhpCallNode}.
+   */
+  Call = 'call',
+
+  /**
+   * A unary operation, see {@link IUFPhpUnaryNode}.
+   */
+  Unary = 'unary',
+
+  /**
+   * A binary operation, see {@link IUFPhpBinaryNode}.
+   */
+  Binary = 'binary',
+
+  /**
+   * A ternary operation, see {@link IUFPhpTernaryNode}.
+   */
+  Ternary = 'ternary',
+
+  /**
+   * A type cast, see {@link IUFPhpCastNode}.
+   */
+  Cast = 'cast',
+
+  /**
+   * An include or require expression, see {@link IUFPhpIncludeNode}.
+   */
+  Include = 'include',
+
+  /**
+   * An expression that is not supported, see {@link IUFPhpRawNode}.
+   */
+  Raw = 'raw',
+}
+
+/**
+ * Location of a node within the source.
+ */
+export interface IUFPhpLocation {
+  /**
+   * Offset of the first character
+   */
+  readonly start: number;
+
+  /**
+   * Offset after the last character
+   */
+  readonly end: number;
+
+  /**
+   * Line number (starting at 1)
+   */
+  readonly line: number;
+
+  /**
+   * Column number (starting at 1)
+   */
+  readonly column: number;
+}
+
+/**
+ * A literal value.
+ */
+export interface IUFPhpLiteralNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Literal;
+
+  /**
+   * Value of the literal
+   */
+  readonly value: string | number | boolean | null;
+}
+
+/**
+ * A single entry in an array.
+ */
+export interface IUFPhpArrayItemNode extends IUFPhpLocation {
+  /**
+   * Key or null if no key was specified
+   */
+  readonly key: UFPhpNode | null;
+
+  /**
+   * Value of the entry
+   */
+  readonly value: UFPhpNode;
+
+  /**
+   * Text of the doc comment (`/** *\/`) before the entry or null if there is none
+   */
+  readonly docComment: string | null;
+}
+
+/**
+ * An array defined with `[...]` or `array(...)`.
+ */
+export interface IUFPhpArrayNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Array;
+
+  /**
+   * Entries in the array
+   */
+  readonly items: IUFPhpArrayItemNode[];
+
+  /**
+   * True if the short syntax `[...]` was used
+   */
+  readonly short: boolean;
+}
+
+/**
+ * A (magic) constant like `PHP_EOL` or `__DIR__`.
+ */
+export interface IUFPhpConstantNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Constant;
+
+  /**
+   * Name as written in the source
+   */
+  readonly name: string;
+}
+
+/**
+ * A class constant like `\PDO::ATTR_ERRMODE` or `Foo::class`.
+ */
+export interface IUFPhpClassConstantNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.ClassConstant;
+
+  /**
+   * Class name as written in the source
+   */
+  readonly className: string;
+
+  /**
+   * Name of the constant (`class` for `Foo::class`)
+   */
+  readonly name: string;
+}
+
+/**
+ * A call to a function (`env('HOST')`) or static method (`Str::slug('x')`).
+ */
+export interface IUFPhpCallNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Call;
+
+  /**
+   * Class name as written in the source or null for function calls
+   */
+  readonly className: string | null;
+
+  /**
+   * Name of the function or method as written in the source
+   */
+  readonly name: string;
+
+  /**
+   * Arguments passed to the function
+   */
+  readonly arguments: UFPhpNode[];
+}
+
+/**
+ * A unary operation: `-`, `+`, `!` or `~`.
+ */
+export interface IUFPhpUnaryNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Unary;
+
+  /**
+   * Operator symbol
+   */
+  readonly operator: string;
+
+  /**
+   * Operand
+   */
+  readonly operand: UFPhpNode;
+}
+
+/**
+ * A binary operation like `.`, `+`, `??`, `&&` or `==`. The keyword operators `and`, `or` and `xor` are
+ * stored in lowercase.
+ */
+export interface IUFPhpBinaryNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Binary;
+
+  /**
+   * Operator symbol
+   */
+  readonly operator: string;
+
+  /**
+   * Left operand
+   */
+  readonly left: UFPhpNode;
+
+  /**
+   * Right operand
+   */
+  readonly right: UFPhpNode;
+}
+
+/**
+ * A ternary operation `condition ? whenTrue : whenFalse` or `condition ?: whenFalse`.
+ */
+export interface IUFPhpTernaryNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Ternary;
+
+  /**
+   * Condition
+   */
+  readonly condition: UFPhpNode;
+
+  /**
+   * Value when the condition is true or null for the short `?:` version
+   */
+  readonly whenTrue: UFPhpNode | null;
+
+  /**
+   * Value when the condition is false
+   */
+  readonly whenFalse: UFPhpNode;
+}
+
+/**
+ * A type cast like `(int)` or `(bool)`.
+ */
+export interface IUFPhpCastNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Cast;
+
+  /**
+   * Type to cast to: `int`, `float`, `string`, `bool`, `array` or `object`
+   */
+  readonly castType: string;
+
+  /**
+   * Value to cast
+   */
+  readonly operand: UFPhpNode;
+}
+
+/**
+ * An `include`, `include_once`, `require` or `require_once` expression.
+ */
+export interface IUFPhpIncludeNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Include;
+
+  /**
+   * Keyword used (in lowercase)
+   */
+  readonly kind: 'include' | 'include_once' | 'require' | 'require_once';
+
+  /**
+   * Expression for the path of the file
+   */
+  readonly path: UFPhpNode;
+}
+
+/**
+ * An expression the parser does not support. The source text of the expression is stored.
+ */
+export interface IUFPhpRawNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.Raw;
+
+  /**
+   * Source text of the expression
+   */
+  readonly text: string;
+}
+
+/**
+ * A `use` import.
+ */
+export interface IUFPhpUse {
+  /**
+   * Type of import
+   */
+  readonly kind: 'class' | 'function' | 'const';
+
+  /**
+   * Fully qualified name (without leading backslash)
+   */
+  readonly name: string;
+
+  /**
+   * Alias the name is imported as
+   */
+  readonly alias: string;
+}
+
+/**
+ * A parsed php file.
+ */
+export interface IUFPhpFileNode extends IUFPhpLocation {
+  readonly type: UFPhpNodeType.File;
+
+  /**
+   * Source of the file
+   */
+  readonly source: string;
+
+  /**
+   * Namespace declared in the file or an empty string for the global namespace
+   */
+  readonly namespace: string;
+
+  /**
+   * The `use` imports in the file
+   */
+  readonly uses: IUFPhpUse[];
+
+  /**
+   * The expression of the return statement
+   */
+  readonly returnValue: UFPhpNode;
+}
+
+/**
+ * All nodes that can be part of an expression.
+ */
+export type UFPhpNode =
+  IUFPhpLiteralNode | IUFPhpArrayNode | IUFPhpConstantNode | IUFPhpClassConstantNode | IUFPhpCallNode |
+  IUFPhpUnaryNode | IUFPhpBinaryNode | IUFPhpTernaryNode | IUFPhpCastNode | IUFPhpIncludeNode | IUFPhpRawNode;
+
+// endregion
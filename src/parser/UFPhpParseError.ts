@@ -0,0 +1,92 @@
+// region class
+
+/**
+ * {@link UFPhpParseError} is used for php code that is invalid or can not be evaluated. It is thrown by
+ * {@link UFPhpTokenizer} and {@link UFPhpParser} and, in strict mode, by {@link UFPhpEvaluator}. In lenient mode
+ * the evaluator returns instances as diagnostics instead.
+ *
+ * The message includes the filename (if known), line and column.
+ */
+export class UFPhpParseError extends Error {
+  // region public variables
+
+  /**
+   * Description of the problem without location
+   */
+  readonly reason: string;
+
+  /**
+   * Absolute path of the file or an empty string if the source did not come from a file
+   */
+  readonly filename: string;
+
+  /**
+   * Line number (starting at 1)
+   */
+  readonly line: number;
+
+  /**
+   * Column number (starting at 1)
+   */
+  readonly column: number;
+
+  /**
+   * The source line containing the problem followed by a line with a marker below the column
+   */
+  readonly excerpt: string;
+
+  /**
+   * Source text of the offending token or expression (empty at the end of the source)
+   */
+  readonly token: string;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpParseError}.
+   *
+   * @param {string} aReason
+   *   Description of the problem
+   * @param {string} aSource
+   *   Source containing the problem, used to create the excerpt
+   * @param {number} aLine
+   *   Line number (starting at 1)
+   * @param {number} aColumn
+   *   Column number (starting at 1)
+   * @param {string} aToken
+   *   Source text of the offending token or expression
+   * @param {string} aFilename
+   *   Filename or empty string if the source did not come from a file
+   */
+  constructor(aReason: string, aSource: string, aLine: number, aColumn: number, aToken: string, aFilename: string) {
+    super(aReason + (aFilename ? ' in ' + aFilename : '') + ' at line ' + aLine + ', column ' + aColumn);
+    this.name = 'UFPhpParseError';
+    this.reason = aReason;
+    this.filename = aFilename;
+    this.line = aLine;
+    this.column = aColumn;
+    this.excerpt = UFPhpParseError.createExcerpt(aSource, aLine, aColumn);
+    this.token = aToken;
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Creates the excerpt for a location.
+   *
+   * @private
+   */
+  private static createExcerpt(aSource: string, aLine: number, aColumn: number): string {
+    const text = (aSource.split(/\r\n|\n|\r/)[aLine - 1] || '').replace(/\t/g, ' ');
+    const prefix = aLine + ' | ';
+    return prefix + text + '\n' + ' '.repeat(prefix.length - 2) + '| ' + ' '.repeat(Math.max(0, aColumn - 1)) + '^';
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,904 @@
+// region imports
+
+import {IUFPhpToken, UFPhpTokenizer, UFPhpTokenType} from './UFPhpTokenizer.js';
+import {UFPhpParseError} from './UFPhpParseError.js';
+import {
+  IUFPhpArrayItemNode,
+  IUFPhpArrayNode,
+  IUFPhpFileNode,
+  IUFPhpLocation,
+  IUFPhpUse,
+  UFPhpNode,
+  UFPhpNodeType
+} from './UFPhpNode.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Symbols that end an expression.
+ */
+const EXPRESSION_END: string[] = [',', ']', ')', ';', '=>'];
+
+/**
+ * Precedence of the binary operators, a higher value binds stronger.
+ */
+const BINARY_PRECEDENCE: Map<string, number> = new Map([
+  ['or', 1],
+  ['xor', 2],
+  ['and', 3],
+  ['??', 5],
+  ['||', 6],
+  ['&&', 7],
+  ['|', 8],
+  ['^', 9],
+  ['&', 10],
+  ['==', 11], ['!=', 11], ['<>', 11], ['===', 11], ['!==', 11], ['<=>', 11],
+  ['<', 12], ['<=', 12], ['>', 12], ['>=', 12],
+  ['.', 13],
+  ['<<', 14], ['>>', 14],
+  ['+', 15], ['-', 15],
+  ['*', 16], ['/', 16], ['%', 16],
+]);
+
+/**
+ * Precedence of the ternary operator.
+ */
+const TERNARY_PRECEDENCE = 4;
+
+/**
+ * Maps the names that can be used in a cast to the normalized name.
+ */
+const CASTS: Map<string, string> = new Map([
+  ['int', 'int'],
+  ['integer', 'int'],
+  ['bool', 'bool'],
+  ['boolean', 'bool'],
+  ['float', 'float'],
+  ['double', 'float'],
+  ['real', 'float'],
+  ['string', 'string'],
+  ['binary', 'string'],
+  ['array', 'array'],
+  ['object', 'object'],
+]);
+
+/**
+ * Keywords that start an expression which is not supported.
+ */
+const UNSUPPORTED_KEYWORDS: string[] = [
+  'new', 'clone', 'function', 'fn', 'static', 'match', 'isset', 'empty', 'list', 'print', 'yield', 'throw',
+  'self', 'parent', 'exit', 'die', 'eval',
+];
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpParser} is a recursive descent parser for the part of the php language used in configuration files:
+ * a file with optional `namespace`, `use` and `declare` statements followed by a `return` statement.
+ *
+ * The returned value can be an array (both the short `[...]` and the long `array(...)` syntax), string, number,
+ * boolean or null; combined with constants, function and static method calls, unary, binary and ternary operators,
+ * casts and `include`/`require` expressions. Expressions that are not supported (like variables, closures or object
+ * creation) are stored as {@link IUFPhpRawNode}.
+ */
+export class UFPhpParser {
+  // region private variables
+
+  /**
+   * Source being parsed
+   *
+   * @private
+   */
+  private readonly m_source: string;
+
+  /**
+   * Filename used in errors
+   *
+   * @private
+   */
+  private readonly m_filename: string;
+
+  /**
+   * Tokens without comments
+   *
+   * @private
+   */
+  private m_tokens: IUFPhpToken[] = [];
+
+  /**
+   * Index of current token
+   *
+   * @private
+   */
+  private m_index: number = 0;
+
+  /**
+   * Doc comments mapped to the token that follows them
+   *
+   * @private
+   */
+  private m_docComments: Map<IUFPhpToken, string> = new Map();
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpParser}.
+   *
+   * @param {string} aSource
+   *   Php source to parse
+   * @param {string} aFilename
+   *   Filename used in errors
+   */
+  constructor(aSource: string, aFilename: string = '') {
+    this.m_source = aSource;
+    this.m_filename = aFilename;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Parses the source.
+   *
+   * @return {IUFPhpFileNode} the parsed file
+   *
+   * @throws {UFPhpParseError} when the source contains invalid or unsupported code
+   */
+  parse(): IUFPhpFileNode {
+    this.m_tokens = [];
+    this.m_docComments = new Map();
+    let docComment: string | null = null;
+    for (const token of new UFPhpTokenizer(this.m_source, this.m_filename).tokenize()) {
+      switch (token.type) {
+        case UFPhpTokenType.DocComment:
+          docComment = token.value as string;
+          break;
+        case UFPhpTokenType.Comment:
+          break;
+        default:
+          if (docComment !== null) {
+            this.m_docComments.set(token, docComment);
+            docComment = null;
+          }
+          this.m_tokens.push(token);
+          break;
+      }
+    }
+    this.m_index = 0;
+    return this.parseFile();
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Parses the statements in the file until the return statement.
+   *
+   * @private
+   */
+  private parseFile(): IUFPhpFileNode {
+    const uses: IUFPhpUse[] = [];
+    let namespace = '';
+    while (this.current.type === UFPhpTokenType.InlineHtml) {
+      this.next();
+    }
+    if (this.current.type !== UFPhpTokenType.OpenTag) {
+      this.fail('Missing <?php open tag', this.current);
+    }
+    while (true) {
+      const token = this.current;
+      switch (token.type) {
+        case UFPhpTokenType.End:
+          this.fail('Missing return statement', token);
+        case UFPhpTokenType.OpenTag:
+        case UFPhpTokenType.CloseTag:
+        case UFPhpTokenType.InlineHtml:
+          this.next();
+          continue;
+        case UFPhpTokenType.Symbol:
+          if (token.value === ';') {
+            this.next();
+            continue;
+          }
+          break;
+        case UFPhpTokenType.Identifier:
+          switch ((token.value as string).toLowerCase()) {
+            case 'declare':
+              this.parseDeclare();
+              continue;
+            case 'namespace':
+              namespace = this.parseNamespace();
+              continue;
+            case 'use':
+              uses.push(...this.parseUse());
+              continue;
+            case 'return': {
+              this.next();
+              const returnValue = this.parseExpression();
+              this.expectStatementEnd();
+              return {
+                type: UFPhpNodeType.File,
+                source: this.m_source,
+                namespace,
+                uses,
+                returnValue,
+                ...this.getLocation(this.m_tokens[0], this.previous),
+              };
+            }
+          }
+          break;
+      }
+      this.fail('Unsupported statement', token);
+    }
+  }
+
+  /**
+   * Skips a `declare(...);` statement.
+   *
+   * @private
+   */
+  private parseDeclare(): void {
+    this.next();
+    this.expectSymbol('(');
+    this.skipUntilClose(')');
+    this.expectStatementEnd();
+  }
+
+  /**
+   * Parses a `namespace Name;` statement.
+   *
+   * @return {string} name of the namespace
+   *
+   * @private
+   */
+  private parseNamespace(): string {
+    this.next();
+    const name = this.expectIdentifier();
+    this.expectStatementEnd();
+    return UFPhpParser.stripLeadingSlash(name);
+  }
+
+  /**
+   * Parses a `use` statement, including group use statements.
+   *
+   * @return {IUFPhpUse[]} imported names
+   *
+   * @private
+   */
+  private parseUse(): IUFPhpUse[] {
+    const result: IUFPhpUse[] = [];
+    this.next();
+    const kind = this.parseUseKind() || 'class';
+    do {
+      const name = UFPhpParser.stripLeadingSlash(this.expectIdentifier());
+      if (this.acceptSymbol('\\')) {
+        // group use: Prefix\{Name, Name as Alias}
+        this.expectSymbol('{');
+        do {
+          if (this.isSymbol('}')) {
+            break;
+          }
+          const itemKind = this.parseUseKind() || kind;
+          result.push(this.createUse(itemKind, name + '\\' + this.expectIdentifier()));
+        } while (this.acceptSymbol(','));
+        this.expectSymbol('}');
+      }
+      else {
+        result.push(this.createUse(kind, name));
+      }
+    } while (this.acceptSymbol(','));
+    this.expectStatementEnd();
+    return result;
+  }
+
+  /**
+   * Parses the optional `function` or `const` keyword in a `use` statement.
+   *
+   * @private
+   */
+  private parseUseKind(): 'function' | 'const' | null {
+    if (this.current.type === UFPhpTokenType.Identifier) {
+      const value = (this.current.value as string).toLowerCase();
+      const following = this.m_tokens[this.m_index + 1];
+      if (((value === 'function') || (value === 'const')) && (following.type === UFPhpTokenType.Identifier)) {
+        this.next();
+        return value;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Creates a use entry, parsing an optional `as` alias.
+   *
+   * @private
+   */
+  private createUse(aKind: 'class' | 'function' | 'const', aName: string): IUFPhpUse {
+    let alias = aName.substring(aName.lastIndexOf('\\') + 1);
+    if ((this.current.type === UFPhpTokenType.Identifier) && ((this.current.value as string).toLowerCase() === 'as')) {
+      this.next();
+      alias = this.expectIdentifier();
+    }
+    return {kind: aKind, name: aName, alias};
+  }
+
+  /**
+   * Parses an expression.
+   *
+   * @return {UFPhpNode} parsed expression
+   *
+   * @private
+   */
+  private parseExpression(): UFPhpNode {
+    return this.parseBinary(0);
+  }
+
+  /**
+   * Parses binary and ternary operations using precedence climbing.
+   *
+   * @param {number} aMinPrecedence
+   *   Operators with a lower precedence end the expression
+   *
+   * @private
+   */
+  private parseBinary(aMinPrecedence: number): UFPhpNode {
+    let left = this.parseUnary();
+    while (true) {
+      const operator = this.getBinaryOperator();
+      if ((operator === '?') && (TERNARY_PRECEDENCE >= aMinPrecedence)) {
+        this.next();
+        const whenTrue = this.isSymbol(':') ? null : this.parseExpression();
+        this.expectSymbol(':');
+        const whenFalse = this.parseBinary(TERNARY_PRECEDENCE + 1);
+        left = {
+          type: UFPhpNodeType.Ternary, condition: left, whenTrue, whenFalse, ...this.getNodesLocation(left, whenFalse)
+        };
+        continue;
+      }
+      const precedence = operator === null ? undefined : BINARY_PRECEDENCE.get(operator);
+      if ((precedence === undefined) || (precedence < aMinPrecedence)) {
+        return left;
+      }
+      this.next();
+      // ?? is right associative
+      const right = this.parseBinary(operator === '??' ? precedence : precedence + 1);
+      left = {type: UFPhpNodeType.Binary, operator: operator!, left, right, ...this.getNodesLocation(left, right)};
+    }
+  }
+
+  /**
+   * Gets the binary operator at the current position.
+   *
+   * @return {string|null} operator (keyword operators in lowercase) or null if there is no operator
+   *
+   * @private
+   */
+  private getBinaryOperator(): string | null {
+    const token = this.current;
+    if (token.type === UFPhpTokenType.Symbol) {
+      return token.value as string;
+    }
+    if (token.type === UFPhpTokenType.Identifier) {
+      const value = (token.value as string).toLowerCase();
+      return BINARY_PRECEDENCE.has(value) ? value : null;
+    }
+    return null;
+  }
+
+  /**
+   * Parses unary operations and casts.
+   *
+   * @private
+   */
+  private parseUnary(): UFPhpNode {
+    const token = this.current;
+    if (token.type === UFPhpTokenType.Symbol) {
+      switch (token.value) {
+        case '@':
+          // error suppression has no meaning here
+          this.next();
+          return this.parseUnary();
+        case '!':
+        case '~':
+        case '-':
+        case '+': {
+          this.next();
+          const operand = this.parseUnary();
+          if (
+            (operand.type === UFPhpNodeType.Literal) && (typeof operand.value === 'number') &&
+            ((token.value === '-') || (token.value === '+'))
+          ) {
+            const value = token.value === '-' ? -operand.value : operand.value;
+            return {type: UFPhpNodeType.Literal, value, ...this.getLocation(token, this.previous)};
+          }
+          return {
+            type: UFPhpNodeType.Unary,
+            operator: token.value,
+            operand,
+            ...this.getLocation(token, this.previous)
+          };
+        }
+        case '(': {
+          const castType = this.getCastType();
+          if (castType !== null) {
+            this.next();
+            this.next();
+            this.next();
+            const operand = this.parseUnary();
+            return {type: UFPhpNodeType.Cast, castType, operand, ...this.getLocation(token, this.previous)};
+          }
+          break;
+        }
+      }
+    }
+    return this.parsePower();
+  }
+
+  /**
+   * Checks if the current position contains a cast.
+   *
+   * @return {string|null} normalized cast type or null if there is no cast
+   *
+   * @private
+   */
+  private getCastType(): string | null {
+    const name = this.m_tokens[this.m_index + 1];
+    const close = this.m_tokens[this.m_index + 2];
+    if (
+      (name.type !== UFPhpTokenType.Identifier) || (close.type !== UFPhpTokenType.Symbol) || (close.value !== ')')
+    ) {
+      return null;
+    }
+    return CASTS.get((name.value as string).toLowerCase()) || null;
+  }
+
+  /**
+   * Parses the `**` operator, which binds stronger than the unary operators and is right associative.
+   *
+   * @private
+   */
+  private parsePower(): UFPhpNode {
+    const base = this.parsePrimary();
+    if (!this.acceptSymbol('**')) {
+      return base;
+    }
+    const exponent = this.parseUnary();
+    return {
+      type: UFPhpNodeType.Binary, operator: '**', left: base, right: exponent, ...this.getNodesLocation(base, exponent)
+    };
+  }
+
+  /**
+   * Parses a literal, array, constant, call or expression between parenthesis. Expressions that are not
+   * supported are returned as raw node.
+   *
+   * @private
+   */
+  private parsePrimary(): UFPhpNode {
+    const start = this.m_index;
+    const node = this.parseSupportedPrimary();
+    // dereferencing the result (array access, property access or calling it) is not supported
+    if ((node === null) || this.isSymbol('[') || this.isSymbol('->') || this.isSymbol('?->') || this.isSymbol('(')) {
+      this.m_index = start;
+      return this.parseRaw();
+    }
+    return node;
+  }
+
+  /**
+   * Tries to parse a supported primary expression.
+   *
+   * @return {UFPhpNode|null} the parsed node or null if the current token does not start a supported expression
+   *
+   * @private
+   */
+  private parseSupportedPrimary(): UFPhpNode | null {
+    const token = this.current;
+    switch (token.type) {
+      case UFPhpTokenType.String:
+      case UFPhpTokenType.Integer:
+      case UFPhpTokenType.Float:
+        this.next();
+        return {type: UFPhpNodeType.Literal, value: token.value, ...this.getLocation(token, token)};
+      case UFPhpTokenType.Identifier:
+        return this.parseName(token);
+      case UFPhpTokenType.Symbol:
+        if (token.value === '[') {
+          return this.parseArray(token, ']', true);
+        }
+        if (token.value === '(') {
+          this.next();
+          const expression = this.parseExpression();
+          this.expectSymbol(')');
+          return expression;
+        }
+        return null;
+    }
+    return null;
+  }
+
+  /**
+   * Parses an expression starting with a name: a literal, long array, constant, class constant, call or
+   * include expression.
+   *
+   * @return {UFPhpNode|null} the parsed node or null if the name is a keyword that is not supported
+   *
+   * @private
+   */
+  private parseName(aToken: IUFPhpToken): UFPhpNode | null {
+    const name = aToken.value as string;
+    const lowerName = name.toLowerCase();
+    const following = this.m_tokens[this.m_index + 1];
+    if (UNSUPPORTED_KEYWORDS.includes(lowerName)) {
+      return null;
+    }
+    switch (lowerName) {
+      case 'true':
+      case 'false':
+      case 'null':
+        this.next();
+        return {
+          type: UFPhpNodeType.Literal,
+          value: lowerName === 'null' ? null : lowerName === 'true',
+          ...this.getLocation(aToken, aToken)
+        };
+      case 'array':
+        if ((following.type === UFPhpTokenType.Symbol) && (following.value === '(')) {
+          this.next();
+          return this.parseArray(aToken, ')', false);
+        }
+        break;
+      case 'include':
+      case 'include_once':
+      case 'require':
+      case 'require_once': {
+        // the path is the whole expression following the keyword
+        this.next();
+        const path = this.parseExpression();
+        return {type: UFPhpNodeType.Include, kind: lowerName, path, ...this.getLocation(aToken, this.previous)};
+      }
+    }
+    this.next();
+    if (this.isSymbol('(')) {
+      return this.parseCall(aToken, null, name);
+    }
+    if (!this.acceptSymbol('::')) {
+      return {type: UFPhpNodeType.Constant, name, ...this.getLocation(aToken, aToken)};
+    }
+    const member = this.current;
+    if (member.type !== UFPhpTokenType.Identifier) {
+      // static properties and dynamic access are not supported
+      return null;
+    }
+    this.next();
+    if (this.isSymbol('(')) {
+      return this.parseCall(aToken, name, member.value as string);
+    }
+    return {
+      type: UFPhpNodeType.ClassConstant,
+      className: name,
+      name: member.value as string,
+      ...this.getLocation(aToken, member)
+    };
+  }
+
+  /**
+   * Parses the arguments of a call; the current token is the opening parenthesis.
+   *
+   * @return {UFPhpNode|null} call node or null if the call uses named arguments or argument unpacking
+   *
+   * @private
+   */
+  private parseCall(aStart: IUFPhpToken, aClassName: string | null, aName: string): UFPhpNode | null {
+    this.next();
+    const args: UFPhpNode[] = [];
+    while (!this.isSymbol(')')) {
+      const following = this.m_tokens[this.m_index + 1];
+      if (
+        this.isSymbol('...') ||
+        (
+          (this.current.type === UFPhpTokenType.Identifier) && (following.type === UFPhpTokenType.Symbol) &&
+          (following.value === ':')
+        )
+      ) {
+        return null;
+      }
+      args.push(this.parseExpression());
+      if (!this.acceptSymbol(',')) {
+        break;
+      }
+    }
+    this.expectSymbol(')');
+    return {
+      type: UFPhpNodeType.Call,
+      className: aClassName,
+      name: aName,
+      arguments: args,
+      ...this.getLocation(aStart, this.previous)
+    };
+  }
+
+  /**
+   * Parses an array; the current token is the opening bracket.
+   *
+   * @param {IUFPhpToken} aStart
+   *   First token of the array (either `[` or `array`)
+   * @param {string} aClose
+   *   Closing symbol
+   * @param {boolean} aShort
+   *   True if short syntax is used
+   *
+   * @private
+   */
+  private parseArray(aStart: IUFPhpToken, aClose: string, aShort: boolean): IUFPhpArrayNode {
+    this.next();
+    const items: IUFPhpArrayItemNode[] = [];
+    while (!this.isSymbol(aClose)) {
+      if (this.isSymbol(',')) {
+        this.fail('Cannot use empty array elements', this.current);
+      }
+      const first = this.current;
+      let key: UFPhpNode | null = null;
+      let value = this.parseExpression();
+      if (this.acceptSymbol('=>')) {
+        key = value;
+        value = this.parseExpression();
+      }
+      items.push({
+        key, value, docComment: this.m_docComments.get(first) || null, ...this.getLocation(first, this.previous)
+      });
+      if (!this.acceptSymbol(',')) {
+        break;
+      }
+    }
+    this.expectSymbol(aClose);
+    return {type: UFPhpNodeType.Array, items, short: aShort, ...this.getLocation(aStart, this.previous)};
+  }
+
+  /**
+   * Parses an unsupported expression by skipping tokens until the end of the expression.
+   *
+   * @private
+   */
+  private parseRaw(): UFPhpNode {
+    const first = this.current;
+    let depth = 0;
+    // the => of an arrow function does not end the expression
+    let isArrowFunction = this.isArrowFunction();
+    while (true) {
+      const token = this.current;
+      if ((token.type === UFPhpTokenType.End) || (token.type === UFPhpTokenType.CloseTag)) {
+        break;
+      }
+      if (token.type === UFPhpTokenType.Symbol) {
+        if ((depth === 0) && isArrowFunction && (token.value === '=>')) {
+          isArrowFunction = false;
+        }
+        else if ((depth === 0) && EXPRESSION_END.includes(token.value as string)) {
+          break;
+        }
+        if ((token.value === '(') || (token.value === '[') || (token.value === '{')) {
+          depth++;
+        }
+        else if ((token.value === ')') || (token.value === ']') || (token.value === '}')) {
+          depth--;
+        }
+      }
+      this.next();
+    }
+    if (this.current === first) {
+      this.fail('Unexpected token', first);
+    }
+    const location = this.getLocation(first, this.previous);
+    return {
+      type: UFPhpNodeType.Raw,
+      text: this.m_source.substring(location.start, location.end),
+      ...location
+    };
+  }
+
+  /**
+   * Checks if the current position starts an arrow function (`fn() => ...` or `static fn() => ...`).
+   *
+   * @private
+   */
+  private isArrowFunction(): boolean {
+    const isName = (aToken: IUFPhpToken, aName: string) =>
+      (aToken.type === UFPhpTokenType.Identifier) && ((aToken.value as string).toLowerCase() === aName);
+    return isName(this.current, 'fn') ||
+      (isName(this.current, 'static') && isName(this.m_tokens[this.m_index + 1], 'fn'));
+  }
+
+  /**
+   * Skips tokens until the matching closing symbol and skips that symbol as well.
+   *
+   * @private
+   */
+  private skipUntilClose(aClose: string): void {
+    let depth = 0;
+    while (true) {
+      const token = this.current;
+      if (token.type === UFPhpTokenType.End) {
+        this.fail('Missing ' + aClose, token);
+      }
+      this.next();
+      if (token.type !== UFPhpTokenType.Symbol) {
+        continue;
+      }
+      if ((token.value === '(') || (token.value === '[') || (token.value === '{')) {
+        depth++;
+      }
+      else if ((token.value === ')') || (token.value === ']') || (token.value === '}')) {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      }
+    }
+  }
+
+  /**
+   * Expects the end of a statement: either `;`, a close tag or the end of the source.
+   *
+   * @private
+   */
+  private expectStatementEnd(): void {
+    if (
+      (this.current.type === UFPhpTokenType.CloseTag) || (this.current.type === UFPhpTokenType.End)
+    ) {
+      return;
+    }
+    this.expectSymbol(';');
+  }
+
+  /**
+   * Expects an identifier and moves to the next token.
+   *
+   * @return {string} the identifier
+   *
+   * @private
+   */
+  private expectIdentifier(): string {
+    const token = this.current;
+    if (token.type !== UFPhpTokenType.Identifier) {
+      this.fail('Expected a name', token);
+    }
+    this.next();
+    return token.value as string;
+  }
+
+  /**
+   * Expects a symbol and moves to the next token.
+   *
+   * @private
+   */
+  private expectSymbol(aSymbol: string): void {
+    if (!this.acceptSymbol(aSymbol)) {
+      this.fail('Expected "' + aSymbol + '"', this.current);
+    }
+  }
+
+  /**
+   * Moves to the next token if the current token is a certain symbol.
+   *
+   * @return {boolean} true if the current token was the symbol
+   *
+   * @private
+   */
+  private acceptSymbol(aSymbol: string): boolean {
+    if (this.isSymbol(aSymbol)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks if the current token is a certain symbol.
+   *
+   * @private
+   */
+  private isSymbol(aSymbol: string): boolean {
+    return (this.current.type === UFPhpTokenType.Symbol) && (this.current.value === aSymbol);
+  }
+
+  /**
+   * @return {IUFPhpToken} the current token
+   *
+   * @private
+   */
+  private get current(): IUFPhpToken {
+    return this.m_tokens[this.m_index];
+  }
+
+  /**
+   * @return {IUFPhpToken} the token before the current token
+   *
+   * @private
+   */
+  private get previous(): IUFPhpToken {
+    return this.m_tokens[Math.max(0, this.m_index - 1)];
+  }
+
+  /**
+   * Moves to the next token; the position stays at the end token.
+   *
+   * @private
+   */
+  private next(): void {
+    if (this.m_index < this.m_tokens.length - 1) {
+      this.m_index++;
+    }
+  }
+
+  /**
+   * Gets the location spanning two tokens.
+   *
+   * @private
+   */
+  private getLocation(aFirst: IUFPhpToken, aLast: IUFPhpToken): IUFPhpLocation {
+    return {
+      start: aFirst.start,
+      end: aLast.end,
+      line: aFirst.line,
+      column: aFirst.column
+    };
+  }
+
+  /**
+   * Gets the location spanning two nodes.
+   *
+   * @private
+   */
+  private getNodesLocation(aFirst: IUFPhpLocation, aLast: IUFPhpLocation): IUFPhpLocation {
+    return {
+      start: aFirst.start,
+      end: aLast.end,
+      line: aFirst.line,
+      column: aFirst.column
+    };
+  }
+
+  /**
+   * Throws an error for a token.
+   *
+   * @param {string} aMessage
+   *   Description of the problem
+   * @param {IUFPhpToken} aToken
+   *   Token causing the problem
+   *
+   * @private
+   */
+  private fail(aMessage: string, aToken: IUFPhpToken): never {
+    const token = this.m_source.substring(aToken.start, aToken.end);
+    const text = aToken.type === UFPhpTokenType.End ? 'end of file' : '"' + token + '"';
+    throw new UFPhpParseError(
+      aMessage + ', found ' + text, this.m_source, aToken.line, aToken.column, token, this.m_filename
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Removes the leading namespace separator from a name.
+   *
+   * @private
+   */
+  private static stripLeadingSlash(aName: string): string {
+    return aName.startsWith('\\') ? aName.substring(1) : aName;
+  }
+
+  // endregion
+}
+
+// endregion
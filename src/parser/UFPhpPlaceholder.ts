@@ -0,0 +1,69 @@
+// region types
+
+/**
+ * {@link UFPhpPlaceholder} is used by {@link UFPhpEvaluator} for expressions that could not be evaluated, for
+ * example a call to a function that is not known by the resolver.
+ *
+ * Converting a placeholder to a string returns the php code of the expression.
+ */
+export class UFPhpPlaceholder {
+  // region public variables
+
+  /**
+   * Php code of the expression
+   */
+  readonly code: string;
+
+  /**
+   * Reason why the expression could not be evaluated
+   */
+  readonly reason: string;
+
+  /**
+   * Line number of the expression (starting at 1)
+   */
+  readonly line: number;
+
+  /**
+   * Column number of the expression (starting at 1)
+   */
+  readonly column: number;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpPlaceholder}.
+   *
+   * @param {string} aCode
+   *   Php code of the expression
+   * @param {string} aReason
+   *   Reason why the expression could not be evaluated
+   * @param {number} aLine
+   *   Line number of the expression
+   * @param {number} aColumn
+   *   Column number of the expression
+   */
+  constructor(aCode: string, aReason: string, aLine: number, aColumn: number) {
+    this.code = aCode;
+    this.reason = aReason;
+    this.line = aLine;
+    this.column = aColumn;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * @return {string} the php code of the expression
+   */
+  toString(): string {
+    return this.code;
+  }
+
+  // endregion
+}
+
+// endregion
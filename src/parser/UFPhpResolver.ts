@@ -0,0 +1,538 @@
+// region imports
+
+import {EOL, tmpdir} from 'os';
+import {basename, delimiter, dirname, sep} from 'path';
+import {UFPhpArray} from '../tools/UFPhpArray.js';
+import {UFPhpValue} from '../tools/UFPhpValue.js';
+
+// endregion
+
+// region types
+
+/**
+ * Environment variables, compatible with `process.env`.
+ */
+export type UFPhpEnvironment = { [name: string]: string | undefined };
+
+/**
+ * Information passed to functions called by {@link UFPhpEvaluator}.
+ */
+export interface IUFPhpEvaluationContext {
+  /**
+   * Environment variables
+   */
+  readonly env: UFPhpEnvironment;
+
+  /**
+   * Absolute path of the file being evaluated or an empty string if there is no file
+   */
+  readonly filename: string;
+}
+
+/**
+ * A php function implemented in javascript. Php arrays are passed as {@link UFPhpArray} instances; the function
+ * can return php arrays as {@link UFPhpArray}, javascript array or object.
+ *
+ * The function can throw an error if it can not be evaluated.
+ */
+export type UFPhpFunction = (anArguments: any[], aContext: IUFPhpEvaluationContext) => any;
+
+/**
+ * Resolves the functions and constants used in a php expression. Names are passed fully qualified without a
+ * leading backslash; static methods and class constants are passed as `ClassName::name`.
+ */
+export interface IUFPhpResolver {
+  /**
+   * Gets the implementation of a function or static method.
+   *
+   * @param {string} aName
+   *   Name of function
+   *
+   * @return {UFPhpFunction|undefined} implementation or undefined if the function is not supported
+   */
+  getFunction(aName: string): UFPhpFunction | undefined;
+
+  /**
+   * Checks if a constant or class constant is known.
+   *
+   * @param {string} aName
+   *   Name of constant
+   *
+   * @return {boolean} true if the constant is known
+   */
+  hasConstant(aName: string): boolean;
+
+  /**
+   * Gets the value of a constant or class constant.
+   *
+   * @param {string} aName
+   *   Name of constant
+   *
+   * @return {any} value of the constant
+   */
+  getConstant(aName: string): any;
+}
+
+// endregion
+
+// region local constants
+
+/**
+ * Filter constants used by filter_var.
+ */
+const FILTER_VALIDATE_INT = 257;
+const FILTER_VALIDATE_BOOLEAN = 258;
+const FILTER_VALIDATE_FLOAT = 259;
+const FILTER_DEFAULT = 516;
+const FILTER_NULL_ON_FAILURE = 134217728;
+
+/**
+ * Php names for the platforms.
+ */
+const PHP_OS: { [platform: string]: [string, string] } = {
+  linux: ['Linux', 'Linux'],
+  darwin: ['Darwin', 'Darwin'],
+  win32: ['WINNT', 'Windows'],
+  freebsd: ['FreeBSD', 'BSD'],
+  openbsd: ['OpenBSD', 'BSD'],
+  netbsd: ['NetBSD', 'BSD'],
+  sunos: ['SunOS', 'Solaris'],
+};
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpResolver} is the default {@link IUFPhpResolver}. It supports a whitelist of php functions that
+ * have no side effects and the constants commonly used in configuration files.
+ *
+ * Supported functions: `env` (using the Laravel conversion rules for `true`, `false`, `empty` and `null`),
+ * `getenv`, `filter_var` (boolean, int, float and default filters), `dirname`, `basename`, `trim`, `ltrim`,
+ * `rtrim`, `strtolower`, `strtoupper`, `ucfirst`, `lcfirst`, `str_replace`, `implode`, `explode`, `intval`,
+ * `floatval`, `boolval`, `strval`, `defined`, `constant`, `sys_get_temp_dir`, `array_merge` and `array_replace`.
+ *
+ * Use {@link addFunction} and {@link addConstant} to support additional functions, static methods and constants.
+ *
+ * Values are javascript numbers, so integers beyond `Number.MAX_SAFE_INTEGER` are approximate: `PHP_INT_MAX`
+ * resolves to `9223372036854775808` (2^63) and `PHP_INT_MIN` to its negative value. Expressions that depend on the
+ * exact value, like `-PHP_INT_MAX - 1` or `PHP_INT_MAX - 1`, do not give the php result.
+ */
+export class UFPhpResolver implements IUFPhpResolver {
+  // region private variables
+
+  /**
+   * Functions mapped by lowercase name
+   *
+   * @private
+   */
+  private readonly m_functions: Map<string, UFPhpFunction> = new Map();
+
+  /**
+   * Constants mapped by normalized name
+   *
+   * @private
+   */
+  private readonly m_constants: Map<string, any> = new Map();
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpResolver} and registers the built-in functions and constants.
+   */
+  constructor() {
+    this.addBuiltInFunctions();
+    this.addBuiltInConstants();
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Adds or replaces a function or static method.
+   *
+   * @param {string} aName
+   *   Fully qualified name (without leading backslash); use `ClassName::method` for static methods
+   * @param {UFPhpFunction} aFunction
+   *   Implementation
+   */
+  addFunction(aName: string, aFunction: UFPhpFunction): void {
+    this.m_functions.set(aName.toLowerCase(), aFunction);
+  }
+
+  /**
+   * Adds or replaces a constant or class constant.
+   *
+   * @param {string} aName
+   *   Fully qualified name (without leading backslash); use `ClassName::NAME` for class constants
+   * @param {any} aValue
+   *   Value of the constant
+   */
+  addConstant(aName: string, aValue: any): void {
+    this.m_constants.set(UFPhpResolver.normalizeConstantName(aName), aValue);
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getFunction(aName: string): UFPhpFunction | undefined {
+    return this.m_functions.get(aName.toLowerCase());
+  }
+
+  /**
+   * @inheritDoc
+   */
+  hasConstant(aName: string): boolean {
+    return this.m_constants.has(UFPhpResolver.normalizeConstantName(aName));
+  }
+
+  /**
+   * @inheritDoc
+   */
+  getConstant(aName: string): any {
+    return this.m_constants.get(UFPhpResolver.normalizeConstantName(aName));
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Registers the built-in functions.
+   *
+   * @private
+   */
+  private addBuiltInFunctions(): void {
+    this.addFunction('env', ([name, defaultValue], context) => {
+      const value = context.env[UFPhpValue.toString(name)];
+      return value === undefined ? (defaultValue === undefined ? null : defaultValue) : UFPhpResolver.convertEnv(value);
+    });
+    this.addFunction('getenv', ([name], context) => {
+      if ((name === undefined) || (name === null)) {
+        return new UFPhpArray(Object.entries(context.env).filter(([, value]) => value !== undefined));
+      }
+      const value = context.env[UFPhpValue.toString(name)];
+      return value === undefined ? false : value;
+    });
+    this.addFunction('filter_var', ([value, filter, options]) => UFPhpResolver.filterVar(
+      value, filter === undefined ? FILTER_DEFAULT : UFPhpValue.toInteger(filter), options
+    ));
+    this.addFunction('dirname', ([path, levels]) => {
+      let result = UFPhpValue.toString(path);
+      for (let count = levels === undefined ? 1 : UFPhpValue.toInteger(levels); count > 0; count--) {
+        result = result.length ? dirname(result) : result;
+      }
+      return result;
+    });
+    this.addFunction('basename', ([path, suffix]) => {
+      const result = basename(UFPhpValue.toString(path));
+      const suffixText = UFPhpValue.toString(suffix);
+      return suffixText.length && (result !== suffixText) && result.endsWith(suffixText)
+        ? result.substring(0, result.length - suffixText.length)
+        : result;
+    });
+    this.addFunction('trim', ([text, characters]) => UFPhpResolver.trim(text, characters, true, true));
+    this.addFunction('ltrim', ([text, characters]) => UFPhpResolver.trim(text, characters, true, false));
+    this.addFunction('rtrim', ([text, characters]) => UFPhpResolver.trim(text, characters, false, true));
+    this.addFunction('strtolower', ([text]) => UFPhpValue.toString(text).toLowerCase());
+    this.addFunction('strtoupper', ([text]) => UFPhpValue.toString(text).toUpperCase());
+    this.addFunction('ucfirst', ([text]) => {
+      const value = UFPhpValue.toString(text);
+      return value.charAt(0).toUpperCase() + value.substring(1);
+    });
+    this.addFunction('lcfirst', ([text]) => {
+      const value = UFPhpValue.toString(text);
+      return value.charAt(0).toLowerCase() + value.substring(1);
+    });
+    this.addFunction('str_replace', ([search, replace, subject]) => {
+      const searches: any[] = search instanceof UFPhpArray ? [...search.values()] : [search];
+      const replaces: any[] | null = replace instanceof UFPhpArray ? [...replace.values()] : null;
+      return searches.reduce(
+        (result: string, item: any, index: number) => {
+          const searchText = UFPhpValue.toString(item);
+          const replaceText = replaces ? UFPhpValue.toString(replaces[index]) : UFPhpValue.toString(replace);
+          return searchText.length ? result.split(searchText).join(replaceText) : result;
+        },
+        UFPhpValue.toString(subject)
+      );
+    });
+    this.addFunction('implode', ([separator, values]) => {
+      if (values === undefined) {
+        [separator, values] = ['', separator];
+      }
+      else if (separator instanceof UFPhpArray) {
+        [separator, values] = [values, separator];
+      }
+      if (!(values instanceof UFPhpArray)) {
+        throw new Error('implode(): Argument #2 ($array) must be of type ?array');
+      }
+      return Array.from(values.values(), value => UFPhpValue.toString(value)).join(UFPhpValue.toString(separator));
+    });
+    this.addFunction('explode', ([separator, text, limit]) => {
+      const separatorText = UFPhpValue.toString(separator);
+      if (!separatorText.length) {
+        throw new Error('explode(): Argument #1 ($separator) cannot be empty');
+      }
+      const parts = UFPhpValue.toString(text).split(separatorText);
+      const count = limit === undefined ? parts.length : UFPhpValue.toInteger(limit);
+      if (count > 0) {
+        return parts.length > count
+          ? [...parts.slice(0, count - 1), parts.slice(count - 1).join(separatorText)]
+          : parts;
+      }
+      return count < 0 ? parts.slice(0, count) : [parts.join(separatorText)];
+    });
+    this.addFunction('intval', ([value, base]) => {
+      if ((typeof value === 'string') && (base !== undefined) && (UFPhpValue.toInteger(base) !== 10)) {
+        const result = parseInt(value.trim(), UFPhpValue.toInteger(base));
+        return isNaN(result) ? 0 : result;
+      }
+      return UFPhpValue.toInteger(value);
+    });
+    this.addFunction('floatval', ([value]) => UFPhpValue.toNumber(value));
+    this.addFunction('boolval', ([value]) => UFPhpValue.toBoolean(value));
+    this.addFunction('strval', ([value]) => UFPhpValue.toString(value));
+    this.addFunction('defined', ([name]) => this.hasConstant(UFPhpValue.toString(name).replace(/^\\/, '')));
+    this.addFunction('constant', ([name]) => {
+      const constantName = UFPhpValue.toString(name).replace(/^\\/, '');
+      if (!this.hasConstant(constantName)) {
+        throw new Error('Undefined constant "' + constantName + '"');
+      }
+      return this.getConstant(constantName);
+    });
+    this.addFunction('sys_get_temp_dir', () => tmpdir());
+    this.addFunction('array_merge', anArguments => UFPhpResolver.mergeArrays('array_merge', anArguments, true));
+    this.addFunction('array_replace', anArguments => UFPhpResolver.mergeArrays('array_replace', anArguments, false));
+  }
+
+  /**
+   * Registers the built-in constants.
+   *
+   * @private
+   */
+  private addBuiltInConstants(): void {
+    const os = PHP_OS[process.platform] || ['Linux', 'Linux'];
+    const constants: [string, any][] = [
+      ['PHP_EOL', EOL],
+      ['PHP_OS', os[0]],
+      ['PHP_OS_FAMILY', os[1]],
+      ['DIRECTORY_SEPARATOR', sep],
+      ['PATH_SEPARATOR', delimiter],
+      // nearest javascript numbers (2^63 and -2^63), see the class documentation
+      ['PHP_INT_MAX', 9223372036854775807],
+      ['PHP_INT_MIN', -9223372036854775808],
+      ['PHP_INT_SIZE', 8],
+      ['PHP_FLOAT_EPSILON', Number.EPSILON],
+      ['PHP_FLOAT_MAX', Number.MAX_VALUE],
+      ['PHP_FLOAT_MIN', 2.2250738585072014e-308],
+      ['PHP_FLOAT_DIG', 15],
+      ['NAN', NaN],
+      ['INF', Infinity],
+      ['M_PI', Math.PI],
+      ['M_E', Math.E],
+      ['E_ERROR', 1],
+      ['E_WARNING', 2],
+      ['E_PARSE', 4],
+      ['E_NOTICE', 8],
+      ['E_CORE_ERROR', 16],
+      ['E_CORE_WARNING', 32],
+      ['E_COMPILE_ERROR', 64],
+      ['E_COMPILE_WARNING', 128],
+      ['E_USER_ERROR', 256],
+      ['E_USER_WARNING', 512],
+      ['E_USER_NOTICE', 1024],
+      ['E_STRICT', 2048],
+      ['E_RECOVERABLE_ERROR', 4096],
+      ['E_DEPRECATED', 8192],
+      ['E_USER_DEPRECATED', 16384],
+      ['E_ALL', 32767],
+      ['FILTER_VALIDATE_INT', FILTER_VALIDATE_INT],
+      ['FILTER_VALIDATE_BOOLEAN', FILTER_VALIDATE_BOOLEAN],
+      ['FILTER_VALIDATE_BOOL', FILTER_VALIDATE_BOOLEAN],
+      ['FILTER_VALIDATE_FLOAT', FILTER_VALIDATE_FLOAT],
+      ['FILTER_DEFAULT', FILTER_DEFAULT],
+      ['FILTER_UNSAFE_RAW', FILTER_DEFAULT],
+      ['FILTER_NULL_ON_FAILURE', FILTER_NULL_ON_FAILURE],
+      ['PDO::ATTR_AUTOCOMMIT', 0],
+      ['PDO::ATTR_TIMEOUT', 2],
+      ['PDO::ATTR_ERRMODE', 3],
+      ['PDO::ATTR_CASE', 8],
+      ['PDO::ATTR_ORACLE_NULLS', 11],
+      ['PDO::ATTR_PERSISTENT', 12],
+      ['PDO::ATTR_STRINGIFY_FETCHES', 17],
+      ['PDO::ATTR_DEFAULT_FETCH_MODE', 19],
+      ['PDO::ATTR_EMULATE_PREPARES', 20],
+      ['PDO::ERRMODE_SILENT', 0],
+      ['PDO::ERRMODE_WARNING', 1],
+      ['PDO::ERRMODE_EXCEPTION', 2],
+      ['PDO::CASE_NATURAL', 0],
+      ['PDO::CASE_UPPER', 1],
+      ['PDO::CASE_LOWER', 2],
+      ['PDO::NULL_NATURAL', 0],
+      ['PDO::NULL_EMPTY_STRING', 1],
+      ['PDO::NULL_TO_STRING', 2],
+      ['PDO::FETCH_ASSOC', 2],
+      ['PDO::FETCH_NUM', 3],
+      ['PDO::FETCH_BOTH', 4],
+      ['PDO::FETCH_OBJ', 5],
+      ['PDO::MYSQL_ATTR_USE_BUFFERED_QUERY', 1000],
+      ['PDO::MYSQL_ATTR_LOCAL_INFILE', 1001],
+      ['PDO::MYSQL_ATTR_INIT_COMMAND', 1002],
+      ['PDO::MYSQL_ATTR_COMPRESS', 1003],
+      ['PDO::MYSQL_ATTR_FOUND_ROWS', 1005],
+      ['PDO::MYSQL_ATTR_SSL_KEY', 1007],
+      ['PDO::MYSQL_ATTR_SSL_CERT', 1008],
+      ['PDO::MYSQL_ATTR_SSL_CA', 1009],
+      ['PDO::MYSQL_ATTR_SSL_VERIFY_SERVER_CERT', 1014],
+    ];
+    constants.forEach(([name, value]) => this.addConstant(name, value));
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Normalizes a constant name: class names are not case-sensitive, constant names are.
+   *
+   * @private
+   */
+  private static normalizeConstantName(aName: string): string {
+    const index = aName.indexOf('::');
+    return index < 0 ? aName : aName.substring(0, index).toLowerCase() + aName.substring(index);
+  }
+
+  /**
+   * Converts an environment value using the rules of the Laravel `env()` helper.
+   *
+   * @private
+   */
+  private static convertEnv(aValue: string): any {
+    switch (aValue.toLowerCase()) {
+      case 'true':
+      case '(true)':
+        return true;
+      case 'false':
+      case '(false)':
+        return false;
+      case 'empty':
+      case '(empty)':
+        return '';
+      case 'null':
+      case '(null)':
+        return null;
+    }
+    const quoted = /^(['"])([\s\S]*)\1$/.exec(aValue);
+    return quoted ? quoted[2] : aValue;
+  }
+
+  /**
+   * Implements the filters supported by filter_var.
+   *
+   * @param {any} aValue
+   *   Value to filter
+   * @param {number} aFilter
+   *   Filter to apply
+   * @param {any} anOptions
+   *   Either flags or an array with `flags` and/or `options` entries
+   *
+   * @private
+   */
+  private static filterVar(aValue: any, aFilter: number, anOptions: any): any {
+    const isOptionsArray = anOptions instanceof UFPhpArray;
+    const flags = isOptionsArray ? UFPhpValue.toInteger(anOptions.get('flags')) : UFPhpValue.toInteger(anOptions);
+    const options = isOptionsArray && (anOptions.get('options') instanceof UFPhpArray)
+      ? anOptions.get('options')
+      : new UFPhpArray();
+    const failure = options.has('default')
+      ? options.get('default')
+      : ((flags & FILTER_NULL_ON_FAILURE) ? null : false);
+    if (aValue instanceof UFPhpArray) {
+      return failure;
+    }
+    const text = UFPhpValue.toString(aValue).trim();
+    switch (aFilter) {
+      case FILTER_DEFAULT:
+        return UFPhpValue.toString(aValue);
+      case FILTER_VALIDATE_BOOLEAN:
+        switch (text.toLowerCase()) {
+          case '1':
+          case 'true':
+          case 'on':
+          case 'yes':
+            return true;
+          case '0':
+          case 'false':
+          case 'off':
+          case 'no':
+          case '':
+            return false;
+        }
+        return failure;
+      case FILTER_VALIDATE_INT:
+        return /^[+-]?(0|[1-9][0-9]*)$/.test(text) ? parseInt(text, 10) : failure;
+      case FILTER_VALIDATE_FLOAT:
+        return UFPhpValue.isNumeric(text) ? parseFloat(text) : failure;
+    }
+    throw new Error('filter_var(): filter ' + aFilter + ' is not supported');
+  }
+
+  /**
+   * Implements array_merge and array_replace.
+   *
+   * @param {string} aName
+   *   Name of the function (used in error messages)
+   * @param {any[]} anArrays
+   *   Arrays to merge
+   * @param {boolean} aRenumber
+   *   True to append entries with an integer key (array_merge), false to replace them (array_replace)
+   *
+   * @private
+   */
+  private static mergeArrays(aName: string, anArrays: any[], aRenumber: boolean): UFPhpArray {
+    const result = new UFPhpArray();
+    anArrays.forEach((array, index) => {
+      if (!(array instanceof UFPhpArray)) {
+        throw new Error(
+          aName + '(): Argument #' + (index + 1) + ' must be of type array, ' +
+          (array === null ? 'null' : typeof array) + ' given'
+        );
+      }
+      array.forEach((value, key) => {
+        if (aRenumber && (typeof key === 'number')) {
+          result.push(value);
+        }
+        else {
+          result.set(key, value);
+        }
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Implements trim, ltrim and rtrim.
+   *
+   * @private
+   */
+  private static trim(aText: any, aCharacters: any, aLeft: boolean, aRight: boolean): string {
+    const characters = aCharacters === undefined ? ' \n\r\t\v\0' : UFPhpValue.toString(aCharacters);
+    const text = UFPhpValue.toString(aText);
+    let start = 0;
+    let end = text.length;
+    while (aLeft && (start < end) && characters.includes(text[start])) {
+      start++;
+    }
+    while (aRight && (end > start) && characters.includes(text[end - 1])) {
+      end--;
+    }
+    return text.substring(start, end);
+  }
+
+  // endregion
+}
+
+// endregion
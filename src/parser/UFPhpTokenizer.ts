@@ -0,0 +1,785 @@
+// region imports
+
+import {UFPhpParseError} from './UFPhpParseError.js';
+
+// endregion
+
+// region types
+
+/**
+ * The different types of tokens {@link UFPhpTokenizer} produces.
+ */
+export enum UFPhpTokenType {
+  /**
+   * Text outside the php tags.
+   */
+  InlineHtml = 'inlineHtml',
+
+  /**
+   * The `<?php` or `<?=` tag.
+   */
+  OpenTag = 'openTag',
+
+  /**
+   * The `?>` tag.
+   */
+  CloseTag = 'closeTag',
+
+  /**
+   * A `//`, `#` or `/* *\/` comment.
+   */
+  Comment = 'comment',
+
+  /**
+   * A `/** *\/` comment.
+   */
+  DocComment = 'docComment',
+
+  /**
+   * A name; this includes keywords and (qualified) names with namespace separators.
+   */
+  Identifier = 'identifier',
+
+  /**
+   * A variable, the value contains the name without the `$`.
+   */
+  Variable = 'variable',
+
+  /**
+   * An integer number.
+   */
+  Integer = 'integer',
+
+  /**
+   * A floating point number.
+   */
+  Float = 'float',
+
+  /**
+   * A single quoted, double quoted, heredoc or nowdoc string. The value contains the decoded string.
+   */
+  String = 'string',
+
+  /**
+   * An operator or punctuation, the value contains the symbol.
+   */
+  Symbol = 'symbol',
+
+  /**
+   * End of the source.
+   */
+  End = 'end',
+}
+
+/**
+ * A single token.
+ */
+export interface IUFPhpToken {
+  /**
+   * Type of token
+   */
+  readonly type: UFPhpTokenType;
+
+  /**
+   * Value of the token, see {@link UFPhpTokenType} for the contents.
+   */
+  readonly value: string | number;
+
+  /**
+   * Offset of the first character in the source
+   */
+  readonly start: number;
+
+  /**
+   * Offset after the last character in the source
+   */
+  readonly end: number;
+
+  /**
+   * Line number (starting at 1)
+   */
+  readonly line: number;
+
+  /**
+   * Column number (starting at 1)
+   */
+  readonly column: number;
+}
+
+// endregion
+
+// region local constants
+
+/**
+ * Symbols, longer symbols are placed before shorter symbols that start with the same characters.
+ */
+const SYMBOLS: string[] = [
+  '<=>', '===', '!==', '**=', '...', '<<=', '>>=', '??=', '?->',
+  '=>', '::', '==', '!=', '<>', '<=', '>=', '&&', '||', '??', '<<', '>>', '**', '->', '++', '--', '.=', '+=', '-=',
+  '*=', '/=', '%=', '&=', '|=', '^=',
+  '[', ']', '(', ')', '{', '}', ',', ';', '?', ':', '.', '+', '-', '*', '/', '%', '!', '<', '>', '&', '|', '^', '~',
+  '=', '@', '$', '`', '\\',
+];
+
+/**
+ * Matches a number at the current position. The groups are: hexadecimal, binary, explicit octal, float and
+ * decimal (or implicit octal).
+ */
+const NUMBER = new RegExp(
+  '(0[xX][0-9a-fA-F]+(?:_[0-9a-fA-F]+)*)' +
+  '|(0[bB][01]+(?:_[01]+)*)' +
+  '|(0[oO][0-7]+(?:_[0-7]+)*)' +
+  '|((?:[0-9]+(?:_[0-9]+)*)?\\.[0-9]+(?:_[0-9]+)*(?:[eE][+-]?[0-9]+(?:_[0-9]+)*)?' +
+  '|[0-9]+(?:_[0-9]+)*\\.(?:[0-9]+(?:_[0-9]+)*)?(?:[eE][+-]?[0-9]+(?:_[0-9]+)*)?' +
+  '|[0-9]+(?:_[0-9]+)*[eE][+-]?[0-9]+(?:_[0-9]+)*)' +
+  '|([0-9]+(?:_[0-9]+)*)',
+  'y'
+);
+
+/**
+ * Largest integer php supports, larger values become floats.
+ */
+const PHP_INT_MAX = 9223372036854775807;
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpTokenizer} splits php source code into tokens. It supports the part of the php language that is
+ * used in configuration files.
+ *
+ * Strings are decoded using the php escape rules; strings containing variables (interpolation) are not supported.
+ */
+export class UFPhpTokenizer {
+  // region private variables
+
+  /**
+   * Source being tokenized
+   *
+   * @private
+   */
+  private readonly m_source: string;
+
+  /**
+   * Filename used in errors
+   *
+   * @private
+   */
+  private readonly m_filename: string;
+
+  /**
+   * Current position
+   *
+   * @private
+   */
+  private m_position: number = 0;
+
+  /**
+   * Current line number
+   *
+   * @private
+   */
+  private m_line: number = 1;
+
+  /**
+   * Position of first character of the current line
+   *
+   * @private
+   */
+  private m_lineStart: number = 0;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpTokenizer}.
+   *
+   * @param {string} aSource
+   *   Php source to tokenize
+   * @param {string} aFilename
+   *   Filename used in errors
+   */
+  constructor(aSource: string, aFilename: string = '') {
+    this.m_source = aSource;
+    this.m_filename = aFilename;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Splits the source into tokens. The last token is always of the type {@link UFPhpTokenType.End}.
+   *
+   * @return {IUFPhpToken[]} all tokens, including comments
+   *
+   * @throws {UFPhpParseError} when the source contains invalid or unsupported code
+   */
+  tokenize(): IUFPhpToken[] {
+    const tokens: IUFPhpToken[] = [];
+    this.m_position = 0;
+    this.m_line = 1;
+    this.m_lineStart = 0;
+    this.readInlineHtml(tokens);
+    while (this.m_position < this.m_source.length) {
+      this.skipWhitespace();
+      if (this.m_position >= this.m_source.length) {
+        break;
+      }
+      tokens.push(this.readToken());
+      if (tokens[tokens.length - 1].type === UFPhpTokenType.CloseTag) {
+        this.readInlineHtml(tokens);
+      }
+    }
+    tokens.push(this.createToken(UFPhpTokenType.End, '', this.m_position, this.m_line, this.getColumn()));
+    return tokens;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Reads the next token at the current position (which is not whitespace).
+   *
+   * @return {IUFPhpToken} the token
+   *
+   * @private
+   */
+  private readToken(): IUFPhpToken {
+    const start = this.m_position;
+    const line = this.m_line;
+    const column = this.getColumn();
+    const source = this.m_source;
+    const current = source[start];
+    const next = source[start + 1] || '';
+    if (source.startsWith('?>', start)) {
+      this.advanceTo(start + 2);
+      // a single newline directly after the close tag is part of the tag
+      if (source.startsWith('\r\n', this.m_position)) {
+        this.advanceTo(this.m_position + 2);
+      }
+      else if (source[this.m_position] === '\n') {
+        this.advanceTo(this.m_position + 1);
+      }
+      return this.createToken(UFPhpTokenType.CloseTag, '?>', start, line, column);
+    }
+    if ((current === '#') || source.startsWith('//', start)) {
+      return this.readLineComment(start, line, column);
+    }
+    if (source.startsWith('/*', start)) {
+      return this.readBlockComment(start, line, column);
+    }
+    if ((current === '$') && UFPhpTokenizer.isNameStart(next)) {
+      const end = this.findNameEnd(start + 1);
+      this.advanceTo(end);
+      return this.createToken(UFPhpTokenType.Variable, source.substring(start + 1, end), start, line, column);
+    }
+    if (UFPhpTokenizer.isDigit(current) || ((current === '.') && UFPhpTokenizer.isDigit(next))) {
+      return this.readNumber(start, line, column);
+    }
+    if (((current === 'b') || (current === 'B')) && ((next === '\'') || (next === '"'))) {
+      // binary string prefix
+      this.advanceTo(start + 1);
+      return this.readToken();
+    }
+    if (
+      UFPhpTokenizer.isNameStart(current) || ((current === '\\') && UFPhpTokenizer.isNameStart(next))
+    ) {
+      return this.readName(start, line, column);
+    }
+    if (current === '\'') {
+      return this.readSingleQuoted(start, line, column);
+    }
+    if (current === '"') {
+      return this.readDoubleQuoted(start, line, column);
+    }
+    if (source.startsWith('<<<', start)) {
+      return this.readHeredoc(start, line, column);
+    }
+    const symbol = SYMBOLS.find(symbol => source.startsWith(symbol, start));
+    if (symbol === undefined) {
+      this.fail('Unexpected character "' + current + '"', line, column);
+    }
+    this.advanceTo(start + symbol!.length);
+    return this.createToken(UFPhpTokenType.Symbol, symbol!, start, line, column);
+  }
+
+  /**
+   * Reads text until the next open tag. If there is text, an inline html token is added. If an open tag is
+   * found, an open tag token is added.
+   *
+   * @param {IUFPhpToken[]} aTokens
+   *   Tokens to add to
+   *
+   * @private
+   */
+  private readInlineHtml(aTokens: IUFPhpToken[]): void {
+    const source = this.m_source;
+    const start = this.m_position;
+    const line = this.m_line;
+    const column = this.getColumn();
+    // skip shebang line at start of the source
+    if ((start === 0) && source.startsWith('#!')) {
+      const newLine = source.indexOf('\n');
+      this.advanceTo(newLine < 0 ? source.length : newLine + 1);
+    }
+    const match = /<\?php(?:\s|$)|<\?=/gi;
+    match.lastIndex = this.m_position;
+    const result = match.exec(source);
+    const end = result ? result.index : source.length;
+    if (end > start) {
+      aTokens.push(this.createToken(UFPhpTokenType.InlineHtml, source.substring(start, end), start, line, column));
+    }
+    this.advanceTo(end);
+    if (result) {
+      const tagLine = this.m_line;
+      const tagColumn = this.getColumn();
+      // include a single whitespace (or \r\n) with the open tag
+      let tagEnd = end + result[0].length;
+      if ((result[0] === '<?php\r') && (source[tagEnd] === '\n')) {
+        tagEnd++;
+      }
+      this.advanceTo(tagEnd);
+      aTokens.push(this.createToken(UFPhpTokenType.OpenTag, result[0].trim(), end, tagLine, tagColumn));
+    }
+  }
+
+  /**
+   * Reads a `//` or `#` comment. The comment ends at the end of the line or before a close tag.
+   *
+   * @private
+   */
+  private readLineComment(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    let end = aStart;
+    while ((end < source.length) && (source[end] !== '\n') && (source[end] !== '\r') && !source.startsWith('?>', end)) {
+      end++;
+    }
+    this.advanceTo(end);
+    return this.createToken(UFPhpTokenType.Comment, source.substring(aStart, end), aStart, aLine, aColumn);
+  }
+
+  /**
+   * Reads a `/* *\/` or `/** *\/` comment.
+   *
+   * @private
+   */
+  private readBlockComment(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    const close = source.indexOf('*/', aStart + 2);
+    if (close < 0) {
+      this.fail('Unterminated comment', aLine, aColumn);
+    }
+    const end = close + 2;
+    const isDoc = source.startsWith('/**', aStart) && /\s/.test(source[aStart + 3] || '');
+    this.advanceTo(end);
+    return this.createToken(
+      isDoc ? UFPhpTokenType.DocComment : UFPhpTokenType.Comment, source.substring(aStart, end), aStart, aLine, aColumn
+    );
+  }
+
+  /**
+   * Reads an integer or float number.
+   *
+   * @private
+   */
+  private readNumber(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    NUMBER.lastIndex = aStart;
+    const match = NUMBER.exec(this.m_source)!;
+    const text = match[0].replace(/_/g, '');
+    const end = aStart + match[0].length;
+    if (UFPhpTokenizer.isNameStart(this.m_source[end] || '')) {
+      this.fail('Invalid numeric literal', aLine, aColumn);
+    }
+    this.advanceTo(end);
+    let value: number;
+    if (match[1]) {
+      value = parseInt(text.substring(2), 16);
+    }
+    else if (match[2]) {
+      value = parseInt(text.substring(2), 2);
+    }
+    else if (match[3]) {
+      value = parseInt(text.substring(2), 8);
+    }
+    else if (match[4]) {
+      return this.createToken(UFPhpTokenType.Float, parseFloat(text), aStart, aLine, aColumn);
+    }
+    else if ((text.length > 1) && (text[0] === '0')) {
+      if (/[89]/.test(text)) {
+        this.fail('Invalid numeric literal', aLine, aColumn);
+      }
+      value = parseInt(text, 8);
+    }
+    else {
+      value = parseInt(text, 10);
+    }
+    return this.createToken(
+      value > PHP_INT_MAX ? UFPhpTokenType.Float : UFPhpTokenType.Integer, value, aStart, aLine, aColumn
+    );
+  }
+
+  /**
+   * Reads a name, the name might contain namespace separators.
+   *
+   * @private
+   */
+  private readName(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    let end = source[aStart] === '\\' ? aStart + 1 : aStart;
+    end = this.findNameEnd(end);
+    while ((source[end] === '\\') && UFPhpTokenizer.isNameStart(source[end + 1] || '')) {
+      end = this.findNameEnd(end + 1);
+    }
+    this.advanceTo(end);
+    return this.createToken(UFPhpTokenType.Identifier, source.substring(aStart, end), aStart, aLine, aColumn);
+  }
+
+  /**
+   * Reads a single quoted string.
+   *
+   * @private
+   */
+  private readSingleQuoted(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    let end = aStart + 1;
+    let value = '';
+    while (true) {
+      if (end >= source.length) {
+        this.fail('Unterminated string', aLine, aColumn);
+      }
+      const character = source[end];
+      if (character === '\'') {
+        break;
+      }
+      if ((character === '\\') && ((source[end + 1] === '\'') || (source[end + 1] === '\\'))) {
+        value += source[end + 1];
+        end += 2;
+      }
+      else {
+        value += character;
+        end++;
+      }
+    }
+    this.advanceTo(end + 1);
+    return this.createToken(UFPhpTokenType.String, value, aStart, aLine, aColumn);
+  }
+
+  /**
+   * Reads a double quoted string.
+   *
+   * @private
+   */
+  private readDoubleQuoted(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    let end = aStart + 1;
+    while (source[end] !== '"') {
+      if (end >= source.length) {
+        this.fail('Unterminated string', aLine, aColumn);
+      }
+      end += source[end] === '\\' ? 2 : 1;
+    }
+    const value = this.decodeEscapes(source.substring(aStart + 1, end), '"', aLine, aColumn);
+    this.advanceTo(end + 1);
+    return this.createToken(UFPhpTokenType.String, value, aStart, aLine, aColumn);
+  }
+
+  /**
+   * Reads a heredoc or nowdoc string. The flexible syntax (indented closing marker) is supported.
+   *
+   * @private
+   */
+  private readHeredoc(aStart: number, aLine: number, aColumn: number): IUFPhpToken {
+    const source = this.m_source;
+    // the identifier can be placed between double quotes (heredoc) or single quotes (nowdoc)
+    const header = /<<<[ \t]*(["']?)([A-Za-z_\x80-\uffff][A-Za-z0-9_\x80-\uffff]*)\1\r?\n/y;
+    header.lastIndex = aStart;
+    const match = header.exec(source);
+    if (!match) {
+      this.fail('Invalid heredoc start', aLine, aColumn);
+    }
+    const identifier = match![2];
+    const isNowdoc = match![1] === '\'';
+    const bodyStart = aStart + match![0].length;
+    const closing = new RegExp(
+      '^([ \\t]*)' + identifier + '(?![A-Za-z0-9_\\x80-\\uffff])', 'gm'
+    );
+    closing.lastIndex = bodyStart;
+    let closeMatch: RegExpExecArray | null;
+    // the closing marker must be at the start of a line
+    do {
+      closeMatch = closing.exec(source);
+    } while (closeMatch && (closeMatch.index > bodyStart) && (source[closeMatch.index - 1] !== '\n'));
+    if (!closeMatch) {
+      this.fail('Unterminated heredoc, missing ' + identifier, aLine, aColumn);
+    }
+    const indentation = closeMatch![1];
+    // the newline before the closing marker is not part of the string
+    const bodyEnd = Math.max(bodyStart, closeMatch!.index - (source[closeMatch!.index - 2] === '\r' ? 2 : 1));
+    const lines = source.substring(bodyStart, bodyEnd).split('\n');
+    const body = closeMatch!.index > bodyStart
+      ? lines.map(line => {
+        if (line.startsWith(indentation)) {
+          return line.substring(indentation.length);
+        }
+        if (line.trim().length > 0) {
+          this.fail('Invalid body indentation level in heredoc', aLine, aColumn);
+        }
+        return '';
+      }).join('\n')
+      : '';
+    const value = isNowdoc ? body : this.decodeEscapes(body, '', aLine, aColumn);
+    this.advanceTo(closeMatch!.index + closeMatch![0].length);
+    return this.createToken(UFPhpTokenType.String, value, aStart, aLine, aColumn);
+  }
+
+  /**
+   * Decodes the escape sequences in a double quoted string or heredoc body. The result is build as UTF-8 bytes,
+   * so escaped bytes like `\xC3\xA9` form the correct character.
+   *
+   * @param {string} aText
+   *   Text to decode
+   * @param {string} aQuote
+   *   Quote character that can be escaped or an empty string for heredoc
+   * @param {number} aLine
+   *   Line of string (for errors)
+   * @param {number} aColumn
+   *   Column of string (for errors)
+   *
+   * @return {string} decoded text
+   *
+   * @private
+   */
+  private decodeEscapes(aText: string, aQuote: string, aLine: number, aColumn: number): string {
+    const parts: Buffer[] = [];
+    let literalStart = 0;
+    let index = 0;
+    const addLiteral = (anEnd: number) => {
+      if (anEnd > literalStart) {
+        parts.push(Buffer.from(aText.substring(literalStart, anEnd), 'utf8'));
+      }
+    };
+    while (index < aText.length) {
+      const character = aText[index];
+      if (
+        ((character === '$') && UFPhpTokenizer.isNameStart(aText[index + 1] || '')) ||
+        ((character === '{') && (aText[index + 1] === '$')) ||
+        ((character === '$') && (aText[index + 1] === '{'))
+      ) {
+        this.fail('Variables inside strings are not supported', aLine, aColumn);
+      }
+      if (character !== '\\') {
+        index++;
+        continue;
+      }
+      addLiteral(index);
+      const escape = aText[index + 1] || '';
+      let length = 2;
+      let bytes: number[] | null = null;
+      switch (escape) {
+        case 'n':
+          bytes = [10];
+          break;
+        case 't':
+          bytes = [9];
+          break;
+        case 'r':
+          bytes = [13];
+          break;
+        case 'v':
+          bytes = [11];
+          break;
+        case 'e':
+          bytes = [27];
+          break;
+        case 'f':
+          bytes = [12];
+          break;
+        case '\\':
+          bytes = [92];
+          break;
+        case '$':
+          bytes = [36];
+          break;
+        case 'x': {
+          const hex = /^[0-9a-fA-F]{1,2}/.exec(aText.substring(index + 2, index + 4));
+          if (hex) {
+            bytes = [parseInt(hex[0], 16)];
+            length += hex[0].length;
+          }
+          break;
+        }
+        case 'u': {
+          if (aText[index + 2] !== '{') {
+            break;
+          }
+          const codePoint = /^\{([0-9a-fA-F]+)}/.exec(aText.substring(index + 2));
+          if (!codePoint || (parseInt(codePoint[1], 16) > 0x10FFFF)) {
+            this.fail('Invalid UTF-8 codepoint escape sequence', aLine, aColumn);
+          }
+          bytes = Array.from(Buffer.from(String.fromCodePoint(parseInt(codePoint![1], 16)), 'utf8'));
+          length += codePoint![0].length;
+          break;
+        }
+        default: {
+          const octal = /^[0-7]{1,3}/.exec(aText.substring(index + 1, index + 4));
+          if (octal) {
+            bytes = [parseInt(octal[0], 8) & 0xFF];
+            length = 1 + octal[0].length;
+          }
+          else if ((escape === aQuote) && (aQuote.length > 0)) {
+            bytes = [escape.charCodeAt(0)];
+          }
+          break;
+        }
+      }
+      if (bytes) {
+        parts.push(Buffer.from(bytes));
+        index += length;
+        literalStart = index;
+      }
+      else {
+        // unknown escape sequences are kept as is
+        literalStart = index;
+        index += 2;
+      }
+    }
+    addLiteral(aText.length);
+    return Buffer.concat(parts).toString('utf8');
+  }
+
+  /**
+   * Skips whitespace at the current position.
+   *
+   * @private
+   */
+  private skipWhitespace(): void {
+    let end = this.m_position;
+    while ((end < this.m_source.length) && /\s/.test(this.m_source[end])) {
+      end++;
+    }
+    this.advanceTo(end);
+  }
+
+  /**
+   * Finds the end of a name.
+   *
+   * @param {number} aStart
+   *   Start of the name
+   *
+   * @return {number} position after the last character of the name
+   *
+   * @private
+   */
+  private findNameEnd(aStart: number): number {
+    let end = aStart;
+    while ((end < this.m_source.length) && UFPhpTokenizer.isNamePart(this.m_source[end])) {
+      end++;
+    }
+    return end;
+  }
+
+  /**
+   * Moves the current position forward, updating the line information.
+   *
+   * @param {number} aPosition
+   *   New position
+   *
+   * @private
+   */
+  private advanceTo(aPosition: number): void {
+    for (let index = this.m_position; index < aPosition; index++) {
+      if (this.m_source[index] === '\n') {
+        this.m_line++;
+        this.m_lineStart = index + 1;
+      }
+    }
+    this.m_position = aPosition;
+  }
+
+  /**
+   * @return {number} column of the current position
+   *
+   * @private
+   */
+  private getColumn(): number {
+    return this.m_position - this.m_lineStart + 1;
+  }
+
+  /**
+   * Creates a token that ends at the current position.
+   *
+   * @private
+   */
+  private createToken(
+    aType: UFPhpTokenType, aValue: string | number, aStart: number, aLine: number, aColumn: number
+  ): IUFPhpToken {
+    return {
+      type: aType,
+      value: aValue,
+      start: aStart,
+      end: this.m_position,
+      line: aLine,
+      column: aColumn,
+    };
+  }
+
+  /**
+   * Throws an error for a certain location.
+   *
+   * @param {string} aMessage
+   *   Description of the problem
+   * @param {number} aLine
+   *   Line number
+   * @param {number} aColumn
+   *   Column number
+   *
+   * @private
+   */
+  private fail(aMessage: string, aLine: number, aColumn: number): never {
+    const offset = this.m_source.split('\n').slice(0, aLine - 1).reduce(
+      (result, line) => result + line.length + 1, aColumn - 1
+    );
+    throw new UFPhpParseError(
+      aMessage, this.m_source, aLine, aColumn, this.m_source.charAt(offset), this.m_filename
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Checks if a character can be used as first character of a name.
+   *
+   * @private
+   */
+  private static isNameStart(aCharacter: string): boolean {
+    return /[A-Za-z_\x80-\uffff]/.test(aCharacter);
+  }
+
+  /**
+   * Checks if a character can be used inside a name.
+   *
+   * @private
+   */
+  private static isNamePart(aCharacter: string): boolean {
+    return /[A-Za-z0-9_\x80-\uffff]/.test(aCharacter);
+  }
+
+  /**
+   * Checks if a character is a digit.
+   *
+   * @private
+   */
+  private static isDigit(aCharacter: string): boolean {
+    return (aCharacter >= '0') && (aCharacter <= '9');
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,179 @@
+// region imports
+
+import {ChildProcess, spawn} from 'child_process';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default time in milliseconds to wait for a lock
+ */
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Php code that locks the file passed as first argument with `flock` (shared when the second argument is
+ * `shared`), writes `locked` to stdout and keeps the lock until stdin is closed.
+ */
+const LOCK_CODE = `
+$shared = ($argv[2] ?? '') === 'shared';
+$file = fopen($argv[1], $shared ? 'r' : 'c');
+if (!$file || !flock($file, $shared ? LOCK_SH : LOCK_EX)) {
+  exit(1);
+}
+echo "locked\\n";
+fgets(STDIN);
+`;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpFileLock.acquire}.
+ */
+export interface IUFPhpFileLockOptions {
+  /**
+   * Path and filename of the php cli interpreter, default is `php`.
+   */
+  php?: string;
+
+  /**
+   * Time in milliseconds to wait for the lock, default is 10000.
+   */
+  timeout?: number;
+
+  /**
+   * When true, a shared lock is acquired instead of an exclusive lock.
+   */
+  shared?: boolean;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFileLock} holds an advisory lock (`flock`) on a file that is respected by php, for example by the
+ * files session handler.
+ *
+ * Node has no api for `flock`, so the lock is held by a php cli process that runs until the lock is released. This
+ * requires the php cli interpreter to be installed (see the `php` option) and starts a process for every lock. The
+ * lock is also released when the node process exits.
+ *
+ * @example
+ * const lock = await UFPhpFileLock.acquire('/var/lib/php/sessions/sess_abc');
+ * try {
+ *   // read and write the file
+ * } finally {
+ *   await lock.release();
+ * }
+ */
+export class UFPhpFileLock {
+  // region private variables
+
+  /**
+   * Process holding the lock
+   *
+   * @private
+   */
+  private readonly m_process: ChildProcess;
+
+  /**
+   * Resolves when the process has exited
+   *
+   * @private
+   */
+  private readonly m_exited: Promise<void>;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFileLock}. Use {@link acquire} to create a lock.
+   *
+   * @param {ChildProcess} aProcess
+   *   Process holding the lock
+   * @param {Promise<void>} anExited
+   *   Resolves when the process has exited
+   *
+   * @private
+   */
+  private constructor(aProcess: ChildProcess, anExited: Promise<void>) {
+    this.m_process = aProcess;
+    this.m_exited = anExited;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Locks a file, waiting until other processes have released their lock.
+   *
+   * @param {string} aFilename
+   *   File to lock; for an exclusive lock the file is created if it does not exist
+   * @param {IUFPhpFileLockOptions} anOptions
+   *   Options to use
+   *
+   * @return {UFPhpFileLock} the acquired lock
+   *
+   * @throws {Error} when the interpreter can not be started, the file can not be locked or the lock is not
+   *   acquired in time
+   */
+  static acquire(aFilename: string, anOptions: IUFPhpFileLockOptions = {}): Promise<UFPhpFileLock> {
+    const php = anOptions.php || 'php';
+    const timeout = anOptions.timeout === undefined ? DEFAULT_TIMEOUT : anOptions.timeout;
+    return new Promise((aResolve, aReject) => {
+      const child = spawn(
+        php,
+        ['-n', '-d', 'display_errors=stderr', '-r', LOCK_CODE, '--', aFilename, anOptions.shared ? 'shared' : ''],
+        {windowsHide: true}
+      );
+      const exited = new Promise<void>(aResolveExit => child.once('close', () => aResolveExit()));
+      let settled = false;
+      let stdout = '';
+      let stderr = '';
+      const fail = (aMessage: string) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        child.kill();
+        aReject(new Error(aMessage));
+      };
+      const timer = setTimeout(
+        () => fail('Could not lock "' + aFilename + '" within ' + timeout + ' ms'), timeout
+      );
+      child.once('error', error => fail('Can not start php interpreter "' + php + '" (' + error.message + ')'));
+      child.once('close', () => fail(
+        'Could not lock "' + aFilename + '"' + (stderr.trim() ? ' (' + stderr.trim().split(/\r?\n/)[0] + ')' : '')
+      ));
+      // ignore errors when closing stdin of a process that has exited already
+      child.stdin!.on('error', () => undefined);
+      child.stderr!.on('data', data => stderr += data);
+      child.stdout!.on('data', data => {
+        stdout += data;
+        if (!settled && (stdout.indexOf('locked\n') >= 0)) {
+          settled = true;
+          clearTimeout(timer);
+          aResolve(new UFPhpFileLock(child, exited));
+        }
+      });
+    });
+  }
+
+  /**
+   * Releases the lock. Calling it again has no effect.
+   */
+  async release(): Promise<void> {
+    this.m_process.stdin!.end();
+    await this.m_exited;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,220 @@
+// region imports
+
+import {UFPhpArray, UFPhpArrayKey} from '../tools/UFPhpArray.js';
+import {IUFPhpSerializerOptions, UFPhpSerializer} from '../tools/UFPhpSerializer.js';
+import {UFPhpArrayMode} from '../parser/UFPhpEvaluator.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Separates the name from the value in the `php` format
+ */
+const PHP_DELIMITER = 0x7c;
+
+/**
+ * Maximum length of a name in the `php_binary` format
+ */
+const BINARY_MAX_LENGTH = 127;
+
+// endregion
+
+// region types
+
+/**
+ * Formats php can use for session data (php `session.serialize_handler`).
+ */
+export enum UFPhpSessionFormat {
+  /**
+   * Default format: for every variable the name, a `|` and the serialized value
+   */
+  Php = 'php',
+
+  /**
+   * All variables serialized as one array
+   */
+  PhpSerialize = 'php_serialize',
+
+  /**
+   * For every variable a byte with the length of the name, the name and the serialized value
+   */
+  PhpBinary = 'php_binary',
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpSession} encodes and decodes php session data (the contents of `$_SESSION`), like the php functions
+ * `session_encode` and `session_decode` do.
+ *
+ * The session variables are returned as plain object or, when {@link IUFPhpSerializerOptions.arrayMode} is
+ * {@link UFPhpArrayMode.PhpArray}, as {@link UFPhpArray}. The `php` and `php_binary` formats only support string
+ * names: like php, variables with integer names are skipped when encoding.
+ *
+ * @example
+ * const session = UFPhpSession.decode('user|a:1:{s:2:"id";i:12;}');
+ * session.user.id === 12;
+ */
+export class UFPhpSession {
+  // region public methods
+
+  /**
+   * Decodes session data.
+   *
+   * @param {string|Buffer} aData
+   *   Data to decode; a string is converted to bytes using UTF-8
+   * @param {UFPhpSessionFormat} aFormat
+   *   Format of the data
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options for unserializing the values
+   *
+   * @return {any} session variables as plain object or {@link UFPhpArray}
+   *
+   * @throws {Error} when the data is invalid
+   */
+  static decode(
+    aData: string | Buffer,
+    aFormat: UFPhpSessionFormat = UFPhpSessionFormat.Php,
+    anOptions: IUFPhpSerializerOptions = {}
+  ): any {
+    const serializer = new UFPhpSerializer(anOptions);
+    switch (aFormat) {
+      case UFPhpSessionFormat.Php:
+        return UFPhpSession.convert(serializer.unserializeEntries(aData, UFPhpSession.readName), anOptions);
+      case UFPhpSessionFormat.PhpBinary:
+        return UFPhpSession.convert(serializer.unserializeEntries(aData, UFPhpSession.readBinaryName), anOptions);
+      case UFPhpSessionFormat.PhpSerialize:
+        return UFPhpSession.convert(aData.length ? serializer.unserialize(aData) : null, anOptions);
+      default:
+        throw new Error('Unsupported session format "' + aFormat + '"');
+    }
+  }
+
+  /**
+   * Encodes session variables.
+   *
+   * @param {UFPhpArray|object} aData
+   *   Session variables
+   * @param {UFPhpSessionFormat} aFormat
+   *   Format to create
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options for serializing the values
+   *
+   * @return {Buffer} encoded data
+   *
+   * @throws {Error} when a name can not be encoded in the format or a value can not be serialized
+   */
+  static encode(
+    aData: UFPhpArray | { [name: string]: any },
+    aFormat: UFPhpSessionFormat = UFPhpSessionFormat.Php,
+    anOptions: IUFPhpSerializerOptions = {}
+  ): Buffer {
+    const serializer = new UFPhpSerializer(anOptions);
+    const entries = aData instanceof UFPhpArray
+      ? aData
+      : new UFPhpArray(Object.keys(aData).map(name => [name, (aData as { [name: string]: any })[name]]));
+    switch (aFormat) {
+      case UFPhpSessionFormat.Php:
+        return serializer.serializeEntries(entries, UFPhpSession.writeName);
+      case UFPhpSessionFormat.PhpBinary:
+        return serializer.serializeEntries(entries, UFPhpSession.writeBinaryName);
+      case UFPhpSessionFormat.PhpSerialize:
+        return serializer.serialize(entries);
+      default:
+        throw new Error('Unsupported session format "' + aFormat + '"');
+    }
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Reads a name in the `php` format. When there is no delimiter, php ignores the remaining data.
+   *
+   * @private
+   */
+  private static readName(aData: Buffer, anOffset: number): [UFPhpArrayKey, number] | null {
+    const end = aData.indexOf(PHP_DELIMITER, anOffset);
+    return end < 0 ? null : [aData.toString('utf8', anOffset, end), end + 1];
+  }
+
+  /**
+   * Reads a name in the `php_binary` format.
+   *
+   * @private
+   */
+  private static readBinaryName(aData: Buffer, anOffset: number): [UFPhpArrayKey, number] {
+    // the highest bit was used by old php versions to mark undefined variables
+    const length = aData[anOffset] & BINARY_MAX_LENGTH;
+    if (anOffset + 1 + length >= aData.length) {
+      throw new Error('Error at offset ' + anOffset + ' of ' + aData.length + ' bytes: Unexpected end of data');
+    }
+    return [aData.toString('utf8', anOffset + 1, anOffset + 1 + length), anOffset + 1 + length];
+  }
+
+  /**
+   * Writes a name in the `php` format.
+   *
+   * @private
+   */
+  private static writeName(aName: UFPhpArrayKey): Buffer | null {
+    if (typeof aName === 'number') {
+      return null;
+    }
+    if (aName.indexOf('|') >= 0) {
+      throw new Error('Session variable name "' + aName + '" contains "|"');
+    }
+    return Buffer.from(aName + '|', 'utf8');
+  }
+
+  /**
+   * Writes a name in the `php_binary` format; php skips names that are too long.
+   *
+   * @private
+   */
+  private static writeBinaryName(aName: UFPhpArrayKey): Buffer | null {
+    if (typeof aName === 'number') {
+      return null;
+    }
+    const name = Buffer.from(aName, 'utf8');
+    return name.length > BINARY_MAX_LENGTH ? null : Buffer.concat([Buffer.from([name.length]), name]);
+  }
+
+  /**
+   * Converts the session variables to the type selected with the options.
+   *
+   * @param {any} aVariables
+   *   Unserialized variables, php starts with an empty session if they are not an array
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options used for unserializing
+   *
+   * @private
+   */
+  private static convert(aVariables: any, anOptions: IUFPhpSerializerOptions): any {
+    let variables = new UFPhpArray();
+    if (aVariables instanceof UFPhpArray) {
+      variables = aVariables;
+    }
+    else if (Array.isArray(aVariables)) {
+      variables = new UFPhpArray(aVariables.entries());
+    }
+    else if (aVariables && (Object.getPrototypeOf(aVariables) === Object.prototype)) {
+      variables = new UFPhpArray(Object.keys(aVariables).map(name => [name, aVariables[name]]));
+    }
+    if (anOptions.arrayMode === UFPhpArrayMode.PhpArray) {
+      return variables;
+    }
+    // the variables are always returned as object, even if the names happen to form a list
+    const result: { [name: string]: any } = {};
+    variables.forEach((value, name) => result[name] = value);
+    return result;
+  }
+
+  // endregion
+}
+
+// endregion
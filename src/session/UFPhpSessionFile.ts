@@ -0,0 +1,161 @@
+// region imports
+
+import {FileHandle} from 'fs/promises';
+import {UFPhpFileLock} from './UFPhpFileLock.js';
+import {UFPhpSession, UFPhpSessionFormat} from './UFPhpSession.js';
+import {IUFPhpSerializerOptions} from '../tools/UFPhpSerializer.js';
+import {UFPhpArray} from '../tools/UFPhpArray.js';
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpSessionFile} is a php session opened with {@link UFPhpSessionFiles.open}. The session file stays
+ * locked until {@link save} or {@link close} is called, so php requests using the same session wait until then
+ * (unless locking was disabled with the `lock` option).
+ */
+export class UFPhpSessionFile {
+  // region public variables
+
+  /**
+   * Session id
+   */
+  readonly id: string;
+
+  /**
+   * Path and filename of the session file
+   */
+  readonly filename: string;
+
+  /**
+   * Session variables (as plain object or {@link UFPhpArray}, depending on the options); changes are written by
+   * {@link save}
+   */
+  data: any;
+
+  // endregion
+
+  // region private variables
+
+  /**
+   * Opened session file or null when the session has been closed
+   *
+   * @private
+   */
+  private m_handle: FileHandle | null;
+
+  /**
+   * Lock on the session file or null when locking is disabled
+   *
+   * @private
+   */
+  private readonly m_lock: UFPhpFileLock | null;
+
+  /**
+   * Format of the session data
+   *
+   * @private
+   */
+  private readonly m_format: UFPhpSessionFormat;
+
+  /**
+   * Options for serializing the values
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpSerializerOptions;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpSessionFile}.
+   *
+   * @param {string} anId
+   *   Session id
+   * @param {string} aFilename
+   *   Session file
+   * @param {any} aData
+   *   Decoded session variables
+   * @param {FileHandle} aHandle
+   *   Opened session file
+   * @param {UFPhpFileLock|null} aLock
+   *   Exclusive lock on the session file or null when locking is disabled
+   * @param {UFPhpSessionFormat} aFormat
+   *   Format of the session data
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options for serializing the values
+   */
+  constructor(
+    anId: string,
+    aFilename: string,
+    aData: any,
+    aHandle: FileHandle,
+    aLock: UFPhpFileLock | null,
+    aFormat: UFPhpSessionFormat,
+    anOptions: IUFPhpSerializerOptions
+  ) {
+    this.id = anId;
+    this.filename = aFilename;
+    this.data = aData;
+    this.m_handle = aHandle;
+    this.m_lock = aLock;
+    this.m_format = aFormat;
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * True when the session has not been saved or closed yet.
+   */
+  get isOpen(): boolean {
+    return this.m_handle !== null;
+  }
+
+  /**
+   * Writes the session variables to the session file and closes the session (like php
+   * `session_write_close`). The session is also closed when saving fails.
+   *
+   * @param {UFPhpArray|object} aData
+   *   Session variables to write, default is {@link data}
+   *
+   * @throws {Error} when the session has been closed, a value can not be serialized or the file can not be written
+   */
+  async save(aData: UFPhpArray | { [name: string]: any } = this.data): Promise<void> {
+    if (!this.m_handle) {
+      throw new Error('Session "' + this.id + '" has been closed');
+    }
+    try {
+      const data = UFPhpSession.encode(aData, this.m_format, this.m_options);
+      await this.m_handle.truncate(0);
+      await this.m_handle.write(data, 0, data.length, 0);
+    } finally {
+      await this.close();
+    }
+  }
+
+  /**
+   * Closes the session without writing changes (like php `session_abort`). Calling it again has no effect.
+   */
+  async close(): Promise<void> {
+    const handle = this.m_handle;
+    if (!handle) {
+      return;
+    }
+    this.m_handle = null;
+    try {
+      await handle.close();
+    } finally {
+      await this.m_lock?.release();
+    }
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,290 @@
+// region imports
+
+import {constants} from 'fs';
+import {FileHandle, open} from 'fs/promises';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {UFPhpFileLock} from './UFPhpFileLock.js';
+import {UFPhpSession, UFPhpSessionFormat} from './UFPhpSession.js';
+import {UFPhpSessionFile} from './UFPhpSessionFile.js';
+import {IUFPhpSerializerOptions} from '../tools/UFPhpSerializer.js';
+import {UFPhpArray} from '../tools/UFPhpArray.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Prefix of session files
+ */
+const FILE_PREFIX = 'sess_';
+
+/**
+ * Characters php allows in a session id
+ */
+const VALID_ID = /^[A-Za-z0-9,-]+$/;
+
+/**
+ * Default mode of new session files
+ */
+const DEFAULT_MODE = 0o600;
+
+/**
+ * Prevents following symbolic links (not available on all platforms)
+ */
+const NO_FOLLOW = constants.O_NOFOLLOW || 0;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpSessionFiles}.
+ */
+export interface IUFPhpSessionFilesOptions extends IUFPhpSerializerOptions {
+  /**
+   * Directory of the session files using the php `session.save_path` syntax (`[depth;[mode;]]path`), default is
+   * the temporary directory of the system (like php).
+   */
+  savePath?: string;
+
+  /**
+   * Format of the session data (php `session.serialize_handler`), default is {@link UFPhpSessionFormat.Php}.
+   */
+  format?: UFPhpSessionFormat;
+
+  /**
+   * When false, session files are not locked and no php cli interpreter is needed, default is true. Only disable
+   * locking when php does not write the sessions at the same time (or when losing a concurrent update is
+   * acceptable).
+   */
+  lock?: boolean;
+
+  /**
+   * Path and filename of the php cli interpreter used for locking, default is `php`.
+   */
+  php?: string;
+
+  /**
+   * Time in milliseconds to wait for a locked session, default is 10000.
+   */
+  lockTimeout?: number;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpSessionFiles} reads and writes sessions stored by the php files save handler (the default
+ * `session.save_handler`), so a node service can share sessions with a php application.
+ *
+ * Session files are locked with `flock` like php does (see {@link UFPhpFileLock}): {@link read} waits until php
+ * has finished with the session, a session opened with {@link open} blocks php requests until it is saved or
+ * closed. Locking requires the php cli interpreter (see the `php` option), every {@link read} and {@link open}
+ * starts a php process that holds the lock. Set the `lock` option to false to access the files without locking.
+ *
+ * @example
+ * const sessions = new UFPhpSessionFiles({savePath: '/var/lib/php/sessions'});
+ * const session = await sessions.open(request.cookies.PHPSESSID);
+ * session.data.visits = (session.data.visits || 0) + 1;
+ * await session.save();
+ */
+export class UFPhpSessionFiles {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpSessionFilesOptions;
+
+  /**
+   * Directory containing the session files
+   *
+   * @private
+   */
+  private readonly m_path: string;
+
+  /**
+   * Number of directory levels below {@link m_path}
+   *
+   * @private
+   */
+  private readonly m_depth: number;
+
+  /**
+   * Mode of new session files
+   *
+   * @private
+   */
+  private readonly m_mode: number;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpSessionFiles}.
+   *
+   * @param {IUFPhpSessionFilesOptions} anOptions
+   *   Options to use
+   *
+   * @throws {Error} when the save path is invalid
+   */
+  constructor(anOptions: IUFPhpSessionFilesOptions = {}) {
+    this.m_options = anOptions;
+    const parts = (anOptions.savePath || '').split(';');
+    if ((parts.length > 3) || parts.slice(0, -1).some(part => !/^[0-9]+$/.test(part))) {
+      throw new Error('Invalid session save path "' + anOptions.savePath + '"');
+    }
+    this.m_path = parts[parts.length - 1] || tmpdir();
+    this.m_depth = parts.length > 1 ? parseInt(parts[0], 10) : 0;
+    this.m_mode = parts.length > 2 ? parseInt(parts[1], 8) : DEFAULT_MODE;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Gets the session file for a session id.
+   *
+   * @param {string} anId
+   *   Session id
+   *
+   * @return {string} path and filename
+   *
+   * @throws {Error} when the session id contains invalid characters or is too short for the directory depth
+   */
+  getFilename(anId: string): string {
+    if (!VALID_ID.test(anId) || (anId.length <= this.m_depth)) {
+      throw new Error('Invalid session id "' + anId + '"');
+    }
+    return join(this.m_path, ...anId.slice(0, this.m_depth).split(''), FILE_PREFIX + anId);
+  }
+
+  /**
+   * Reads the variables of a session. Waits while the session is locked.
+   *
+   * @param {string} anId
+   *   Session id
+   *
+   * @return {any} session variables (as plain object or {@link UFPhpArray}, depending on the options) or null if
+   *   there is no session with the id
+   *
+   * @throws {Error} when the session id is invalid, the session can not be locked in time or the data is invalid
+   */
+  async read(anId: string): Promise<any | null> {
+    const filename = this.getFilename(anId);
+    let handle: FileHandle;
+    try {
+      handle = await open(filename, constants.O_RDONLY | NO_FOLLOW);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    try {
+      const lock = await this.acquireLock(filename, true);
+      try {
+        return this.decode(await handle.readFile());
+      } finally {
+        await lock?.release();
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Opens a session for reading and writing; the session file is created if it does not exist. Waits while the
+   * session is locked and keeps it locked until the returned session is saved or closed.
+   *
+   * @param {string} anId
+   *   Session id
+   *
+   * @return {UFPhpSessionFile} the opened session
+   *
+   * @throws {Error} when the session id is invalid, the session can not be locked in time or the data is invalid
+   */
+  async open(anId: string): Promise<UFPhpSessionFile> {
+    const filename = this.getFilename(anId);
+    const handle = await open(filename, constants.O_RDWR | constants.O_CREAT | NO_FOLLOW, this.m_mode);
+    let lock: UFPhpFileLock | null = null;
+    try {
+      lock = await this.acquireLock(filename, false);
+      const data = this.decode(await handle.readFile());
+      return new UFPhpSessionFile(anId, filename, data, handle, lock, this.format, this.m_options);
+    } catch (error) {
+      await handle.close();
+      await lock?.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the variables of a session. Waits while the session is locked.
+   *
+   * @param {string} anId
+   *   Session id
+   * @param {UFPhpArray|object} aData
+   *   Session variables
+   *
+   * @throws {Error} when the session id is invalid, the session can not be locked in time, a value can not be
+   *   serialized or the file can not be written
+   */
+  async write(anId: string, aData: UFPhpArray | { [name: string]: any }): Promise<void> {
+    const session = await this.open(anId);
+    try {
+      await session.save(aData);
+    } finally {
+      // releases the file and lock in case save did not close the session
+      await session.close();
+    }
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Format of the session data.
+   *
+   * @private
+   */
+  private get format(): UFPhpSessionFormat {
+    return this.m_options.format || UFPhpSessionFormat.Php;
+  }
+
+  /**
+   * Locks a session file.
+   *
+   * @return {UFPhpFileLock|null} the acquired lock or null when locking is disabled
+   *
+   * @private
+   */
+  private async acquireLock(aFilename: string, aShared: boolean): Promise<UFPhpFileLock | null> {
+    if (this.m_options.lock === false) {
+      return null;
+    }
+    return UFPhpFileLock.acquire(
+      aFilename, {php: this.m_options.php, timeout: this.m_options.lockTimeout, shared: aShared}
+    );
+  }
+
+  /**
+   * Decodes the contents of a session file.
+   *
+   * @private
+   */
+  private decode(aData: Buffer): any {
+    return UFPhpSession.decode(aData, this.format, this.m_options);
+  }
+
+  // endregion
+}
+
+// endregion
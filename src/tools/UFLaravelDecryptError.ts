@@ -0,0 +1,25 @@
+// region class
+
+/**
+ * {@link UFLaravelDecryptError} is thrown by {@link UFLaravelEncrypter} when a payload is invalid, has been
+ * tampered with or was encrypted with another key (like the laravel `DecryptException`). The message is the same
+ * as the one laravel uses.
+ */
+export class UFLaravelDecryptError extends Error {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFLaravelDecryptError}.
+   *
+   * @param {string} aMessage
+   *   Description of the problem
+   */
+  constructor(aMessage: string) {
+    super(aMessage);
+    this.name = 'UFLaravelDecryptError';
+  }
+
+  // endregion
+}
+
+// endregion
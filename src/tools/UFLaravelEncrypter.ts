@@ -0,0 +1,414 @@
+// region imports
+
+import {
+  CipherGCM, createCipheriv, createDecipheriv, createHmac, DecipherGCM, randomBytes, timingSafeEqual
+} from 'crypto';
+import {IUFPhpSerializerOptions, UFPhpSerializer} from './UFPhpSerializer.js';
+import {UFLaravelDecryptError} from './UFLaravelDecryptError.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Prefix of keys that are base64 encoded
+ */
+const BASE64_PREFIX = 'base64:';
+
+/**
+ * Key length, iv length and whether the cipher authenticates itself, for the supported ciphers
+ */
+const CIPHERS: { [cipher: string]: { keyLength: number, ivLength: number, aead: boolean } } = {
+  'aes-128-cbc': {keyLength: 16, ivLength: 16, aead: false},
+  'aes-256-cbc': {keyLength: 32, ivLength: 16, aead: false},
+  'aes-128-gcm': {keyLength: 16, ivLength: 12, aead: true},
+  'aes-256-gcm': {keyLength: 32, ivLength: 12, aead: true},
+};
+
+/**
+ * Length of the authentication tag of aead ciphers
+ */
+const TAG_LENGTH = 16;
+
+/**
+ * Length of the prefix laravel adds to cookie values: 40 hexadecimal characters and a `|`
+ */
+const COOKIE_PREFIX_LENGTH = 41;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFLaravelEncrypter}.
+ */
+export interface IUFLaravelEncrypterOptions extends IUFPhpSerializerOptions {
+  /**
+   * Cipher to use (laravel `app.cipher`), one of `aes-128-cbc`, `aes-256-cbc`, `aes-128-gcm` and `aes-256-gcm`
+   * (case insensitive); default is `aes-256-cbc`.
+   */
+  cipher?: string;
+
+  /**
+   * Keys used before the current key (laravel `app.previous_keys`); they are tried when decrypting.
+   */
+  previousKeys?: (string | Buffer)[];
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFLaravelEncrypter} encrypts and decrypts values like the laravel encrypter (the `Crypt` facade) and the
+ * `EncryptCookies` middleware do, so values can be shared with a laravel application.
+ *
+ * The payload is a base64 encoded json object with the iv, the encrypted value and either a HMAC (for the CBC
+ * ciphers) or an authentication tag (for the GCM ciphers). Values are serialized with {@link UFPhpSerializer}
+ * unless the string variants of the methods are used.
+ *
+ * Keys can be passed as laravel stores them in `APP_KEY` (`base64:` followed by the base64 encoded key) or as
+ * bytes.
+ *
+ * @example
+ * const config = await UFPhp.parsePhpConfig('config/app.php');
+ * const encrypter = UFLaravelEncrypter.fromConfig(config.value);
+ * const userId = encrypter.decrypt(payload);
+ */
+export class UFLaravelEncrypter {
+  // region private variables
+
+  /**
+   * Current key followed by the previous keys
+   *
+   * @private
+   */
+  private readonly m_keys: Buffer[];
+
+  /**
+   * Cipher in lowercase
+   *
+   * @private
+   */
+  private readonly m_cipher: string;
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFLaravelEncrypterOptions;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFLaravelEncrypter}.
+   *
+   * @param {string|Buffer} aKey
+   *   Key to use, a string starting with `base64:` is decoded
+   * @param {IUFLaravelEncrypterOptions} anOptions
+   *   Options to use
+   *
+   * @throws {Error} when the cipher is not supported or a key does not have the length the cipher requires
+   */
+  constructor(aKey: string | Buffer, anOptions: IUFLaravelEncrypterOptions = {}) {
+    this.m_cipher = (anOptions.cipher || 'aes-256-cbc').toLowerCase();
+    this.m_options = anOptions;
+    this.m_keys = [aKey, ...(anOptions.previousKeys || [])].map(key => UFLaravelEncrypter.parseKey(key));
+    const cipher = CIPHERS[this.m_cipher];
+    if (!cipher || this.m_keys.some(key => key.length !== cipher.keyLength)) {
+      throw new Error(
+        'Unsupported cipher or incorrect key length. Supported ciphers are: ' + Object.keys(CIPHERS).join(', ') + '.'
+      );
+    }
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Encrypts a value.
+   *
+   * @param {any} aValue
+   *   Value to encrypt
+   * @param {boolean} aSerialize
+   *   When true, the value is serialized first; else it must be a string or Buffer
+   *
+   * @return {string} the payload
+   *
+   * @throws {Error} when the value can not be serialized
+   */
+  encrypt(aValue: any, aSerialize: boolean = true): string {
+    const cipher = CIPHERS[this.m_cipher];
+    const data = aSerialize
+      ? new UFPhpSerializer(this.m_options).serialize(aValue)
+      : (Buffer.isBuffer(aValue) ? aValue : Buffer.from(String(aValue), 'utf8'));
+    const ivBytes = randomBytes(cipher.ivLength);
+    const encrypter = createCipheriv(this.m_cipher, this.m_keys[0], ivBytes);
+    const value = Buffer.concat([encrypter.update(data), encrypter.final()]).toString('base64');
+    const iv = ivBytes.toString('base64');
+    const tag = cipher.aead ? (encrypter as CipherGCM).getAuthTag().toString('base64') : '';
+    const mac = cipher.aead ? '' : UFLaravelEncrypter.hash(iv, value, this.m_keys[0]);
+    return Buffer.from(JSON.stringify({iv, value, mac, tag}), 'utf8').toString('base64');
+  }
+
+  /**
+   * Encrypts a string without serializing it.
+   *
+   * @param {string|Buffer} aValue
+   *   Value to encrypt
+   *
+   * @return {string} the payload
+   */
+  encryptString(aValue: string | Buffer): string {
+    return this.encrypt(aValue, false);
+  }
+
+  /**
+   * Decrypts a payload, trying the previous keys when the current key does not match.
+   *
+   * @param {string} aPayload
+   *   Payload created by {@link encrypt} or laravel
+   * @param {boolean} anUnserialize
+   *   When true, the decrypted value is unserialized
+   *
+   * @return {any} the decrypted value; when not unserializing, a string (or a Buffer if the value is not valid
+   *   UTF-8)
+   *
+   * @throws {UFLaravelDecryptError} when the payload is invalid or can not be decrypted with any of the keys
+   * @throws {Error} when the decrypted value can not be unserialized
+   */
+  decrypt(aPayload: string, anUnserialize: boolean = true): any {
+    const cipher = CIPHERS[this.m_cipher];
+    const payload = this.getJsonPayload(aPayload);
+    const iv = Buffer.from(payload.iv, 'base64');
+    const tag = payload.tag ? Buffer.from(payload.tag, 'base64') : null;
+    if (cipher.aead && (!tag || (tag.length !== TAG_LENGTH))) {
+      throw new UFLaravelDecryptError('Could not decrypt the data.');
+    }
+    if (!cipher.aead && tag) {
+      throw new UFLaravelDecryptError('Unable to use tag because the cipher algorithm does not support AEAD.');
+    }
+    let foundValidMac = false;
+    let decrypted: Buffer | null = null;
+    for (const key of this.m_keys) {
+      if (!cipher.aead) {
+        foundValidMac = foundValidMac || UFLaravelEncrypter.isValidMac(payload, key);
+        if (!foundValidMac) {
+          continue;
+        }
+      }
+      decrypted = this.decryptValue(payload.value, key, iv, tag);
+      if (decrypted) {
+        break;
+      }
+    }
+    if (!cipher.aead && !foundValidMac) {
+      throw new UFLaravelDecryptError('The MAC is invalid.');
+    }
+    if (!decrypted) {
+      throw new UFLaravelDecryptError('Could not decrypt the data.');
+    }
+    if (anUnserialize) {
+      return new UFPhpSerializer(this.m_options).unserialize(decrypted);
+    }
+    const text = decrypted.toString('utf8');
+    return Buffer.from(text, 'utf8').equals(decrypted) ? text : decrypted;
+  }
+
+  /**
+   * Decrypts a payload without unserializing the value.
+   *
+   * @param {string} aPayload
+   *   Payload created by {@link encryptString} or laravel
+   *
+   * @return {string|Buffer} the decrypted value, a Buffer if it is not valid UTF-8
+   *
+   * @throws {UFLaravelDecryptError} when the payload is invalid or can not be decrypted with any of the keys
+   */
+  decryptString(aPayload: string): string | Buffer {
+    return this.decrypt(aPayload, false);
+  }
+
+  /**
+   * Encrypts a cookie value like the laravel `EncryptCookies` middleware: the value is prefixed with a HMAC of the
+   * cookie name and encrypted without serializing.
+   *
+   * @param {string} aName
+   *   Name of the cookie
+   * @param {string} aValue
+   *   Value of the cookie
+   *
+   * @return {string} the encrypted value (it still needs to be url encoded when written to a header)
+   */
+  encryptCookie(aName: string, aValue: string): string {
+    return this.encryptString(UFLaravelEncrypter.createCookiePrefix(aName, this.m_keys[0]) + aValue);
+  }
+
+  /**
+   * Decrypts a cookie value written by the laravel `EncryptCookies` middleware. Url encoded values are decoded
+   * first.
+   *
+   * @param {string} aName
+   *   Name of the cookie
+   * @param {string} aValue
+   *   Encrypted value of the cookie
+   *
+   * @return {string|null} the value or null if the value was encrypted for another cookie or can not be decrypted
+   */
+  decryptCookie(aName: string, aValue: string): string | null {
+    let value: string | Buffer;
+    try {
+      value = this.decryptString(aValue.indexOf('%') >= 0 ? decodeURIComponent(aValue) : aValue);
+    } catch (error) {
+      return null;
+    }
+    const text = value.toString();
+    const valid = this.m_keys.some(key => text.startsWith(UFLaravelEncrypter.createCookiePrefix(aName, key)));
+    return valid ? text.substring(COOKIE_PREFIX_LENGTH) : null;
+  }
+
+  /**
+   * Creates an encrypter from the laravel application configuration (the value returned by `config/app.php`),
+   * using the `key`, `cipher` and `previous_keys` entries.
+   *
+   * @param {object} aConfig
+   *   Application configuration
+   * @param {IUFLaravelEncrypterOptions} anOptions
+   *   Additional options
+   *
+   * @return {UFLaravelEncrypter} the created encrypter
+   *
+   * @throws {Error} when no key is set, the cipher is not supported or a key has an incorrect length
+   */
+  static fromConfig(aConfig: { [name: string]: any }, anOptions: IUFLaravelEncrypterOptions = {}): UFLaravelEncrypter {
+    if (!aConfig.key) {
+      throw new Error('No application encryption key has been specified.');
+    }
+    const previousKeys = aConfig.previous_keys ? Object.keys(aConfig.previous_keys).map(
+      key => aConfig.previous_keys[key]
+    ) : [];
+    return new UFLaravelEncrypter(aConfig.key, {cipher: aConfig.cipher, previousKeys, ...anOptions});
+  }
+
+  /**
+   * Creates a random key for a cipher.
+   *
+   * @param {string} aCipher
+   *   Cipher the key is used with
+   *
+   * @return {string} key in the format used for `APP_KEY` (`base64:` followed by the base64 encoded key)
+   *
+   * @throws {Error} when the cipher is not supported
+   */
+  static generateKey(aCipher: string = 'aes-256-cbc'): string {
+    const cipher = CIPHERS[aCipher.toLowerCase()];
+    if (!cipher) {
+      throw new Error('Unsupported cipher "' + aCipher + '"');
+    }
+    return BASE64_PREFIX + randomBytes(cipher.keyLength).toString('base64');
+  }
+
+  /**
+   * Converts a key to bytes.
+   *
+   * @param {string|Buffer} aKey
+   *   Key as bytes, as text or, when starting with `base64:`, base64 encoded
+   *
+   * @return {Buffer} the key
+   */
+  static parseKey(aKey: string | Buffer): Buffer {
+    if (Buffer.isBuffer(aKey)) {
+      return aKey;
+    }
+    return aKey.startsWith(BASE64_PREFIX)
+      ? Buffer.from(aKey.substring(BASE64_PREFIX.length), 'base64')
+      : Buffer.from(aKey, 'utf8');
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Decodes and checks the payload.
+   *
+   * @private
+   */
+  private getJsonPayload(aPayload: string): { iv: string, value: string, mac: string, tag?: string } {
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(aPayload, 'base64').toString('utf8'));
+    } catch (error) {
+      payload = null;
+    }
+    const valid = payload && (typeof payload === 'object') &&
+      ['iv', 'value', 'mac'].every(name => typeof payload[name] === 'string') &&
+      ((payload.tag === undefined) || (payload.tag === null) || (typeof payload.tag === 'string')) &&
+      /^[A-Za-z0-9+/]*={0,2}$/.test(payload.iv) &&
+      (Buffer.from(payload.iv, 'base64').length === CIPHERS[this.m_cipher].ivLength);
+    if (!valid) {
+      throw new UFLaravelDecryptError('The payload is invalid.');
+    }
+    return payload;
+  }
+
+  /**
+   * Decrypts the base64 encoded value.
+   *
+   * @return {Buffer|null} the decrypted value or null if it can not be decrypted with the key
+   *
+   * @private
+   */
+  private decryptValue(aValue: string, aKey: Buffer, anIv: Buffer, aTag: Buffer | null): Buffer | null {
+    try {
+      const decrypter = createDecipheriv(this.m_cipher, aKey, anIv);
+      if (aTag) {
+        (decrypter as DecipherGCM).setAuthTag(aTag);
+      }
+      return Buffer.concat([decrypter.update(Buffer.from(aValue, 'base64')), decrypter.final()]);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Creates the HMAC laravel uses for payloads of CBC ciphers.
+   *
+   * @private
+   */
+  private static hash(anIv: string, aValue: string, aKey: Buffer): string {
+    return createHmac('sha256', aKey).update(anIv + aValue, 'utf8').digest('hex');
+  }
+
+  /**
+   * Checks the HMAC of a payload.
+   *
+   * @private
+   */
+  private static isValidMac(aPayload: { iv: string, value: string, mac: string }, aKey: Buffer): boolean {
+    const expected = Buffer.from(UFLaravelEncrypter.hash(aPayload.iv, aPayload.value, aKey), 'utf8');
+    const actual = Buffer.from(aPayload.mac, 'utf8');
+    return (expected.length === actual.length) && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Creates the prefix laravel adds to cookie values (`CookieValuePrefix::create`).
+   *
+   * @private
+   */
+  private static createCookiePrefix(aName: string, aKey: Buffer): string {
+    return createHmac('sha1', aKey).update(aName + 'v2', 'utf8').digest('hex') + '|';
+  }
+
+  // endregion
+}
+
+// endregion
@@ -1,12 +1,124 @@
 // region imports
 
-import {constants} from 'fs';
-import {access, readFile} from 'fs/promises';
+import {readFileSync} from 'fs';
+import {readFile, writeFile} from 'fs/promises';
+import {resolve} from 'path';
+import {IUFLog} from '@ultraforce/ts-nodejs-lib/dist/log/IUFLog.js';
+import {UFPhpParser} from '../parser/UFPhpParser.js';
+import {IUFPhpEvaluatorOptions, UFPhpArrayMode, UFPhpEvaluator} from '../parser/UFPhpEvaluator.js';
+import {UFPhpParseError} from '../parser/UFPhpParseError.js';
+import {UFPhpEnvironment} from '../parser/UFPhpResolver.js';
+import {IUFPhpWriterOptions, UFPhpWriter} from './UFPhpWriter.js';
+import {UFPhpConfigEditor} from './UFPhpConfigEditor.js';
+import {IUFPhpInterpreterOptions, IUFPhpInterpreterResult, UFPhpInterpreter} from './UFPhpInterpreter.js';
+import {UFPhpArray, UFPhpArrayKey} from './UFPhpArray.js';
+import {IUFPhpSerializerOptions, UFPhpSerializer} from './UFPhpSerializer.js';
+import {UFPhpJson} from './UFPhpJson.js';
+import {IUFPhpIniOptions, UFPhpIni} from './UFPhpIni.js';
+import {IUFPhpHttpBuildQueryOptions, IUFPhpParseStrOptions, UFPhpQuery} from './UFPhpQuery.js';
+import {UFPhpFormat} from './UFPhpFormat.js';
+import {UFPhpPack} from './UFPhpPack.js';
+import {UFPhpRegExp} from './UFPhpRegExp.js';
+import {IUFPhpSimilarTextResult, UFPhpText} from './UFPhpText.js';
+import {UFPhpMtRandMode, UFPhpRandom} from './UFPhpRandom.js';
+import {IUFPhpPasswordInfo, IUFPhpPasswordOptions, UFPhpPassword} from './UFPhpPassword.js';
+import {IUFPhpDotenvOptions, UFPhpDotenv, UFPhpDotenvVariables} from '../config/UFPhpDotenv.js';
+import {IUFPhpSchema, UFPhpSchema, UFPhpSchemaResult, UFPhpSchemaType} from '../config/UFPhpSchema.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Prefix for log
+ */
+const LOG_PREFIX = 'PHP';
+
+/**
+ * Random generator used by the random functions (php also shares one generator per process)
+ */
+const RANDOM = new UFPhpRandom();
 
 // endregion
 
 // region types
 
+/**
+ * The ways {@link UFPhp.parsePhpConfig} can evaluate a configuration file.
+ */
+export enum UFPhpConfigMode {
+  /**
+   * Parse and evaluate the file with {@link UFPhpParser} and {@link UFPhpEvaluator}.
+   */
+  Static = 'static',
+
+  /**
+   * Evaluate the file with the php cli interpreter, see {@link UFPhpInterpreter}.
+   */
+  Interpreter = 'interpreter',
+
+  /**
+   * Try {@link Static} first (in strict mode); use {@link Interpreter} when the file contains code or expressions
+   * that can not be evaluated.
+   */
+  Auto = 'auto',
+}
+
+/**
+ * Options for {@link UFPhp.parsePhpConfig} and {@link UFPhp.parsePhpConfigString}. The interpreter options are
+ * only used when the interpreter evaluates the file.
+ */
+export interface IUFPhpConfigOptions extends IUFPhpEvaluatorOptions, IUFPhpInterpreterOptions {
+  /**
+   * Log to write errors and diagnostics to
+   */
+  log?: IUFLog;
+
+  /**
+   * How to evaluate configuration files, default is {@link UFPhpConfigMode.Static}. Source code is always
+   * evaluated statically.
+   */
+  mode?: UFPhpConfigMode;
+}
+
+/**
+ * Result of {@link UFPhp.parsePhpConfig} and {@link UFPhp.parsePhpConfigString}.
+ */
+export interface IUFPhpConfigResult {
+  /**
+   * Parsed configuration
+   */
+  readonly value: any;
+
+  /**
+   * Absolute paths of all files that contributed to the configuration, in the order they were first evaluated
+   */
+  readonly files: string[];
+
+  /**
+   * Expressions that were replaced by a {@link UFPhpPlaceholder} and included files that could not be read
+   * (always empty in strict mode)
+   */
+  readonly diagnostics: UFPhpParseError[];
+
+  /**
+   * How the configuration was evaluated: {@link UFPhpConfigMode.Static} or {@link UFPhpConfigMode.Interpreter}
+   */
+  readonly mode: UFPhpConfigMode;
+
+  /**
+   * The evaluator that evaluated the configuration or null if the interpreter was used. With
+   * {@link UFPhpArrayMode.PhpArray} it can be used to get the source location and doc comments of entries.
+   */
+  readonly evaluator: UFPhpEvaluator | null;
+}
+
+/**
+ * Result of {@link UFPhp.parsePhpConfigTyped}: either the validated configuration or the validation failures,
+ * together with the contributing files and diagnostics.
+ */
+export type UFPhpTypedConfigResult<T> = Omit<IUFPhpConfigResult, 'value'> & UFPhpSchemaResult<T>;
+
 /**
  * {@link UFPhp} contains support methods related to PHP.
  */
@@ -14,52 +126,892 @@ export class UFPhp {
   // region public methods
 
   /**
-   * Parses a php configuration file. The configuration file should contain a single return statement that returns
-   * a php array.
+   * Parses a php configuration file. The configuration file should contain a return statement that returns
+   * a php array. The file may contain `namespace`, `use` and `declare` statements before the return statement.
+   *
+   * The array is parsed with {@link UFPhpParser} and converted with {@link UFPhpEvaluator}. Expressions like
+   * `env('APP_DEBUG', false)`, `__DIR__ . '/storage'`, `\PDO::ATTR_ERRMODE` or `Foo::class` are evaluated.
+   * Expressions that can not be evaluated are returned as {@link UFPhpPlaceholder} instances, unless the
+   * `strict` option is set. Included and required files are parsed as well, relative paths are resolved using the
+   * directory of the including file.
+   *
+   * Php lists are returned as javascript arrays and other php arrays as objects. Set the `arrayMode` option to
+   * {@link UFPhpArrayMode.PhpArray} to get {@link UFPhpArray} instances that preserve integer keys and key order.
+   *
+   * Invalid php code always causes a {@link UFPhpParseError}. Expressions that can not be evaluated cause a
+   * {@link UFPhpParseError} in strict mode; in lenient mode they are reported in the `diagnostics` of the result.
+   * Errors and diagnostics are also written to the `log` option (if set).
+   *
+   * Use the `mode` option to evaluate the file with the php cli interpreter instead, either always or only when
+   * the file can not be evaluated statically. The `mode` of the result reports which way was used.
+   *
+   * @param {string} aFilename
+   *   File to parse (including path on server)
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options for the evaluation, the `filename` option is set to the absolute path of `aFilename`
+   *
+   * @return {IUFPhpConfigResult} Parsed configuration, contributing files and diagnostics.
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {UFPhpInterpreterError} when the interpreter fails or emits a warning
+   * @throws {Error} when the file can not be read
+   */
+  static async parsePhpConfig(aFilename: string, anOptions: IUFPhpConfigOptions = {}): Promise<IUFPhpConfigResult> {
+    return UFPhp.loadConfig(resolve(aFilename), anOptions, 'parsePhpConfig');
+  }
+
+  /**
+   * Parses a php configuration file synchronously, see {@link parsePhpConfig}.
+   *
+   * @param {string} aFilename
+   *   File to parse (including path on server)
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options for the evaluation, the `filename` option is set to the absolute path of `aFilename`
+   *
+   * @return {IUFPhpConfigResult} Parsed configuration, contributing files and diagnostics.
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {UFPhpInterpreterError} when the interpreter fails or emits a warning
+   * @throws {Error} when the file can not be read
+   */
+  static parsePhpConfigSync(aFilename: string, anOptions: IUFPhpConfigOptions = {}): IUFPhpConfigResult {
+    const filename = resolve(aFilename);
+    const method = 'parsePhpConfigSync';
+    if (anOptions.mode !== UFPhpConfigMode.Interpreter) {
+      let source: string;
+      try {
+        source = readFileSync(filename).toString();
+      } catch (error) {
+        anOptions.log?.error(LOG_PREFIX, error, method, filename);
+        throw error;
+      }
+      const result = UFPhp.evaluateStatic(source, {...anOptions, filename}, method);
+      if (result) {
+        return result;
+      }
+    }
+    try {
+      return UFPhp.convertInterpreted(new UFPhpInterpreter(anOptions).requireFileSync(filename), anOptions);
+    } catch (error) {
+      anOptions.log?.error(LOG_PREFIX, error, method, filename);
+      throw error;
+    }
+  }
+
+  /**
+   * Parses a php configuration file and validates it with a schema, see {@link parsePhpConfig} and
+   * {@link UFPhpSchema}. The type of the returned value is inferred from the schema.
    *
-   * The array gets converted to a JSON formatted structure and then parsed.
+   * Validation failures include the key path and the location in the source (the location is not known when the
+   * interpreter evaluated the file). Expressions that could not be evaluated only pass validation when the schema
+   * allows any value. Failures are written to the `log` option (if set).
    *
    * @param {string} aFilename
    *   File to parse (including path on server)
+   * @param {IUFPhpSchema} aSchema
+   *   Schema describing the configuration
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options for the evaluation, the `arrayMode` option is ignored
+   *
+   * @return {UFPhpTypedConfigResult} validated configuration or validation failures, contributing files and
+   *   diagnostics
+   *
+   * @throws {UFPhpParseError} when a file contains invalid code or in strict mode when an expression can not be
+   *   evaluated
+   * @throws {UFPhpInterpreterError} when the interpreter fails or emits a warning
+   * @throws {Error} when the file can not be read
+   */
+  static async parsePhpConfigTyped<S extends IUFPhpSchema>(
+    aFilename: string, aSchema: S, anOptions: IUFPhpConfigOptions = {}
+  ): Promise<UFPhpTypedConfigResult<UFPhpSchemaType<S>>> {
+    const filename = resolve(aFilename);
+    // locations are only known for the original php arrays
+    const config = await UFPhp.loadConfig(
+      filename, {...anOptions, arrayMode: UFPhpArrayMode.PhpArray}, 'parsePhpConfigTyped'
+    );
+    const result = UFPhpSchema.validate(config.value, aSchema, config.evaluator || undefined);
+    if (!result.valid) {
+      anOptions.log?.error(LOG_PREFIX, null, 'parsePhpConfigTyped', filename, result.message);
+    }
+    return {
+      ...result, files: config.files, diagnostics: config.diagnostics, mode: config.mode, evaluator: config.evaluator
+    };
+  }
+
+  /**
+   * Parses php configuration source code, see {@link parsePhpConfig}.
+   *
+   * Relative paths in include and require expressions and `__DIR__` use the `baseDir` option (or the directory
+   * of the `filename` option if set). The result includes the list of files that were included.
+   *
+   * @param {string} aSource
+   *   Php source to parse
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options for the evaluation
+   *
+   * @return {IUFPhpConfigResult} parsed configuration, contributing files and diagnostics
+   *
+   * @throws {UFPhpParseError} when the source or an included file contains invalid code or in strict mode when
+   *   an expression can not be evaluated
+   */
+  static parsePhpConfigString(aSource: string, anOptions: IUFPhpConfigOptions = {}): IUFPhpConfigResult {
+    return UFPhp.evaluateConfig(
+      aSource,
+      anOptions.filename ? {...anOptions, filename: resolve(anOptions.filename)} : anOptions,
+      'parsePhpConfigString'
+    );
+  }
+
+  /**
+   * Converts a value to a php configuration file that returns the value. Values are written like php `var_export`
+   * does, see {@link UFPhpWriter} for details.
+   *
+   * @param {any} aValue
+   *   Configuration to write
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options for formatting
+   *
+   * @return {string} php source
+   *
+   * @throws {Error} when the value contains something that can not be written as php (like functions)
+   */
+  static stringifyPhpConfig(aValue: any, anOptions: IUFPhpWriterOptions = {}): string {
+    return UFPhpWriter.stringifyConfig(aValue, anOptions);
+  }
+
+  /**
+   * Changes entries in php configuration source, keeping comments, formatting and all other code as is. See
+   * {@link UFPhpConfigEditor} for details.
+   *
+   * @param {string} aSource
+   *   Php source to change
+   * @param {object} aChanges
+   *   Key paths (keys separated by dots) mapped to their new value; use undefined to remove an entry
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options for formatting new values
+   *
+   * @return {string} changed source
+   *
+   * @throws {UFPhpParseError} when the source contains invalid code
+   * @throws {Error} when the source does not return an array or a value can not be written as php
+   */
+  static editPhpConfig(
+    aSource: string, aChanges: { [path: string]: any }, anOptions: IUFPhpWriterOptions = {}
+  ): string {
+    const editor = new UFPhpConfigEditor(aSource, anOptions);
+    Object.keys(aChanges).forEach(
+      path => aChanges[path] === undefined ? editor.remove(path) : editor.set(path, aChanges[path])
+    );
+    return editor.source;
+  }
+
+  /**
+   * Changes entries in a php configuration file, see {@link editPhpConfig}.
+   *
+   * @param {string} aFilename
+   *   File to change (including path on server)
+   * @param {object} aChanges
+   *   Key paths (keys separated by dots) mapped to their new value; use undefined to remove an entry
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options for formatting new values
+   *
+   * @throws {UFPhpParseError} when the file contains invalid code
+   * @throws {Error} when the file can not be read or written, the file does not return an array or a value can
+   *   not be written as php
+   */
+  static async editPhpConfigFile(
+    aFilename: string, aChanges: { [path: string]: any }, anOptions: IUFPhpWriterOptions = {}
+  ): Promise<void> {
+    const source = (await readFile(aFilename)).toString();
+    const result = UFPhp.editPhpConfig(source, aChanges, anOptions);
+    if (result !== source) {
+      await writeFile(aFilename, result);
+    }
+  }
+
+  /**
+   * Serializes a value like php `serialize` does, see {@link UFPhpSerializer} for details. Values of type bigint
+   * are written as php integers.
+   *
+   * Javascript has no references: references (`R:`) read by {@link unserialize} are copies of the referenced
+   * value, so they are written as values and not as references again.
+   *
+   * @param {any} aValue
+   *   Value to serialize
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options for serializing
+   *
+   * @return {string} serialized data decoded as UTF-8; use {@link UFPhpSerializer.serialize} to get the bytes when
+   *   the value contains binary strings
+   *
+   * @throws {Error} when the value contains something that can not be serialized
+   */
+  static serialize(aValue: any, anOptions: IUFPhpSerializerOptions = {}): string {
+    return new UFPhpSerializer(anOptions).serialize(aValue).toString('utf8');
+  }
+
+  /**
+   * Unserializes data created by php `serialize`, see {@link UFPhpSerializer} for details.
+   *
+   * @param {string|Buffer} aData
+   *   Data to unserialize
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options for unserializing, use `allowedClasses` when the data comes from an untrusted source
+   *
+   * @return {any} unserialized value
+   *
+   * @throws {Error} when the data is invalid
+   */
+  static unserialize(aData: string | Buffer, anOptions: IUFPhpSerializerOptions = {}): any {
+    return new UFPhpSerializer(anOptions).unserialize(aData);
+  }
+
+  /**
+   * Creates a bcrypt hash like php `password_hash` does, see {@link UFPhpPassword} for details.
+   *
+   * @param {string|Buffer} aPassword
+   *   Password to hash
+   * @param {IUFPhpPasswordOptions} anOptions
+   *   Options to use
+   *
+   * @return {string} hash starting with `$2y$`
+   *
+   * @throws {Error} when the cost is invalid or the password contains a null character
+   */
+  static passwordHash(aPassword: string | Buffer, anOptions: IUFPhpPasswordOptions = {}): string {
+    return UFPhpPassword.hash(aPassword, anOptions);
+  }
+
+  /**
+   * Checks if a password matches a hash like php `password_verify` does.
+   *
+   * @param {string|Buffer} aPassword
+   *   Password to check
+   * @param {string} aHash
+   *   Bcrypt hash
+   *
+   * @return {boolean} true if the password matches
+   */
+  static passwordVerify(aPassword: string | Buffer, aHash: string): boolean {
+    return UFPhpPassword.verify(aPassword, aHash);
+  }
+
+  /**
+   * Checks if a hash should be recreated like php `password_needs_rehash` does.
+   *
+   * @param {string} aHash
+   *   Hash to check
+   * @param {IUFPhpPasswordOptions} anOptions
+   *   Options that should have been used
+   *
+   * @return {boolean} true if the password should be hashed again
+   */
+  static passwordNeedsRehash(aHash: string, anOptions: IUFPhpPasswordOptions = {}): boolean {
+    return UFPhpPassword.needsRehash(aHash, anOptions);
+  }
+
+  /**
+   * Gets information about a hash like php `password_get_info` does.
+   *
+   * @param {string} aHash
+   *   Hash to inspect
+   *
+   * @return {IUFPhpPasswordInfo} algorithm and options
+   */
+  static passwordGetInfo(aHash: string): IUFPhpPasswordInfo {
+    return UFPhpPassword.getInfo(aHash);
+  }
+
+  /**
+   * Encodes a value like php `json_encode` does, see {@link UFPhpJson} for details.
+   *
+   * @param {any} aValue
+   *   Value to encode
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpJsonFlag} values
+   * @param {number} aDepth
+   *   Maximum depth of nested arrays and objects
+   *
+   * @return {string} json text
+   *
+   * @throws {UFPhpJsonError} when the value can not be encoded
+   */
+  static jsonEncode(aValue: any, aFlags: number = 0, aDepth: number = 512): string {
+    return UFPhpJson.encode(aValue, aFlags, aDepth);
+  }
+
+  /**
+   * Decodes json text like php `json_decode` does, see {@link UFPhpJson} for details.
+   *
+   * @param {string|Buffer} aJson
+   *   Text to decode
+   * @param {boolean|null} anAssoc
+   *   When true, json objects are returned as php arrays
+   * @param {number} aDepth
+   *   Maximum depth of nested arrays and objects
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpJsonFlag} values
+   *
+   * @return {any} decoded value
+   *
+   * @throws {UFPhpJsonError} when the text is invalid or nested too deep
+   */
+  static jsonDecode(
+    aJson: string | Buffer, anAssoc: boolean | null = null, aDepth: number = 512, aFlags: number = 0
+  ): any {
+    return UFPhpJson.decode(aJson, anAssoc, aDepth, aFlags);
+  }
+
+  /**
+   * Parses ini source like php `parse_ini_string` does, see {@link UFPhpIni} for details.
+   *
+   * @param {string} aSource
+   *   Ini source to parse
+   * @param {IUFPhpIniOptions} anOptions
+   *   Options to use
+   *
+   * @return {any} parsed entries
+   *
+   * @throws {UFPhpParseError} when the source contains a syntax error
+   */
+  static parseIniString(aSource: string, anOptions: IUFPhpIniOptions = {}): any {
+    return UFPhpIni.parse(aSource, anOptions);
+  }
+
+  /**
+   * Parses an ini file like php `parse_ini_file` does, see {@link UFPhpIni} for details.
+   *
+   * @param {string} aFilename
+   *   Path to the file
+   * @param {IUFPhpIniOptions} anOptions
+   *   Options to use
+   *
+   * @return {Promise<any>} parsed entries
+   *
+   * @throws {UFPhpParseError} when the file contains a syntax error
+   */
+  static async parseIniFile(aFilename: string, anOptions: IUFPhpIniOptions = {}): Promise<any> {
+    const filename = resolve(aFilename);
+    const source = (await readFile(filename)).toString();
+    return UFPhpIni.parse(source, {...anOptions, filename});
+  }
+
+  /**
+   * Creates ini source that can be parsed with php `parse_ini_file`, see {@link UFPhpIni.stringify} for details.
+   *
+   * @param {any} aValue
+   *   Object or {@link UFPhpArray} to write
+   * @param {IUFPhpIniOptions} anOptions
+   *   Only `processSections` is used
+   *
+   * @return {string} ini source
+   *
+   * @throws {Error} when the value can not be represented in the ini format
+   */
+  static stringifyIni(aValue: any, anOptions: IUFPhpIniOptions = {}): string {
+    return UFPhpIni.stringify(aValue, anOptions);
+  }
+
+  /**
+   * Parses dotenv source like `Dotenv::parse` of vlucas/phpdotenv does, see {@link UFPhpDotenv} for details.
+   *
+   * @param {string} aSource
+   *   Contents of a `.env` file
+   *
+   * @return {UFPhpDotenvVariables} parsed variables
+   *
+   * @throws {Error} when the source is invalid
+   */
+  static parseDotenv(aSource: string): UFPhpDotenvVariables {
+    return UFPhpDotenv.parse(aSource);
+  }
+
+  /**
+   * Loads the `.env` file in a directory like Laravel does (nothing is loaded when the file does not exist), see
+   * {@link UFPhpDotenv} for details.
+   *
+   * @param {string} aPath
+   *   Directory containing the file
+   * @param {IUFPhpDotenvOptions} anOptions
+   *   Options to use
+   * @param {string} aName
+   *   Name of the file
+   *
+   * @return {Promise<UFPhpEnvironment>} existing environment variables combined with the loaded variables, it can
+   *   be used as `env` option for {@link parsePhpConfig}
+   *
+   * @throws {Error} when the file is invalid
+   */
+  static async loadDotenv(
+    aPath: string, anOptions: IUFPhpDotenvOptions = {}, aName: string = '.env'
+  ): Promise<UFPhpEnvironment> {
+    const dotenv = new UFPhpDotenv(anOptions);
+    await dotenv.safeLoadFiles(aPath, aName);
+    return dotenv.environment;
+  }
+
+  /**
+   * Builds a query string like php `http_build_query` does, see {@link UFPhpQuery} for details.
+   *
+   * @param {any} aData
+   *   Object, array, {@link UFPhpArray} or {@link UFPhpObject} with the entries
+   * @param {IUFPhpHttpBuildQueryOptions} anOptions
+   *   Prefix for integer keys, separator and encoding
+   *
+   * @return {string} query string
+   *
+   * @throws {Error} when the data is not an array or object
+   */
+  static httpBuildQuery(aData: any, anOptions: IUFPhpHttpBuildQueryOptions = {}): string {
+    return UFPhpQuery.build(aData, anOptions);
+  }
+
+  /**
+   * Parses a query string like php `parse_str` does, see {@link UFPhpQuery} for details.
+   *
+   * @param {string} aQuery
+   *   Query string (without the leading `?`)
+   * @param {IUFPhpParseStrOptions} anOptions
+   *   Options to use
+   *
+   * @return {any} parsed variables
+   */
+  static parseStr(aQuery: string, anOptions: IUFPhpParseStrOptions = {}): any {
+    return UFPhpQuery.parse(aQuery, anOptions);
+  }
+
+  /**
+   * Packs values into binary data like php `pack` does, see {@link UFPhpPack} for details.
+   *
+   * @param {string} aFormat
+   *   Format codes
+   * @param {any[]} aValues
+   *   Values to pack
+   *
+   * @return {Buffer} packed data
+   *
+   * @throws {Error} when the format contains an unknown code or there are not enough values
+   */
+  static pack(aFormat: string, ...aValues: any[]): Buffer {
+    return UFPhpPack.pack(aFormat, ...aValues);
+  }
+
+  /**
+   * Unpacks binary data like php `unpack` does, see {@link UFPhpPack} for details.
+   *
+   * @param {string} aFormat
+   *   Format codes with names
+   * @param {string|Buffer} aData
+   *   Data to unpack
+   * @param {number} anOffset
+   *   Offset in the data to start at
+   *
+   * @return {object|false} the unpacked values or false when the data is too short
+   *
+   * @throws {Error} when the format contains an unknown code or the offset is outside the data
+   */
+  static unpack(aFormat: string, aData: string | Buffer, anOffset: number = 0): { [name: string]: any } | false {
+    return UFPhpPack.unpack(aFormat, aData, anOffset);
+  }
+
+  /**
+   * Converts a pcre pattern as used by the php `preg_*` functions to a javascript regular expression.
+   *
+   * @param {string} aPattern
+   *   Pcre pattern with delimiters and modifiers
+   *
+   * @return {RegExp} a new regular expression
+   *
+   * @throws {UFPhpRegExpError} when the pattern is invalid or can not be converted
+   */
+  static pcreToRegExp(aPattern: string): RegExp {
+    return new RegExp(UFPhpRegExp.from(aPattern).regExp);
+  }
+
+  /**
+   * Searches the first match of a pcre pattern like php `preg_match` does.
+   *
+   * @param {string} aPattern
+   *   Pcre pattern with delimiters and modifiers
+   * @param {string} aSubject
+   *   Text to search
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpPregFlag} values
+   * @param {number} anOffset
+   *   Byte offset to start searching at
+   *
+   * @return {any[]|object|null} the matches (an object if the pattern has named groups) or null if there is no
+   *   match
+   *
+   * @throws {UFPhpRegExpError} when the pattern is invalid or can not be converted
+   */
+  static pregMatch(
+    aPattern: string, aSubject: string, aFlags: number = 0, anOffset: number = 0
+  ): any[] | { [key: string]: any } | null {
+    const matches = UFPhpRegExp.from(aPattern).match(aSubject, aFlags, anOffset);
+    return matches ? matches.toNative() : null;
+  }
+
+  /**
+   * Replaces matches of one or more pcre patterns like php `preg_replace` does.
+   *
+   * With multiple patterns every pattern is applied in order; when the replacement is a list, the pattern at a
+   * position uses the replacement at that position (or an empty string).
+   *
+   * @param {string|string[]} aPattern
+   *   Pcre pattern or patterns with delimiters and modifiers
+   * @param {string|string[]} aReplacement
+   *   Replacement or list of replacements, can contain `$n`, `${n}` and `\n` to insert groups
+   * @param {string} aSubject
+   *   Text to search
+   * @param {number} aLimit
+   *   Maximum number of replacements per pattern, -1 for no limit
+   *
+   * @return {string} the subject with the matches replaced
+   *
+   * @throws {UFPhpRegExpError} when a pattern is invalid or can not be converted
+   * @throws {TypeError} when the replacement is a list and the pattern is not
+   */
+  static pregReplace(
+    aPattern: string | string[], aReplacement: string | string[], aSubject: string, aLimit: number = -1
+  ): string {
+    if (!Array.isArray(aPattern)) {
+      if (Array.isArray(aReplacement)) {
+        throw new TypeError('The pattern must be a list when the replacement is a list');
+      }
+      return UFPhpRegExp.from(aPattern).replace(aSubject, aReplacement, aLimit);
+    }
+    let result = aSubject;
+    aPattern.forEach((pattern, index) => {
+      const replacement = Array.isArray(aReplacement) ? aReplacement[index] || '' : aReplacement;
+      result = UFPhpRegExp.from(pattern).replace(result, replacement, aLimit);
+    });
+    return result;
+  }
+
+  /**
+   * Formats values like php `sprintf` does.
+   *
+   * @param {string} aFormat
+   *   Format with conversion specifications (like `%'*10.2f` or `%1$s`)
+   * @param {any[]} aValues
+   *   Values to format
+   *
+   * @return {string} formatted text
+   *
+   * @throws {Error} when the format is invalid or there are not enough values
+   */
+  static sprintf(aFormat: string, ...aValues: any[]): string {
+    return UFPhpFormat.sprintf(aFormat, ...aValues);
+  }
+
+  /**
+   * Formats a list of values like php `vsprintf` does.
+   *
+   * @param {string} aFormat
+   *   Format with conversion specifications
+   * @param {any[]|object} aValues
+   *   Values to format
+   *
+   * @return {string} formatted text
+   *
+   * @throws {Error} when the format is invalid or there are not enough values
+   */
+  static vsprintf(aFormat: string, aValues: any[] | { [key: string]: any }): string {
+    return UFPhpFormat.vsprintf(aFormat, aValues);
+  }
+
+  /**
+   * Formats a number with grouped thousands like php `number_format` does.
+   *
+   * @param {number} aValue
+   *   Value to format
+   * @param {number} aDecimals
+   *   Number of decimals
+   * @param {string} aDecimalSeparator
+   *   Separator before the decimals
+   * @param {string} aThousandsSeparator
+   *   Separator between groups of thousands
+   *
+   * @return {string} formatted number
+   */
+  static numberFormat(
+    aValue: number, aDecimals: number = 0, aDecimalSeparator: string = '.', aThousandsSeparator: string = ','
+  ): string {
+    return UFPhpFormat.numberFormat(aValue, aDecimals, aDecimalSeparator, aThousandsSeparator);
+  }
+
+  /**
+   * Calculates the Levenshtein distance like php `levenshtein` does (on UTF-8 bytes).
+   *
+   * @param {string|Buffer} aFirst
+   *   First text
+   * @param {string|Buffer} aSecond
+   *   Second text
+   * @param {number} anInsertCost
+   *   Cost of inserting a byte
+   * @param {number} aReplaceCost
+   *   Cost of replacing a byte
+   * @param {number} aDeleteCost
+   *   Cost of deleting a byte
+   *
+   * @return {number} minimal cost to change the first text into the second text
+   */
+  static levenshtein(
+    aFirst: string | Buffer, aSecond: string | Buffer, anInsertCost: number = 1, aReplaceCost: number = 1,
+    aDeleteCost: number = 1
+  ): number {
+    return UFPhpText.levenshtein(aFirst, aSecond, anInsertCost, aReplaceCost, aDeleteCost);
+  }
+
+  /**
+   * Calculates the similarity of two texts like php `similar_text` does (on UTF-8 bytes).
+   *
+   * @param {string|Buffer} aFirst
+   *   First text
+   * @param {string|Buffer} aSecond
+   *   Second text
+   *
+   * @return {IUFPhpSimilarTextResult} number of matching bytes and similarity in percent
+   */
+  static similarText(aFirst: string | Buffer, aSecond: string | Buffer): IUFPhpSimilarTextResult {
+    return UFPhpText.similarText(aFirst, aSecond);
+  }
+
+  /**
+   * Calculates the soundex key like php `soundex` does.
+   *
+   * @param {string|Buffer} aText
+   *   Text to get the key for
+   *
+   * @return {string} four character key or an empty string for an empty text
+   */
+  static soundex(aText: string | Buffer): string {
+    return UFPhpText.soundex(aText);
+  }
+
+  /**
+   * Calculates the metaphone key like php `metaphone` does.
+   *
+   * @param {string|Buffer} aText
+   *   Text to get the key for
+   * @param {number} aMaxPhonemes
+   *   Maximum number of phonemes or 0 for no limit
+   *
+   * @return {string} metaphone key
+   *
+   * @throws {Error} when the maximum is negative
+   */
+  static metaphone(aText: string | Buffer, aMaxPhonemes: number = 0): string {
+    return UFPhpText.metaphone(aText, aMaxPhonemes);
+  }
+
+  /**
+   * Seeds the random generator used by {@link mtRand}, {@link rand}, {@link shuffle}, {@link strShuffle} and
+   * {@link arrayRand} like php `mt_srand` does.
+   *
+   * @param {number} aSeed
+   *   Seed to use, when missing a random seed is used
+   * @param {UFPhpMtRandMode} aMode
+   *   Mode to use
+   */
+  static mtSrand(aSeed?: number, aMode: UFPhpMtRandMode = UFPhpMtRandMode.Mt19937): void {
+    RANDOM.seed(aSeed, aMode);
+  }
+
+  /**
+   * Gets a random integer like php `mt_rand` does.
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @throws {Error} when only one limit is specified or the maximum is smaller than the minimum
+   */
+  static mtRand(aMin?: number, aMax?: number): number {
+    return RANDOM.mtRand(aMin, aMax);
+  }
+
+  /**
+   * Gets a random integer like php `rand` does.
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @throws {Error} when only one limit is specified
+   */
+  static rand(aMin?: number, aMax?: number): number {
+    return RANDOM.rand(aMin, aMax);
+  }
+
+  /**
+   * Gets the largest value {@link mtRand} returns without range like php `mt_getrandmax` does.
+   *
+   * @return {number} 2147483647
+   */
+  static mtGetRandMax(): number {
+    return RANDOM.getRandMax();
+  }
+
+  /**
+   * Shuffles an array like php `shuffle` does.
+   *
+   * @param {T[]} anArray
+   *   Array to shuffle, it is changed
+   *
+   * @return {T[]} the array
+   */
+  static shuffle<T>(anArray: T[]): T[] {
+    return RANDOM.shuffle(anArray);
+  }
+
+  /**
+   * Shuffles the bytes of a text like php `str_shuffle` does.
+   *
+   * @param {string} aText
+   *   Text to shuffle
+   *
+   * @return {string} shuffled text
+   */
+  static strShuffle(aText: string): string {
+    return RANDOM.strShuffle(aText);
+  }
+
+  /**
+   * Picks random keys like php `array_rand` does.
+   *
+   * @param {any[]|UFPhpArray|object} anArray
+   *   Array to pick keys from
+   * @param {number} aCount
+   *   Number of keys to pick
+   *
+   * @return {UFPhpArrayKey|UFPhpArrayKey[]} a key when picking one key, else a list of keys
+   *
+   * @throws {Error} when the array is empty or the count is out of range
+   */
+  static arrayRand(
+    anArray: any[] | UFPhpArray | { [key: string]: any }, aCount: number = 1
+  ): UFPhpArrayKey | UFPhpArrayKey[] {
+    return RANDOM.arrayRand(anArray, aCount);
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Loads a configuration file using the mode set in the options.
+   *
+   * @param {string} aFilename
+   *   Absolute path of file
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options to use
+   * @param {string} aMethod
+   *   Name of calling method (used in log entries)
+   *
+   * @private
+   */
+  private static async loadConfig(
+    aFilename: string, anOptions: IUFPhpConfigOptions, aMethod: string
+  ): Promise<IUFPhpConfigResult> {
+    if (anOptions.mode !== UFPhpConfigMode.Interpreter) {
+      let source: string;
+      try {
+        source = (await readFile(aFilename)).toString();
+      } catch (error) {
+        anOptions.log?.error(LOG_PREFIX, error, aMethod, aFilename);
+        throw error;
+      }
+      const result = UFPhp.evaluateStatic(source, {...anOptions, filename: aFilename}, aMethod);
+      if (result) {
+        return result;
+      }
+    }
+    try {
+      return UFPhp.convertInterpreted(await new UFPhpInterpreter(anOptions).requireFile(aFilename), anOptions);
+    } catch (error) {
+      anOptions.log?.error(LOG_PREFIX, error, aMethod, aFilename);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates configuration source statically. In {@link UFPhpConfigMode.Auto} mode errors and diagnostics are
+   * not reported, instead null is returned.
+   *
+   * @return {IUFPhpConfigResult|null} result or null if the interpreter should be used
+   *
+   * @private
+   */
+  private static evaluateStatic(
+    aSource: string, anOptions: IUFPhpConfigOptions, aMethod: string
+  ): IUFPhpConfigResult | null {
+    if (anOptions.mode !== UFPhpConfigMode.Auto) {
+      return UFPhp.evaluateConfig(aSource, anOptions, aMethod);
+    }
+    let reason: string;
+    try {
+      const result = UFPhp.evaluateConfig(aSource, {...anOptions, log: undefined}, aMethod);
+      if (!result.diagnostics.length) {
+        return result;
+      }
+      reason = result.diagnostics[0].message;
+    } catch (error) {
+      if (!(error instanceof UFPhpParseError)) {
+        throw error;
+      }
+      reason = error.message;
+    }
+    anOptions.log?.info(LOG_PREFIX, aMethod, 'using interpreter', reason);
+    return null;
+  }
+
+  /**
+   * Converts the result of the interpreter.
+   *
+   * @private
+   */
+  private static convertInterpreted(
+    aResult: IUFPhpInterpreterResult, anOptions: IUFPhpConfigOptions
+  ): IUFPhpConfigResult {
+    const value = (anOptions.arrayMode !== UFPhpArrayMode.PhpArray) && (aResult.value instanceof UFPhpArray)
+      ? aResult.value.toNative()
+      : aResult.value;
+    return {value, files: aResult.files, diagnostics: [], mode: UFPhpConfigMode.Interpreter, evaluator: null};
+  }
+
+  /**
+   * Parses and evaluates configuration source, logging errors and diagnostics.
+   *
+   * @param {string} aSource
+   *   Php source to parse
+   * @param {IUFPhpConfigOptions} anOptions
+   *   Options with absolute filename (if any)
+   * @param {string} aMethod
+   *   Name of calling method (used in log entries)
    *
-   * @return {object} Parsed configuration.
+   * @private
    */
-  static async parsePhpConfig(aFilename: string): Promise<any> {
+  private static evaluateConfig(aSource: string, anOptions: IUFPhpConfigOptions, aMethod: string): IUFPhpConfigResult {
     try {
-      await access(aFilename, constants.R_OK);
-      const phpConfig = await readFile(aFilename);
-      let config = phpConfig.toString();
-      // remove comments
-      // see https://blog.ostermiller.org/finding-comments-in-source-code-using-regular-expressions/
-      config = config.replace(/\/\*(.|[\r\n])*?\*+\//gi, '');
-      config = config.replace(/\/\/.+/gi, '');
-      // remove use
-      config = config.replace(/use.*;/gi, '');
-      // remove other php snippets (use strings, since every item occurs once)
-      config = config.replace('<?php', '').replace('return ', '').replace(';', '');
-      // add quotes to values that are not starting with a quote or number and are not equal to true/false/null
-      config = config.replace(/=>\s+([^0-9"'].*),/gi, x => {
-        // get value after => without the ,
-        x = x.replace(/=>\s+/, '');
-        x = x.replace(/,$/, '');
-        // add quotes if value does not match a known literal value
-        if ((x != 'true') && (x != 'false') && (x != 'null')) {
-          // add single quotes and add \ to any single quote in the value
-          x = '\'' + x.replace(/'/g, '\\\'') + '\'';
-        }
-        return '=> ' + x + ',';
-      });
-      // replace array defs with object def
-      config = config.replace(/\[/gi, '{').replace(/]/gi, '}').replace(/=>/gi, ':');
-      // remove any , without a new property following it
-      config = config.replace(/,(\s|[\r\n])*?}/gi, '}');
-      // json uses "
-      config = config.replace(/'/gi, '"');
-      // parse as json
-      return JSON.parse(config);
+      const file = new UFPhpParser(aSource, anOptions.filename).parse();
+      const evaluator = new UFPhpEvaluator(anOptions);
+      const value = evaluator.evaluateFile(file);
+      const diagnostics = evaluator.diagnostics;
+      diagnostics.forEach(diagnostic => anOptions.log?.info(LOG_PREFIX, aMethod, diagnostic.message));
+      return {value, files: evaluator.files, diagnostics, mode: UFPhpConfigMode.Static, evaluator};
     } catch (error) {
-      console.error(error);
-      return false;
+      anOptions.log?.error(LOG_PREFIX, error, aMethod, anOptions.filename || '');
+      throw error;
     }
   }
 }
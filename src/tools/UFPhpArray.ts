@@ -0,0 +1,233 @@
+// region types
+
+/**
+ * Key of a php array: an integer or a string.
+ */
+export type UFPhpArrayKey = string | number;
+
+// endregion
+
+// region local constants
+
+/**
+ * Matches strings that are converted to an integer key by php.
+ */
+const INTEGER_KEY = /^(0|-?[1-9][0-9]*)$/;
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpArray} is an ordered map that follows the php array semantics:
+ * - keys are normalized like php does: numeric strings (without leading zeros), booleans and floats become
+ *   integer keys, null becomes an empty string
+ * - entries keep their insertion order, also for integer keys
+ * - {@link push} adds an entry with the next integer key, which is one more than the largest integer key used so
+ *   far (as of php 8.3 this also applies to negative keys)
+ *
+ * Javascript objects always list integer keys first in ascending order, so use this class when the order of the
+ * entries is important.
+ */
+export class UFPhpArray extends Map<UFPhpArrayKey, any> {
+  // region private variables
+
+  /**
+   * Key used by the next push or null if no integer key has been used
+   *
+   * @private
+   */
+  private m_nextIndex: number | null = null;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpArray}.
+   *
+   * @param {Iterable<[any, any]>} anEntries
+   *   Optional initial entries, keys are normalized
+   */
+  constructor(anEntries?: Iterable<readonly [any, any]> | null) {
+    // entries are not passed to Map, since the private variables are initialized after the super call
+    super();
+    if (anEntries) {
+      for (const [key, value] of anEntries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * The integer key {@link push} will use.
+   */
+  get nextIndex(): number {
+    return this.m_nextIndex === null ? 0 : this.m_nextIndex;
+  }
+
+  /**
+   * Sets an entry; the key is normalized using the php rules.
+   *
+   * @param {any} aKey
+   *   Key of entry
+   * @param {any} aValue
+   *   Value of entry
+   *
+   * @return {this} this instance
+   */
+  set(aKey: any, aValue: any): this {
+    const key = UFPhpArray.normalizeKey(aKey);
+    if ((typeof key === 'number') && ((this.m_nextIndex === null) || (key >= this.m_nextIndex))) {
+      this.m_nextIndex = key + 1;
+    }
+    return super.set(key, aValue);
+  }
+
+  /**
+   * Gets the value of an entry.
+   *
+   * @param {any} aKey
+   *   Key of entry (normalized using the php rules)
+   *
+   * @return {any} value or undefined if there is no entry for the key
+   */
+  get(aKey: any): any {
+    return super.get(UFPhpArray.normalizeKey(aKey));
+  }
+
+  /**
+   * Checks if there is an entry for a key.
+   *
+   * @param {any} aKey
+   *   Key of entry (normalized using the php rules)
+   *
+   * @return {boolean} true if there is an entry
+   */
+  has(aKey: any): boolean {
+    return super.has(UFPhpArray.normalizeKey(aKey));
+  }
+
+  /**
+   * Removes an entry. Like php, this does not change the key used by the next {@link push}.
+   *
+   * @param {any} aKey
+   *   Key of entry (normalized using the php rules)
+   *
+   * @return {boolean} true if an entry was removed
+   */
+  delete(aKey: any): boolean {
+    return super.delete(UFPhpArray.normalizeKey(aKey));
+  }
+
+  /**
+   * Adds an entry using the next integer key (php `$array[] = $value`).
+   *
+   * @param {any} aValue
+   *   Value to add
+   *
+   * @return {number} the key used for the value
+   */
+  push(aValue: any): number {
+    const key = this.nextIndex;
+    this.set(key, aValue);
+    return key;
+  }
+
+  /**
+   * Checks if the keys are the integers 0 to size - 1 in order (php `array_is_list`).
+   *
+   * @return {boolean} true if the array is a list
+   */
+  isList(): boolean {
+    let index = 0;
+    for (const key of this.keys()) {
+      if (key !== index++) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Converts the array to javascript values. Lists become javascript arrays, other arrays become objects.
+   * Nested {@link UFPhpArray} instances are converted as well.
+   *
+   * @return {any[]|object} converted array
+   */
+  toNative(): any[] | { [key: string]: any } {
+    const convert = (aValue: any) => aValue instanceof UFPhpArray ? aValue.toNative() : aValue;
+    if (this.isList()) {
+      return Array.from(this.values(), convert);
+    }
+    const result: { [key: string]: any } = {};
+    this.forEach((value, key) => result[key] = convert(value));
+    return result;
+  }
+
+  /**
+   * Converts javascript arrays and plain objects to {@link UFPhpArray} instances, including nested arrays and
+   * objects. Other values are returned as is.
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {any} converted value
+   */
+  static fromNative(aValue: any): any {
+    if (Array.isArray(aValue)) {
+      return new UFPhpArray(aValue.map((value, index) => [index, UFPhpArray.fromNative(value)]));
+    }
+    if (UFPhpArray.isPlainObject(aValue)) {
+      return new UFPhpArray(Object.keys(aValue).map(key => [key, UFPhpArray.fromNative(aValue[key])]));
+    }
+    return aValue;
+  }
+
+  /**
+   * Converts a value to an array key using the php rules.
+   *
+   * @param {any} aKey
+   *   Key value
+   *
+   * @return {UFPhpArrayKey} integer or string key
+   */
+  static normalizeKey(aKey: any): UFPhpArrayKey {
+    switch (typeof aKey) {
+      case 'number':
+        return Math.trunc(aKey) || 0;
+      case 'boolean':
+        return aKey ? 1 : 0;
+      case 'string':
+        // only decimal integers without leading zeros (or sign) become integer keys
+        return INTEGER_KEY.test(aKey) && Number.isSafeInteger(Number(aKey)) ? Number(aKey) : aKey;
+      default:
+        return (aKey === null) || (aKey === undefined) ? '' : String(aKey);
+    }
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Checks if a value is an object created with `{...}` or `Object.create(null)`.
+   *
+   * @private
+   */
+  private static isPlainObject(aValue: any): boolean {
+    if ((typeof aValue !== 'object') || (aValue === null)) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(aValue);
+    return (prototype === Object.prototype) || (prototype === null);
+  }
+
+  // endregion
+}
+
+// endregion
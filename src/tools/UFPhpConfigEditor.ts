@@ -0,0 +1,388 @@
+// region imports
+
+import {IUFPhpArrayItemNode, IUFPhpArrayNode, UFPhpNode, UFPhpNodeType} from '../parser/UFPhpNode.js';
+import {UFPhpParser} from '../parser/UFPhpParser.js';
+import {UFPhpTokenizer, UFPhpTokenType} from '../parser/UFPhpTokenizer.js';
+import {UFPhpArray, UFPhpArrayKey} from './UFPhpArray.js';
+import {IUFPhpWriterOptions, UFPhpWriter} from './UFPhpWriter.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Matches the rest of a line if it only contains whitespace and optionally a comment.
+ */
+const REST_OF_LINE = /^[ \t]*(?:(?:\/\/|#)[^\r\n]*|\/\*.*?\*\/[ \t]*)?(?:\r?\n|$)/;
+
+// endregion
+
+// region types
+
+/**
+ * A path to an entry in a nested array: either an array of keys or a string with keys separated by dots.
+ */
+export type UFPhpKeyPath = UFPhpArrayKey[] | string;
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpConfigEditor} changes entries in the array returned by a php configuration file, while keeping the
+ * rest of the source (comments, `use` statements, formatting and other entries) as is.
+ *
+ * Only the parts of the source that change are rewritten. New values are written with {@link UFPhpWriter} and
+ * use the indentation of the surrounding entries. Keys can only be matched when they are written as string or
+ * integer literals.
+ *
+ * @example
+ * const editor = new UFPhpConfigEditor(source);
+ * editor.set('Security.salt', 'new salt').set(['Datasources', 'default', 'password'], 'secret');
+ * const result = editor.source;
+ */
+export class UFPhpConfigEditor {
+  // region private variables
+
+  /**
+   * Current source
+   *
+   * @private
+   */
+  private m_source: string;
+
+  /**
+   * Options for writing values
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpWriterOptions;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpConfigEditor}.
+   *
+   * @param {string} aSource
+   *   Source of the php configuration file
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options used to write new values; when the indent option is missing, the indentation of the source is used
+   */
+  constructor(aSource: string, anOptions: IUFPhpWriterOptions = {}) {
+    this.m_source = aSource;
+    this.m_options = {eol: aSource.includes('\r\n') ? '\r\n' : '\n', ...anOptions};
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * The (changed) source.
+   */
+  get source(): string {
+    return this.m_source;
+  }
+
+  /**
+   * Sets the value of an entry. Missing arrays along the path are created; when a value along the path is not
+   * an array, it is replaced by an array.
+   *
+   * @param {UFPhpKeyPath} aPath
+   *   Path to the entry
+   * @param {any} aValue
+   *   Value to set
+   *
+   * @return {UFPhpConfigEditor} this instance
+   *
+   * @throws {UFPhpParseError} when the source contains invalid code
+   * @throws {Error} when the file does not return an array or the value can not be written as php
+   */
+  set(aPath: UFPhpKeyPath, aValue: any): UFPhpConfigEditor {
+    const keys = UFPhpConfigEditor.getKeys(aPath);
+    let array = this.getReturnedArray();
+    for (let index = 0; index < keys.length; index++) {
+      const item = UFPhpConfigEditor.findItem(array, keys[index]);
+      if (!item) {
+        this.insertItem(array, keys[index], UFPhpConfigEditor.createValue(keys.slice(index + 1), aValue));
+        return this;
+      }
+      if ((index === keys.length - 1) || (item.value.type !== UFPhpNodeType.Array)) {
+        this.replace(
+          item.value,
+          UFPhpWriter.exportValue(
+            UFPhpConfigEditor.createValue(keys.slice(index + 1), aValue), this.m_options, this.getIndent(item)
+          )
+        );
+        return this;
+      }
+      array = item.value;
+    }
+    // empty path: replace the whole array
+    this.replace(array, UFPhpWriter.exportValue(aValue, this.m_options, this.getIndent(array)));
+    return this;
+  }
+
+  /**
+   * Removes an entry. Nothing happens if the entry does not exist. The keys of the other entries do not change:
+   * following entries without key get their key written explicitly when needed (removing `'a'` from
+   * `['a', 'b']` results in `[1 => 'b']`).
+   *
+   * @param {UFPhpKeyPath} aPath
+   *   Path to the entry
+   *
+   * @return {UFPhpConfigEditor} this instance
+   *
+   * @throws {UFPhpParseError} when the source contains invalid code
+   * @throws {Error} when the file does not return an array
+   */
+  remove(aPath: UFPhpKeyPath): UFPhpConfigEditor {
+    const keys = UFPhpConfigEditor.getKeys(aPath);
+    let array = this.getReturnedArray();
+    for (let index = 0; index < keys.length; index++) {
+      const item = UFPhpConfigEditor.findItem(array, keys[index]);
+      if (!item) {
+        return this;
+      }
+      if (index === keys.length - 1) {
+        this.removeItem(array, item);
+        return this;
+      }
+      if (item.value.type !== UFPhpNodeType.Array) {
+        return this;
+      }
+      array = item.value;
+    }
+    return this;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Parses the current source and gets the returned array.
+   *
+   * @private
+   */
+  private getReturnedArray(): IUFPhpArrayNode {
+    const file = new UFPhpParser(this.m_source).parse();
+    const array = file.returnValue;
+    if (array.type !== UFPhpNodeType.Array) {
+      throw new Error('The configuration does not return an array');
+    }
+    if ((this.m_options.indent === undefined) && array.items.length) {
+      // use the indentation of the first entry
+      const outer = this.getIndent(array);
+      const inner = this.getIndent(array.items[0]);
+      if ((inner.length > outer.length) && inner.startsWith(outer)) {
+        this.m_options.indent = inner.substring(outer.length);
+      }
+    }
+    return array;
+  }
+
+  /**
+   * Adds an entry at the end of an array.
+   *
+   * @private
+   */
+  private insertItem(anArray: IUFPhpArrayNode, aKey: UFPhpArrayKey, aValue: any): void {
+    const eol = this.m_options.eol!;
+    const close = anArray.end - 1;
+    if (!anArray.items.length) {
+      // replace the whole array, so the new entry is formatted like a new array
+      this.replace(
+        anArray, UFPhpWriter.exportValue(new UFPhpArray([[aKey, aValue]]), this.m_options, this.getIndent(anArray))
+      );
+      return;
+    }
+    const last = anArray.items[anArray.items.length - 1];
+    const comma = this.findComma(last.end, close);
+    const multiline = this.m_source.substring(anArray.start, anArray.end).includes('\n');
+    if (!multiline) {
+      const text = ' ' + this.exportItem(aKey, aValue, '');
+      if (comma < 0) {
+        this.insert(last.end, ',' + text);
+      }
+      else {
+        this.insert(comma + 1, text + ',');
+      }
+      return;
+    }
+    const indent = this.getIndent(last);
+    let position = comma < 0 ? last.end : comma + 1;
+    // keep a comment following the last entry on the same line
+    const rest = /^[ \t]*(?:(?:\/\/|#)[^\r\n]*)?(?=\r?\n)/.exec(this.m_source.substring(position, close));
+    if (rest) {
+      position += rest[0].length;
+    }
+    this.insert(position, eol + indent + this.exportItem(aKey, aValue, indent) + (comma < 0 ? '' : ','));
+    if (comma < 0) {
+      this.insert(last.end, ',');
+    }
+  }
+
+  /**
+   * Removes an entry from an array, including the separating comma and the line (if the entry is the only code
+   * on it). Following entries without key get their current key written explicitly when removing the entry
+   * would change the key php assigns to them.
+   *
+   * @private
+   */
+  private removeItem(anArray: IUFPhpArrayNode, anItem: IUFPhpArrayItemNode): void {
+    const keys = UFPhpConfigEditor.getItemKeys(anArray.items, null);
+    const remainingKeys = UFPhpConfigEditor.getItemKeys(anArray.items, anItem);
+    // insert from the end, so the offsets of the entries before stay valid
+    for (let index = anArray.items.length - 1; anArray.items[index] !== anItem; index--) {
+      const item = anArray.items[index];
+      if ((item.key === null) && (keys[index] !== remainingKeys[index])) {
+        this.insert(item.value.start, UFPhpWriter.exportValue(keys[index]) + ' => ');
+      }
+    }
+    const comma = this.findComma(anItem.end, anArray.end - 1);
+    let start = anItem.start;
+    let end = comma < 0 ? anItem.end : comma + 1;
+    const lineStart = this.m_source.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = REST_OF_LINE.exec(this.m_source.substring(end));
+    if (/^[ \t]*$/.test(this.m_source.substring(lineStart, start)) && lineEnd && lineEnd[0].endsWith('\n')) {
+      start = lineStart;
+      end += lineEnd[0].length;
+    }
+    else {
+      end += /^[ \t]*/.exec(this.m_source.substring(end))![0].length;
+    }
+    this.m_source = this.m_source.substring(0, start) + this.m_source.substring(end);
+  }
+
+  /**
+   * Creates the php code for an array entry.
+   *
+   * @private
+   */
+  private exportItem(aKey: UFPhpArrayKey, aValue: any, anIndent: string): string {
+    return UFPhpWriter.exportValue(aKey) + ' => ' + UFPhpWriter.exportValue(aValue, this.m_options, anIndent);
+  }
+
+  /**
+   * Finds the comma following an entry.
+   *
+   * @param {number} aStart
+   *   Offset after the entry
+   * @param {number} anEnd
+   *   Offset of the closing bracket of the array
+   *
+   * @return {number} offset of the comma or -1 if there is none
+   *
+   * @private
+   */
+  private findComma(aStart: number, anEnd: number): number {
+    // tokenize the text between the entry and the end, so commas in comments are skipped
+    const prefix = '<?php ';
+    const tokens = new UFPhpTokenizer(prefix + this.m_source.substring(aStart, anEnd)).tokenize();
+    const comma = tokens.find(token => (token.type === UFPhpTokenType.Symbol) && (token.value === ','));
+    return comma ? aStart + comma.start - prefix.length : -1;
+  }
+
+  /**
+   * Gets the indentation of the line a node starts on.
+   *
+   * @private
+   */
+  private getIndent(aNode: UFPhpNode | IUFPhpArrayItemNode): string {
+    const lineStart = this.m_source.lastIndexOf('\n', aNode.start - 1) + 1;
+    return /^[ \t]*/.exec(this.m_source.substring(lineStart, aNode.start))![0];
+  }
+
+  /**
+   * Replaces the source of a node.
+   *
+   * @private
+   */
+  private replace(aNode: UFPhpNode, aText: string): void {
+    this.m_source = this.m_source.substring(0, aNode.start) + aText + this.m_source.substring(aNode.end);
+  }
+
+  /**
+   * Inserts text in the source.
+   *
+   * @private
+   */
+  private insert(aPosition: number, aText: string): void {
+    this.m_source = this.m_source.substring(0, aPosition) + aText + this.m_source.substring(aPosition);
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Converts a path to keys.
+   *
+   * @private
+   */
+  private static getKeys(aPath: UFPhpKeyPath): UFPhpArrayKey[] {
+    const keys = typeof aPath === 'string' ? aPath.split('.') : aPath;
+    return keys.map(key => UFPhpArray.normalizeKey(key));
+  }
+
+  /**
+   * Finds the last entry in an array with a certain key (php uses the last value for duplicate keys).
+   *
+   * @private
+   */
+  private static findItem(anArray: IUFPhpArrayNode, aKey: UFPhpArrayKey): IUFPhpArrayItemNode | undefined {
+    const keys = UFPhpConfigEditor.getItemKeys(anArray.items, null);
+    const index = keys.lastIndexOf(aKey);
+    return index < 0 ? undefined : anArray.items[index];
+  }
+
+  /**
+   * Gets the keys php assigns to the entries of an array.
+   *
+   * @param {IUFPhpArrayItemNode[]} anItems
+   *   Entries of the array
+   * @param {IUFPhpArrayItemNode|null} aSkippedItem
+   *   Entry to leave out (its key is null), to get the keys after it has been removed
+   *
+   * @return {(UFPhpArrayKey|null)[]} key for every entry, null if the key is not a literal
+   *
+   * @private
+   */
+  private static getItemKeys(
+    anItems: IUFPhpArrayItemNode[], aSkippedItem: IUFPhpArrayItemNode | null
+  ): (UFPhpArrayKey | null)[] {
+    let nextIndex: number | null = null;
+    return anItems.map(item => {
+      if (item === aSkippedItem) {
+        return null;
+      }
+      let key: UFPhpArrayKey | null = null;
+      if (item.key === null) {
+        key = nextIndex === null ? 0 : nextIndex;
+      }
+      else if (item.key.type === UFPhpNodeType.Literal) {
+        key = UFPhpArray.normalizeKey(item.key.value);
+      }
+      if ((typeof key === 'number') && ((nextIndex === null) || (key >= nextIndex))) {
+        nextIndex = key + 1;
+      }
+      return key;
+    });
+  }
+
+  /**
+   * Creates the value for the remaining keys of a path.
+   *
+   * @private
+   */
+  private static createValue(aKeys: UFPhpArrayKey[], aValue: any): any {
+    return aKeys.reduceRight((value, key) => new UFPhpArray([[key, value]]), aValue);
+  }
+
+  // endregion
+}
+
+// endregion
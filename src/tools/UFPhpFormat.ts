@@ -0,0 +1,700 @@
+// region imports
+
+import {UFPhpValue} from './UFPhpValue.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Precision used by floats when no precision is specified
+ */
+const DEFAULT_PRECISION = 6;
+
+/**
+ * Maximum precision php supports for floats
+ */
+const MAX_PRECISION = 53;
+
+/**
+ * Largest value php accepts for argument numbers, widths and precisions
+ */
+const MAX_NUMBER = 2147483647;
+
+/**
+ * Matches an argument number (`1$`)
+ */
+const ARGUMENT_NUMBER = /([0-9]+)\$/y;
+
+/**
+ * Matches a number
+ */
+const DIGITS = /[0-9]+/y;
+
+// endregion
+
+// region local types
+
+/**
+ * A conversion specification
+ */
+interface IFormatSpecification {
+  /**
+   * Padding character
+   */
+  padding: string;
+
+  /**
+   * True to align to the left
+   */
+  left: boolean;
+
+  /**
+   * True to add a plus sign before positive numbers
+   */
+  sign: boolean;
+
+  /**
+   * Minimum width
+   */
+  width: number;
+
+  /**
+   * Precision or null if none was specified
+   */
+  precision: number | null;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpFormat} implements the php `sprintf`, `vsprintf` and `number_format` functions, so values can be
+ * formatted exactly like php formats them.
+ *
+ * The format supports argument numbers (`%1$s`), the flags `-`, `+`, ` `, `0` and `'` followed by a custom
+ * padding character, a width and precision (both can also be `*` to take them from the arguments) and the
+ * specifiers `b`, `c`, `d`, `e`, `E`, `f`, `F`, `g`, `G`, `h`, `H`, `o`, `s`, `u`, `x`, `X` and `%`. Integers are
+ * handled as 64 bit values (bigint arguments are supported), so `%u`, `%x`, `%o` and `%b` show negative values
+ * in two's complement. Floats are rounded like php does: `%f` and `%e` use the exact binary value (ties round
+ * to even), `number_format` rounds half away from zero using the decimal representation (so 1.005 becomes
+ * 1.01).
+ *
+ * Widths and precisions count characters (php counts bytes, which only differs for non ASCII text).
+ *
+ * @example
+ * UFPhpFormat.sprintf('%\'*10.2f|%-5d|%05.1f', 3.14159, 42, -2.35) // '******3.14|42   |-02.4'
+ * UFPhpFormat.numberFormat(1234567.891, 2, ',', '.') // '1.234.567,89'
+ */
+export class UFPhpFormat {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpFormat}; all methods are static.
+   *
+   * @private
+   */
+  private constructor() {
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Formats values like php `sprintf` does.
+   *
+   * @param {string} aFormat
+   *   Format with conversion specifications
+   * @param {any[]} aValues
+   *   Values to format
+   *
+   * @return {string} formatted text
+   *
+   * @throws {Error} when the format is invalid or there are not enough values
+   */
+  static sprintf(aFormat: string, ...aValues: any[]): string {
+    return UFPhpFormat.format(aFormat, aValues, true);
+  }
+
+  /**
+   * Formats values like php `vsprintf` does.
+   *
+   * @param {string} aFormat
+   *   Format with conversion specifications
+   * @param {any[]|object} aValues
+   *   Values to format; for an object the property values are used
+   *
+   * @return {string} formatted text
+   *
+   * @throws {Error} when the format is invalid or there are not enough values
+   */
+  static vsprintf(aFormat: string, aValues: any[] | { [key: string]: any }): string {
+    return UFPhpFormat.format(aFormat, Array.isArray(aValues) ? aValues : Object.values(aValues), false);
+  }
+
+  /**
+   * Formats a number with grouped thousands like php `number_format` does. The number is rounded half away
+   * from zero; a negative value that becomes zero after rounding is formatted without sign.
+   *
+   * @param {number} aValue
+   *   Value to format
+   * @param {number} aDecimals
+   *   Number of decimals; negative values round to tens, hundreds, ...
+   * @param {string} aDecimalSeparator
+   *   Separator before the decimals
+   * @param {string} aThousandsSeparator
+   *   Separator between groups of thousands
+   *
+   * @return {string} formatted number
+   */
+  static numberFormat(
+    aValue: number, aDecimals: number = 0, aDecimalSeparator: string = '.', aThousandsSeparator: string = ','
+  ): string {
+    const decimals = Math.trunc(aDecimals);
+    const value = UFPhpFormat.roundHalfUp(aValue, decimals);
+    if (isNaN(value)) {
+      return 'NAN';
+    }
+    if (!isFinite(value)) {
+      return value < 0 ? '-INF' : 'INF';
+    }
+    const text = UFPhpFormat.toFixed(Math.abs(value), Math.max(0, decimals));
+    const point = text.indexOf('.');
+    const integer = point < 0 ? text : text.substring(0, point);
+    const groups: string[] = [];
+    for (let end = integer.length; end > 0; end -= 3) {
+      groups.unshift(integer.substring(Math.max(0, end - 3), end));
+    }
+    return (value < 0 ? '-' : '') + groups.join(aThousandsSeparator) +
+      (point < 0 ? '' : aDecimalSeparator + text.substring(point + 1));
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Formats values.
+   *
+   * @param {string} aFormat
+   *   Format with conversion specifications
+   * @param {any[]} aValues
+   *   Values to format
+   * @param {boolean} aVariadic
+   *   True if the values were passed as separate arguments (only used for the error message)
+   *
+   * @return {string} formatted text
+   *
+   * @private
+   */
+  private static format(aFormat: string, aValues: any[], aVariadic: boolean): string {
+    let result = '';
+    let index = 0;
+    let nextArgument = 0;
+    let maxMissing = -1;
+    const readArgumentNumber = (): number | null => {
+      ARGUMENT_NUMBER.lastIndex = index;
+      const match = ARGUMENT_NUMBER.exec(aFormat);
+      if (!match) {
+        return null;
+      }
+      const number = parseInt(match[1], 10);
+      if ((number <= 0) || (number >= MAX_NUMBER)) {
+        throw new Error('Argument number specifier must be greater than zero and less than ' + MAX_NUMBER);
+      }
+      index = ARGUMENT_NUMBER.lastIndex;
+      return number - 1;
+    };
+    const readNumber = (aName: string): number => {
+      DIGITS.lastIndex = index;
+      const match = DIGITS.exec(aFormat)!;
+      const number = parseInt(match[0], 10);
+      if (number >= MAX_NUMBER) {
+        throw new Error(aName + ' must be greater than zero and less than ' + MAX_NUMBER);
+      }
+      index = DIGITS.lastIndex;
+      return number;
+    };
+    // reads a width or precision from the arguments, returns null if the argument is missing
+    const readStar = (aName: string, aMinimum: number): number | null => {
+      index++;
+      let argument = readArgumentNumber();
+      if (argument === null) {
+        argument = nextArgument++;
+      }
+      if (argument >= aValues.length) {
+        maxMissing = Math.max(maxMissing, argument);
+        return null;
+      }
+      const value = aValues[argument];
+      if ((typeof value !== 'number') || !Number.isInteger(value)) {
+        throw new Error(aName + ' must be an integer');
+      }
+      if ((value < aMinimum) || (value > MAX_NUMBER)) {
+        throw new Error(
+          aName +
+          (aMinimum < 0 ? ' must be between -1 and ' : ' must be greater than or equal to zero and less than ') +
+          MAX_NUMBER
+        );
+      }
+      return value;
+    };
+    while (index < aFormat.length) {
+      const percent = aFormat.indexOf('%', index);
+      if (percent < 0) {
+        result += aFormat.substring(index);
+        break;
+      }
+      result += aFormat.substring(index, percent);
+      index = percent + 1;
+      if (aFormat[index] === '%') {
+        result += '%';
+        index++;
+        continue;
+      }
+      const specification: IFormatSpecification = {padding: ' ', left: false, sign: false, width: 0, precision: null};
+      let argument: number | null = null;
+      let missing = false;
+      if ((index < aFormat.length) && !/[a-zA-Z]/.test(aFormat[index])) {
+        argument = readArgumentNumber();
+        for (; index < aFormat.length; index++) {
+          const char = aFormat[index];
+          if ((char === ' ') || (char === '0')) {
+            specification.padding = char;
+          }
+          else if (char === '-') {
+            specification.left = true;
+          }
+          else if (char === '+') {
+            specification.sign = true;
+          }
+          else if (char === '\'') {
+            if (index + 1 >= aFormat.length) {
+              throw new Error('Missing padding character');
+            }
+            specification.padding = aFormat[++index];
+          }
+          else {
+            break;
+          }
+        }
+        if (aFormat[index] === '*') {
+          const width = readStar('Width', 0);
+          missing = width === null;
+          specification.width = width || 0;
+        }
+        else if (/[0-9]/.test(aFormat[index])) {
+          specification.width = readNumber('Width');
+        }
+        if (aFormat[index] === '.') {
+          index++;
+          if (aFormat[index] === '*') {
+            const precision = readStar('Precision', -1);
+            missing = missing || (precision === null);
+            specification.precision = precision;
+          }
+          else {
+            specification.precision = /[0-9]/.test(aFormat[index]) ? readNumber('Precision') : 0;
+          }
+        }
+      }
+      if (argument === null) {
+        argument = nextArgument++;
+      }
+      if (aFormat[index] === 'l') {
+        index++;
+      }
+      if (index >= aFormat.length) {
+        throw new Error('Missing format specifier at end of string');
+      }
+      const specifier = aFormat[index++];
+      if (argument >= aValues.length) {
+        maxMissing = Math.max(maxMissing, argument);
+        continue;
+      }
+      if (missing) {
+        continue;
+      }
+      result += UFPhpFormat.formatValue(specifier, aValues[argument], specification);
+    }
+    if (maxMissing >= 0) {
+      throw new Error(
+        aVariadic
+          ? (maxMissing + 2) + ' arguments are required, ' + (aValues.length + 1) + ' given'
+          : 'The arguments array must contain ' + (maxMissing + 1) + ' items, ' + aValues.length + ' given'
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Formats a single value.
+   *
+   * @param {string} aSpecifier
+   *   Conversion specifier
+   * @param {any} aValue
+   *   Value to format
+   * @param {IFormatSpecification} aSpecification
+   *   Flags, width and precision
+   *
+   * @return {string} formatted value
+   *
+   * @private
+   */
+  private static formatValue(aSpecifier: string, aValue: any, aSpecification: IFormatSpecification): string {
+    const {padding, left, sign, width, precision} = aSpecification;
+    switch (aSpecifier) {
+      case 's': {
+        const text = typeof aValue === 'bigint' ? aValue.toString() : UFPhpValue.toString(aValue);
+        return UFPhpFormat.pad(precision === null ? text : text.substring(0, precision), width, padding, left, false);
+      }
+      case 'd': {
+        const value = UFPhpFormat.toInteger(aValue);
+        const negative = value < BigInt(0);
+        return UFPhpFormat.pad(
+          (!negative && sign ? '+' : '') + value.toString(), width, padding, left, negative || sign
+        );
+      }
+      case 'u':
+        return UFPhpFormat.pad(
+          BigInt.asUintN(64, UFPhpFormat.toInteger(aValue)).toString(), width, padding, left, false
+        );
+      case 'o':
+      case 'x':
+      case 'X':
+      case 'b': {
+        const text = BigInt.asUintN(64, UFPhpFormat.toInteger(aValue)).toString(
+          aSpecifier === 'o' ? 8 : aSpecifier === 'b' ? 2 : 16
+        );
+        return UFPhpFormat.pad(aSpecifier === 'X' ? text.toUpperCase() : text, width, padding, left, false);
+      }
+      case 'c':
+        // php adds the byte without padding
+        return String.fromCharCode(Number(BigInt.asUintN(8, UFPhpFormat.toInteger(aValue))));
+      case 'e':
+      case 'E':
+      case 'f':
+      case 'F':
+      case 'g':
+      case 'G':
+      case 'h':
+      case 'H': {
+        const value = typeof aValue === 'bigint' ? Number(aValue) : UFPhpValue.toNumber(aValue);
+        const text = UFPhpFormat.formatFloat(aSpecifier, value, precision, sign);
+        return UFPhpFormat.pad(text, width, padding, left, sign || text.startsWith('-'));
+      }
+      case '%':
+        return '%';
+      default:
+        throw new Error('Unknown format specifier "' + aSpecifier + '"');
+    }
+  }
+
+  /**
+   * Formats a float for the specifiers `e`, `E`, `f`, `F`, `g`, `G`, `h` and `H`.
+   *
+   * @param {string} aSpecifier
+   *   Conversion specifier
+   * @param {number} aValue
+   *   Value to format
+   * @param {number|null} aPrecision
+   *   Precision or null to use the default
+   * @param {boolean} aSign
+   *   True to add a plus sign before positive values
+   *
+   * @return {string} formatted value with sign
+   *
+   * @private
+   */
+  private static formatFloat(aSpecifier: string, aValue: number, aPrecision: number | null, aSign: boolean): string {
+    const general = 'gGhH'.includes(aSpecifier);
+    if ((aPrecision === -1) && !general) {
+      throw new Error('Precision -1 is only supported for %g, %G, %h and %H');
+    }
+    const precision = Math.min(aPrecision === null ? DEFAULT_PRECISION : aPrecision, MAX_PRECISION);
+    if (isNaN(aValue)) {
+      return 'NaN';
+    }
+    if (!isFinite(aValue)) {
+      return aValue < 0 ? '-Inf' : aSign ? '+Inf' : 'Inf';
+    }
+    let text: string;
+    // -0 is formatted without sign by f and e, but with sign by g
+    let negative = aValue < 0;
+    switch (aSpecifier) {
+      case 'f':
+      case 'F':
+        text = UFPhpFormat.toFixed(Math.abs(aValue), precision);
+        break;
+      case 'e':
+      case 'E': {
+        const [digits, exponent] = UFPhpFormat.toSignificant(Math.abs(aValue), precision + 1);
+        text = digits[0] + (precision > 0 ? '.' + digits.substring(1) : '') + aSpecifier +
+          (exponent < 0 ? '-' : '+') + Math.abs(exponent);
+        break;
+      }
+      default:
+        negative = negative || Object.is(aValue, -0);
+        text = UFPhpFormat.formatGeneral(
+          Math.abs(aValue), precision === 0 ? 1 : precision, 'GH'.includes(aSpecifier) ? 'E' : 'e'
+        );
+        break;
+    }
+    return (negative ? '-' : aSign ? '+' : '') + text;
+  }
+
+  /**
+   * Formats a float for the specifiers `g`, `G`, `h` and `H` (php `php_gcvt`).
+   *
+   * @param {number} aValue
+   *   Value to format (zero or positive)
+   * @param {number} aPrecision
+   *   Maximum number of significant digits, -1 for the shortest exact representation
+   * @param {string} anExponentChar
+   *   Character before the exponent
+   *
+   * @return {string} formatted value
+   *
+   * @private
+   */
+  private static formatGeneral(aValue: number, aPrecision: number, anExponentChar: string): string {
+    let digits: string;
+    let exponent: number;
+    if (aPrecision < 0) {
+      const [mantissa, exponentText] = aValue.toExponential().split('e');
+      digits = mantissa.replace('.', '');
+      exponent = parseInt(exponentText, 10);
+    }
+    else {
+      [digits, exponent] = UFPhpFormat.toSignificant(aValue, aPrecision);
+    }
+    digits = digits.replace(/0+$/, '') || '0';
+    // position of the decimal point relative to the digits
+    const decimalPoint = aValue === 0 ? 1 : exponent + 1;
+    const maxDigits = aPrecision < 0 ? 17 : aPrecision;
+    if ((decimalPoint < 0) ? (decimalPoint < -3) : (decimalPoint > maxDigits)) {
+      return digits[0] + '.' + (digits.length > 1 ? digits.substring(1) : '0') + anExponentChar +
+        (exponent < 0 ? '-' : '+') + Math.abs(exponent);
+    }
+    if (decimalPoint <= 0) {
+      return '0.' + '0'.repeat(-decimalPoint) + digits;
+    }
+    if (digits.length <= decimalPoint) {
+      return digits + '0'.repeat(decimalPoint - digits.length);
+    }
+    return digits.substring(0, decimalPoint) + '.' + digits.substring(decimalPoint);
+  }
+
+  /**
+   * Pads a formatted value to a width.
+   *
+   * @param {string} aText
+   *   Formatted value
+   * @param {number} aWidth
+   *   Minimum width
+   * @param {string} aPadding
+   *   Padding character
+   * @param {boolean} aLeft
+   *   True to align to the left (php pads with the padding character, even when it is '0')
+   * @param {boolean} aSigned
+   *   True if the first character is a sign that is placed before zero padding
+   *
+   * @return {string} padded value
+   *
+   * @private
+   */
+  private static pad(aText: string, aWidth: number, aPadding: string, aLeft: boolean, aSigned: boolean): string {
+    if (aText.length >= aWidth) {
+      return aText;
+    }
+    const padding = aPadding.repeat(aWidth - aText.length);
+    if (aLeft) {
+      return aText + padding;
+    }
+    if (aSigned && (aPadding === '0')) {
+      return aText[0] + padding + aText.substring(1);
+    }
+    return padding + aText;
+  }
+
+  /**
+   * Converts a value to a 64 bit integer like php does (values out of range wrap around).
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {bigint} converted value
+   *
+   * @private
+   */
+  private static toInteger(aValue: any): bigint {
+    if (typeof aValue === 'bigint') {
+      return BigInt.asIntN(64, aValue);
+    }
+    if ((typeof aValue === 'string') && /^[ \t\n\r\v\f]*[+-]?[0-9]+[ \t\n\r\v\f]*$/.test(aValue)) {
+      return BigInt.asIntN(64, BigInt(aValue.trim()));
+    }
+    return BigInt.asIntN(64, BigInt(UFPhpValue.toInteger(aValue)));
+  }
+
+  /**
+   * Rounds a value half away from zero like php `round` does. The shortest decimal representation of the value
+   * is rounded, so values like 1.005 (stored as 1.00499999999999989...) are rounded up.
+   *
+   * @param {number} aValue
+   *   Value to round
+   * @param {number} aPlaces
+   *   Number of decimals, negative values round to tens, hundreds, ...
+   *
+   * @return {number} rounded value
+   *
+   * @private
+   */
+  private static roundHalfUp(aValue: number, aPlaces: number): number {
+    if (!isFinite(aValue) || (aValue === 0)) {
+      return aValue;
+    }
+    // php does not round values beyond the precision of a float
+    if (Math.abs(aValue) * Math.pow(10, aPlaces) >= 1e15) {
+      return aValue;
+    }
+    const [mantissa, exponentText] = Math.abs(aValue).toExponential().split('e');
+    const digits = mantissa.replace('.', '');
+    // the digits represent 0.digits * 10 ^ (exponent + 1)
+    const exponent = parseInt(exponentText, 10) + 1;
+    const keep = exponent + aPlaces;
+    if (keep >= digits.length) {
+      return aValue;
+    }
+    let rounded = keep > 0 ? BigInt(digits.substring(0, keep)) : BigInt(0);
+    if ((keep >= 0) && (digits[keep] >= '5')) {
+      rounded += BigInt(1);
+    }
+    const result = parseFloat(rounded.toString() + 'e' + (-aPlaces));
+    return aValue < 0 ? -result : result;
+  }
+
+  /**
+   * Formats a value with a fixed number of decimals using its exact binary value; ties are rounded to even like
+   * the php float conversion does.
+   *
+   * @param {number} aValue
+   *   Finite value (zero or positive)
+   * @param {number} aDecimals
+   *   Number of decimals
+   *
+   * @return {string} formatted value
+   *
+   * @private
+   */
+  private static toFixed(aValue: number, aDecimals: number): string {
+    const [integer, scale] = UFPhpFormat.toExactDecimal(aValue);
+    const digits = aDecimals >= scale
+      ? integer * UFPhpFormat.powerOfTen(aDecimals - scale)
+      : UFPhpFormat.divideHalfEven(integer, UFPhpFormat.powerOfTen(scale - aDecimals));
+    const text = digits.toString().padStart(aDecimals + 1, '0');
+    if (aDecimals <= 0) {
+      return text;
+    }
+    return text.substring(0, text.length - aDecimals) + '.' + text.substring(text.length - aDecimals);
+  }
+
+  /**
+   * Gets a number of significant digits of a value using its exact binary value; ties are rounded to even.
+   *
+   * @param {number} aValue
+   *   Finite value (zero or positive)
+   * @param {number} aCount
+   *   Number of digits (at least 1)
+   *
+   * @return {[string, number]} the digits and the decimal exponent of the first digit
+   *
+   * @private
+   */
+  private static toSignificant(aValue: number, aCount: number): [string, number] {
+    if (aValue === 0) {
+      return ['0'.repeat(aCount), 0];
+    }
+    const [integer, scale] = UFPhpFormat.toExactDecimal(aValue);
+    const text = integer.toString();
+    let exponent = text.length - 1 - scale;
+    if (text.length <= aCount) {
+      return [text.padEnd(aCount, '0'), exponent];
+    }
+    let digits = UFPhpFormat.divideHalfEven(integer, UFPhpFormat.powerOfTen(text.length - aCount)).toString();
+    if (digits.length > aCount) {
+      digits = digits.substring(0, aCount);
+      exponent++;
+    }
+    return [digits, exponent];
+  }
+
+  /**
+   * Gets the exact decimal value of a float.
+   *
+   * @param {number} aValue
+   *   Finite value (zero or positive)
+   *
+   * @return {[bigint, number]} integer and scale, the value is integer / 10 ^ scale
+   *
+   * @private
+   */
+  private static toExactDecimal(aValue: number): [bigint, number] {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, aValue);
+    const high = view.getUint32(0);
+    const biasedExponent = (high >>> 20) & 0x7ff;
+    let mantissa = (BigInt(high & 0xfffff) << BigInt(32)) | BigInt(view.getUint32(4));
+    let exponent = -1074;
+    if (biasedExponent > 0) {
+      mantissa |= BigInt(1) << BigInt(52);
+      exponent = biasedExponent - 1075;
+    }
+    if (exponent >= 0) {
+      return [mantissa << BigInt(exponent), 0];
+    }
+    // mantissa / 2 ^ n = mantissa * 5 ^ n / 10 ^ n
+    return [(mantissa * UFPhpFormat.powerOfTen(-exponent)) >> BigInt(-exponent), -exponent];
+  }
+
+  /**
+   * Divides and rounds ties to even.
+   *
+   * @param {bigint} aValue
+   *   Value to divide (zero or positive)
+   * @param {bigint} aDivisor
+   *   Divisor (positive)
+   *
+   * @return {bigint} rounded quotient
+   *
+   * @private
+   */
+  private static divideHalfEven(aValue: bigint, aDivisor: bigint): bigint {
+    const quotient = aValue / aDivisor;
+    const twice = (aValue % aDivisor) * BigInt(2);
+    if ((twice > aDivisor) || ((twice === aDivisor) && (quotient % BigInt(2) === BigInt(1)))) {
+      return quotient + BigInt(1);
+    }
+    return quotient;
+  }
+
+  /**
+   * Gets a power of ten.
+   *
+   * @param {number} anExponent
+   *   Exponent (zero or positive)
+   *
+   * @return {bigint} 10 ^ exponent
+   *
+   * @private
+   */
+  private static powerOfTen(anExponent: number): bigint {
+    return BigInt('1' + '0'.repeat(anExponent));
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,861 @@
+// region imports
+
+import {IUFPhpResolver, UFPhpEnvironment, UFPhpResolver} from '../parser/UFPhpResolver.js';
+import {UFPhpArrayMode} from '../parser/UFPhpEvaluator.js';
+import {UFPhpParseError} from '../parser/UFPhpParseError.js';
+import {UFPhpArray} from './UFPhpArray.js';
+import {UFPhpValue} from './UFPhpValue.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Matches whitespace, line breaks and comments between entries
+ */
+const BLANK = /(?:[ \t\r\n]+|;[^\r\n]*)*/y;
+
+/**
+ * Matches spaces and tabs
+ */
+const SPACES = /[ \t]*/y;
+
+/**
+ * Matches the name of an entry
+ */
+const LABEL = /[^=\n\r\t;&|^$~(){}!"[\]\x00]+/y;
+
+/**
+ * Matches an unquoted word in a value
+ */
+const WORD = /(?:[^$= \t\n\r;&|^~()!"'\x00]|\$(?!\{))+/y;
+
+/**
+ * Matches the raw value of an entry in {@link UFPhpIniScannerMode.Raw}
+ */
+const RAW_VALUE = /[^\n\r;\x00]*/y;
+
+/**
+ * Matches a number that {@link UFPhpIniScannerMode.Typed} converts
+ */
+const NUMBER = /^(?:-?[0-9]+|[0-9]*\.[0-9]+|[0-9]+\.[0-9]*)$/;
+
+/**
+ * Matches a constant name
+ */
+const CONSTANT = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Matches keys that can be written without changes
+ */
+const SAFE_KEY = /^[^=\n\r\t;&|^$~(){}!"[\]\x00 ](?:[^=\n\r\t;&|^$~(){}!"[\]\x00]*[^=\n\r\t;&|^$~(){}!"[\]\x00 ])?$/;
+
+/**
+ * Matches unquoted text in section names and offsets
+ */
+const NAME_TEXT = /[^\]\r\n;"'$\\ \t]+/y;
+
+/**
+ * Matches section names and offsets that can be written without quotes
+ */
+const SAFE_NAME = /^[a-zA-Z0-9_.\-]+$/;
+
+/**
+ * Words with a special meaning mapped to their value and the name php uses in syntax errors
+ */
+const KEYWORDS: { [word: string]: [boolean | null, string] } = {
+  'true': [true, 'BOOL_TRUE'],
+  'on': [true, 'BOOL_TRUE'],
+  'yes': [true, 'BOOL_TRUE'],
+  'false': [false, 'BOOL_FALSE'],
+  'off': [false, 'BOOL_FALSE'],
+  'no': [false, 'BOOL_FALSE'],
+  'none': [false, 'BOOL_FALSE'],
+  'null': [null, 'NULL_NULL'],
+};
+
+// endregion
+
+// region local types
+
+/**
+ * Part of a value, an operator or a keyword
+ */
+interface IIniToken {
+  /**
+   * Operator character, 'keyword', 'space' or 'text'
+   */
+  readonly type: string;
+
+  /**
+   * Text of the part or the keyword
+   */
+  readonly text: string;
+
+  /**
+   * Offset in the source
+   */
+  readonly position: number;
+
+  /**
+   * True if the text is an unquoted number
+   */
+  readonly number?: boolean;
+}
+
+/**
+ * Value of an entry
+ */
+type IniValue = string | number | boolean | null;
+
+// endregion
+
+// region types
+
+/**
+ * Scanner modes of {@link UFPhpIni}, the values match the php `INI_SCANNER_*` constants.
+ */
+export enum UFPhpIniScannerMode {
+  /**
+   * Values are parsed: constants, variables and expressions are evaluated, `true`, `on` and `yes` become '1',
+   * `false`, `off`, `no`, `none` and `null` become ''.
+   */
+  Normal = 0,
+
+  /**
+   * Values are used as they are, only surrounding quotes are removed.
+   */
+  Raw = 1,
+
+  /**
+   * Like {@link Normal}, but the keywords become booleans and null and unquoted numbers become numbers.
+   */
+  Typed = 2,
+}
+
+/**
+ * Options for {@link UFPhpIni}.
+ */
+export interface IUFPhpIniOptions {
+  /**
+   * When true, sections become nested arrays; when false (default) the section headers are ignored. When
+   * writing, the arrays at the top level are written as sections.
+   */
+  processSections?: boolean;
+
+  /**
+   * How values are parsed, default is {@link UFPhpIniScannerMode.Normal}.
+   */
+  mode?: UFPhpIniScannerMode;
+
+  /**
+   * Environment variables used by `${NAME}`, when missing `process.env` is used.
+   */
+  env?: UFPhpEnvironment;
+
+  /**
+   * Resolver for constants, when missing a {@link UFPhpResolver} instance is used.
+   */
+  resolver?: IUFPhpResolver;
+
+  /**
+   * Name of the file, used in error messages
+   */
+  filename?: string;
+
+  /**
+   * How to return arrays, default is {@link UFPhpArrayMode.Native}. The result itself is always an object with
+   * {@link UFPhpArrayMode.Native}.
+   */
+  arrayMode?: UFPhpArrayMode;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpIni} implements the php `parse_ini_string` function (used by `parse_ini_file` and for php.ini) and
+ * a writer for the same format.
+ *
+ * Entries have the form `name = value`, `name[] = value` (appends to an array) or `name[offset] = value`. With
+ * the `processSections` option the entries following a `[section]` header are placed in a nested array. Comments
+ * start with `;`. In {@link UFPhpIniScannerMode.Normal} and {@link UFPhpIniScannerMode.Typed} mode values can
+ * combine double quoted strings (supporting the escapes `\"`, `\\` and `\$`), single quoted strings, unquoted
+ * text, constants, `${NAME}` environment variables (with an optional `${NAME:-default}` fallback) and the
+ * operators `|`, `&`, `^`, `~`, `!` and parentheses.
+ *
+ * Syntax errors are thrown as {@link UFPhpParseError} using the messages of php.
+ *
+ * @example
+ * UFPhpIni.parse('[db]\nport = 3306\ndebug = on', {processSections: true}) // {db: {port: '3306', debug: '1'}}
+ */
+export class UFPhpIni {
+  // region private variables
+
+  /**
+   * Source being parsed
+   *
+   * @private
+   */
+  private readonly m_source: string;
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpIniOptions;
+
+  /**
+   * Resolver for constants
+   *
+   * @private
+   */
+  private readonly m_resolver: IUFPhpResolver;
+
+  /**
+   * Current offset in the source
+   *
+   * @private
+   */
+  private m_position: number = 0;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpIni}.
+   *
+   * @param {string} aSource
+   *   Source to parse
+   * @param {IUFPhpIniOptions} anOptions
+   *   Options to use
+   *
+   * @private
+   */
+  private constructor(aSource: string, anOptions: IUFPhpIniOptions) {
+    this.m_source = aSource;
+    this.m_options = anOptions;
+    this.m_resolver = anOptions.resolver || new UFPhpResolver();
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Parses ini source like php `parse_ini_string` does.
+   *
+   * @param {string} aSource
+   *   Source to parse
+   * @param {IUFPhpIniOptions} anOptions
+   *   Options to use
+   *
+   * @return {any} object with the entries (or {@link UFPhpArray} with {@link UFPhpArrayMode.PhpArray})
+   *
+   * @throws {UFPhpParseError} when the source contains a syntax error
+   */
+  static parse(aSource: string, anOptions: IUFPhpIniOptions = {}): any {
+    const result = new UFPhpIni(aSource, anOptions).parseEntries();
+    if (anOptions.arrayMode === UFPhpArrayMode.PhpArray) {
+      return result;
+    }
+    // the result is always an object, even if the names happen to form a list
+    const entries: { [name: string]: any } = {};
+    result.forEach((value, name) => entries[name] = value instanceof UFPhpArray ? value.toNative() : value);
+    return entries;
+  }
+
+  /**
+   * Creates ini source that {@link parse} (and php) converts back to the value. Strings are always quoted, so
+   * {@link UFPhpIniScannerMode.Typed} keeps them as strings.
+   *
+   * Without the `processSections` option the value can contain scalars and arrays of scalars; with the option
+   * the arrays at the top level are written as sections, which can contain scalars and arrays of scalars.
+   *
+   * @param {any} aValue
+   *   Object or {@link UFPhpArray} to write
+   * @param {IUFPhpIniOptions} anOptions
+   *   Only `processSections` is used
+   *
+   * @return {string} ini source
+   *
+   * @throws {Error} when the value can not be represented in the ini format
+   */
+  static stringify(aValue: any, anOptions: IUFPhpIniOptions = {}): string {
+    const root = UFPhpIni.toArray(aValue);
+    if (!root) {
+      throw new Error('Only arrays and objects can be written to an ini file');
+    }
+    const lines: string[] = [];
+    const sections: [any, UFPhpArray][] = [];
+    root.forEach((value, key) => {
+      const section = UFPhpIni.toArray(value);
+      if (anOptions.processSections && section) {
+        sections.push([key, section]);
+      }
+      else {
+        UFPhpIni.writeEntry(lines, key, value);
+      }
+    });
+    sections.forEach(([name, section]) => {
+      if (lines.length) {
+        lines.push('');
+      }
+      lines.push('[' + UFPhpIni.formatName(String(name)) + ']');
+      section.forEach((value, key) => UFPhpIni.writeEntry(lines, key, value));
+    });
+    return lines.map(line => line + '\n').join('');
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Parses all entries and sections.
+   *
+   * @private
+   */
+  private parseEntries(): UFPhpArray {
+    const root = new UFPhpArray();
+    let target = root;
+    while (this.skipBlank()) {
+      if (this.m_source[this.m_position] === '[') {
+        const name = this.parseSection();
+        if (this.m_options.processSections) {
+          // a repeated section replaces the previous one
+          target = new UFPhpArray();
+          root.set(name, target);
+        }
+      }
+      else {
+        this.parseEntry(target);
+      }
+    }
+    return root;
+  }
+
+  /**
+   * Parses a section header, the current position is at the opening bracket.
+   *
+   * @private
+   */
+  private parseSection(): string {
+    this.m_position++;
+    const start = this.m_position;
+    const name = this.m_options.mode === UFPhpIniScannerMode.Raw ? this.match(/[^\]\r\n]*/y).trim() : this.parseName();
+    if (this.m_source[this.m_position] !== ']') {
+      this.fail(this.m_position, ']');
+    }
+    if (!name.length) {
+      this.fail(start);
+    }
+    this.m_position++;
+    return name;
+  }
+
+  /**
+   * Parses an entry and stores it in the target.
+   *
+   * @private
+   */
+  private parseEntry(aTarget: UFPhpArray): void {
+    const start = this.m_position;
+    const name = this.match(LABEL).trim();
+    if (!name.length) {
+      this.fail(start);
+    }
+    const keyword = KEYWORDS[name.toLowerCase()];
+    if (keyword) {
+      this.fail(start, '', keyword[1]);
+    }
+    let offset: string | null = null;
+    if (this.m_source[this.m_position] === '[') {
+      this.m_position++;
+      offset = this.parseName();
+      if (this.m_source[this.m_position] !== ']') {
+        this.fail(this.m_position, ']');
+      }
+      this.m_position++;
+      this.match(SPACES);
+    }
+    if (this.m_source[this.m_position] !== '=') {
+      // a name without value is ignored, an offset requires a value
+      if ((offset !== null) || !this.isEndOfValue()) {
+        this.fail(this.m_position, '=');
+      }
+      return;
+    }
+    this.m_position++;
+    this.match(SPACES);
+    const value = this.m_options.mode === UFPhpIniScannerMode.Raw ? this.parseRawValue() : this.parseValue();
+    if (offset === null) {
+      aTarget.set(name, value);
+      return;
+    }
+    let array = aTarget.get(name);
+    if (!(array instanceof UFPhpArray)) {
+      array = new UFPhpArray();
+      aTarget.set(name, array);
+    }
+    if (offset.length) {
+      array.set(offset, value);
+    }
+    else {
+      array.push(value);
+    }
+  }
+
+  /**
+   * Parses a section name or offset up to the closing bracket (which is not consumed).
+   *
+   * @private
+   */
+  private parseName(): string {
+    const parts: IIniToken[] = [];
+    this.match(SPACES);
+    while (this.m_position < this.m_source.length) {
+      const position = this.m_position;
+      const char = this.m_source[position];
+      if ((char === ']') || (char === '\r') || (char === '\n') || (char === ';')) {
+        break;
+      }
+      if ((char === ' ') || (char === '\t')) {
+        parts.push({type: 'space', text: this.match(SPACES), position});
+      }
+      else if ((char === '"') || (char === '\'') || this.isVariable()) {
+        parts.push({type: 'text', text: this.parseString(), position});
+      }
+      else if ((char === '\\') && (position + 1 < this.m_source.length)) {
+        // a backslash keeps the next character in the name
+        parts.push({type: 'text', text: this.m_source.substring(position, position + 2), position});
+        this.m_position += 2;
+      }
+      else if (char === '$') {
+        parts.push({type: 'text', text: char, position});
+        this.m_position++;
+      }
+      else {
+        parts.push({type: 'text', text: this.match(NAME_TEXT), position});
+      }
+    }
+    while (parts.length && (parts[parts.length - 1].type === 'space')) {
+      parts.pop();
+    }
+    return parts.map(part => part.text).join('');
+  }
+
+  /**
+   * Parses a value in {@link UFPhpIniScannerMode.Normal} or {@link UFPhpIniScannerMode.Typed} mode.
+   *
+   * @private
+   */
+  private parseValue(): IniValue {
+    const tokens = this.tokenizeValue();
+    if (!tokens.length) {
+      return '';
+    }
+    const typed = this.m_options.mode === UFPhpIniScannerMode.Typed;
+    if ((tokens.length === 1) && (tokens[0].type === 'keyword')) {
+      const value = KEYWORDS[tokens[0].text][0];
+      return typed ? value : UFPhpValue.toString(value);
+    }
+    if ((tokens.length === 1) && tokens[0].number && typed) {
+      return Number(tokens[0].text);
+    }
+    const state = {index: 0};
+    const value = this.parseExpression(tokens, state);
+    if (state.index < tokens.length) {
+      this.failToken(tokens[state.index]);
+    }
+    return value;
+  }
+
+  /**
+   * Parses the operators `|`, `&` and `^` which have the same precedence.
+   *
+   * @private
+   */
+  private parseExpression(aTokens: IIniToken[], aState: { index: number }): IniValue {
+    let result = this.parseUnary(aTokens, aState);
+    while ((aState.index < aTokens.length) && ('|&^'.includes(aTokens[aState.index].type))) {
+      const operator = aTokens[aState.index++].type;
+      const left = UFPhpIni.toInteger(result);
+      const right = UFPhpIni.toInteger(this.parseUnary(aTokens, aState));
+      result = this.createNumber(operator === '|' ? left | right : operator === '&' ? left & right : left ^ right);
+    }
+    return result;
+  }
+
+  /**
+   * Parses the operators `~` and `!`, parentheses and concatenated strings.
+   *
+   * @private
+   */
+  private parseUnary(aTokens: IIniToken[], aState: { index: number }): IniValue {
+    const token = aTokens[aState.index];
+    if (!token) {
+      this.fail(this.m_position);
+    }
+    switch (token.type) {
+      case '~':
+        aState.index++;
+        return this.createNumber(~UFPhpIni.toInteger(this.parseUnary(aTokens, aState)));
+      case '!':
+        aState.index++;
+        return this.createNumber(UFPhpIni.toInteger(this.parseUnary(aTokens, aState)) ? 0 : 1);
+      case '(': {
+        aState.index++;
+        const result = this.parseExpression(aTokens, aState);
+        if (aState.index >= aTokens.length) {
+          this.fail(this.m_position, ')');
+        }
+        if (aTokens[aState.index].type !== ')') {
+          this.failToken(aTokens[aState.index]);
+        }
+        aState.index++;
+        return result;
+      }
+      case 'text':
+      case 'space': {
+        let result = '';
+        while ((aState.index < aTokens.length) && ['text', 'space'].includes(aTokens[aState.index].type)) {
+          result += aTokens[aState.index++].text;
+        }
+        return result;
+      }
+      default:
+        return this.failToken(token);
+    }
+  }
+
+  /**
+   * Splits a value in tokens; spaces around operators and at the start and end are removed. Constants and
+   * variables are replaced by their value.
+   *
+   * @private
+   */
+  private tokenizeValue(): IIniToken[] {
+    const tokens: IIniToken[] = [];
+    while (!this.isEndOfValue()) {
+      const position = this.m_position;
+      const char = this.m_source[position];
+      if ((char === ' ') || (char === '\t')) {
+        const text = this.match(SPACES);
+        if (!this.isEndOfValue() && !'|&^~!()'.includes(this.m_source[this.m_position]) && tokens.length
+          && !'|&^~!('.includes(tokens[tokens.length - 1].type)) {
+          tokens.push({type: 'space', text, position});
+        }
+      }
+      else if ('|&^~!()'.includes(char)) {
+        tokens.push({type: char, text: char, position});
+        this.m_position++;
+      }
+      else if ((char === '"') || (char === '\'') || this.isVariable()) {
+        tokens.push({type: 'text', text: this.parseString(), position});
+      }
+      else if ((char === '=') || (char === '\x00')) {
+        this.fail(position);
+      }
+      else {
+        tokens.push(this.createWordToken(this.match(WORD), position));
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Creates the token for an unquoted word.
+   *
+   * @private
+   */
+  private createWordToken(aWord: string, aPosition: number): IIniToken {
+    const keyword = aWord.toLowerCase();
+    if (KEYWORDS.hasOwnProperty(keyword)) {
+      return {type: 'keyword', text: keyword, position: aPosition};
+    }
+    if (NUMBER.test(aWord)) {
+      return {type: 'text', text: aWord, position: aPosition, number: true};
+    }
+    if (CONSTANT.test(aWord) && this.m_resolver.hasConstant(aWord)) {
+      return {type: 'text', text: UFPhpValue.toString(this.m_resolver.getConstant(aWord)), position: aPosition};
+    }
+    return {type: 'text', text: aWord, position: aPosition};
+  }
+
+  /**
+   * Parses a double quoted string, a single quoted string or a variable.
+   *
+   * @private
+   */
+  private parseString(): string {
+    const start = this.m_position;
+    const quote = this.m_source[start];
+    if (quote === '$') {
+      return this.parseVariable();
+    }
+    this.m_position++;
+    if (quote === '\'') {
+      const end = this.m_source.indexOf('\'', this.m_position);
+      if (end < 0) {
+        this.fail(this.m_source.length);
+      }
+      this.m_position = end + 1;
+      return this.m_source.substring(start + 1, end);
+    }
+    let result = '';
+    while (this.m_position < this.m_source.length) {
+      const char = this.m_source[this.m_position];
+      if (char === '"') {
+        this.m_position++;
+        return result;
+      }
+      if (this.isVariable()) {
+        result += this.parseVariable();
+      }
+      else if ((char === '\\') && '"\\$'.includes(this.m_source[this.m_position + 1])) {
+        result += this.m_source[this.m_position + 1];
+        this.m_position += 2;
+      }
+      else {
+        result += char;
+        this.m_position++;
+      }
+    }
+    return this.fail(this.m_position, '"');
+  }
+
+  /**
+   * Parses `${NAME}` or `${NAME:-default}` and returns the value of the environment variable.
+   *
+   * @private
+   */
+  private parseVariable(): string {
+    const start = this.m_position + 2;
+    const end = this.m_source.substring(start).search(/[}\r\n]/);
+    if ((end < 0) || (this.m_source[start + end] !== '}')) {
+      this.fail(end < 0 ? this.m_source.length : start + end, '}');
+    }
+    this.m_position = start + end + 1;
+    const text = this.m_source.substring(start, start + end);
+    const separator = text.indexOf(':-');
+    const name = separator < 0 ? text : text.substring(0, separator);
+    const value = (this.m_options.env || process.env)[name];
+    return value !== undefined ? value : separator < 0 ? '' : text.substring(separator + 2);
+  }
+
+  /**
+   * Parses a value in {@link UFPhpIniScannerMode.Raw} mode.
+   *
+   * @private
+   */
+  private parseRawValue(): string {
+    if (this.m_source[this.m_position] !== '"') {
+      return this.match(RAW_VALUE).trimEnd();
+    }
+    const start = this.m_position + 1;
+    let end = start;
+    while ((end < this.m_source.length) && ((this.m_source[end] !== '"') || (this.m_source[end - 1] === '\\'))) {
+      end++;
+    }
+    if (end >= this.m_source.length) {
+      this.fail(end, '"');
+    }
+    this.m_position = end + 1;
+    return (this.m_source.substring(start, end) + this.match(RAW_VALUE)).trimEnd();
+  }
+
+  /**
+   * Skips whitespace, line breaks and comments.
+   *
+   * @return {boolean} false when the end of the source has been reached
+   *
+   * @private
+   */
+  private skipBlank(): boolean {
+    this.match(BLANK);
+    return this.m_position < this.m_source.length;
+  }
+
+  /**
+   * Matches a sticky regular expression at the current position and moves past the matched text.
+   *
+   * @private
+   */
+  private match(aRegExp: RegExp): string {
+    aRegExp.lastIndex = this.m_position;
+    const match = aRegExp.exec(this.m_source);
+    const text = match ? match[0] : '';
+    this.m_position += text.length;
+    return text;
+  }
+
+  /**
+   * Checks if the value ends at the current position (line break, comment or end of source).
+   *
+   * @private
+   */
+  private isEndOfValue(): boolean {
+    const char = this.m_source[this.m_position];
+    return (char === undefined) || (char === '\r') || (char === '\n') || (char === ';');
+  }
+
+  /**
+   * Checks if a variable starts at the current position.
+   *
+   * @private
+   */
+  private isVariable(): boolean {
+    return this.m_source.startsWith('${', this.m_position);
+  }
+
+  /**
+   * Creates the result of an operator, php returns a string unless {@link UFPhpIniScannerMode.Typed} is used.
+   *
+   * @private
+   */
+  private createNumber(aValue: number): IniValue {
+    return this.m_options.mode === UFPhpIniScannerMode.Typed ? aValue : String(aValue);
+  }
+
+  /**
+   * Throws a syntax error for a token.
+   *
+   * @private
+   */
+  private failToken(aToken: IIniToken): never {
+    return this.fail(aToken.position, '', aToken.type === 'keyword' ? KEYWORDS[aToken.text][1] : '');
+  }
+
+  /**
+   * Throws a syntax error for the text at a position.
+   *
+   * @param {number} aPosition
+   *   Offset in the source
+   * @param {string} anExpected
+   *   Expected character or an empty string
+   * @param {string} aToken
+   *   Name of the unexpected token or an empty string to describe the character at the position
+   *
+   * @private
+   */
+  private fail(aPosition: number, anExpected: string = '', aToken: string = ''): never {
+    const char = this.m_source[aPosition];
+    let token = aToken;
+    if (!token) {
+      token = char === undefined
+        ? 'end of file'
+        : (char === '\r') || (char === '\n') || (char === ';') ? 'END_OF_LINE' : '\'' + char + '\'';
+    }
+    const before = this.m_source.substring(0, aPosition);
+    const lines = before.split(/\r\n|\n|\r/);
+    throw new UFPhpParseError(
+      'syntax error, unexpected ' + token + (anExpected ? ', expecting \'' + anExpected + '\'' : ''),
+      this.m_source,
+      lines.length,
+      lines[lines.length - 1].length + 1,
+      char === undefined ? '' : char,
+      this.m_options.filename || ''
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Converts an operand to an integer like the C function `atoi` php uses.
+   *
+   * @private
+   */
+  private static toInteger(aValue: IniValue): number {
+    if (typeof aValue === 'number') {
+      return aValue | 0;
+    }
+    const match = /^[ \t\n\r\f\v]*[-+]?[0-9]+/.exec(UFPhpValue.toString(aValue));
+    return match ? Number.parseInt(match[0].trim(), 10) | 0 : 0;
+  }
+
+  /**
+   * Converts arrays and plain objects to {@link UFPhpArray}, returns null for other values.
+   *
+   * @private
+   */
+  private static toArray(aValue: any): UFPhpArray | null {
+    const array = UFPhpArray.fromNative(aValue);
+    return array instanceof UFPhpArray ? array : null;
+  }
+
+  /**
+   * Writes an entry; arrays are written as one line per element.
+   *
+   * @private
+   */
+  private static writeEntry(aLines: string[], aKey: any, aValue: any): void {
+    const name = String(aKey);
+    if (!SAFE_KEY.test(name) || KEYWORDS.hasOwnProperty(name.toLowerCase())) {
+      throw new Error('Key "' + name + '" can not be written to an ini file');
+    }
+    const array = UFPhpIni.toArray(aValue);
+    if (!array) {
+      aLines.push(name + ' = ' + UFPhpIni.formatValue(aValue));
+      return;
+    }
+    const list = array.isList();
+    array.forEach((value, key) => {
+      if (UFPhpIni.toArray(value)) {
+        throw new Error('Array "' + name + '" is nested too deep to be written to an ini file');
+      }
+      const offset = list ? '' : UFPhpIni.formatName(String(key));
+      aLines.push(name + '[' + offset + '] = ' + UFPhpIni.formatValue(value));
+    });
+  }
+
+  /**
+   * Formats a section name or offset, quoting it when necessary.
+   *
+   * @private
+   */
+  private static formatName(aName: string): string {
+    return SAFE_NAME.test(aName) ? aName : UFPhpIni.quote(aName);
+  }
+
+  /**
+   * Formats a scalar value.
+   *
+   * @private
+   */
+  private static formatValue(aValue: any): string {
+    switch (typeof aValue) {
+      case 'boolean':
+        return aValue ? 'true' : 'false';
+      case 'number': {
+        const text = Number.isSafeInteger(aValue) ? String(aValue) : UFPhpValue.formatFloat(aValue, -1);
+        return NUMBER.test(text) ? text : UFPhpIni.quote(text);
+      }
+      case 'string':
+        return UFPhpIni.quote(aValue);
+      default:
+        if ((aValue === null) || (aValue === undefined)) {
+          return 'null';
+        }
+        throw new Error('Values of type ' + typeof aValue + ' can not be written to an ini file');
+    }
+  }
+
+  /**
+   * Places text between double quotes, escaping the characters php processes.
+   *
+   * @private
+   */
+  private static quote(aText: string): string {
+    return '"' + aText.replace(/[\\"$]/g, '\\$&') + '"';
+  }
+
+  // endregion
+}
+
+// endregion
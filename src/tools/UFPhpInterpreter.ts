@@ -0,0 +1,356 @@
+// region imports
+
+import {execFile, ExecFileOptions, spawnSync} from 'child_process';
+import {resolve} from 'path';
+import {UFPhpArray} from './UFPhpArray.js';
+import {UFPhpInterpreterError} from './UFPhpInterpreterError.js';
+import {UFPhpEnvironment} from '../parser/UFPhpResolver.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default time in milliseconds the interpreter may run
+ */
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Maximum size of the output of the interpreter
+ */
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Settings that make sure errors are written to stderr; they can be overridden with the `ini` option.
+ */
+const DEFAULT_INI: { [name: string]: string } = {
+  'display_errors': 'stderr',
+  'display_startup_errors': '1',
+  'error_reporting': '-1',
+  'html_errors': '0',
+  'log_errors': '0',
+};
+
+/**
+ * Php code that requires the file passed as first argument and writes the returned value and the included files
+ * as json to stdout. Warnings and notices are converted to exceptions; exceptions are written to stderr.
+ *
+ * Arrays are written as lists of key value pairs wrapped in an object, so integer keys and the order of the
+ * entries are kept. Objects are converted to arrays.
+ */
+const REQUIRE_CODE = `
+set_error_handler(function ($severity, $message, $file, $line) {
+  if (!(error_reporting() & $severity)) {
+    return false;
+  }
+  throw new ErrorException($message, 0, $severity, $file, $line);
+});
+function uf_export($value) {
+  if (is_object($value)) {
+    $value = $value instanceof JsonSerializable ? $value->jsonSerialize() : get_object_vars($value);
+  }
+  if (!is_array($value)) {
+    return $value;
+  }
+  $entries = [];
+  foreach ($value as $key => $item) {
+    $entries[] = [$key, uf_export($item)];
+  }
+  return ['a' => $entries];
+}
+try {
+  ob_start();
+  $value = require $argv[1];
+  ob_end_clean();
+  echo json_encode(
+    ['value' => uf_export($value), 'files' => get_included_files()],
+    JSON_THROW_ON_ERROR | JSON_INVALID_UTF8_SUBSTITUTE
+  );
+} catch (Throwable $error) {
+  fwrite(
+    STDERR,
+    get_class($error) . ': ' . $error->getMessage() . ' in ' . $error->getFile() . ':' . $error->getLine()
+  );
+  exit(1);
+}
+`;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpInterpreter}.
+ */
+export interface IUFPhpInterpreterOptions {
+  /**
+   * Path and filename of the php cli interpreter, default is `php`.
+   */
+  php?: string;
+
+  /**
+   * Time in milliseconds the interpreter may run before it is stopped, default is 10000.
+   */
+  timeout?: number;
+
+  /**
+   * Php ini settings passed to the interpreter with `-d`.
+   */
+  ini?: { [name: string]: string | number | boolean };
+
+  /**
+   * Environment variables of the interpreter process, when missing `process.env` is used. No other variables are
+   * passed to the process.
+   */
+  env?: UFPhpEnvironment;
+}
+
+/**
+ * Result of {@link UFPhpInterpreter.requireFile}.
+ */
+export interface IUFPhpInterpreterResult {
+  /**
+   * Value returned by the file; arrays (and objects) are returned as {@link UFPhpArray}
+   */
+  readonly value: any;
+
+  /**
+   * Absolute paths of the file and all files it included, in the order they were included
+   */
+  readonly files: string[];
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpInterpreter} evaluates php files with the php cli interpreter. Use it for configuration files that
+ * contain code {@link UFPhpEvaluator} can not evaluate.
+ *
+ * The file is evaluated with `require` and the returned value is passed back as json. The filename is passed as
+ * argument, the interpreter is started without a shell. Warnings and notices are treated as errors. Output of the
+ * file itself is ignored.
+ *
+ * @example
+ * const interpreter = new UFPhpInterpreter({php: '/usr/bin/php8.2', ini: {'memory_limit': '64M'}});
+ * const result = await interpreter.requireFile('config/app.php');
+ */
+export class UFPhpInterpreter {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpInterpreterOptions;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpInterpreter}.
+   *
+   * @param {IUFPhpInterpreterOptions} anOptions
+   *   Options to use
+   */
+  constructor(anOptions: IUFPhpInterpreterOptions = {}) {
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Evaluates a php file with the interpreter.
+   *
+   * @param {string} aFilename
+   *   File to evaluate
+   *
+   * @return {IUFPhpInterpreterResult} returned value and included files
+   *
+   * @throws {UFPhpInterpreterError} when the interpreter can not be started, times out, reports an error or
+   *   emits a warning
+   */
+  requireFile(aFilename: string): Promise<IUFPhpInterpreterResult> {
+    const filename = resolve(aFilename);
+    return new Promise((aResolve, aReject) => execFile(
+      this.php,
+      this.getArguments(filename),
+      {...this.getProcessOptions(), maxBuffer: MAX_BUFFER, encoding: 'utf8'},
+      (anError: any, aStdout: string, aStderr: string) => {
+        try {
+          if (anError && (anError.code === 'ENOENT')) {
+            throw this.createStartError(filename, anError);
+          }
+          if (anError && anError.killed && (anError.signal === 'SIGTERM')) {
+            throw this.createTimeoutError(filename, aStderr);
+          }
+          const exitCode = anError ? (typeof anError.code === 'number' ? anError.code : null) : 0;
+          aResolve(UFPhpInterpreter.processOutput(filename, exitCode, aStdout, aStderr));
+        } catch (error) {
+          aReject(error);
+        }
+      }
+    ));
+  }
+
+  /**
+   * Evaluates a php file with the interpreter synchronously, see {@link requireFile}.
+   *
+   * @param {string} aFilename
+   *   File to evaluate
+   *
+   * @return {IUFPhpInterpreterResult} returned value and included files
+   *
+   * @throws {UFPhpInterpreterError} when the interpreter can not be started, times out, reports an error or
+   *   emits a warning
+   */
+  requireFileSync(aFilename: string): IUFPhpInterpreterResult {
+    const filename = resolve(aFilename);
+    const result = spawnSync(
+      this.php,
+      this.getArguments(filename),
+      {...this.getProcessOptions(), maxBuffer: MAX_BUFFER, encoding: 'utf8'}
+    );
+    const error: any = result.error;
+    if (error && (error.code === 'ENOENT')) {
+      throw this.createStartError(filename, error);
+    }
+    if (error && (error.code === 'ETIMEDOUT')) {
+      throw this.createTimeoutError(filename, result.stderr);
+    }
+    if (error) {
+      throw new UFPhpInterpreterError(error.message, filename, result.stderr || '');
+    }
+    return UFPhpInterpreter.processOutput(filename, result.status, result.stdout, result.stderr);
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Path to the interpreter.
+   *
+   * @private
+   */
+  private get php(): string {
+    return this.m_options.php || 'php';
+  }
+
+  /**
+   * Time the interpreter may run.
+   *
+   * @private
+   */
+  private get timeout(): number {
+    return this.m_options.timeout === undefined ? DEFAULT_TIMEOUT : this.m_options.timeout;
+  }
+
+  /**
+   * Gets the command line arguments for the interpreter.
+   *
+   * @private
+   */
+  private getArguments(aFilename: string): string[] {
+    const result: string[] = [];
+    const ini = {...DEFAULT_INI, ...this.m_options.ini};
+    Object.keys(ini).forEach(name => {
+      if (!/^[A-Za-z0-9_.]+$/.test(name)) {
+        throw new Error('Invalid php ini setting name "' + name + '"');
+      }
+      const value = ini[name];
+      result.push('-d', name + '=' + (typeof value === 'boolean' ? (value ? '1' : '0') : value));
+    });
+    // arguments after -- are passed to the code in $argv
+    result.push('-r', REQUIRE_CODE, '--', aFilename);
+    return result;
+  }
+
+  /**
+   * Gets the options for starting the interpreter process.
+   *
+   * @private
+   */
+  private getProcessOptions(): ExecFileOptions {
+    return {
+      env: this.m_options.env || process.env,
+      timeout: this.timeout,
+      killSignal: 'SIGTERM',
+      windowsHide: true,
+    };
+  }
+
+  /**
+   * Creates the error for an interpreter that could not be started.
+   *
+   * @private
+   */
+  private createStartError(aFilename: string, anError: Error): UFPhpInterpreterError {
+    return new UFPhpInterpreterError(
+      'Can not start php interpreter "' + this.php + '" (' + anError.message + ')', aFilename
+    );
+  }
+
+  /**
+   * Creates the error for an interpreter that did not finish in time.
+   *
+   * @private
+   */
+  private createTimeoutError(aFilename: string, aStderr: string): UFPhpInterpreterError {
+    return new UFPhpInterpreterError(
+      'Php interpreter did not finish within ' + this.timeout + ' ms', aFilename, aStderr || ''
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Checks the output of the interpreter and converts it.
+   *
+   * @private
+   */
+  private static processOutput(
+    aFilename: string, anExitCode: number | null, aStdout: string, aStderr: string
+  ): IUFPhpInterpreterResult {
+    const stderr = (aStderr || '').trim();
+    if (stderr) {
+      // use the first line, deprecation notices for example might be followed by more text
+      throw new UFPhpInterpreterError(stderr.split(/\r?\n/)[0], aFilename, stderr, anExitCode);
+    }
+    if (anExitCode !== 0) {
+      throw new UFPhpInterpreterError('Php interpreter exited with code ' + anExitCode, aFilename, '', anExitCode);
+    }
+    let output: any;
+    try {
+      output = JSON.parse(aStdout);
+    } catch (error) {
+      throw new UFPhpInterpreterError('Php interpreter returned invalid output', aFilename, '', anExitCode);
+    }
+    return {value: UFPhpInterpreter.importValue(output.value), files: output.files};
+  }
+
+  /**
+   * Converts a value written by the php code to javascript.
+   *
+   * @private
+   */
+  private static importValue(aValue: any): any {
+    if ((typeof aValue !== 'object') || (aValue === null)) {
+      return aValue;
+    }
+    return new UFPhpArray(
+      (aValue.a as [any, any][]).map(([key, value]) => [key, UFPhpInterpreter.importValue(value)])
+    );
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,58 @@
+// region class
+
+/**
+ * {@link UFPhpInterpreterError} is thrown by {@link UFPhpInterpreter} when the php interpreter can not be started,
+ * does not finish in time, reports an error or emits a warning or notice.
+ */
+export class UFPhpInterpreterError extends Error {
+  // region public variables
+
+  /**
+   * Description of the problem without filename
+   */
+  readonly reason: string;
+
+  /**
+   * Absolute path of the file that was evaluated
+   */
+  readonly filename: string;
+
+  /**
+   * Output the interpreter wrote to stderr
+   */
+  readonly stderr: string;
+
+  /**
+   * Exit code of the interpreter or null if it did not exit normally
+   */
+  readonly exitCode: number | null;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpInterpreterError}.
+   *
+   * @param {string} aReason
+   *   Description of the problem
+   * @param {string} aFilename
+   *   File that was evaluated
+   * @param {string} aStderr
+   *   Output written to stderr
+   * @param {number|null} anExitCode
+   *   Exit code of the interpreter
+   */
+  constructor(aReason: string, aFilename: string, aStderr: string = '', anExitCode: number | null = null) {
+    super(aReason + ' while evaluating ' + aFilename);
+    this.name = 'UFPhpInterpreterError';
+    this.reason = aReason;
+    this.filename = aFilename;
+    this.stderr = aStderr;
+    this.exitCode = anExitCode;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,831 @@
+// region imports
+
+import {UFPhpArray} from './UFPhpArray.js';
+import {UFPhpObject} from './UFPhpObject.js';
+import {UFPhpValue} from './UFPhpValue.js';
+import {UFPhpJsonError, UFPhpJsonErrorCode} from './UFPhpJsonError.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default maximum depth of nested arrays and objects
+ */
+const DEFAULT_DEPTH = 512;
+
+/**
+ * Indentation used by {@link UFPhpJsonFlag.PrettyPrint}
+ */
+const INDENT = '    ';
+
+/**
+ * Escape sequences for characters that have a short form
+ */
+const SHORT_ESCAPES: { [char: string]: string } = {
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\\': '\\\\',
+};
+
+/**
+ * Characters that are replaced when the matching flag is set
+ */
+const HEX_ESCAPES: { [char: string]: [number, string] } = {
+  '<': [1, '\\u003C'],
+  '>': [1, '\\u003E'],
+  '&': [2, '\\u0026'],
+  '\'': [4, '\\u0027'],
+  '"': [8, '\\u0022'],
+};
+
+/**
+ * Matches a json number
+ */
+const NUMBER = /-?(?:0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/y;
+
+/**
+ * Matches whitespace allowed in json
+ */
+const WHITESPACE = /[ \t\n\r]*/y;
+
+/**
+ * Largest php integer
+ */
+const INT_MAX = '9223372036854775807';
+
+// endregion
+
+// region types
+
+/**
+ * Flags for {@link UFPhpJson}, the values match the php `JSON_*` constants and can be combined with `|`.
+ */
+export enum UFPhpJsonFlag {
+  None = 0,
+  HexTag = 1,
+  HexAmp = 2,
+  HexApos = 4,
+  HexQuot = 8,
+  ForceObject = 16,
+  NumericCheck = 32,
+  UnescapedSlashes = 64,
+  PrettyPrint = 128,
+  UnescapedUnicode = 256,
+  PartialOutputOnError = 512,
+  PreserveZeroFraction = 1024,
+  UnescapedLineTerminators = 2048,
+  ObjectAsArray = 1,
+  BigintAsString = 2,
+  InvalidUtf8Ignore = 1048576,
+  InvalidUtf8Substitute = 2097152,
+  ThrowOnError = 4194304,
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpJson} implements the php `json_encode` and `json_decode` functions, creating the same bytes php
+ * creates (with the default `serialize_precision` of -1).
+ *
+ * When encoding, {@link UFPhpArray} instances are written as list or object following the php rules, javascript
+ * arrays as list and other objects as object (like php objects, using their enumerable properties or the result
+ * of a `toJSON` method). {@link UFPhpObject} instances are written with their public properties. Buffer instances
+ * are treated as php strings. Integers that are safe integers in javascript and bigint values (like the 64 bit
+ * values returned by {@link UFPhp.unpack}) are written as php integers, other numbers as php floats. Bigint values
+ * outside the 64 bit range are written as floats, like php does for integers that overflow.
+ *
+ * When decoding, json objects are returned as plain objects, or as php arrays when `assoc` is set. Arrays are
+ * returned as javascript arrays or plain objects, depending on their keys. Integers that fit in 64 bits but are
+ * not safe integers in javascript are returned as bigint (like {@link UFPhp.unserialize} does).
+ *
+ * Errors are always thrown as {@link UFPhpJsonError} (as if `JSON_THROW_ON_ERROR` was set), except when encoding
+ * with {@link UFPhpJsonFlag.PartialOutputOnError}.
+ *
+ * @example
+ * UFPhpJson.encode({url: 'https://example.com/ä'}) === '{"url":"https:\\/\\/example.com\\/\\u00e4"}';
+ */
+export class UFPhpJson {
+  // region private variables
+
+  /**
+   * Flags to use
+   *
+   * @private
+   */
+  private readonly m_flags: number;
+
+  /**
+   * Maximum depth
+   *
+   * @private
+   */
+  private readonly m_maxDepth: number;
+
+  /**
+   * Current depth
+   *
+   * @private
+   */
+  private m_depth: number = 0;
+
+  /**
+   * Objects being encoded (used to detect recursion)
+   *
+   * @private
+   */
+  private readonly m_objects: Set<object> = new Set();
+
+  /**
+   * Text being decoded
+   *
+   * @private
+   */
+  private m_text: string = '';
+
+  /**
+   * Current position in the text being decoded
+   *
+   * @private
+   */
+  private m_position: number = 0;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpJson}.
+   *
+   * @param {number} aFlags
+   *   Flags to use
+   * @param {number} aMaxDepth
+   *   Maximum depth
+   *
+   * @private
+   */
+  private constructor(aFlags: number, aMaxDepth: number) {
+    this.m_flags = aFlags;
+    this.m_maxDepth = aMaxDepth;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Encodes a value (php `json_encode`).
+   *
+   * @param {any} aValue
+   *   Value to encode
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpJsonFlag} values
+   * @param {number} aDepth
+   *   Maximum depth of nested arrays and objects
+   *
+   * @return {string} json text
+   *
+   * @throws {UFPhpJsonError} when the value can not be encoded and {@link UFPhpJsonFlag.PartialOutputOnError} is
+   *   not set
+   */
+  static encode(aValue: any, aFlags: number = UFPhpJsonFlag.None, aDepth: number = DEFAULT_DEPTH): string {
+    return new UFPhpJson(aFlags, aDepth).encodeValue(aValue);
+  }
+
+  /**
+   * Decodes json text (php `json_decode`).
+   *
+   * @param {string|Buffer} aJson
+   *   Text to decode; a Buffer must contain UTF-8
+   * @param {boolean|null} anAssoc
+   *   When true, json objects are returned as php arrays (plain objects or, when all keys form a list,
+   *   javascript arrays); when null, {@link UFPhpJsonFlag.ObjectAsArray} decides
+   * @param {number} aDepth
+   *   Maximum depth of nested arrays and objects
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpJsonFlag} values
+   *
+   * @return {any} decoded value; integers that are not safe integers are returned as bigint, integers that do not
+   *   fit in 64 bits as float or, with {@link UFPhpJsonFlag.BigintAsString}, as string
+   *
+   * @throws {UFPhpJsonError} when the text is invalid or nested too deep
+   * @throws {Error} when the depth is not greater than 0
+   */
+  static decode(
+    aJson: string | Buffer,
+    anAssoc: boolean | null = null,
+    aDepth: number = DEFAULT_DEPTH,
+    aFlags: number = UFPhpJsonFlag.None
+  ): any {
+    if (aDepth <= 0) {
+      throw new Error('Depth must be greater than 0');
+    }
+    const assoc = anAssoc === null ? (aFlags & UFPhpJsonFlag.ObjectAsArray) !== 0 : anAssoc;
+    return new UFPhpJson(aFlags, aDepth).decodeText(aJson, assoc);
+  }
+
+  // endregion
+
+  // region private encode methods
+
+  /**
+   * Encodes a value and throws the first error unless partial output is allowed.
+   *
+   * @private
+   */
+  private encodeValue(aValue: any): string {
+    switch (typeof aValue) {
+      case 'undefined':
+        return 'null';
+      case 'boolean':
+        return aValue ? 'true' : 'false';
+      case 'number':
+        return this.encodeNumber(aValue);
+      case 'bigint':
+        // like php, integers that do not fit in 64 bits become floats
+        return BigInt.asIntN(64, aValue) === aValue ? String(aValue) : this.encodeNumber(Number(aValue));
+      case 'string':
+        return this.encodeString(aValue, true);
+      case 'object':
+        break;
+      default:
+        return this.fail(UFPhpJsonErrorCode.UnsupportedType, 'null');
+    }
+    if (aValue === null) {
+      return 'null';
+    }
+    if (Buffer.isBuffer(aValue)) {
+      const text = this.decodeBytes(aValue);
+      return text === null ? this.fail(UFPhpJsonErrorCode.Utf8, 'null') : this.encodeString(text, true);
+    }
+    if (this.m_objects.has(aValue)) {
+      return this.fail(UFPhpJsonErrorCode.Recursion, 'null');
+    }
+    if ((typeof aValue.toJSON === 'function') && !(aValue instanceof UFPhpArray)) {
+      // like JsonSerializable in php, an object returning itself is encoded as object
+      const serialized = aValue.toJSON();
+      if (serialized !== aValue) {
+        this.m_objects.add(aValue);
+        const result = this.encodeValue(serialized);
+        this.m_objects.delete(aValue);
+        return result;
+      }
+    }
+    let entries: [string | number, any][];
+    let isList: boolean;
+    if (aValue instanceof UFPhpArray) {
+      entries = Array.from(aValue.entries());
+      isList = aValue.isList();
+    }
+    else if (Array.isArray(aValue)) {
+      entries = Array.from(aValue.entries());
+      isList = true;
+    }
+    else if (aValue instanceof UFPhpObject) {
+      // skip protected and private properties
+      entries = Array.from(aValue.properties.entries())
+        .filter(([key]) => (typeof key === 'number') || !key.startsWith('\0'));
+      isList = false;
+    }
+    else {
+      entries = Object.keys(aValue).map(key => [key, aValue[key]]);
+      isList = false;
+    }
+    this.m_objects.add(aValue);
+    const result = this.encodeEntries(entries, isList && !(this.m_flags & UFPhpJsonFlag.ForceObject));
+    this.m_objects.delete(aValue);
+    return result;
+  }
+
+  /**
+   * Encodes the entries of an array or object.
+   *
+   * @param {Array} anEntries
+   *   Keys and values
+   * @param {boolean} anIsList
+   *   When true, a json array is written
+   *
+   * @private
+   */
+  private encodeEntries(anEntries: [string | number, any][], anIsList: boolean): string {
+    const pretty = (this.m_flags & UFPhpJsonFlag.PrettyPrint) !== 0;
+    this.m_depth++;
+    const indent = pretty ? '\n' + INDENT.repeat(this.m_depth) : '';
+    let result = anIsList ? '[' : '{';
+    anEntries.forEach(([key, value], index) => {
+      result += (index ? ',' : '') + indent;
+      if (!anIsList) {
+        // keys are never converted to numbers
+        result += (typeof key === 'number' ? '"' + key + '"' : this.encodeString(key, false)) + (pretty ? ': ' : ':');
+      }
+      result += this.encodeValue(value);
+    });
+    if (this.m_depth > this.m_maxDepth) {
+      this.fail(UFPhpJsonErrorCode.Depth, '');
+    }
+    this.m_depth--;
+    if (pretty && anEntries.length) {
+      result += '\n' + INDENT.repeat(this.m_depth);
+    }
+    return result + (anIsList ? ']' : '}');
+  }
+
+  /**
+   * Encodes a number.
+   *
+   * @private
+   */
+  private encodeNumber(aValue: number): string {
+    if (Number.isSafeInteger(aValue) && !Object.is(aValue, -0)) {
+      return aValue.toString();
+    }
+    if (!isFinite(aValue)) {
+      return this.fail(UFPhpJsonErrorCode.InfOrNan, '0');
+    }
+    const result = UFPhpValue.formatFloat(aValue, -1).replace('E', 'e');
+    return (this.m_flags & UFPhpJsonFlag.PreserveZeroFraction) && (result.indexOf('.') < 0) ? result + '.0' : result;
+  }
+
+  /**
+   * Encodes a string.
+   *
+   * @param {string} aText
+   *   Text to encode
+   * @param {boolean} aNumericCheck
+   *   When true, numeric strings are written as numbers if {@link UFPhpJsonFlag.NumericCheck} is set
+   *
+   * @private
+   */
+  private encodeString(aText: string, aNumericCheck: boolean): string {
+    if (aNumericCheck && (this.m_flags & UFPhpJsonFlag.NumericCheck) && UFPhpValue.isNumeric(aText)) {
+      return this.encodeNumericString(aText.trim());
+    }
+    let result = '"';
+    for (const char of aText) {
+      const code = char.codePointAt(0)!;
+      if ((code >= 0xd800) && (code <= 0xdfff)) {
+        // a single surrogate can not be converted to UTF-8
+        if (this.m_flags & UFPhpJsonFlag.InvalidUtf8Ignore) {
+          continue;
+        }
+        if (!(this.m_flags & UFPhpJsonFlag.InvalidUtf8Substitute)) {
+          return this.fail(UFPhpJsonErrorCode.Utf8, 'null');
+        }
+        result += this.m_flags & UFPhpJsonFlag.UnescapedUnicode ? '\ufffd' : '\\ufffd';
+        continue;
+      }
+      const hex = HEX_ESCAPES[char];
+      if (hex && (this.m_flags & hex[0])) {
+        result += hex[1];
+      }
+      else if (char === '"') {
+        result += '\\"';
+      }
+      else if (char === '/') {
+        result += this.m_flags & UFPhpJsonFlag.UnescapedSlashes ? '/' : '\\/';
+      }
+      else if (SHORT_ESCAPES[char]) {
+        result += SHORT_ESCAPES[char];
+      }
+      else if (code < 0x20) {
+        result += '\\u' + UFPhpJson.toHex(code);
+      }
+      else if ((code < 0x80) || ((this.m_flags & UFPhpJsonFlag.UnescapedUnicode) && (
+        ((code !== 0x2028) && (code !== 0x2029)) || (this.m_flags & UFPhpJsonFlag.UnescapedLineTerminators)
+      ))) {
+        result += char;
+      }
+      else {
+        for (let index = 0; index < char.length; index++) {
+          result += '\\u' + UFPhpJson.toHex(char.charCodeAt(index));
+        }
+      }
+    }
+    return result + '"';
+  }
+
+  /**
+   * Encodes a numeric string as number (php `JSON_NUMERIC_CHECK`).
+   *
+   * @private
+   */
+  private encodeNumericString(aText: string): string {
+    const match = /^([+-]?)0*([0-9]+)$/.exec(aText);
+    // integers that fit in 64 bits are written with all their digits
+    if (match) {
+      const negative = (match[1] === '-') && (match[2] !== '0');
+      const limit = negative ? INT_MAX.replace(/7$/, '8') : INT_MAX;
+      if ((match[2].length < limit.length) || ((match[2].length === limit.length) && (match[2] <= limit))) {
+        return (negative ? '-' : '') + match[2];
+      }
+    }
+    const value = parseFloat(aText);
+    if (!isFinite(value)) {
+      return this.fail(UFPhpJsonErrorCode.InfOrNan, '0');
+    }
+    const result = UFPhpValue.formatFloat(value, -1).replace('E', 'e');
+    return (this.m_flags & UFPhpJsonFlag.PreserveZeroFraction) && (result.indexOf('.') < 0) ? result + '.0' : result;
+  }
+
+  /**
+   * Handles an encoding error: throws it or, with {@link UFPhpJsonFlag.PartialOutputOnError}, returns the text
+   * that php writes instead.
+   *
+   * @private
+   */
+  private fail(aCode: UFPhpJsonErrorCode, aReplacement: string): string {
+    if (!(this.m_flags & UFPhpJsonFlag.PartialOutputOnError)) {
+      throw new UFPhpJsonError(aCode);
+    }
+    return aReplacement;
+  }
+
+  // endregion
+
+  // region private decode methods
+
+  /**
+   * Decodes json text.
+   *
+   * @private
+   */
+  private decodeText(aJson: string | Buffer, anAssoc: boolean): any {
+    const text = Buffer.isBuffer(aJson) ? this.decodeBytes(aJson) : aJson;
+    if (text === null) {
+      throw new UFPhpJsonError(UFPhpJsonErrorCode.Utf8);
+    }
+    this.m_text = text;
+    this.m_position = 0;
+    const value = this.readValue(anAssoc);
+    this.skipWhitespace();
+    if (this.m_position < this.m_text.length) {
+      this.failSyntax();
+    }
+    return value;
+  }
+
+  /**
+   * Reads a value.
+   *
+   * @private
+   */
+  private readValue(anAssoc: boolean): any {
+    this.skipWhitespace();
+    const char = this.m_text[this.m_position];
+    switch (char) {
+      case '{':
+        return this.readObject(anAssoc);
+      case '[':
+        return this.readArray(anAssoc);
+      case '"':
+        return this.readString();
+      case 't':
+        return this.readLiteral('true', true);
+      case 'f':
+        return this.readLiteral('false', false);
+      case 'n':
+        return this.readLiteral('null', null);
+      default:
+        return this.readNumber();
+    }
+  }
+
+  /**
+   * Reads an object.
+   *
+   * @private
+   */
+  private readObject(anAssoc: boolean): any {
+    this.enter();
+    const entries: [string, any][] = [];
+    this.m_position++;
+    this.skipWhitespace();
+    if (this.m_text[this.m_position] === '}') {
+      this.m_position++;
+    }
+    else {
+      for (;;) {
+        this.skipWhitespace();
+        if (this.m_text[this.m_position] !== '"') {
+          this.failSyntax();
+        }
+        const key = this.readString();
+        if (!anAssoc && key.startsWith('\0')) {
+          throw new UFPhpJsonError(UFPhpJsonErrorCode.InvalidPropertyName);
+        }
+        this.skipWhitespace();
+        this.expect(':');
+        entries.push([key, this.readValue(anAssoc)]);
+        if (this.readSeparator('}')) {
+          break;
+        }
+      }
+    }
+    this.m_depth--;
+    if (!anAssoc) {
+      const result = {};
+      entries.forEach(([key, value]) => UFPhpJson.define(result, key, value));
+      return result;
+    }
+    const array = new UFPhpArray(entries);
+    if (array.isList()) {
+      return Array.from(array.values());
+    }
+    const result = {};
+    array.forEach((value, key) => UFPhpJson.define(result, key.toString(), value));
+    return result;
+  }
+
+  /**
+   * Reads an array.
+   *
+   * @private
+   */
+  private readArray(anAssoc: boolean): any[] {
+    this.enter();
+    const result: any[] = [];
+    this.m_position++;
+    this.skipWhitespace();
+    if (this.m_text[this.m_position] === ']') {
+      this.m_position++;
+    }
+    else {
+      do {
+        result.push(this.readValue(anAssoc));
+      } while (!this.readSeparator(']'));
+    }
+    this.m_depth--;
+    return result;
+  }
+
+  /**
+   * Reads a string including the quotes.
+   *
+   * @private
+   */
+  private readString(): string {
+    let result = '';
+    let position = this.m_position + 1;
+    for (;;) {
+      if (position >= this.m_text.length) {
+        this.failSyntax();
+      }
+      const char = this.m_text[position];
+      if (char === '"') {
+        break;
+      }
+      if (char < ' ') {
+        throw new UFPhpJsonError(UFPhpJsonErrorCode.CtrlChar);
+      }
+      if (char !== '\\') {
+        result += char;
+        position++;
+        continue;
+      }
+      const escape = this.m_text[position + 1];
+      position += 2;
+      const short = ({'"': '"', '\\': '\\', '/': '/', 'b': '\b', 'f': '\f', 'n': '\n', 'r': '\r', 't': '\t'} as {
+        [char: string]: string
+      })[escape];
+      if (short) {
+        result += short;
+        continue;
+      }
+      if (escape !== 'u') {
+        this.failSyntax();
+      }
+      const code = this.readHex(position);
+      position += 4;
+      if ((code >= 0xd800) && (code <= 0xdbff)) {
+        // a high surrogate must be followed by a low surrogate
+        const low = this.m_text.substring(position, position + 2) === '\\u' ? this.readHex(position + 2) : -1;
+        if ((low < 0xdc00) || (low > 0xdfff)) {
+          throw new UFPhpJsonError(UFPhpJsonErrorCode.Utf16);
+        }
+        result += String.fromCharCode(code, low);
+        position += 6;
+      }
+      else if ((code >= 0xdc00) && (code <= 0xdfff)) {
+        throw new UFPhpJsonError(UFPhpJsonErrorCode.Utf16);
+      }
+      else {
+        result += String.fromCharCode(code);
+      }
+    }
+    this.m_position = position + 1;
+    return result;
+  }
+
+  /**
+   * Reads a number.
+   *
+   * @private
+   */
+  private readNumber(): number | bigint | string {
+    if (this.m_text[this.m_position] === '\0') {
+      throw new UFPhpJsonError(UFPhpJsonErrorCode.CtrlChar);
+    }
+    NUMBER.lastIndex = this.m_position;
+    const match = NUMBER.exec(this.m_text);
+    if (!match) {
+      return this.failSyntax();
+    }
+    this.m_position += match[0].length;
+    if (match[1] || match[2]) {
+      return parseFloat(match[0]);
+    }
+    const negative = match[0].startsWith('-');
+    const digits = negative ? match[0].substring(1) : match[0];
+    const limit = negative ? INT_MAX.replace(/7$/, '8') : INT_MAX;
+    if ((digits.length > limit.length) || ((digits.length === limit.length) && (digits > limit))) {
+      return this.m_flags & UFPhpJsonFlag.BigintAsString ? match[0] : parseFloat(match[0]);
+    }
+    const value = parseInt(match[0], 10);
+    if (!Number.isSafeInteger(value)) {
+      return BigInt(match[0]);
+    }
+    // -0 is an integer in php
+    return value || 0;
+  }
+
+  /**
+   * Reads `true`, `false` or `null`.
+   *
+   * @private
+   */
+  private readLiteral(aText: string, aValue: any): any {
+    if (this.m_text.substring(this.m_position, this.m_position + aText.length) !== aText) {
+      this.failSyntax();
+    }
+    this.m_position += aText.length;
+    return aValue;
+  }
+
+  /**
+   * Reads the separator after an entry.
+   *
+   * @return {boolean} true if the closing character was found
+   *
+   * @private
+   */
+  private readSeparator(aClose: string): boolean {
+    this.skipWhitespace();
+    const char = this.m_text[this.m_position++];
+    if (char === aClose) {
+      return true;
+    }
+    if (char !== ',') {
+      this.failSyntax();
+    }
+    return false;
+  }
+
+  /**
+   * Reads four hexadecimal digits.
+   *
+   * @private
+   */
+  private readHex(aPosition: number): number {
+    const hex = this.m_text.substring(aPosition, aPosition + 4);
+    if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+      this.failSyntax();
+    }
+    return parseInt(hex, 16);
+  }
+
+  /**
+   * Skips a character that must be present after optional whitespace.
+   *
+   * @private
+   */
+  private expect(aChar: string): void {
+    this.skipWhitespace();
+    if (this.m_text[this.m_position] !== aChar) {
+      this.failSyntax();
+    }
+    this.m_position++;
+  }
+
+  /**
+   * Skips whitespace.
+   *
+   * @private
+   */
+  private skipWhitespace(): void {
+    WHITESPACE.lastIndex = this.m_position;
+    WHITESPACE.exec(this.m_text);
+    this.m_position = WHITESPACE.lastIndex;
+  }
+
+  /**
+   * Increases the depth when starting an array or object.
+   *
+   * @private
+   */
+  private enter(): void {
+    if (++this.m_depth > this.m_maxDepth) {
+      throw new UFPhpJsonError(UFPhpJsonErrorCode.Depth);
+    }
+  }
+
+  /**
+   * Throws a syntax error; a null character outside a string is reported as control character like php does.
+   *
+   * @private
+   */
+  private failSyntax(): never {
+    throw new UFPhpJsonError(
+      this.m_text[this.m_position] === '\0' ? UFPhpJsonErrorCode.CtrlChar : UFPhpJsonErrorCode.Syntax
+    );
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Converts UTF-8 bytes to a string, handling invalid sequences as set by the flags.
+   *
+   * @return {string|null} converted text or null if the bytes contain invalid sequences that are neither ignored
+   *   nor substituted
+   *
+   * @private
+   */
+  private decodeBytes(aBytes: Buffer): string | null {
+    const text = aBytes.toString('utf8');
+    // toString replaces invalid sequences with U+FFFD, so only check the bytes if it occurs
+    if ((text.indexOf('\ufffd') < 0) || Buffer.from(text, 'utf8').equals(aBytes)) {
+      return text;
+    }
+    if (this.m_flags & UFPhpJsonFlag.InvalidUtf8Substitute) {
+      return text;
+    }
+    if (!(this.m_flags & UFPhpJsonFlag.InvalidUtf8Ignore)) {
+      return null;
+    }
+    // decode every valid sequence separately and leave out the rest
+    let result = '';
+    let start = 0;
+    for (let index = 0; index < aBytes.length;) {
+      const length = UFPhpJson.getSequenceLength(aBytes, index);
+      if (length) {
+        index += length;
+        continue;
+      }
+      result += aBytes.toString('utf8', start, index);
+      start = ++index;
+    }
+    return result + aBytes.toString('utf8', start);
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Gets the length of a valid UTF-8 sequence.
+   *
+   * @return {number} length or 0 if there is no valid sequence at the offset
+   *
+   * @private
+   */
+  private static getSequenceLength(aBytes: Buffer, anOffset: number): number {
+    const first = aBytes[anOffset];
+    if (first < 0x80) {
+      return 1;
+    }
+    const length = first >= 0xf0 ? 4 : (first >= 0xe0 ? 3 : (first >= 0xc2 ? 2 : 0));
+    if (!length || (first > 0xf4) || (anOffset + length > aBytes.length)) {
+      return 0;
+    }
+    const text = aBytes.toString('utf8', anOffset, anOffset + length);
+    return (text.length > 0) && (text.indexOf('\ufffd') < 0) ? length : 0;
+  }
+
+  /**
+   * Defines a property, also for names like `__proto__`.
+   *
+   * @private
+   */
+  private static define(anObject: object, aName: string, aValue: any): void {
+    Object.defineProperty(anObject, aName, {value: aValue, writable: true, enumerable: true, configurable: true});
+  }
+
+  /**
+   * Formats a character code as four lowercase hexadecimal digits.
+   *
+   * @private
+   */
+  private static toHex(aCode: number): string {
+    return ('000' + aCode.toString(16)).slice(-4);
+  }
+
+  // endregion
+}
+
+// endregion
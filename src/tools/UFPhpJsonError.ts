@@ -0,0 +1,74 @@
+// region local constants
+
+/**
+ * Messages php uses for the error codes of {@link UFPhpJsonErrorCode} (php `json_last_error_msg`)
+ */
+const MESSAGES: { [code: number]: string } = {
+  1: 'Maximum stack depth exceeded',
+  2: 'State mismatch (invalid or malformed JSON)',
+  3: 'Control character error, possibly incorrectly encoded',
+  4: 'Syntax error',
+  5: 'Malformed UTF-8 characters, possibly incorrectly encoded',
+  6: 'Recursion detected',
+  7: 'Inf and NaN cannot be JSON encoded',
+  8: 'Type is not supported',
+  9: 'The decoded property name is invalid',
+  10: 'Single unpaired UTF-16 surrogate in unicode escape',
+};
+
+// endregion
+
+// region types
+
+/**
+ * Error codes of {@link UFPhpJsonError}, the values match the php `JSON_ERROR_*` constants.
+ */
+export enum UFPhpJsonErrorCode {
+  Depth = 1,
+  StateMismatch = 2,
+  CtrlChar = 3,
+  Syntax = 4,
+  Utf8 = 5,
+  Recursion = 6,
+  InfOrNan = 7,
+  UnsupportedType = 8,
+  InvalidPropertyName = 9,
+  Utf16 = 10,
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpJsonError} is thrown by {@link UFPhpJson} when a value can not be encoded or decoded (like the php
+ * `JsonException`). The message is the one php returns with `json_last_error_msg`.
+ */
+export class UFPhpJsonError extends Error {
+  // region public variables
+
+  /**
+   * Error code (same value as php `json_last_error` returns)
+   */
+  readonly code: UFPhpJsonErrorCode;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpJsonError}.
+   *
+   * @param {UFPhpJsonErrorCode} aCode
+   *   Error code
+   */
+  constructor(aCode: UFPhpJsonErrorCode) {
+    super(MESSAGES[aCode]);
+    this.name = 'UFPhpJsonError';
+    this.code = aCode;
+  }
+
+  // endregion
+}
+
+// endregion
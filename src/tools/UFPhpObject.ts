@@ -0,0 +1,89 @@
+// region imports
+
+import {UFPhpArray} from './UFPhpArray.js';
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpObject} represents a php object, as used by {@link UFPhpSerializer}.
+ *
+ * The properties use the names php uses internally: protected properties are prefixed with `"\0*\0"`, private
+ * properties with `"\0"` + class name + `"\0"`. Use {@link getProperty} to get a property without knowing its
+ * visibility.
+ *
+ * Objects of classes that implement the `Serializable` interface are written by php using their own format; for
+ * these objects {@link serializedData} contains that data and {@link properties} is empty.
+ */
+export class UFPhpObject {
+  // region public variables
+
+  /**
+   * Name of the class (including namespace, without leading backslash)
+   */
+  readonly className: string;
+
+  /**
+   * Properties of the object
+   */
+  readonly properties: UFPhpArray;
+
+  /**
+   * Data created by the `serialize` method of a `Serializable` class or null if the object uses the normal
+   * format
+   */
+  readonly serializedData: string | Buffer | null;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpObject}.
+   *
+   * @param {string} aClassName
+   *   Name of the class
+   * @param {UFPhpArray|object} aProperties
+   *   Properties of the object, a plain object is converted to a {@link UFPhpArray}
+   * @param {string|Buffer|null} aSerializedData
+   *   Data for a `Serializable` class
+   */
+  constructor(
+    aClassName: string,
+    aProperties: UFPhpArray | { [name: string]: any } = new UFPhpArray(),
+    aSerializedData: string | Buffer | null = null
+  ) {
+    this.className = aClassName;
+    this.properties = aProperties instanceof UFPhpArray
+      ? aProperties
+      : new UFPhpArray(Object.keys(aProperties).map(name => [name, aProperties[name]]));
+    this.serializedData = aSerializedData;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Gets the value of a property, looking for a public, protected and private property with the name (in that
+   * order).
+   *
+   * @param {string} aName
+   *   Name of property (without visibility prefix)
+   *
+   * @return {any} value or undefined if there is no property with the name
+   */
+  getProperty(aName: string): any {
+    for (const key of [aName, '\0*\0' + aName, '\0' + this.className + '\0' + aName]) {
+      if (this.properties.has(key)) {
+        return this.properties.get(key);
+      }
+    }
+    return undefined;
+  }
+
+  // endregion
+}
+
+// endregion
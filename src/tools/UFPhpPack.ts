@@ -0,0 +1,449 @@
+// region imports
+
+import {endianness} from 'os';
+import {UFPhpValue} from './UFPhpValue.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * True if the machine byte order (used by the codes `s`, `S`, `i`, `I`, `l`, `L`, `q`, `Q`, `f` and `d`) is
+ * little endian
+ */
+const MACHINE_LITTLE_ENDIAN = endianness() === 'LE';
+
+/**
+ * Integer codes mapped to size in bytes, true for little endian and true for signed values (when unpacking)
+ */
+const INTEGER_CODES: { [code: string]: [number, boolean, boolean] } = {
+  'c': [1, true, true],
+  'C': [1, true, false],
+  's': [2, MACHINE_LITTLE_ENDIAN, true],
+  'S': [2, MACHINE_LITTLE_ENDIAN, false],
+  'n': [2, false, false],
+  'v': [2, true, false],
+  'i': [4, MACHINE_LITTLE_ENDIAN, true],
+  'I': [4, MACHINE_LITTLE_ENDIAN, false],
+  'l': [4, MACHINE_LITTLE_ENDIAN, true],
+  'L': [4, MACHINE_LITTLE_ENDIAN, false],
+  'N': [4, false, false],
+  'V': [4, true, false],
+  // php integers are signed 64 bit values, so unsigned 64 bit values are returned as signed values
+  'q': [8, MACHINE_LITTLE_ENDIAN, true],
+  'Q': [8, MACHINE_LITTLE_ENDIAN, true],
+  'J': [8, false, true],
+  'P': [8, true, true],
+};
+
+/**
+ * Float codes mapped to size in bytes and true for little endian
+ */
+const FLOAT_CODES: { [code: string]: [number, boolean] } = {
+  'f': [4, MACHINE_LITTLE_ENDIAN],
+  'g': [4, true],
+  'G': [4, false],
+  'd': [8, MACHINE_LITTLE_ENDIAN],
+  'e': [8, true],
+  'E': [8, false],
+};
+
+/**
+ * Decoder that fails for invalid UTF-8
+ */
+const UTF8_DECODER = new TextDecoder('utf-8', {fatal: true});
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpPack} implements the php `pack` and `unpack` functions.
+ *
+ * Supported codes are `a`, `A`, `Z` (strings padded with NUL or space), `h`, `H` (hex strings with low or high
+ * nibble first), `c`, `C`, `s`, `S`, `n`, `v`, `i`, `I`, `l`, `L`, `N`, `V`, `q`, `Q`, `J`, `P` (integers),
+ * `f`, `g`, `G`, `d`, `e`, `E` (floats), `x` (NUL byte), `X` (back up one byte) and `@` (NUL fill to absolute
+ * position). Each code can be followed by a repeater or `*`. Codes using the machine byte order use the byte
+ * order of the machine running node, like php does.
+ *
+ * Integers can be passed as number, bigint or string; 64 bit values that are not safe integers are returned as
+ * bigint by {@link unpack}. Strings are returned as string when they contain valid UTF-8, otherwise as Buffer.
+ *
+ * @example
+ * UFPhpPack.unpack('nversion/Nlength', UFPhpPack.pack('nN', 2, 512)) // {version: 2, length: 512}
+ */
+export class UFPhpPack {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpPack}; all methods are static.
+   *
+   * @private
+   */
+  private constructor() {
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Packs values into binary data like php `pack` does.
+   *
+   * @param {string} aFormat
+   *   Format codes, each optionally followed by a repeater or `*`
+   * @param {any[]} aValues
+   *   Values to pack; extra values are ignored
+   *
+   * @return {Buffer} packed data
+   *
+   * @throws {Error} when the format contains an unknown code or there are not enough values
+   */
+  static pack(aFormat: string, ...aValues: any[]): Buffer {
+    let output = Buffer.alloc(0);
+    let position = 0;
+    let valueIndex = 0;
+    const write = (aBytes: Buffer) => {
+      if (position + aBytes.length > output.length) {
+        output = Buffer.concat([output, Buffer.alloc(position + aBytes.length - output.length)]);
+      }
+      aBytes.copy(output, position);
+      position += aBytes.length;
+    };
+    let index = 0;
+    while (index < aFormat.length) {
+      const code = aFormat[index++];
+      let count = 1;
+      if (aFormat[index] === '*') {
+        count = -1;
+        index++;
+      }
+      else {
+        const digits = /^[0-9]+/.exec(aFormat.substring(index));
+        if (digits) {
+          count = parseInt(digits[0], 10);
+          index += digits[0].length;
+        }
+      }
+      switch (code) {
+        case 'a':
+        case 'A':
+        case 'Z':
+        case 'h':
+        case 'H': {
+          if (valueIndex >= aValues.length) {
+            throw new Error('Type ' + code + ': not enough arguments');
+          }
+          const value = UFPhpPack.toBytes(aValues[valueIndex++]);
+          write('hH'.includes(code) ? UFPhpPack.packHex(code, value, count) : UFPhpPack.packString(code, value, count));
+          break;
+        }
+        case 'x':
+          write(Buffer.alloc(count < 0 ? 1 : count));
+          break;
+        case 'X':
+          // moving back beyond the start stops at the start
+          position = Math.max(0, position - (count < 0 ? 1 : count));
+          break;
+        case '@':
+          write(Buffer.alloc(Math.max(0, (count < 0 ? 1 : count) - position)));
+          position = count < 0 ? 1 : count;
+          break;
+        default: {
+          if (!INTEGER_CODES.hasOwnProperty(code) && !FLOAT_CODES.hasOwnProperty(code)) {
+            throw new Error('Type ' + code + ': unknown format code');
+          }
+          const values = count < 0 ? aValues.length - valueIndex : count;
+          if (valueIndex + values > aValues.length) {
+            throw new Error('Type ' + code + ': too few arguments');
+          }
+          for (let counter = 0; counter < values; counter++) {
+            write(UFPhpPack.packNumber(code, aValues[valueIndex++]));
+          }
+        }
+      }
+    }
+    // the data ends at the current position (`X` and `@` can move it back)
+    return output.subarray(0, position);
+  }
+
+  /**
+   * Unpacks binary data like php `unpack` does.
+   *
+   * The format contains codes separated by `/`. Each code can be followed by a repeater or `*` and a name. Values
+   * are stored with the name as key; when the repeater is not 1 (or there is no name), the number of the value
+   * (starting at 1) is appended to the name.
+   *
+   * @param {string} aFormat
+   *   Format codes with names
+   * @param {string|Buffer} aData
+   *   Data to unpack, strings are encoded as UTF-8
+   * @param {number} anOffset
+   *   Offset in the data to start at
+   *
+   * @return {object|false} the unpacked values or false when the data is too short (php reports a warning)
+   *
+   * @throws {Error} when the format contains an unknown code or the offset is outside the data
+   */
+  static unpack(aFormat: string, aData: string | Buffer, anOffset: number = 0): { [name: string]: any } | false {
+    const bytes = UFPhpPack.toBytes(aData);
+    if ((anOffset < 0) || (anOffset > bytes.length)) {
+      throw new Error('Argument #3 ($offset) must be contained in argument #2 ($data)');
+    }
+    const data = bytes.subarray(anOffset);
+    const result: { [name: string]: any } = {};
+    let position = 0;
+    const parts = aFormat.split('/');
+    for (let partIndex = 0; partIndex < parts.length; partIndex++) {
+      const part = parts[partIndex];
+      if (!part.length) {
+        // only a trailing separator is allowed
+        if (partIndex < parts.length - 1) {
+          throw new Error('Invalid format type /');
+        }
+        continue;
+      }
+      const match = /^([^])(\*|[0-9]+)?([^]*)$/.exec(part)!;
+      const code = match[1];
+      let repetitions = match[2] === undefined ? 1 : match[2] === '*' ? -1 : parseInt(match[2], 10);
+      const name = match[3].substring(0, 200);
+      const count = repetitions;
+      let size: number;
+      if ('aAZ'.includes(code)) {
+        size = repetitions;
+        repetitions = 1;
+      }
+      else if ('hH'.includes(code)) {
+        size = repetitions > 0 ? Math.floor((repetitions + 1) / 2) : repetitions;
+        repetitions = 1;
+      }
+      else if (INTEGER_CODES.hasOwnProperty(code)) {
+        size = INTEGER_CODES[code][0];
+      }
+      else if (FLOAT_CODES.hasOwnProperty(code)) {
+        size = FLOAT_CODES[code][0];
+      }
+      else if (code === 'x') {
+        size = 1;
+      }
+      else if ((code === 'X') || (code === '@')) {
+        size = code === 'X' ? -1 : 0;
+        repetitions = repetitions < 0 ? 1 : repetitions;
+      }
+      else {
+        throw new Error('Invalid format type ' + code);
+      }
+      for (let counter = 0; counter !== repetitions; counter++) {
+        if (position + size > data.length) {
+          if (repetitions < 0) {
+            // a `*` repeater stops at the end of the data
+            break;
+          }
+          return false;
+        }
+        const key = (repetitions === 1) && name.length ? name : name + (counter + 1);
+        if ('aAZ'.includes(code)) {
+          const length = size >= 0 ? Math.min(size, data.length - position) : data.length - position;
+          result[key] = UFPhpPack.unpackString(code, data.subarray(position, position + length));
+          position += length;
+        }
+        else if ('hH'.includes(code)) {
+          result[key] = UFPhpPack.unpackHex(code, data.subarray(position), size, count);
+          position += size < 0 ? data.length - position : size;
+        }
+        else if (code === '@') {
+          // the position is only changed when it is inside the data
+          position = repetitions <= data.length ? repetitions : position;
+          break;
+        }
+        else {
+          if (code !== 'x' && code !== 'X') {
+            result[key] = UFPhpPack.unpackNumber(code, data.subarray(position, position + size));
+          }
+          position = Math.max(0, position + size);
+        }
+      }
+    }
+    return result;
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Converts a value to bytes.
+   *
+   * @private
+   */
+  private static toBytes(aValue: any): Buffer {
+    return Buffer.isBuffer(aValue) ? aValue : Buffer.from(UFPhpValue.toString(aValue), 'utf8');
+  }
+
+  /**
+   * Packs a string for the codes `a`, `A` and `Z`.
+   *
+   * @private
+   */
+  private static packString(aCode: string, aValue: Buffer, aCount: number): Buffer {
+    const length = aCount >= 0 ? aCount : aValue.length + (aCode === 'Z' ? 1 : 0);
+    const result = Buffer.alloc(length, aCode === 'A' ? 0x20 : 0);
+    // `Z` always ends with a NUL byte
+    aValue.copy(result, 0, 0, Math.min(aValue.length, aCode === 'Z' ? length - 1 : length));
+    return result;
+  }
+
+  /**
+   * Packs a hex string for the codes `h` (low nibble first) and `H` (high nibble first). Invalid hex digits are
+   * packed as 0.
+   *
+   * @private
+   */
+  private static packHex(aCode: string, aValue: Buffer, aCount: number): Buffer {
+    const text = aValue.toString('latin1');
+    const nibbles = aCount >= 0 ? Math.min(aCount, text.length) : text.length;
+    const result = Buffer.alloc(Math.floor((nibbles + 1) / 2));
+    for (let index = 0; index < nibbles; index++) {
+      const nibble = parseInt(text[index], 16) || 0;
+      const shift = (index % 2 === 0) === (aCode === 'H') ? 4 : 0;
+      result[index >> 1] |= nibble << shift;
+    }
+    return result;
+  }
+
+  /**
+   * Packs an integer or float.
+   *
+   * @private
+   */
+  private static packNumber(aCode: string, aValue: any): Buffer {
+    if (FLOAT_CODES.hasOwnProperty(aCode)) {
+      const [size, littleEndian] = FLOAT_CODES[aCode];
+      const result = Buffer.alloc(size);
+      const value = UFPhpValue.toNumber(aValue);
+      if (size === 4) {
+        littleEndian ? result.writeFloatLE(value) : result.writeFloatBE(value);
+      }
+      else {
+        littleEndian ? result.writeDoubleLE(value) : result.writeDoubleBE(value);
+      }
+      return result;
+    }
+    const [size, littleEndian] = INTEGER_CODES[aCode];
+    // php uses the lower bytes of the 64 bit integer value
+    let value = BigInt.asUintN(size * 8, UFPhpPack.toBigInt(aValue));
+    const result = Buffer.alloc(size);
+    for (let index = 0; index < size; index++) {
+      result[littleEndian ? index : size - 1 - index] = Number(value & BigInt(0xff));
+      value >>= BigInt(8);
+    }
+    return result;
+  }
+
+  /**
+   * Converts a value to a 64 bit integer like php does (values out of range wrap around).
+   *
+   * @private
+   */
+  private static toBigInt(aValue: any): bigint {
+    if (typeof aValue === 'bigint') {
+      return BigInt.asIntN(64, aValue);
+    }
+    if ((typeof aValue === 'string') && /^[ \t\n\r\v\f]*[+-]?[0-9]+[ \t\n\r\v\f]*$/.test(aValue)) {
+      return BigInt.asIntN(64, BigInt(aValue.trim()));
+    }
+    return BigInt.asIntN(64, BigInt(UFPhpValue.toInteger(aValue)));
+  }
+
+  /**
+   * Unpacks a string for the codes `a` (as is), `A` (without trailing whitespace and NUL bytes) and `Z` (up to
+   * the first NUL byte).
+   *
+   * @private
+   */
+  private static unpackString(aCode: string, aBytes: Buffer): string | Buffer {
+    let length = aBytes.length;
+    if (aCode === 'A') {
+      while ((length > 0) && [0, 0x20, 0x09, 0x0d, 0x0a].includes(aBytes[length - 1])) {
+        length--;
+      }
+    }
+    else if (aCode === 'Z') {
+      const end = aBytes.indexOf(0);
+      length = end < 0 ? length : end;
+    }
+    return UFPhpPack.decodeString(aBytes.subarray(0, length));
+  }
+
+  /**
+   * Unpacks a hex string for the codes `h` and `H`.
+   *
+   * @param {string} aCode
+   *   Format code
+   * @param {Buffer} aBytes
+   *   Remaining data
+   * @param {number} aSize
+   *   Number of bytes to use or -1 for all
+   * @param {number} aCount
+   *   Repeater of the code (number of nibbles)
+   *
+   * @private
+   */
+  private static unpackHex(aCode: string, aBytes: Buffer, aSize: number, aCount: number): string {
+    let length = aBytes.length * 2;
+    if ((aSize >= 0) && (length > aSize * 2)) {
+      length = aSize * 2;
+    }
+    if ((length > 0) && (aCount > 0)) {
+      length -= aCount % 2;
+    }
+    let result = '';
+    for (let index = 0; index < length; index++) {
+      const shift = (index % 2 === 0) === (aCode === 'H') ? 4 : 0;
+      result += ((aBytes[index >> 1] >> shift) & 0xf).toString(16);
+    }
+    return result;
+  }
+
+  /**
+   * Unpacks an integer or float.
+   *
+   * @private
+   */
+  private static unpackNumber(aCode: string, aBytes: Buffer): number | bigint {
+    if (FLOAT_CODES.hasOwnProperty(aCode)) {
+      const [size, littleEndian] = FLOAT_CODES[aCode];
+      if (size === 4) {
+        return littleEndian ? aBytes.readFloatLE() : aBytes.readFloatBE();
+      }
+      return littleEndian ? aBytes.readDoubleLE() : aBytes.readDoubleBE();
+    }
+    const [size, littleEndian, signed] = INTEGER_CODES[aCode];
+    let value = BigInt(0);
+    for (let index = 0; index < size; index++) {
+      value = (value << BigInt(8)) | BigInt(aBytes[littleEndian ? size - 1 - index : index]);
+    }
+    if (signed) {
+      value = BigInt.asIntN(size * 8, value);
+    }
+    const number = Number(value);
+    return Number.isSafeInteger(number) ? number : value;
+  }
+
+  /**
+   * Decodes bytes as UTF-8, bytes that are not valid UTF-8 are returned as Buffer.
+   *
+   * @private
+   */
+  private static decodeString(aBytes: Buffer): string | Buffer {
+    try {
+      return UTF8_DECODER.decode(aBytes);
+    } catch (error) {
+      return Buffer.from(aBytes);
+    }
+  }
+
+  // endregion
+}
+
+// endregion
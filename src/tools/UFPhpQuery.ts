@@ -0,0 +1,400 @@
+// region imports
+
+import {UFPhpArrayMode} from '../parser/UFPhpEvaluator.js';
+import {UFPhpArray, UFPhpArrayKey} from './UFPhpArray.js';
+import {UFPhpObject} from './UFPhpObject.js';
+import {UFPhpValue} from './UFPhpValue.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Default separator between entries (php `arg_separator.output` and `arg_separator.input`)
+ */
+const DEFAULT_SEPARATOR = '&';
+
+/**
+ * Default maximum number of variables (php `max_input_vars`)
+ */
+const DEFAULT_MAX_INPUT_VARS = 1000;
+
+/**
+ * Default maximum nesting of arrays (php `max_input_nesting_level`)
+ */
+const DEFAULT_MAX_INPUT_NESTING_LEVEL = 64;
+
+/**
+ * Matches the bytes that php `rawurlencode` keeps
+ */
+const RFC3986_SAFE = /[A-Za-z0-9\-_.~]/;
+
+/**
+ * Matches the bytes that php `urlencode` keeps
+ */
+const RFC1738_SAFE = /[A-Za-z0-9\-_.]/;
+
+// endregion
+
+// region types
+
+/**
+ * Encodings for {@link UFPhpQuery.build}, the values match the php `PHP_QUERY_*` constants.
+ */
+export enum UFPhpQueryEncoding {
+  /**
+   * Encode like php `urlencode`, spaces become `+`.
+   */
+  Rfc1738 = 1,
+
+  /**
+   * Encode like php `rawurlencode`, spaces become `%20`.
+   */
+  Rfc3986 = 2,
+}
+
+/**
+ * Options for {@link UFPhpQuery.build}.
+ */
+export interface IUFPhpHttpBuildQueryOptions {
+  /**
+   * Prefix for integer keys at the top level, default is no prefix
+   */
+  prefix?: string;
+
+  /**
+   * Separator between entries, default is '&'
+   */
+  separator?: string;
+
+  /**
+   * Encoding to use, default is {@link UFPhpQueryEncoding.Rfc1738}
+   */
+  encType?: UFPhpQueryEncoding;
+}
+
+/**
+ * Options for {@link UFPhpQuery.parse}.
+ */
+export interface IUFPhpParseStrOptions {
+  /**
+   * Characters that separate entries, default is '&'
+   */
+  separator?: string;
+
+  /**
+   * Maximum number of entries that are parsed, default is 1000
+   */
+  maxInputVars?: number;
+
+  /**
+   * Maximum nesting of arrays, variables that are nested deeper are ignored; default is 64
+   */
+  maxInputNestingLevel?: number;
+
+  /**
+   * How to return arrays, default is {@link UFPhpArrayMode.Native}. The result itself is always an object with
+   * {@link UFPhpArrayMode.Native}.
+   */
+  arrayMode?: UFPhpArrayMode;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpQuery} implements the php `http_build_query` and `parse_str` functions.
+ *
+ * When building, {@link UFPhpArray} instances, javascript arrays and objects become nested entries like
+ * `filter%5Bstatus%5D%5B0%5D=open`. {@link UFPhpObject} instances only use their public properties. Null values
+ * and empty arrays are skipped, booleans become '1' and '0'. Buffer instances are encoded byte by byte, strings
+ * as UTF-8.
+ *
+ * When parsing, names and values are decoded like php `urldecode`. Brackets in names create nested arrays, `[]`
+ * appends an entry. Dots and spaces in the name before the first bracket become underscores, a name with an
+ * unterminated bracket is used as plain name. Later entries replace earlier entries with the same name.
+ *
+ * @example
+ * UFPhpQuery.build({filter: {status: ['open']}}) === 'filter%5Bstatus%5D%5B0%5D=open';
+ * UFPhpQuery.parse('filter[status][]=open&a.b=1') // {filter: {status: ['open']}, a_b: '1'}
+ */
+export class UFPhpQuery {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpQuery}; all methods are static.
+   *
+   * @private
+   */
+  private constructor() {
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Builds a query string like php `http_build_query` does.
+   *
+   * @param {any} aData
+   *   Object, array, {@link UFPhpArray} or {@link UFPhpObject} with the entries
+   * @param {IUFPhpHttpBuildQueryOptions} anOptions
+   *   Options to use
+   *
+   * @return {string} query string
+   *
+   * @throws {Error} when the data is not an array or object
+   */
+  static build(aData: any, anOptions: IUFPhpHttpBuildQueryOptions = {}): string {
+    const entries = UFPhpQuery.getEntries(aData);
+    if (!entries) {
+      throw new Error('Argument #1 ($data) must be of type array or object');
+    }
+    const parts: string[] = [];
+    const encType = anOptions.encType || UFPhpQueryEncoding.Rfc1738;
+    entries.forEach(([key, value]) => {
+      const name = typeof key === 'number' ? (anOptions.prefix || '') + key : UFPhpQuery.encode(key, encType);
+      UFPhpQuery.buildEntry(parts, name, value, encType, new Set([aData]));
+    });
+    return parts.join(anOptions.separator === undefined ? DEFAULT_SEPARATOR : anOptions.separator);
+  }
+
+  /**
+   * Parses a query string like php `parse_str` does.
+   *
+   * @param {string} aQuery
+   *   Query string (without the leading `?`)
+   * @param {IUFPhpParseStrOptions} anOptions
+   *   Options to use
+   *
+   * @return {any} object with the variables (or {@link UFPhpArray} with {@link UFPhpArrayMode.PhpArray})
+   */
+  static parse(aQuery: string, anOptions: IUFPhpParseStrOptions = {}): any {
+    const result = new UFPhpArray();
+    const separators = anOptions.separator || DEFAULT_SEPARATOR;
+    const maxInputVars = anOptions.maxInputVars === undefined ? DEFAULT_MAX_INPUT_VARS : anOptions.maxInputVars;
+    let count = 0;
+    for (const pair of aQuery.split(new RegExp('[' + separators.replace(/[\\\]^-]/g, '\\$&') + ']'))) {
+      if (!pair.length) {
+        continue;
+      }
+      if (++count > maxInputVars) {
+        break;
+      }
+      const separator = pair.indexOf('=');
+      const name = UFPhpQuery.decode(separator < 0 ? pair : pair.substring(0, separator));
+      const value = separator < 0 ? '' : UFPhpQuery.decode(pair.substring(separator + 1));
+      if (name.length) {
+        UFPhpQuery.register(result, name, value, anOptions);
+      }
+    }
+    if (anOptions.arrayMode === UFPhpArrayMode.PhpArray) {
+      return result;
+    }
+    // the result is always an object, even if the names happen to form a list
+    const variables: { [name: string]: any } = {};
+    result.forEach((value, name) => variables[name] = value instanceof UFPhpArray ? value.toNative() : value);
+    return variables;
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Gets the entries of an array or object, returns null for other values.
+   *
+   * @private
+   */
+  private static getEntries(aValue: any): [UFPhpArrayKey, any][] | null {
+    if (aValue instanceof UFPhpObject) {
+      // skip protected and private properties
+      return Array.from(aValue.properties.entries())
+        .filter(([key]) => (typeof key === 'number') || !key.startsWith('\0'));
+    }
+    if ((aValue === null) || (typeof aValue !== 'object') || Buffer.isBuffer(aValue)) {
+      return null;
+    }
+    if ((aValue instanceof UFPhpArray) || Array.isArray(aValue)) {
+      return Array.from(aValue.entries());
+    }
+    return Object.keys(aValue).map(key => [UFPhpArray.normalizeKey(key), aValue[key]]);
+  }
+
+  /**
+   * Adds the parts for an entry; arrays and objects add an entry for every element.
+   *
+   * @param {string[]} aParts
+   *   Parts to add to
+   * @param {string} aName
+   *   Encoded name of the entry
+   * @param {any} aValue
+   *   Value of the entry
+   * @param {UFPhpQueryEncoding} anEncType
+   *   Encoding to use
+   * @param {Set<any>} aParents
+   *   Arrays and objects being processed (used to skip recursive references)
+   *
+   * @private
+   */
+  private static buildEntry(
+    aParts: string[], aName: string, aValue: any, anEncType: UFPhpQueryEncoding, aParents: Set<any>
+  ): void {
+    const entries = UFPhpQuery.getEntries(aValue);
+    if (entries) {
+      if (aParents.has(aValue)) {
+        return;
+      }
+      aParents.add(aValue);
+      entries.forEach(([key, value]) => UFPhpQuery.buildEntry(
+        aParts, aName + '%5B' + UFPhpQuery.encode(String(key), anEncType) + '%5D', value, anEncType, aParents
+      ));
+      aParents.delete(aValue);
+      return;
+    }
+    let text: string | Buffer;
+    switch (typeof aValue) {
+      case 'boolean':
+        text = aValue ? '1' : '0';
+        break;
+      case 'number':
+        text = Number.isSafeInteger(aValue) ? String(aValue) : UFPhpValue.formatFloat(aValue, -1);
+        break;
+      case 'bigint':
+        text = String(aValue);
+        break;
+      case 'string':
+        text = aValue;
+        break;
+      default:
+        if (!Buffer.isBuffer(aValue)) {
+          return;
+        }
+        text = aValue;
+    }
+    aParts.push(aName + '=' + UFPhpQuery.encode(text, anEncType));
+  }
+
+  /**
+   * Encodes text like php `urlencode` or `rawurlencode`.
+   *
+   * @private
+   */
+  private static encode(aText: string | Buffer, anEncType: UFPhpQueryEncoding): string {
+    const safe = anEncType === UFPhpQueryEncoding.Rfc3986 ? RFC3986_SAFE : RFC1738_SAFE;
+    let result = '';
+    for (const byte of Buffer.isBuffer(aText) ? aText : Buffer.from(aText, 'utf8')) {
+      const char = String.fromCharCode(byte);
+      if (safe.test(char)) {
+        result += char;
+      }
+      else if ((byte === 0x20) && (anEncType !== UFPhpQueryEncoding.Rfc3986)) {
+        result += '+';
+      }
+      else {
+        result += '%' + byte.toString(16).toUpperCase().padStart(2, '0');
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decodes text like php `urldecode`, invalid escapes are kept as they are.
+   *
+   * @private
+   */
+  private static decode(aText: string): string {
+    const bytes: number[] = [];
+    for (let index = 0; index < aText.length; index++) {
+      const char = aText[index];
+      if (char === '+') {
+        bytes.push(0x20);
+      }
+      else if ((char === '%') && /^[0-9a-fA-F]{2}$/.test(aText.substring(index + 1, index + 3))) {
+        bytes.push(parseInt(aText.substring(index + 1, index + 3), 16));
+        index += 2;
+      }
+      else {
+        bytes.push(...Buffer.from(char, 'utf8'));
+      }
+    }
+    return Buffer.from(bytes).toString('utf8');
+  }
+
+  /**
+   * Stores a variable using the rules of php `php_register_variable_ex`.
+   *
+   * @param {UFPhpArray} aVariables
+   *   Variables to store in
+   * @param {string} aName
+   *   Decoded name, may contain brackets
+   * @param {string} aValue
+   *   Decoded value
+   * @param {IUFPhpParseStrOptions} anOptions
+   *   Options to use
+   *
+   * @private
+   */
+  private static register(
+    aVariables: UFPhpArray, aName: string, aValue: string, anOptions: IUFPhpParseStrOptions
+  ): void {
+    // php uses null terminated strings for the name and ignores leading spaces
+    let name = aName.split('\0')[0].replace(/^ +/, '');
+    const bracket = name.indexOf('[');
+    let rest = bracket < 0 ? '' : name.substring(bracket);
+    name = (bracket < 0 ? name : name.substring(0, bracket)).replace(/[ .]/g, '_');
+    if (!name.length) {
+      return;
+    }
+    const maxLevel = anOptions.maxInputNestingLevel === undefined
+      ? DEFAULT_MAX_INPUT_NESTING_LEVEL
+      : anOptions.maxInputNestingLevel;
+    const indexes: (string | null)[] = [];
+    while (rest.startsWith('[')) {
+      if (indexes.length >= maxLevel) {
+        // too many levels of nesting, php removes the variable
+        aVariables.delete(name);
+        return;
+      }
+      // php skips one space after the bracket to check for an empty index, but keeps it in other indexes
+      const start = rest[1] === ' ' ? 2 : 1;
+      const end = rest.indexOf(']', start);
+      if (end < 0) {
+        if (!indexes.length) {
+          // not an index, the bracket and the rest becomes part of the name
+          name += '_' + rest.substring(1).replace(/[ .[]/g, '_');
+        }
+        break;
+      }
+      indexes.push(end === start ? null : rest.substring(1, end));
+      rest = rest.substring(end + 1);
+    }
+    let target = aVariables;
+    let key: string | null = name;
+    for (const index of indexes) {
+      let array = key === null ? undefined : target.get(key);
+      if (!(array instanceof UFPhpArray)) {
+        array = new UFPhpArray();
+        if (key === null) {
+          target.push(array);
+        }
+        else {
+          target.set(key, array);
+        }
+      }
+      target = array;
+      key = index;
+    }
+    if (key === null) {
+      target.push(aValue);
+    }
+    else {
+      target.set(key, aValue);
+    }
+  }
+
+  // endregion
+}
+
+// endregion
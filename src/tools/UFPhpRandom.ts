@@ -0,0 +1,483 @@
+// region imports
+
+import {randomBytes} from 'crypto';
+import {UFPhpArray, UFPhpArrayKey} from './UFPhpArray.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Length of the state vector
+ */
+const STATE_SIZE = 624;
+
+/**
+ * Period parameter of the Mersenne Twister
+ */
+const PERIOD = 397;
+
+/**
+ * Largest value {@link UFPhpRandom.mtRand} returns without range (php `mt_getrandmax`)
+ */
+const MAX_RAND = 0x7fffffff;
+
+/**
+ * Largest unsigned 32 bit integer
+ */
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Largest unsigned 64 bit integer
+ */
+const MAX_UINT64 = BigInt('0xffffffffffffffff');
+
+// endregion
+
+// region types
+
+/**
+ * Modes of {@link UFPhpRandom}, the values match the php `MT_RAND_*` constants.
+ */
+export enum UFPhpMtRandMode {
+  /**
+   * The correct Mersenne Twister implementation (php `MT_RAND_MT19937`, the default since php 7.1).
+   */
+  Mt19937 = 0,
+
+  /**
+   * The incorrect Mersenne Twister implementation of php 5.2.1 to 7.0 and its biased range scaling for
+   * {@link UFPhpRandom.mtRand} and {@link UFPhpRandom.rand} (php `MT_RAND_PHP`).
+   */
+  Php = 1,
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpRandom} implements the php Mersenne Twister (`mt_srand`, `mt_rand`, `rand`) and the functions that
+ * are built on it (`shuffle`, `str_shuffle` and `array_rand`). Seeded with the same value, it returns the same
+ * sequences as php 7.1 and later does.
+ *
+ * Every instance has its own state; php uses one state per process.
+ *
+ * @example
+ * const random = new UFPhpRandom(1);
+ * random.mtRand() // 895547922
+ * random.mtRand(1, 6)
+ */
+export class UFPhpRandom {
+  // region private variables
+
+  /**
+   * State vector
+   *
+   * @private
+   */
+  private readonly m_state: number[] = new Array(STATE_SIZE).fill(0);
+
+  /**
+   * Index of the next value in the state vector
+   *
+   * @private
+   */
+  private m_next: number = 0;
+
+  /**
+   * Number of values left in the state vector
+   *
+   * @private
+   */
+  private m_left: number = 0;
+
+  /**
+   * Current mode
+   *
+   * @private
+   */
+  private m_mode: UFPhpMtRandMode = UFPhpMtRandMode.Mt19937;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpRandom}.
+   *
+   * @param {number} aSeed
+   *   Seed to use, when missing a random seed is used
+   * @param {UFPhpMtRandMode} aMode
+   *   Mode to use
+   */
+  constructor(aSeed?: number, aMode: UFPhpMtRandMode = UFPhpMtRandMode.Mt19937) {
+    this.seed(aSeed, aMode);
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Mode used by the generator.
+   */
+  get mode(): UFPhpMtRandMode {
+    return this.m_mode;
+  }
+
+  /**
+   * Seeds the generator like php `mt_srand` does. Only the lower 32 bits of the seed are used.
+   *
+   * @param {number} aSeed
+   *   Seed to use, when missing a random seed is used
+   * @param {UFPhpMtRandMode} aMode
+   *   Mode to use
+   */
+  seed(aSeed?: number, aMode: UFPhpMtRandMode = UFPhpMtRandMode.Mt19937): void {
+    this.m_mode = aMode === UFPhpMtRandMode.Php ? UFPhpMtRandMode.Php : UFPhpMtRandMode.Mt19937;
+    const seed = aSeed === undefined ? randomBytes(4).readUInt32LE(0) : Math.trunc(aSeed) >>> 0;
+    this.m_state[0] = seed;
+    for (let index = 1; index < STATE_SIZE; index++) {
+      const previous = this.m_state[index - 1];
+      this.m_state[index] = (Math.imul(1812433253, previous ^ (previous >>> 30)) + index) >>> 0;
+    }
+    this.reload();
+  }
+
+  /**
+   * Gets the next unsigned 32 bit value (php `php_mt_rand`).
+   *
+   * @return {number} value between 0 and 0xffffffff
+   */
+  next(): number {
+    if (this.m_left === 0) {
+      this.reload();
+    }
+    this.m_left--;
+    let value = this.m_state[this.m_next++];
+    value ^= value >>> 11;
+    value ^= (value << 7) & 0x9d2c5680;
+    value ^= (value << 15) & 0xefc60000;
+    return (value ^ (value >>> 18)) >>> 0;
+  }
+
+  /**
+   * Gets a random integer like php `mt_rand` does. Without range, the value is between 0 and
+   * {@link getRandMax}.
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @throws {Error} when only one limit is specified or the maximum is smaller than the minimum
+   */
+  mtRand(aMin?: number, aMax?: number): number {
+    if ((aMin === undefined) && (aMax === undefined)) {
+      return this.next() >>> 1;
+    }
+    if ((aMin === undefined) || (aMax === undefined)) {
+      throw new Error('mt_rand() expects exactly 2 arguments, 1 given');
+    }
+    if (aMax < aMin) {
+      throw new Error('mt_rand(): Argument #2 ($max) must be greater than or equal to argument #1 ($min)');
+    }
+    return this.common(aMin, aMax);
+  }
+
+  /**
+   * Gets a random integer like php `rand` does; unlike {@link mtRand}, the limits may be swapped.
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @throws {Error} when only one limit is specified
+   */
+  rand(aMin?: number, aMax?: number): number {
+    if ((aMin === undefined) && (aMax === undefined)) {
+      return this.next() >>> 1;
+    }
+    if ((aMin === undefined) || (aMax === undefined)) {
+      throw new Error('rand() expects exactly 2 arguments, 1 given');
+    }
+    return aMax < aMin ? this.common(aMax, aMin) : this.common(aMin, aMax);
+  }
+
+  /**
+   * Gets a random integer in a range without bias (php `php_mt_rand_range`). This is used by {@link mtRand} in
+   * {@link UFPhpMtRandMode.Mt19937} mode and by {@link shuffle}, {@link strShuffle} and {@link arrayRand} in
+   * both modes. Ranges of more than 32 bits use two values.
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   */
+  range(aMin: number, aMax: number): number {
+    const min = BigInt(Math.trunc(aMin));
+    const umax = BigInt.asUintN(64, BigInt(Math.trunc(aMax)) - min);
+    const result = umax > BigInt(MAX_UINT32) ? this.range64(umax) : BigInt(this.range32(Number(umax)));
+    return Number(BigInt.asIntN(64, min + result));
+  }
+
+  /**
+   * Shuffles an array like php `shuffle` does.
+   *
+   * @param {T[]} anArray
+   *   Array to shuffle, it is changed
+   *
+   * @return {T[]} the array
+   */
+  shuffle<T>(anArray: T[]): T[] {
+    for (let left = anArray.length - 1; left > 0; left--) {
+      const index = this.range(0, left);
+      if (index !== left) {
+        [anArray[left], anArray[index]] = [anArray[index], anArray[left]];
+      }
+    }
+    return anArray;
+  }
+
+  /**
+   * Shuffles the bytes of a text like php `str_shuffle` does. Like in php, multibyte characters are not kept
+   * together, use a Buffer to get the shuffled bytes unchanged.
+   *
+   * @param {string|Buffer} aText
+   *   Text to shuffle
+   *
+   * @return {string|Buffer} shuffled text (a Buffer when a Buffer was passed)
+   */
+  strShuffle(aText: string): string;
+  strShuffle(aText: Buffer): Buffer;
+  strShuffle(aText: string | Buffer): string | Buffer {
+    const bytes = Buffer.from(aText);
+    for (let left = bytes.length - 1; left > 0; left--) {
+      const index = this.range(0, left);
+      if (index !== left) {
+        [bytes[left], bytes[index]] = [bytes[index], bytes[left]];
+      }
+    }
+    return Buffer.isBuffer(aText) ? bytes : bytes.toString();
+  }
+
+  /**
+   * Picks random keys like php `array_rand` does. The result matches php for arrays without removed entries
+   * (php also samples the unused slots of its hash table).
+   *
+   * @param {any[]|UFPhpArray|object} anArray
+   *   Array to pick keys from, object keys are converted like php converts array keys
+   * @param {number} aCount
+   *   Number of keys to pick
+   *
+   * @return {UFPhpArrayKey|UFPhpArrayKey[]} a key when picking one key, else a list of keys in array order
+   *
+   * @throws {Error} when the array is empty or the count is out of range
+   */
+  arrayRand(
+    anArray: any[] | UFPhpArray | { [key: string]: any }, aCount: number = 1
+  ): UFPhpArrayKey | UFPhpArrayKey[] {
+    const keys: UFPhpArrayKey[] = Array.isArray(anArray)
+      ? Array.from(anArray.keys())
+      : anArray instanceof UFPhpArray
+        ? Array.from(anArray.keys())
+        : Object.keys(anArray).map(key => UFPhpArray.normalizeKey(key));
+    if (!keys.length) {
+      throw new Error('array_rand(): Argument #1 ($array) cannot be empty');
+    }
+    if (aCount === 1) {
+      return keys[this.range(0, keys.length - 1)];
+    }
+    if ((aCount <= 0) || (aCount > keys.length)) {
+      throw new Error(
+        'array_rand(): Argument #2 ($num) must be between 1 and the number of elements in argument #1 ($array)'
+      );
+    }
+    // php picks the keys to skip when more than half of the keys are requested
+    const negative = aCount > (keys.length >> 1);
+    const picked = new Set<number>();
+    for (let count = negative ? keys.length - aCount : aCount; count > 0;) {
+      const index = this.range(0, keys.length - 1);
+      if (!picked.has(index)) {
+        picked.add(index);
+        count--;
+      }
+    }
+    return keys.filter((key, index) => picked.has(index) !== negative);
+  }
+
+  /**
+   * Gets the largest value {@link mtRand} and {@link rand} return without range (php `mt_getrandmax`).
+   *
+   * @return {number} 2147483647
+   */
+  getRandMax(): number {
+    return MAX_RAND;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Generates a new state vector (php `php_mt_reload`).
+   *
+   * @private
+   */
+  private reload(): void {
+    const state = this.m_state;
+    const twist = this.m_mode === UFPhpMtRandMode.Php ? UFPhpRandom.twistPhp : UFPhpRandom.twist;
+    let index = 0;
+    for (; index < STATE_SIZE - PERIOD; index++) {
+      state[index] = twist(state[index + PERIOD], state[index], state[index + 1]);
+    }
+    for (; index < STATE_SIZE - 1; index++) {
+      state[index] = twist(state[index + PERIOD - STATE_SIZE], state[index], state[index + 1]);
+    }
+    state[index] = twist(state[index + PERIOD - STATE_SIZE], state[index], state[0]);
+    this.m_left = STATE_SIZE;
+    this.m_next = 0;
+  }
+
+  /**
+   * Gets a random integer for {@link mtRand} and {@link rand} (php `php_mt_rand_common`).
+   *
+   * @param {number} aMin
+   *   Smallest value
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @private
+   */
+  private common(aMin: number, aMax: number): number {
+    if (this.m_mode === UFPhpMtRandMode.Mt19937) {
+      return this.range(aMin, aMax);
+    }
+    // php RAND_RANGE_BADSCALING, kept for compatibility with php 7.0 and older
+    const min = Math.trunc(aMin);
+    const value = this.next() >>> 1;
+    return min + Math.trunc((Math.trunc(aMax) - min + 1.0) * (value / (MAX_RAND + 1.0)));
+  }
+
+  /**
+   * Gets a random integer between 0 and a maximum of at most 32 bits (php `rand_range32`).
+   *
+   * @param {number} aMax
+   *   Largest value
+   *
+   * @return {number} random integer
+   *
+   * @private
+   */
+  private range32(aMax: number): number {
+    let result = this.next();
+    if (aMax === MAX_UINT32) {
+      return result;
+    }
+    const size = aMax + 1;
+    // powers of two are not biased
+    if ((size & aMax) === 0) {
+      return result & aMax;
+    }
+    const limit = MAX_UINT32 - (MAX_UINT32 % size) - 1;
+    while (result > limit) {
+      result = this.next();
+    }
+    return result % size;
+  }
+
+  /**
+   * Gets a random integer between 0 and a maximum of more than 32 bits (php `rand_range64`).
+   *
+   * @param {bigint} aMax
+   *   Largest value
+   *
+   * @return {bigint} random integer
+   *
+   * @private
+   */
+  private range64(aMax: bigint): bigint {
+    let result = this.next64();
+    if (aMax === MAX_UINT64) {
+      return result;
+    }
+    const size = aMax + BigInt(1);
+    if ((size & aMax) === BigInt(0)) {
+      return result & aMax;
+    }
+    const limit = MAX_UINT64 - (MAX_UINT64 % size) - BigInt(1);
+    while (result > limit) {
+      result = this.next64();
+    }
+    return result % size;
+  }
+
+  /**
+   * Gets an unsigned 64 bit value from two values, the first value is used for the upper 32 bits.
+   *
+   * @return {bigint} random value
+   *
+   * @private
+   */
+  private next64(): bigint {
+    const high = BigInt(this.next());
+    return (high << BigInt(32)) | BigInt(this.next());
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Calculates a new state value (php `twist`).
+   *
+   * @param {number} aDistant
+   *   State value at the period distance
+   * @param {number} aCurrent
+   *   Current state value
+   * @param {number} aNext
+   *   Next state value
+   *
+   * @return {number} new state value
+   *
+   * @private
+   */
+  private static twist(aDistant: number, aCurrent: number, aNext: number): number {
+    const mixed = ((aCurrent & 0x80000000) | (aNext & 0x7fffffff)) >>> 1;
+    return (aDistant ^ mixed ^ (aNext & 1 ? 0x9908b0df : 0)) >>> 0;
+  }
+
+  /**
+   * Calculates a new state value the incorrect way php 5.2.1 to 7.0 did (php `twist_php`): the lowest bit of the
+   * current value is used instead of the lowest bit of the next value.
+   *
+   * @param {number} aDistant
+   *   State value at the period distance
+   * @param {number} aCurrent
+   *   Current state value
+   * @param {number} aNext
+   *   Next state value
+   *
+   * @return {number} new state value
+   *
+   * @private
+   */
+  private static twistPhp(aDistant: number, aCurrent: number, aNext: number): number {
+    const mixed = ((aCurrent & 0x80000000) | (aNext & 0x7fffffff)) >>> 1;
+    return (aDistant ^ mixed ^ (aCurrent & 1 ? 0x9908b0df : 0)) >>> 0;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,1823 @@
+// region imports
+
+import {UFPhpArray} from './UFPhpArray.js';
+import {UFPhpRegExpError} from './UFPhpRegExpError.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Delimiters that use a different ending delimiter
+ */
+const BRACKET_DELIMITERS: { [start: string]: string } = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '<': '>',
+};
+
+/**
+ * Characters that are escaped when used as literal outside a character class
+ */
+const SYNTAX_CHARACTERS = '^$\\.*+?()[]{}|/';
+
+/**
+ * Characters that are escaped when used as literal inside a character class
+ */
+const CLASS_SYNTAX_CHARACTERS = '\\]-[^';
+
+/**
+ * Horizontal white space (pcre `\h`)
+ */
+const HORIZONTAL_SPACE = '\\t \\xa0\\u1680\\u180e\\u2000-\\u200a\\u202f\\u205f\\u3000';
+
+/**
+ * Vertical white space (pcre `\v`)
+ */
+const VERTICAL_SPACE = '\\n\\v\\f\\r\\x85\\u2028\\u2029';
+
+/**
+ * Contents of a character class for the pcre escapes and posix classes without unicode properties
+ */
+const ASCII_SETS: { [name: string]: string } = {
+  'd': '0-9',
+  'w': 'a-zA-Z0-9_',
+  's': '\\t\\n\\v\\f\\r ',
+  'h': HORIZONTAL_SPACE,
+  'v': VERTICAL_SPACE,
+  'n': '\\n',
+  'alnum': 'a-zA-Z0-9',
+  'alpha': 'a-zA-Z',
+  'ascii': '\\x00-\\x7f',
+  'blank': ' \\t',
+  'cntrl': '\\x00-\\x1f\\x7f',
+  'digit': '0-9',
+  'graph': '!-~',
+  'lower': 'a-z',
+  'print': ' -~',
+  'punct': '!-\\/:-@\\[-`{-~',
+  'space': '\\t\\n\\v\\f\\r ',
+  'upper': 'A-Z',
+  'word': 'a-zA-Z0-9_',
+  'xdigit': '0-9A-Fa-f',
+};
+
+/**
+ * Contents of a character class that differ when unicode properties are used (php enables them with the `u`
+ * modifier)
+ */
+const UNICODE_SETS: { [name: string]: string } = {
+  'd': '\\p{Nd}',
+  'w': '\\p{L}\\p{N}_',
+  's': '\\p{Z}\\t\\n\\v\\f\\r\\x85',
+  'alnum': '\\p{L}\\p{N}',
+  'alpha': '\\p{L}',
+  'blank': HORIZONTAL_SPACE,
+  'digit': '\\p{Nd}',
+  'lower': '\\p{Ll}',
+  'space': '\\p{Z}\\t\\n\\v\\f\\r\\x85',
+  'upper': '\\p{Lu}',
+  'word': '\\p{L}\\p{N}_',
+};
+
+/**
+ * Contents of a character class for negated escapes without unicode properties; other negated escapes can only
+ * be converted when they are the only item in a character class.
+ */
+const ASCII_NEGATED_SETS: { [name: string]: string } = {
+  'd': '\\D',
+  'w': '\\W',
+  // javascript \S also excludes unicode white space, which pcre \S includes
+  's': '\\S\\xa0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000\\ufeff',
+};
+
+/**
+ * Contents of a character class for negated escapes with unicode properties
+ */
+const UNICODE_NEGATED_SETS: { [name: string]: string } = {
+  'd': '\\P{Nd}',
+};
+
+/**
+ * Unicode properties pcre supports that have no javascript equivalent mapped to the contents of a character class
+ */
+const SPECIAL_PROPERTIES: { [name: string]: string } = {
+  'Any': '\\s\\S',
+  'L&': '\\p{Lu}\\p{Ll}\\p{Lt}',
+  'Xan': '\\p{L}\\p{N}',
+  'Xps': '\\p{Z}\\t\\n\\v\\f\\r',
+  'Xsp': '\\p{Z}\\t\\n\\v\\f\\r',
+  'Xwd': '\\p{L}\\p{N}_',
+};
+
+/**
+ * Unicode general categories, other property names are scripts
+ */
+const GENERAL_CATEGORIES = new Set([
+  'C', 'Cc', 'Cf', 'Cn', 'Co', 'Cs', 'L', 'Ll', 'Lm', 'Lo', 'Lt', 'Lu', 'M', 'Mc', 'Me', 'Mn', 'N', 'Nd', 'Nl',
+  'No', 'P', 'Pc', 'Pd', 'Pe', 'Pf', 'Pi', 'Po', 'Ps', 'S', 'Sc', 'Sk', 'Sm', 'So', 'Z', 'Zl', 'Zp', 'Zs',
+]);
+
+/**
+ * Word character when unicode properties are used
+ */
+const UNICODE_WORD = '[\\p{L}\\p{N}_]';
+
+/**
+ * Options at the start of a pattern, like `(*UTF8)`
+ */
+const START_OPTION = /\(\*(UTF8?|UCP|NO_[A-Z_]+|LIMIT_[A-Z_]+=\d+)\)/y;
+
+/**
+ * A quantifier with braces
+ */
+const BRACE_QUANTIFIER = /\{(\d+)(?:,(\d*))?\}/y;
+
+/**
+ * A group name
+ */
+const GROUP_NAME = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+/**
+ * Inline option setting, like `(?i)`, `(?s-m:` or `(?^x)`
+ */
+const INLINE_OPTIONS = /(\^)?([a-zA-Z]*)(?:-([a-zA-Z]*))?([:)])/y;
+
+/**
+ * A posix class inside a character class
+ */
+const POSIX_CLASS = /\[:(\^?)([a-z]+):\]/y;
+
+/**
+ * Inline option settings that turn off case-insensitive matching
+ */
+const CASE_SENSITIVE_OPTION = /\(\?[a-zA-Z]*-[a-zA-Z]*i|\(\?\^/;
+
+/**
+ * Inline option setting at the start of a pattern that turns on case-insensitive matching
+ */
+const CASE_INSENSITIVE_START = /^\(\?[a-zA-Z]*i[a-zA-Z]*\)/;
+
+/**
+ * Maximum number of converted patterns {@link UFPhpRegExp.from} keeps (same as the php pcre cache)
+ */
+const CACHE_SIZE = 4096;
+
+/**
+ * Converted patterns used by {@link UFPhpRegExp.from}
+ */
+const CACHE = new Map<string, UFPhpRegExp>();
+
+// endregion
+
+// region local types
+
+/**
+ * Options that can change inside a pattern
+ */
+interface IRegExpOptions {
+  i: boolean;
+  m: boolean;
+  n: boolean;
+  s: boolean;
+  x: boolean;
+  J: boolean;
+  U: boolean;
+}
+
+/**
+ * Start of a capturing group, the number in javascript is determined once the whole pattern has been converted.
+ */
+interface IGroupToken {
+  /**
+   * 'p' followed by the pcre group number, or 'e' followed by a number for groups used to emulate atomic groups
+   */
+  readonly group: string;
+
+  /**
+   * Name of the group or null
+   */
+  readonly name: string | null;
+}
+
+/**
+ * Back reference to a capturing group
+ */
+interface IReferenceToken {
+  /**
+   * Group key (see {@link IGroupToken.group}) or 'n' followed by the group name
+   */
+  readonly reference: string;
+
+  /**
+   * Offset in the pattern
+   */
+  readonly position: number;
+}
+
+/**
+ * Part of the converted pattern
+ */
+type RegExpToken = string | IGroupToken | IReferenceToken;
+
+/**
+ * Set of characters, like `\d` or `[:alpha:]`
+ */
+interface IRegExpSet {
+  /**
+   * Contents for a character class
+   */
+  readonly content: string;
+
+  /**
+   * True if the set matches all characters not in content
+   */
+  readonly negated: boolean;
+
+  /**
+   * Contents to use inside another character class or null if the negated set can not be combined
+   */
+  readonly classContent: string | null;
+}
+
+/**
+ * Match result with the indices of the groups (`d` flag)
+ */
+type RegExpMatchWithIndices = RegExpExecArray & { indices: ([number, number] | undefined)[] };
+
+// endregion
+
+// region types
+
+/**
+ * Flags for {@link UFPhpRegExp.match}, the values match the php `PREG_*` constants.
+ */
+export enum UFPhpPregFlag {
+  /**
+   * Every entry is an array with the matched text and its byte offset in the subject.
+   */
+  OffsetCapture = 256,
+
+  /**
+   * Groups that did not match are null (instead of an empty string) and are always included.
+   */
+  UnmatchedAsNull = 512,
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpRegExp} converts a pcre pattern as used by the php `preg_*` functions into a javascript
+ * {@link RegExp} and implements `preg_match` and `preg_replace` with it.
+ *
+ * The conversion supports any delimiter, the modifiers `i`, `m`, `s`, `u`, `x` (white space and comments are
+ * removed), `U` (quantifiers are lazy by default), `D`, `A` and `n`, inline option settings, named groups in all
+ * pcre notations, back references in all notations, `\Q...\E`, posix classes and the pcre escapes (`\h`, `\v`,
+ * `\R`, `\A`, `\z`, `\Z`, `\x{...}`, `\o{...}`, ...). Atomic groups and possessive quantifiers are emulated with
+ * a capturing group inside a lookahead followed by a back reference; the extra groups are hidden from the match
+ * results. `.`, `^`, `$`, `\s` and `\w` are translated so they match the same characters as with pcre (for
+ * example `$` also matches before a final newline unless the `D` modifier is used).
+ *
+ * Constructs that can not be expressed, like recursion, subroutine calls, conditional groups, branch reset
+ * groups, backtracking verbs, `\K` and `\X`, result in a {@link UFPhpRegExpError}.
+ *
+ * Offsets are byte offsets in the UTF-8 encoded subject, like php uses.
+ *
+ * @example
+ * // {0: '/API/v2/', ver: 'v2', 1: 'v2'}
+ * UFPhpRegExp.from('#^/api/(?P<ver>v\\d+)/#iu').match('/API/v2/users')?.toNative()
+ */
+export class UFPhpRegExp {
+  // region public variables
+
+  /**
+   * The pcre pattern including delimiters and modifiers
+   */
+  readonly pattern: string;
+
+  /**
+   * The converted regular expression; it contains the `y` flag when the pattern is anchored.
+   */
+  readonly regExp: RegExp;
+
+  // endregion
+
+  // region private variables
+
+  /**
+   * Pattern between the delimiters
+   *
+   * @private
+   */
+  private readonly m_source: string;
+
+  /**
+   * Current offset in the pattern while converting
+   *
+   * @private
+   */
+  private m_position: number = 0;
+
+  /**
+   * Offset of the first item after the options at the start of the pattern
+   *
+   * @private
+   */
+  private m_start: number = 0;
+
+  /**
+   * Number of pcre capturing groups in the whole pattern (used to distinguish back references from octal
+   * escapes)
+   *
+   * @private
+   */
+  private m_totalGroupCount: number = 0;
+
+  /**
+   * Number of pcre capturing groups converted so far
+   *
+   * @private
+   */
+  private m_groupCount: number = 0;
+
+  /**
+   * Number of groups added to emulate atomic groups
+   *
+   * @private
+   */
+  private m_emulatedCount: number = 0;
+
+  /**
+   * Names of the pcre groups (index is the group number), null for groups without name
+   *
+   * @private
+   */
+  private m_groupNames: (string | null)[] = [null];
+
+  /**
+   * Javascript group index for every pcre group number
+   *
+   * @private
+   */
+  private m_groupIndexes: number[] = [0];
+
+  /**
+   * True if the pattern is converted for javascript unicode mode
+   *
+   * @private
+   */
+  private m_unicode: boolean = false;
+
+  /**
+   * True if escapes and posix classes use unicode properties
+   *
+   * @private
+   */
+  private m_unicodeProperties: boolean = false;
+
+  /**
+   * True if the converted pattern uses the javascript `i` flag; parts that are case-insensitive while the flag is
+   * not used are converted to character classes with both cases
+   *
+   * @private
+   */
+  private m_ignoreCase: boolean = false;
+
+  /**
+   * True if `$` only matches at the end of the subject (`D` modifier)
+   *
+   * @private
+   */
+  private m_dollarEndOnly: boolean = false;
+
+  /**
+   * True if a match must start at the offset (`A` modifier or `\G` at the start)
+   *
+   * @private
+   */
+  private m_anchored: boolean = false;
+
+  /**
+   * Copy of {@link regExp} with the `g` and `d` flags used to match
+   *
+   * @private
+   */
+  private readonly m_matcher: RegExp;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpRegExp}. Use {@link from} to reuse converted patterns.
+   *
+   * @param {string} aPattern
+   *   Pcre pattern with delimiters and modifiers
+   *
+   * @throws {UFPhpRegExpError} when the pattern is invalid or can not be converted
+   */
+  constructor(aPattern: string) {
+    this.pattern = aPattern;
+    let start = 0;
+    while ((start < aPattern.length) && ' \t\n\v\f\r'.includes(aPattern[start])) {
+      start++;
+    }
+    if (start >= aPattern.length) {
+      this.fail('Empty regular expression', -1);
+    }
+    const startDelimiter = aPattern[start];
+    if (/[a-zA-Z0-9\\\0]/.test(startDelimiter)) {
+      this.fail('Delimiter must not be alphanumeric, backslash, or NUL byte', -1);
+    }
+    const endDelimiter = BRACKET_DELIMITERS[startDelimiter] || startDelimiter;
+    let end = start + 1;
+    let depth = 1;
+    while (end < aPattern.length) {
+      const char = aPattern[end];
+      if ((char === '\\') && (end + 1 < aPattern.length)) {
+        end++;
+      }
+      else if ((char === endDelimiter) && (--depth <= 0)) {
+        break;
+      }
+      else if (char === startDelimiter) {
+        depth++;
+      }
+      end++;
+    }
+    if (end >= aPattern.length) {
+      this.fail(
+        startDelimiter === endDelimiter
+          ? 'No ending delimiter \'' + endDelimiter + '\' found'
+          : 'No ending matching delimiter \'' + endDelimiter + '\' found',
+        -1
+      );
+    }
+    this.m_source = aPattern.substring(start + 1, end);
+    const options: IRegExpOptions = {i: false, m: false, n: false, s: false, x: false, J: false, U: false};
+    for (const modifier of aPattern.substring(end + 1)) {
+      switch (modifier) {
+        case 'i':
+        case 'm':
+        case 'n':
+        case 's':
+        case 'x':
+        case 'J':
+        case 'U':
+          options[modifier] = true;
+          break;
+        case 'u':
+          this.m_unicode = true;
+          this.m_unicodeProperties = true;
+          break;
+        case 'A':
+          this.m_anchored = true;
+          break;
+        case 'D':
+          this.m_dollarEndOnly = true;
+          break;
+        case 'S':
+        case 'X':
+        case 'r':
+        case ' ':
+        case '\n':
+        case '\r':
+          break;
+        default:
+          this.fail('Unknown modifier \'' + modifier + '\'', -1);
+      }
+    }
+    let match: RegExpExecArray | null;
+    START_OPTION.lastIndex = 0;
+    while ((match = START_OPTION.exec(this.m_source)) !== null) {
+      if (match[1].startsWith('UTF')) {
+        this.m_unicode = true;
+      }
+      else if (match[1] === 'UCP') {
+        this.m_unicodeProperties = true;
+      }
+      this.m_position = START_OPTION.lastIndex;
+    }
+    this.m_start = this.m_position;
+    const body = this.m_source.substring(this.m_start);
+    this.m_unicode = this.m_unicode || this.m_unicodeProperties || /\\[pP]/.test(body);
+    this.m_ignoreCase = !CASE_SENSITIVE_OPTION.test(body) && (options.i || CASE_INSENSITIVE_START.test(body));
+    this.m_totalGroupCount = UFPhpRegExp.countGroups(body);
+    const tokens = this.parseSequence(options);
+    if (this.m_position < this.m_source.length) {
+      this.fail('unmatched closing parenthesis', this.m_position);
+    }
+    const source = this.render(tokens);
+    const flags = (this.m_ignoreCase ? 'i' : '') + (this.m_unicode ? 'u' : '') + (this.m_anchored ? 'y' : '');
+    try {
+      this.regExp = new RegExp(source, flags);
+      this.m_matcher = new RegExp(source, flags + 'gd');
+    }
+    catch (error) {
+      this.fail((error as Error).message, -1);
+    }
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Number of capturing groups in the pcre pattern.
+   */
+  get groupCount(): number {
+    return this.m_groupCount;
+  }
+
+  /**
+   * Names of the capturing groups, the index is the group number (so index 0 is always null); groups without
+   * name are null.
+   */
+  get groupNames(): (string | null)[] {
+    return this.m_groupNames.slice();
+  }
+
+  /**
+   * Gets the converted pattern for a pcre pattern; converted patterns are cached.
+   *
+   * @param {string} aPattern
+   *   Pcre pattern with delimiters and modifiers
+   *
+   * @return {UFPhpRegExp} converted pattern
+   *
+   * @throws {UFPhpRegExpError} when the pattern is invalid or can not be converted
+   */
+  static from(aPattern: string): UFPhpRegExp {
+    let result = CACHE.get(aPattern);
+    if (!result) {
+      result = new UFPhpRegExp(aPattern);
+      if (CACHE.size >= CACHE_SIZE) {
+        CACHE.delete(CACHE.keys().next().value);
+      }
+      CACHE.set(aPattern, result);
+    }
+    return result;
+  }
+
+  /**
+   * Searches the first match like php `preg_match` does.
+   *
+   * The result contains the whole match with key 0 and every group with its number; named groups are also
+   * included with their name (before the number). Groups after the last group that matched are left out
+   * unless {@link UFPhpPregFlag.UnmatchedAsNull} is used.
+   *
+   * @param {string} aSubject
+   *   Text to search
+   * @param {number} aFlags
+   *   Combination of {@link UFPhpPregFlag} values
+   * @param {number} anOffset
+   *   Byte offset to start searching at, negative values count from the end
+   *
+   * @return {UFPhpArray|null} the matches or null if there is no match
+   */
+  match(aSubject: string, aFlags: number = 0, anOffset: number = 0): UFPhpArray | null {
+    const start = UFPhpRegExp.toIndex(aSubject, anOffset);
+    if (start < 0) {
+      return null;
+    }
+    this.m_matcher.lastIndex = start;
+    const match = this.m_matcher.exec(aSubject) as RegExpMatchWithIndices | null;
+    if (!match) {
+      return null;
+    }
+    const offsetCapture = (aFlags & UFPhpPregFlag.OffsetCapture) !== 0;
+    const unmatchedAsNull = (aFlags & UFPhpPregFlag.UnmatchedAsNull) !== 0;
+    let count = this.m_groupCount + 1;
+    if (!unmatchedAsNull) {
+      while ((count > 1) && (match[this.m_groupIndexes[count - 1]] === undefined)) {
+        count--;
+      }
+    }
+    const result = new UFPhpArray();
+    for (let group = 0; group < count; group++) {
+      const index = this.m_groupIndexes[group];
+      const text = match[index];
+      let value: any = text === undefined ? (unmatchedAsNull ? null : '') : text;
+      if (offsetCapture) {
+        const indices = match.indices[index];
+        value = [value, indices ? Buffer.byteLength(aSubject.substring(0, indices[0])) : -1];
+      }
+      const name = this.m_groupNames[group];
+      if (name !== null) {
+        result.set(name, value);
+      }
+      result.set(group, value);
+    }
+    return result;
+  }
+
+  /**
+   * Replaces matches like php `preg_replace` does.
+   *
+   * The replacement can refer to groups with `$n`, `${n}` and `\n` (n is 0 to 99); a backslash before `$` or
+   * `\` makes it literal.
+   *
+   * @param {string} aSubject
+   *   Text to search
+   * @param {string} aReplacement
+   *   Replacement for every match
+   * @param {number} aLimit
+   *   Maximum number of replacements, -1 for no limit
+   *
+   * @return {string} the subject with the matches replaced
+   */
+  replace(aSubject: string, aReplacement: string, aLimit: number = -1): string {
+    let result = '';
+    let position = 0;
+    let count = 0;
+    this.m_matcher.lastIndex = 0;
+    while ((aLimit < 0) || (count < aLimit)) {
+      const match = this.m_matcher.exec(aSubject);
+      if (!match) {
+        break;
+      }
+      result += aSubject.substring(position, match.index) + this.expandReplacement(aReplacement, match);
+      position = match.index + match[0].length;
+      count++;
+      if (match[0].length === 0) {
+        if (position >= aSubject.length) {
+          break;
+        }
+        this.m_matcher.lastIndex = position + (this.m_unicode && (aSubject.codePointAt(position)! > 0xffff) ? 2 : 1);
+      }
+    }
+    return result + aSubject.substring(position);
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Converts items until the end of the pattern or a closing parenthesis.
+   *
+   * @param {IRegExpOptions} anOptions
+   *   Options to use, inline option settings change the object
+   *
+   * @return {RegExpToken[]} converted items
+   *
+   * @private
+   */
+  private parseSequence(anOptions: IRegExpOptions): RegExpToken[] {
+    const tokens: RegExpToken[] = [];
+    let atom = -1;
+    let quantified = false;
+    while (this.m_position < this.m_source.length) {
+      const char = this.m_source[this.m_position];
+      if (anOptions.x && this.skipExtended()) {
+        continue;
+      }
+      if (char === ')') {
+        break;
+      }
+      if (char === '|') {
+        tokens.push('|');
+        this.m_position++;
+        atom = -1;
+        continue;
+      }
+      const start = this.m_position;
+      const quantifier = this.readQuantifier();
+      if (quantifier === null) {
+        atom = this.parseAtom(tokens, anOptions);
+        quantified = false;
+        continue;
+      }
+      if (atom < 0) {
+        this.fail('quantifier does not follow a repeatable item', start);
+      }
+      if (quantified) {
+        tokens.splice(atom, 0, '(?:');
+        tokens.push(')');
+      }
+      const mode = this.m_source[this.m_position];
+      if (mode === '+') {
+        this.m_position++;
+        const key = 'e' + (++this.m_emulatedCount);
+        const repeated = tokens.splice(atom);
+        tokens.push('(?=', {group: key, name: null}, ...repeated, quantifier, '))', {reference: key, position: start});
+      }
+      else {
+        let lazy = anOptions.U;
+        if (mode === '?') {
+          this.m_position++;
+          lazy = !lazy;
+        }
+        tokens.push(lazy ? quantifier + '?' : quantifier);
+      }
+      quantified = true;
+    }
+    return tokens;
+  }
+
+  /**
+   * Skips white space and a comment when the `x` option is used.
+   *
+   * @return {boolean} true if something was skipped
+   *
+   * @private
+   */
+  private skipExtended(): boolean {
+    const char = this.m_source[this.m_position];
+    if (' \t\n\v\f\r'.includes(char)) {
+      this.m_position++;
+      return true;
+    }
+    if (char === '#') {
+      const end = this.m_source.indexOf('\n', this.m_position);
+      this.m_position = end < 0 ? this.m_source.length : end + 1;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reads a quantifier.
+   *
+   * @return {string|null} the quantifier or null if there is no quantifier at the current offset
+   *
+   * @private
+   */
+  private readQuantifier(): string | null {
+    const char = this.m_source[this.m_position];
+    if ((char === '*') || (char === '+') || (char === '?')) {
+      this.m_position++;
+      return char;
+    }
+    if (char !== '{') {
+      return null;
+    }
+    BRACE_QUANTIFIER.lastIndex = this.m_position;
+    const match = BRACE_QUANTIFIER.exec(this.m_source);
+    if (!match) {
+      return null;
+    }
+    if (match[2] && (parseInt(match[2], 10) < parseInt(match[1], 10))) {
+      this.fail('numbers out of order in {} quantifier', BRACE_QUANTIFIER.lastIndex - 1);
+    }
+    this.m_position = BRACE_QUANTIFIER.lastIndex;
+    return match[0];
+  }
+
+  /**
+   * Converts a single item.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   *
+   * @return {number} index of the token a quantifier applies to or -1 if the item can not be repeated
+   *
+   * @private
+   */
+  private parseAtom(aTokens: RegExpToken[], anOptions: IRegExpOptions): number {
+    const index = aTokens.length;
+    switch (this.m_source[this.m_position]) {
+      case '(':
+        return this.parseGroup(aTokens, anOptions);
+      case '[':
+        aTokens.push(this.parseClass(anOptions));
+        return index;
+      case '\\':
+        return this.parseEscape(aTokens, anOptions);
+      case '.':
+        this.m_position++;
+        aTokens.push(anOptions.s ? '[\\s\\S]' : '[^\\n]');
+        return index;
+      case '^':
+        this.m_position++;
+        // in multiline mode pcre does not match after a newline at the end of the subject
+        aTokens.push(anOptions.m ? '(?:^|(?<=\\n)(?=[\\s\\S]))' : '^');
+        return -1;
+      case '$':
+        this.m_position++;
+        aTokens.push(anOptions.m ? '(?=\\n|$)' : this.m_dollarEndOnly ? '$' : '(?=\\n?$)');
+        return -1;
+      default: {
+        const codePoint = this.m_source.codePointAt(this.m_position)!;
+        this.m_position += codePoint > 0xffff ? 2 : 1;
+        aTokens.push(this.literal(codePoint, anOptions));
+        return index;
+      }
+    }
+  }
+
+  /**
+   * Converts a group or another construct starting with a parenthesis.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {IRegExpOptions} anOptions
+   *   Options to use, changed by an inline option setting
+   *
+   * @return {number} index of the token a quantifier applies to or -1 if the item can not be repeated
+   *
+   * @private
+   */
+  private parseGroup(aTokens: RegExpToken[], anOptions: IRegExpOptions): number {
+    const index = aTokens.length;
+    const start = this.m_position++;
+    const source = this.m_source;
+    if (source[this.m_position] === '*') {
+      const end = source.indexOf(')', this.m_position);
+      const verb = source.substring(start, end < 0 ? source.length : end + 1);
+      if ((verb === '(*F)') || (verb === '(*FAIL)')) {
+        this.m_position = end + 1;
+        aTokens.push('(?!)');
+        return -1;
+      }
+      this.unsupported('backtracking control verb ' + verb, start);
+    }
+    if (source[this.m_position] !== '?') {
+      if (anOptions.n) {
+        this.parseGroupBody(aTokens, ['(?:'], {...anOptions});
+      }
+      else {
+        this.parseCapture(aTokens, null, anOptions, start);
+      }
+      return index;
+    }
+    this.m_position++;
+    const char = source[this.m_position];
+    const next = source[this.m_position + 1];
+    switch (char) {
+      case '#': {
+        const end = source.indexOf(')', this.m_position);
+        if (end < 0) {
+          this.fail('missing ) after (?# comment', source.length);
+        }
+        this.m_position = end + 1;
+        return -1;
+      }
+      case ':':
+        this.m_position++;
+        this.parseGroupBody(aTokens, ['(?:'], {...anOptions});
+        return index;
+      case '>': {
+        this.m_position++;
+        const key = 'e' + (++this.m_emulatedCount);
+        this.parseGroupBody(
+          aTokens, ['(?=', {group: key, name: null}], {...anOptions}, ['))', {reference: key, position: start}]
+        );
+        return index;
+      }
+      case '=':
+      case '!':
+        this.m_position++;
+        this.parseGroupBody(aTokens, ['(?' + char], {...anOptions});
+        return -1;
+      case '<':
+        if ((next === '=') || (next === '!')) {
+          this.m_position += 2;
+          this.parseGroupBody(aTokens, ['(?<' + next], {...anOptions});
+          return -1;
+        }
+        this.m_position++;
+        this.parseCapture(aTokens, this.readName('>'), anOptions, start);
+        return index;
+      case '\'':
+        this.m_position++;
+        this.parseCapture(aTokens, this.readName('\''), anOptions, start);
+        return index;
+      case 'P':
+        this.m_position += 2;
+        if (next === '<') {
+          this.parseCapture(aTokens, this.readName('>'), anOptions, start);
+          return index;
+        }
+        if (next === '=') {
+          this.pushReference(aTokens, 'n' + this.readName(')'), anOptions, start);
+          return index;
+        }
+        if (next === '>') {
+          this.unsupported('subroutine call (?P>', start);
+        }
+        return this.fail('unrecognized character after (?P', this.m_position - 1);
+      case '|':
+        return this.unsupported('branch reset group (?|', start);
+      case '(':
+        return this.unsupported('conditional group (?(', start);
+      case 'C':
+        return this.unsupported('callout (?C', start);
+      case 'R':
+      case '&':
+        return this.unsupported('recursion or subroutine call (?' + char, start);
+    }
+    if (/[0-9+\-]/.test(char) && /[0-9]/.test(char === '+' || char === '-' ? next : char)) {
+      this.unsupported('recursion or subroutine call (?' + char, start);
+    }
+    INLINE_OPTIONS.lastIndex = this.m_position;
+    const match = INLINE_OPTIONS.exec(source);
+    if (!match) {
+      this.fail('unrecognized character after (? or (?-', this.m_position);
+    }
+    const options = match[4] === ':' ? {...anOptions} : anOptions;
+    if (match[1]) {
+      options.i = options.m = options.n = options.s = options.x = false;
+    }
+    for (const [letters, value] of [[match[2], true], [match[3] || '', false]] as [string, boolean][]) {
+      for (const letter of letters) {
+        switch (letter) {
+          case 'i':
+          case 'm':
+          case 'n':
+          case 's':
+          case 'x':
+          case 'J':
+          case 'U':
+            options[letter] = value;
+            break;
+          default:
+            this.fail('unrecognized character after (? or (?-', this.m_position);
+        }
+      }
+    }
+    this.m_position = INLINE_OPTIONS.lastIndex;
+    if (match[4] === ')') {
+      return -1;
+    }
+    this.parseGroupBody(aTokens, ['(?:'], options);
+    return index;
+  }
+
+  /**
+   * Converts a capturing group.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {string|null} aName
+   *   Name of the group or null
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   * @param {number} aStart
+   *   Offset of the group in the pattern
+   *
+   * @private
+   */
+  private parseCapture(aTokens: RegExpToken[], aName: string | null, anOptions: IRegExpOptions, aStart: number) {
+    if ((aName !== null) && this.m_groupNames.includes(aName)) {
+      if (anOptions.J) {
+        this.unsupported('duplicate group name ' + aName, aStart);
+      }
+      this.fail('two named subpatterns have the same name (PCRE2_DUPNAMES not set)', aStart);
+    }
+    const group = ++this.m_groupCount;
+    this.m_groupNames.push(aName);
+    this.parseGroupBody(aTokens, [{group: 'p' + group, name: aName}], {...anOptions});
+  }
+
+  /**
+   * Converts the contents of a group and the closing parenthesis.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {RegExpToken[]} anOpen
+   *   Tokens to add before the contents
+   * @param {IRegExpOptions} anOptions
+   *   Options to use inside the group
+   * @param {RegExpToken[]} aClose
+   *   Tokens to add after the contents
+   *
+   * @private
+   */
+  private parseGroupBody(
+    aTokens: RegExpToken[], anOpen: RegExpToken[], anOptions: IRegExpOptions, aClose: RegExpToken[] = [')']
+  ): void {
+    const body = this.parseSequence(anOptions);
+    if (this.m_source[this.m_position] !== ')') {
+      this.fail('missing closing parenthesis', this.m_source.length);
+    }
+    this.m_position++;
+    aTokens.push(...anOpen, ...body, ...aClose);
+  }
+
+  /**
+   * Reads a group name followed by a terminator.
+   *
+   * @param {string} aTerminator
+   *   Character after the name
+   *
+   * @return {string} the name
+   *
+   * @private
+   */
+  private readName(aTerminator: string): string {
+    GROUP_NAME.lastIndex = this.m_position;
+    const match = GROUP_NAME.exec(this.m_source);
+    if (!match) {
+      this.fail('subpattern name expected', this.m_position);
+    }
+    if (this.m_source[GROUP_NAME.lastIndex] !== aTerminator) {
+      this.fail('syntax error in subpattern name (missing terminator?)', GROUP_NAME.lastIndex);
+    }
+    this.m_position = GROUP_NAME.lastIndex + 1;
+    return match[0];
+  }
+
+  /**
+   * Adds a back reference.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {string} aReference
+   *   Group key or 'n' followed by the group name
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   * @param {number} aStart
+   *   Offset of the reference in the pattern
+   *
+   * @private
+   */
+  private pushReference(aTokens: RegExpToken[], aReference: string, anOptions: IRegExpOptions, aStart: number) {
+    if (anOptions.i && !this.m_ignoreCase) {
+      this.unsupported('case-insensitive back reference in a case-sensitive pattern', aStart);
+    }
+    aTokens.push({reference: aReference, position: aStart});
+  }
+
+  /**
+   * Converts an escape sequence outside a character class.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Tokens to add to
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   *
+   * @return {number} index of the token a quantifier applies to or -1 if the item can not be repeated
+   *
+   * @private
+   */
+  private parseEscape(aTokens: RegExpToken[], anOptions: IRegExpOptions): number {
+    const index = aTokens.length;
+    const start = this.m_position++;
+    const source = this.m_source;
+    if (this.m_position >= source.length) {
+      this.fail('\\ at end of pattern', start);
+    }
+    const char = source[this.m_position++];
+    let match: RegExpExecArray | null;
+    if ((char >= '1') && (char <= '9')) {
+      const digits = /[0-9]+/y;
+      digits.lastIndex = start + 1;
+      const number = parseInt(digits.exec(source)![0], 10);
+      if ((number < 10) || (number <= this.m_totalGroupCount)) {
+        this.m_position = digits.lastIndex;
+        this.pushReference(aTokens, 'p' + number, anOptions, start);
+        return index;
+      }
+      this.m_position--;
+      aTokens.push(this.literal(this.readOctal(3), anOptions));
+      return index;
+    }
+    switch (char) {
+      case 'd':
+      case 'D':
+      case 'w':
+      case 'W':
+      case 's':
+      case 'S':
+      case 'h':
+      case 'H':
+      case 'v':
+      case 'V':
+        aTokens.push(UFPhpRegExp.standaloneSet(this.escapeSet(char)));
+        return index;
+      case 'N':
+        aTokens.push('[^\\n]');
+        return index;
+      case 'R':
+        aTokens.push('(?:\\r\\n|[' + VERTICAL_SPACE + '])');
+        return index;
+      case 'p':
+      case 'P':
+        aTokens.push(UFPhpRegExp.standaloneSet(this.readProperty(char === 'P', start)));
+        return index;
+      case 'b':
+      case 'B':
+        if (!this.m_unicodeProperties) {
+          aTokens.push('\\' + char);
+        }
+        else if (char === 'b') {
+          aTokens.push(
+            '(?:(?<=' + UNICODE_WORD + ')(?!' + UNICODE_WORD + ')|(?<!' + UNICODE_WORD + ')(?=' + UNICODE_WORD + '))'
+          );
+        }
+        else {
+          aTokens.push(
+            '(?:(?<=' + UNICODE_WORD + ')(?=' + UNICODE_WORD + ')|(?<!' + UNICODE_WORD + ')(?!' + UNICODE_WORD + '))'
+          );
+        }
+        return -1;
+      case 'A':
+        aTokens.push('^');
+        return -1;
+      case 'z':
+        aTokens.push('$');
+        return -1;
+      case 'Z':
+        aTokens.push('(?=\\n?$)');
+        return -1;
+      case 'G':
+        if (start !== this.m_start) {
+          this.unsupported('\\G that is not at the start of the pattern', start);
+        }
+        this.m_anchored = true;
+        return -1;
+      case 'Q': {
+        const end = source.indexOf('\\E', this.m_position);
+        const text = source.substring(this.m_position, end < 0 ? source.length : end);
+        this.m_position = end < 0 ? source.length : end + 2;
+        for (const literal of text) {
+          aTokens.push(this.literal(literal.codePointAt(0)!, anOptions));
+        }
+        return aTokens.length > index ? aTokens.length - 1 : -1;
+      }
+      case 'E':
+        return -1;
+      case 'g':
+        if ((source[this.m_position] === '<') || (source[this.m_position] === '\'')) {
+          this.unsupported('subroutine call \\g' + source[this.m_position], start);
+        }
+        match = /\{(-?[0-9]+|[A-Za-z_][A-Za-z0-9_]*)\}|(-?[0-9]+)/y.exec(source.substring(this.m_position));
+        if (!match) {
+          this.fail('a numbered reference must not be zero', this.m_position);
+        }
+        this.m_position += match[0].length;
+        this.pushReference(aTokens, this.referenceKey(match[1] || match[2], start), anOptions, start);
+        return index;
+      case 'k':
+        match = /<([A-Za-z_][A-Za-z0-9_]*)>|'([A-Za-z_][A-Za-z0-9_]*)'|\{([A-Za-z_][A-Za-z0-9_]*)\}/y.exec(
+          source.substring(this.m_position)
+        );
+        if (!match) {
+          this.fail('\\k is not followed by a braced, angle-bracketed, or quoted name', this.m_position);
+        }
+        this.m_position += match[0].length;
+        this.pushReference(aTokens, 'n' + (match[1] || match[2] || match[3]), anOptions, start);
+        return index;
+      case 'K':
+      case 'X':
+      case 'C':
+        return this.unsupported('\\' + char, start);
+    }
+    aTokens.push(this.literal(this.readCharacterEscape(char, start), anOptions));
+    return index;
+  }
+
+  /**
+   * Gets the group key for the argument of `\g`.
+   *
+   * @param {string} aText
+   *   Number, negative relative number or name
+   * @param {number} aStart
+   *   Offset of the reference in the pattern
+   *
+   * @return {string} group key
+   *
+   * @private
+   */
+  private referenceKey(aText: string, aStart: number): string {
+    if (!/^-?[0-9]+$/.test(aText)) {
+      return 'n' + aText;
+    }
+    let number = parseInt(aText, 10);
+    if (number === 0) {
+      this.fail('a numbered reference must not be zero', aStart);
+    }
+    if (number < 0) {
+      number += this.m_groupCount + 1;
+      if (number <= 0) {
+        this.fail('reference to non-existent subpattern', aStart);
+      }
+    }
+    return 'p' + number;
+  }
+
+  /**
+   * Reads an escape sequence for a single character; the backslash and the character after it have been read.
+   *
+   * @param {string} aChar
+   *   Character after the backslash
+   * @param {number} aStart
+   *   Offset of the backslash
+   *
+   * @return {number} code point of the character
+   *
+   * @private
+   */
+  private readCharacterEscape(aChar: string, aStart: number): number {
+    const source = this.m_source;
+    let match: RegExpExecArray | null;
+    switch (aChar) {
+      case 'a':
+        return 0x07;
+      case 'e':
+        return 0x1b;
+      case 'f':
+        return 0x0c;
+      case 'n':
+        return 0x0a;
+      case 'r':
+        return 0x0d;
+      case 't':
+        return 0x09;
+      case '0':
+        this.m_position--;
+        return this.readOctal(3);
+      case 'o':
+        match = /\{([0-7]+)\}/y.exec(source.substring(this.m_position));
+        if (!match) {
+          this.fail('missing opening brace after \\o', this.m_position);
+        }
+        this.m_position += match[0].length;
+        return this.checkCodePoint(parseInt(match[1], 8), aStart);
+      case 'x':
+        match = /\{([0-9a-fA-F]+)\}|[0-9a-fA-F]{0,2}/y.exec(source.substring(this.m_position))!;
+        this.m_position += match[0].length;
+        return this.checkCodePoint(parseInt(match[1] || match[0] || '0', 16), aStart);
+      case 'c': {
+        const char = source[this.m_position++];
+        if ((char === undefined) || (char < ' ') || (char > '~')) {
+          this.fail('\\c must be followed by a printable ASCII character', aStart);
+        }
+        return char.toUpperCase().charCodeAt(0) ^ 0x40;
+      }
+    }
+    if (/[a-zA-Z0-9]/.test(aChar)) {
+      this.fail('unrecognized character follows \\', aStart);
+    }
+    const codePoint = source.codePointAt(this.m_position - 1)!;
+    if (codePoint > 0xffff) {
+      this.m_position++;
+    }
+    return codePoint;
+  }
+
+  /**
+   * Reads up to a number of octal digits.
+   *
+   * @param {number} aMaxLength
+   *   Maximum number of digits
+   *
+   * @return {number} code point
+   *
+   * @private
+   */
+  private readOctal(aMaxLength: number): number {
+    const match = new RegExp('[0-7]{1,' + aMaxLength + '}', 'y').exec(this.m_source.substring(this.m_position));
+    if (!match) {
+      // \8 and \9 without as many groups are literal digits
+      return this.m_source.charCodeAt(this.m_position++);
+    }
+    this.m_position += match[0].length;
+    return parseInt(match[0], 8);
+  }
+
+  /**
+   * Checks if a code point can be used.
+   *
+   * @param {number} aCodePoint
+   *   Code point to check
+   * @param {number} aStart
+   *   Offset of the escape sequence
+   *
+   * @return {number} the code point
+   *
+   * @private
+   */
+  private checkCodePoint(aCodePoint: number, aStart: number): number {
+    if (aCodePoint > (this.m_unicode ? 0x10ffff : 0xff)) {
+      this.fail('character code point value in \\x{} or \\o{} is too large', aStart);
+    }
+    return aCodePoint;
+  }
+
+  /**
+   * Reads a unicode property after `\p` or `\P`.
+   *
+   * @param {boolean} aNegated
+   *   True for `\P`
+   * @param {number} aStart
+   *   Offset of the escape sequence
+   *
+   * @return {IRegExpSet} set of characters
+   *
+   * @private
+   */
+  private readProperty(aNegated: boolean, aStart: number): IRegExpSet {
+    let name: string;
+    let negated = aNegated;
+    if (this.m_source[this.m_position] === '{') {
+      const end = this.m_source.indexOf('}', this.m_position);
+      if (end < 0) {
+        this.fail('malformed \\P or \\p sequence', aStart);
+      }
+      name = this.m_source.substring(this.m_position + 1, end);
+      this.m_position = end + 1;
+      if (name.startsWith('^')) {
+        negated = !negated;
+        name = name.substring(1);
+      }
+    }
+    else {
+      name = this.m_source[this.m_position++] || '';
+    }
+    if (SPECIAL_PROPERTIES.hasOwnProperty(name)) {
+      const content = SPECIAL_PROPERTIES[name];
+      return {content, negated, classContent: negated ? null : content};
+    }
+    let property = name
+      .replace(/^(sc|script)[:=]/i, 'Script=')
+      .replace(/^(scx|script_extensions)[:=]/i, 'Script_Extensions=');
+    if (!GENERAL_CATEGORIES.has(property) && !property.includes('=')) {
+      property = 'Script=' + property;
+    }
+    const content = (negated ? '\\P{' : '\\p{') + property + '}';
+    try {
+      new RegExp(content, 'u');
+    }
+    catch (error) {
+      this.fail('unknown property name after \\P or \\p', aStart);
+    }
+    return {content, negated: false, classContent: content};
+  }
+
+  /**
+   * Gets the set of characters for an escape like `\d` or `\H`.
+   *
+   * @param {string} aChar
+   *   Character after the backslash
+   *
+   * @return {IRegExpSet} set of characters
+   *
+   * @private
+   */
+  private escapeSet(aChar: string): IRegExpSet {
+    const name = aChar.toLowerCase();
+    const negated = name !== aChar;
+    const content = (this.m_unicodeProperties && UNICODE_SETS[name]) || ASCII_SETS[name];
+    const negatedSets = this.m_unicodeProperties ? UNICODE_NEGATED_SETS : ASCII_NEGATED_SETS;
+    return {content, negated, classContent: negated ? negatedSets[name] || null : content};
+  }
+
+  /**
+   * Converts a character class.
+   *
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   *
+   * @return {string} converted character class
+   *
+   * @private
+   */
+  private parseClass(anOptions: IRegExpOptions): string {
+    const start = this.m_position++;
+    const source = this.m_source;
+    const items: string[] = [];
+    const negatedSets: IRegExpSet[] = [];
+    const addSet = (aSet: IRegExpSet) => {
+      if (aSet.classContent !== null) {
+        items.push(aSet.classContent);
+      }
+      else {
+        negatedSets.push(aSet);
+      }
+    };
+    let negated = false;
+    if (source[this.m_position] === '^') {
+      negated = true;
+      this.m_position++;
+    }
+    let first = true;
+    while (true) {
+      if (this.m_position >= source.length) {
+        this.fail('missing terminating ] for character class', source.length);
+      }
+      const char = source[this.m_position];
+      if ((char === ']') && !first) {
+        this.m_position++;
+        break;
+      }
+      first = false;
+      if (char === '[') {
+        POSIX_CLASS.lastIndex = this.m_position;
+        const match = POSIX_CLASS.exec(source);
+        if (match) {
+          const content = (this.m_unicodeProperties && UNICODE_SETS[match[2]]) || ASCII_SETS[match[2]];
+          if (!content || (match[2].length === 1)) {
+            this.fail('unknown POSIX class name', this.m_position);
+          }
+          this.m_position = POSIX_CLASS.lastIndex;
+          addSet({content, negated: !!match[1], classContent: match[1] ? null : content});
+          continue;
+        }
+        if (/^\[[.=]/.test(source.substring(this.m_position, this.m_position + 2))) {
+          this.fail('POSIX collating elements are not supported', this.m_position);
+        }
+      }
+      if (source.startsWith('\\Q', this.m_position)) {
+        const end = source.indexOf('\\E', this.m_position + 2);
+        const text = source.substring(this.m_position + 2, end < 0 ? source.length : end);
+        this.m_position = end < 0 ? source.length : end + 2;
+        for (const literal of text) {
+          items.push(this.classCharacters(literal.codePointAt(0)!, literal.codePointAt(0)!, anOptions, start));
+        }
+        continue;
+      }
+      const itemStart = this.m_position;
+      const item = this.readClassItem();
+      if (item === null) {
+        continue;
+      }
+      if (typeof item !== 'number') {
+        addSet(item);
+        continue;
+      }
+      let high = item;
+      if ((source[this.m_position] === '-') && (this.m_position + 1 < source.length) &&
+        (source[this.m_position + 1] !== ']')) {
+        const position = this.m_position++;
+        const end = this.readClassItem();
+        if (typeof end !== 'number') {
+          this.fail('invalid range in character class', position);
+        }
+        if (end < item) {
+          this.fail('range out of order in character class', this.m_position - 1);
+        }
+        high = end;
+      }
+      items.push(this.classCharacters(item, high, anOptions, itemStart));
+    }
+    if (negatedSets.length) {
+      if ((negatedSets.length === 1) && !items.length) {
+        return '[' + (negated ? '' : '^') + negatedSets[0].content + ']';
+      }
+      this.unsupported('a negated escape or posix class combined with other items in a character class', start);
+    }
+    return '[' + (negated ? '^' : '') + items.join('') + ']';
+  }
+
+  /**
+   * Reads an item inside a character class.
+   *
+   * @return {number|IRegExpSet|null} code point, set of characters or null for an item without characters
+   *
+   * @private
+   */
+  private readClassItem(): number | IRegExpSet | null {
+    const source = this.m_source;
+    if (source[this.m_position] !== '\\') {
+      const codePoint = source.codePointAt(this.m_position)!;
+      this.m_position += codePoint > 0xffff ? 2 : 1;
+      return codePoint;
+    }
+    const start = this.m_position++;
+    if (this.m_position >= source.length) {
+      this.fail('\\ at end of pattern', start);
+    }
+    const char = source[this.m_position++];
+    switch (char) {
+      case 'd':
+      case 'D':
+      case 'w':
+      case 'W':
+      case 's':
+      case 'S':
+      case 'h':
+      case 'H':
+      case 'v':
+      case 'V':
+        return this.escapeSet(char);
+      case 'p':
+      case 'P':
+        return this.readProperty(char === 'P', start);
+      case 'b':
+        return 0x08;
+      case 'E':
+        return null;
+    }
+    if ((char >= '1') && (char <= '9')) {
+      // digits are always octal inside a character class
+      this.m_position--;
+      return this.readOctal(3);
+    }
+    if ('ABGKNRXZz'.includes(char)) {
+      this.fail('escape sequence is invalid in character class', start);
+    }
+    return this.readCharacterEscape(char, start);
+  }
+
+  /**
+   * Converts a character or range inside a character class.
+   *
+   * @param {number} aLow
+   *   First code point
+   * @param {number} aHigh
+   *   Last code point (same as aLow for a single character)
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   * @param {number} aStart
+   *   Offset of the item in the pattern
+   *
+   * @return {string} contents for the character class
+   *
+   * @private
+   */
+  private classCharacters(aLow: number, aHigh: number, anOptions: IRegExpOptions, aStart: number): string {
+    if (!this.m_unicode && (aHigh > 0xffff)) {
+      this.unsupported('a character above U+FFFF in a character class without the u modifier', aStart);
+    }
+    let result = UFPhpRegExp.classLiteral(aLow) + (aHigh > aLow ? '-' + UFPhpRegExp.classLiteral(aHigh) : '');
+    if (anOptions.i && !this.m_ignoreCase) {
+      if (aLow === aHigh) {
+        for (const variant of UFPhpRegExp.caseVariants(String.fromCodePoint(aLow))) {
+          result += UFPhpRegExp.classLiteral(variant.codePointAt(0)!);
+        }
+      }
+      // ranges of ascii letters are converted, other ranges are used as they are
+      else if (((aLow >= 0x41) && (aHigh <= 0x5a)) || ((aLow >= 0x61) && (aHigh <= 0x7a))) {
+        const delta = aLow <= 0x5a ? 0x20 : -0x20;
+        result += UFPhpRegExp.classLiteral(aLow + delta) + '-' + UFPhpRegExp.classLiteral(aHigh + delta);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Converts a literal character outside a character class.
+   *
+   * @param {number} aCodePoint
+   *   Code point of the character
+   * @param {IRegExpOptions} anOptions
+   *   Options to use
+   *
+   * @return {string} converted character
+   *
+   * @private
+   */
+  private literal(aCodePoint: number, anOptions: IRegExpOptions): string {
+    const char = String.fromCodePoint(aCodePoint);
+    if (anOptions.i && !this.m_ignoreCase) {
+      const variants = UFPhpRegExp.caseVariants(char);
+      if (variants.length) {
+        return '[' + [char, ...variants].map(variant => UFPhpRegExp.classLiteral(variant.codePointAt(0)!)).join('') +
+          ']';
+      }
+    }
+    if (SYNTAX_CHARACTERS.includes(char)) {
+      return '\\' + char;
+    }
+    return (aCodePoint < 0x20) || (aCodePoint === 0x7f) ? UFPhpRegExp.hexEscape(aCodePoint) : char;
+  }
+
+  /**
+   * Builds the javascript pattern and determines the javascript index of every pcre group.
+   *
+   * @param {RegExpToken[]} aTokens
+   *   Converted items
+   *
+   * @return {string} javascript pattern
+   *
+   * @private
+   */
+  private render(aTokens: RegExpToken[]): string {
+    const indexes = new Map<string, number>();
+    for (const token of aTokens) {
+      if ((typeof token !== 'string') && ('group' in token)) {
+        indexes.set(token.group, indexes.size + 1);
+      }
+    }
+    for (let group = 1; group <= this.m_groupCount; group++) {
+      this.m_groupIndexes.push(indexes.get('p' + group)!);
+    }
+    return aTokens.map(token => {
+      if (typeof token === 'string') {
+        return token;
+      }
+      if ('group' in token) {
+        return token.name === null ? '(' : '(?<' + token.name + '>';
+      }
+      let key = token.reference;
+      if (key.startsWith('n')) {
+        const group = this.m_groupNames.indexOf(key.substring(1));
+        key = 'p' + group;
+      }
+      const index = indexes.get(key);
+      if (index === undefined) {
+        this.fail('reference to non-existent subpattern', token.position);
+      }
+      // the group is used to prevent a digit after the reference from being added to the group number
+      return '(?:\\' + index + ')';
+    }).join('');
+  }
+
+  /**
+   * Gets the text for a replacement like php `preg_replace` builds it.
+   *
+   * @param {string} aReplacement
+   *   Replacement with references
+   * @param {RegExpExecArray} aMatch
+   *   Match to get the groups from
+   *
+   * @return {string} replacement text
+   *
+   * @private
+   */
+  private expandReplacement(aReplacement: string, aMatch: RegExpExecArray): string {
+    let result = '';
+    let last = '';
+    let index = 0;
+    while (index < aReplacement.length) {
+      const char = aReplacement[index];
+      if ((char === '\\') || (char === '$')) {
+        if (last === '\\') {
+          // the backslash before is replaced by the character
+          result = result.substring(0, result.length - 1) + char;
+          last = '';
+          index++;
+          continue;
+        }
+        const match = /\$\{([0-9]{1,2})\}|[\\$]([0-9]{1,2})/y.exec(aReplacement.substring(index));
+        if (match) {
+          const group = parseInt(match[1] || match[2], 10);
+          if (group <= this.m_groupCount) {
+            result += aMatch[this.m_groupIndexes[group]] || '';
+          }
+          index += match[0].length;
+          continue;
+        }
+      }
+      result += char;
+      last = char;
+      index++;
+    }
+    return result;
+  }
+
+  /**
+   * Throws an error for a construct that can not be converted.
+   *
+   * @param {string} aConstruct
+   *   Description of the construct
+   * @param {number} anOffset
+   *   Offset in the pattern
+   *
+   * @throws {UFPhpRegExpError}
+   *
+   * @private
+   */
+  private unsupported(aConstruct: string, anOffset: number): never {
+    return this.fail(aConstruct + ' can not be converted to a javascript regular expression', anOffset);
+  }
+
+  /**
+   * Throws an error.
+   *
+   * @param {string} aReason
+   *   Description of the problem
+   * @param {number} anOffset
+   *   Offset in the pattern or -1
+   *
+   * @throws {UFPhpRegExpError}
+   *
+   * @private
+   */
+  private fail(aReason: string, anOffset: number): never {
+    throw new UFPhpRegExpError(aReason, this.pattern, anOffset);
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Counts the capturing groups in a pattern.
+   *
+   * @param {string} aSource
+   *   Pattern between the delimiters
+   *
+   * @return {number} number of capturing groups
+   *
+   * @private
+   */
+  private static countGroups(aSource: string): number {
+    let count = 0;
+    let inClass = false;
+    for (let index = 0; index < aSource.length; index++) {
+      const char = aSource[index];
+      if (char === '\\') {
+        index++;
+      }
+      else if (inClass) {
+        inClass = char !== ']';
+      }
+      else if (char === '[') {
+        inClass = true;
+        index += aSource.startsWith('^]', index + 1) ? 2 : aSource[index + 1] === ']' ? 1 : 0;
+      }
+      else if ((char === '(') && /^([^?*]|\?P?<[A-Za-z_]|\?')/.test(aSource.substring(index + 1, index + 5))) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Converts a set to use outside a character class.
+   *
+   * @param {IRegExpSet} aSet
+   *   Set to convert
+   *
+   * @return {string} character class
+   *
+   * @private
+   */
+  private static standaloneSet(aSet: IRegExpSet): string {
+    if (!aSet.negated && /^\\[pP]\{[^}]+\}$/.test(aSet.content)) {
+      return aSet.content;
+    }
+    return '[' + (aSet.negated ? '^' : '') + aSet.content + ']';
+  }
+
+  /**
+   * Gets the other case variants of a character.
+   *
+   * @param {string} aChar
+   *   Character
+   *
+   * @return {string[]} variants that differ from the character and are a single character
+   *
+   * @private
+   */
+  private static caseVariants(aChar: string): string[] {
+    return [...new Set([aChar.toLowerCase(), aChar.toUpperCase()])].filter(
+      variant => (variant !== aChar) && ([...variant].length === 1)
+    );
+  }
+
+  /**
+   * Converts a character to use inside a character class.
+   *
+   * @param {number} aCodePoint
+   *   Code point of the character
+   *
+   * @return {string} converted character
+   *
+   * @private
+   */
+  private static classLiteral(aCodePoint: number): string {
+    const char = String.fromCodePoint(aCodePoint);
+    if (CLASS_SYNTAX_CHARACTERS.includes(char)) {
+      return '\\' + char;
+    }
+    return (aCodePoint < 0x20) || (aCodePoint === 0x7f) ? UFPhpRegExp.hexEscape(aCodePoint) : char;
+  }
+
+  /**
+   * Gets a `\x` escape for a control character.
+   *
+   * @param {number} aCodePoint
+   *   Code point below 0x80
+   *
+   * @return {string} escape sequence
+   *
+   * @private
+   */
+  private static hexEscape(aCodePoint: number): string {
+    return '\\x' + aCodePoint.toString(16).padStart(2, '0');
+  }
+
+  /**
+   * Converts a byte offset in the UTF-8 encoded subject to an index in the string.
+   *
+   * @param {string} aSubject
+   *   Subject
+   * @param {number} anOffset
+   *   Byte offset, negative values count from the end
+   *
+   * @return {number} index or -1 if the offset is beyond the end of the subject
+   *
+   * @private
+   */
+  private static toIndex(aSubject: string, anOffset: number): number {
+    if (anOffset === 0) {
+      return 0;
+    }
+    const bytes = Buffer.from(aSubject);
+    const offset = anOffset < 0 ? Math.max(0, bytes.length + anOffset) : anOffset;
+    return offset > bytes.length ? -1 : bytes.subarray(0, offset).toString().length;
+  }
+
+  // endregion
+}
+
+// endregion
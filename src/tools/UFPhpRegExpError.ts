@@ -0,0 +1,51 @@
+// region class
+
+/**
+ * {@link UFPhpRegExpError} is thrown by {@link UFPhpRegExp} when a pcre pattern is invalid or uses a construct that
+ * can not be expressed with a javascript regular expression.
+ */
+export class UFPhpRegExpError extends Error {
+  // region public variables
+
+  /**
+   * Description of the problem (without location)
+   */
+  readonly reason: string;
+
+  /**
+   * The pcre pattern including delimiters and modifiers
+   */
+  readonly pattern: string;
+
+  /**
+   * Offset of the problem in the pattern (between the delimiters) or -1 if the problem is not at a specific
+   * location
+   */
+  readonly offset: number;
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpRegExpError}.
+   *
+   * @param {string} aReason
+   *   Description of the problem
+   * @param {string} aPattern
+   *   The pcre pattern
+   * @param {number} anOffset
+   *   Offset of the problem or -1
+   */
+  constructor(aReason: string, aPattern: string, anOffset: number) {
+    super(aReason + (anOffset >= 0 ? ' at offset ' + anOffset : '') + ' in pattern ' + aPattern);
+    this.name = 'UFPhpRegExpError';
+    this.reason = aReason;
+    this.pattern = aPattern;
+    this.offset = anOffset;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,896 @@
+// region imports
+
+import {TextDecoder} from 'util';
+import {UFPhpArray, UFPhpArrayKey} from './UFPhpArray.js';
+import {UFPhpObject} from './UFPhpObject.js';
+import {UFPhpValue} from './UFPhpValue.js';
+import {UFPhpArrayMode} from '../parser/UFPhpEvaluator.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Class php uses for objects of classes that are not allowed
+ */
+const INCOMPLETE_CLASS = '__PHP_Incomplete_Class';
+
+/**
+ * Property of {@link INCOMPLETE_CLASS} objects that contains the original class name
+ */
+const INCOMPLETE_CLASS_NAME = '__PHP_Incomplete_Class_Name';
+
+/**
+ * Default maximum depth of nested arrays and objects (same as php `unserialize_max_depth`)
+ */
+const DEFAULT_MAX_DEPTH = 4096;
+
+/**
+ * Decoder that fails for invalid UTF-8
+ */
+const UTF8_DECODER = new TextDecoder('utf-8', {fatal: true});
+
+/**
+ * Matches a decimal integer without leading zeros, the form of a string key php converts to an integer key
+ */
+const INTEGER_KEY = /^(0|-?[1-9][0-9]*)$/;
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpSerializer}.
+ */
+export interface IUFPhpSerializerOptions {
+  /**
+   * How {@link UFPhpSerializer.unserialize} returns arrays, default is {@link UFPhpArrayMode.Native}. Properties
+   * of objects are always stored in a {@link UFPhpArray}.
+   */
+  arrayMode?: UFPhpArrayMode;
+
+  /**
+   * Classes {@link UFPhpSerializer.unserialize} may create objects for (php `allowed_classes`): true for all
+   * classes (default), false for none or a list of class names. Objects of other classes are returned as
+   * `__PHP_Incomplete_Class` object, like php does.
+   */
+  allowedClasses?: boolean | string[];
+
+  /**
+   * Called by {@link UFPhpSerializer.unserialize} for every object of an allowed class; the returned value is
+   * used instead of the object. Use it to map php objects to instances of javascript classes.
+   */
+  createObject?: (anObject: UFPhpObject) => any;
+
+  /**
+   * Called by {@link UFPhpSerializer.serialize} for objects that are not arrays, plain objects, {@link UFPhpArray},
+   * {@link UFPhpObject} or Buffer instances; the returned value (usually a {@link UFPhpObject}) is serialized
+   * instead.
+   */
+  convertObject?: (aValue: object) => any;
+
+  /**
+   * Maximum depth of nested arrays and objects {@link UFPhpSerializer.unserialize} accepts, default is 4096.
+   */
+  maxDepth?: number;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpSerializer} implements the php `serialize` and `unserialize` functions.
+ *
+ * Php strings are byte strings: javascript strings are written as UTF-8 and lengths are in bytes. When
+ * unserializing, strings that are valid UTF-8 are returned as javascript strings, other strings as Buffer
+ * instances (a Buffer is serialized as php string as well, so binary data survives a round trip).
+ *
+ * Integers that are safe integers in javascript and bigint values are written as php integers, other numbers as
+ * php floats (formatted like php does with `serialize_precision` -1). {@link unserialize} returns 64 bit integers
+ * that are not safe integers as bigint, so they survive a round trip; bigint values outside the 64 bit range can not
+ * be serialized. Array keys that are not safe integers are returned as their exact decimal string and written as
+ * php integer keys again. Objects are represented by
+ * {@link UFPhpObject}. Since javascript has no references, {@link serialize} only writes object references (`r:`)
+ * for objects that occur more than once; {@link unserialize} supports both object references (`r:`) and references
+ * (`R:`), but a reference to a scalar value is returned as a copy of the value, so serializing the result again
+ * writes the value instead of `R:` (`a:2:{i:0;i:5;i:1;R:2;}` becomes `a:2:{i:0;i:5;i:1;i:5;}`).
+ *
+ * @example
+ * const serializer = new UFPhpSerializer({allowedClasses: ['App\\Dto\\User']});
+ * const value = serializer.unserialize(row.payload);
+ */
+export class UFPhpSerializer {
+  // region private variables
+
+  /**
+   * Options to use
+   *
+   * @private
+   */
+  private readonly m_options: IUFPhpSerializerOptions;
+
+  /**
+   * Data being unserialized
+   *
+   * @private
+   */
+  private m_data: Buffer = Buffer.alloc(0);
+
+  /**
+   * Current offset in the data being unserialized
+   *
+   * @private
+   */
+  private m_offset: number = 0;
+
+  /**
+   * Values that can be referenced (in php the numbering starts at 1)
+   *
+   * @private
+   */
+  private m_slots: any[] = [];
+
+  /**
+   * Current depth of nested arrays and objects
+   *
+   * @private
+   */
+  private m_depth: number = 0;
+
+  /**
+   * Parts of the data being serialized
+   *
+   * @private
+   */
+  private m_parts: Buffer[] = [];
+
+  /**
+   * Number of values written (used for references)
+   *
+   * @private
+   */
+  private m_count: number = 0;
+
+  /**
+   * Written objects mapped to their number
+   *
+   * @private
+   */
+  private m_objects: Map<object, number> = new Map();
+
+  /**
+   * Arrays that are being written (used to detect recursion)
+   *
+   * @private
+   */
+  private m_arrays: Set<object> = new Set();
+
+  // endregion
+
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpSerializer}.
+   *
+   * @param {IUFPhpSerializerOptions} anOptions
+   *   Options to use
+   */
+  constructor(anOptions: IUFPhpSerializerOptions = {}) {
+    this.m_options = anOptions;
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Serializes a value, creating the same bytes as php `serialize`.
+   *
+   * @param {any} aValue
+   *   Value to serialize; undefined is written as null
+   *
+   * @return {Buffer} serialized data
+   *
+   * @throws {Error} when the value contains something that can not be serialized (like a function or an array
+   *   containing itself)
+   */
+  serialize(aValue: any): Buffer {
+    this.m_parts = [];
+    this.m_count = 0;
+    this.m_objects = new Map();
+    this.m_arrays = new Set();
+    try {
+      this.write(aValue);
+      return Buffer.concat(this.m_parts);
+    } finally {
+      this.m_parts = [];
+      this.m_objects = new Map();
+    }
+  }
+
+  /**
+   * Unserializes data created by php `serialize`.
+   *
+   * @param {string|Buffer} aData
+   *   Data to unserialize; a string is converted to bytes using UTF-8
+   *
+   * @return {any} unserialized value
+   *
+   * @throws {Error} when the data is invalid, nested too deep or uses an unsupported format
+   */
+  unserialize(aData: string | Buffer): any {
+    this.m_data = typeof aData === 'string' ? Buffer.from(aData, 'utf8') : aData;
+    this.m_offset = 0;
+    this.m_slots = [];
+    this.m_depth = 0;
+    try {
+      return this.read();
+    } finally {
+      this.m_data = Buffer.alloc(0);
+      this.m_slots = [];
+    }
+  }
+
+  /**
+   * Serializes the entries of an array one after another, each value preceded by its key in a format determined
+   * by the caller (php session data for example uses this). Object references are numbered across all entries.
+   *
+   * @param {UFPhpArray} anEntries
+   *   Entries to serialize
+   * @param {function} aWriteKey
+   *   Converts a key to the bytes to write before the value; when it returns null the entry is skipped
+   *
+   * @return {Buffer} serialized data
+   *
+   * @throws {Error} when a value contains something that can not be serialized
+   */
+  serializeEntries(anEntries: UFPhpArray, aWriteKey: (aKey: UFPhpArrayKey) => Buffer | null): Buffer {
+    this.m_parts = [];
+    this.m_count = 0;
+    this.m_objects = new Map();
+    this.m_arrays = new Set();
+    try {
+      anEntries.forEach((value, key) => {
+        const bytes = aWriteKey(key);
+        if (bytes) {
+          this.m_parts.push(bytes);
+          this.write(value);
+        }
+      });
+      return Buffer.concat(this.m_parts);
+    } finally {
+      this.m_parts = [];
+      this.m_objects = new Map();
+    }
+  }
+
+  /**
+   * Unserializes data created by {@link serializeEntries} or the php equivalent: serialized values, each preceded
+   * by a key in a format determined by the caller. References can refer to values of previous entries.
+   *
+   * @param {string|Buffer} aData
+   *   Data to unserialize; a string is converted to bytes using UTF-8
+   * @param {function} aReadKey
+   *   Gets the data and the offset of the next entry and returns the key together with the offset of the value;
+   *   when it returns null, no more entries are read
+   *
+   * @return {UFPhpArray} unserialized entries; arrays within the values are returned as set by
+   *   {@link IUFPhpSerializerOptions.arrayMode}
+   *
+   * @throws {Error} when the data is invalid, nested too deep or uses an unsupported format
+   */
+  unserializeEntries(
+    aData: string | Buffer, aReadKey: (aData: Buffer, anOffset: number) => [UFPhpArrayKey, number] | null
+  ): UFPhpArray {
+    this.m_data = typeof aData === 'string' ? Buffer.from(aData, 'utf8') : aData;
+    this.m_offset = 0;
+    this.m_slots = [];
+    this.m_depth = 0;
+    const result = new UFPhpArray();
+    try {
+      while (this.m_offset < this.m_data.length) {
+        const entry = aReadKey(this.m_data, this.m_offset);
+        if (!entry) {
+          break;
+        }
+        this.m_offset = entry[1];
+        result.set(entry[0], this.read());
+      }
+      return result;
+    } finally {
+      this.m_data = Buffer.alloc(0);
+      this.m_slots = [];
+    }
+  }
+
+  // endregion
+
+  // region private serialize methods
+
+  /**
+   * Writes a value.
+   *
+   * @private
+   */
+  private write(aValue: any): void {
+    this.m_count++;
+    switch (typeof aValue) {
+      case 'undefined':
+        this.append('N;');
+        return;
+      case 'boolean':
+        this.append(aValue ? 'b:1;' : 'b:0;');
+        return;
+      case 'number':
+        this.append(
+          Number.isSafeInteger(aValue) && !Object.is(aValue, -0)
+            ? 'i:' + aValue + ';'
+            : 'd:' + UFPhpValue.formatFloat(aValue, -1) + ';'
+        );
+        return;
+      case 'bigint':
+        if (!UFPhpSerializer.isInt64(aValue)) {
+          throw new Error('Integer ' + aValue + ' is out of range');
+        }
+        this.append('i:' + aValue + ';');
+        return;
+      case 'string':
+        this.writeString(Buffer.from(aValue, 'utf8'));
+        return;
+      case 'object':
+        break;
+      default:
+        throw new Error('Can not serialize ' + typeof aValue);
+    }
+    if (aValue === null) {
+      this.append('N;');
+      return;
+    }
+    if (Buffer.isBuffer(aValue)) {
+      this.writeString(aValue);
+      return;
+    }
+    const reference = this.m_objects.get(aValue);
+    if (reference !== undefined) {
+      this.append('r:' + reference + ';');
+      return;
+    }
+    if (aValue instanceof UFPhpObject) {
+      this.m_objects.set(aValue, this.m_count);
+      this.writeObject(aValue);
+      return;
+    }
+    const array = UFPhpSerializer.toArray(aValue);
+    if (array) {
+      if (this.m_arrays.has(aValue)) {
+        throw new Error('Can not serialize an array that contains itself');
+      }
+      this.m_arrays.add(aValue);
+      this.writeEntries('a:' + array.size + ':{', array);
+      this.m_arrays.delete(aValue);
+      return;
+    }
+    const converted = this.m_options.convertObject ? this.m_options.convertObject(aValue) : aValue;
+    if ((converted === aValue) || ((typeof converted === 'object') && (converted !== null) &&
+      !(converted instanceof UFPhpObject) && !Buffer.isBuffer(converted) && !UFPhpSerializer.toArray(converted))) {
+      throw new Error('Can not serialize instance of ' + (aValue.constructor?.name || 'object'));
+    }
+    if (converted instanceof UFPhpObject) {
+      // further occurrences of the original object are written as reference
+      this.m_objects.set(aValue, this.m_count);
+    }
+    // the converted value takes the place of the original value
+    this.m_count--;
+    this.write(converted);
+  }
+
+  /**
+   * Writes an object.
+   *
+   * @private
+   */
+  private writeObject(anObject: UFPhpObject): void {
+    let className = anObject.className;
+    let properties = anObject.properties;
+    // php writes incomplete objects using their original class
+    if ((className === INCOMPLETE_CLASS) && (typeof properties.get(INCOMPLETE_CLASS_NAME) === 'string')) {
+      className = properties.get(INCOMPLETE_CLASS_NAME);
+      properties = new UFPhpArray(properties);
+      properties.delete(INCOMPLETE_CLASS_NAME);
+    }
+    const name = Buffer.from(className, 'utf8');
+    if (anObject.serializedData !== null) {
+      const data = Buffer.isBuffer(anObject.serializedData)
+        ? anObject.serializedData
+        : Buffer.from(anObject.serializedData, 'utf8');
+      this.append('C:' + name.length + ':"');
+      this.m_parts.push(name);
+      this.append('":' + data.length + ':{');
+      this.m_parts.push(data);
+      this.append('}');
+      return;
+    }
+    this.append('O:' + name.length + ':"');
+    this.m_parts.push(name);
+    this.writeEntries('":' + properties.size + ':{', properties);
+  }
+
+  /**
+   * Writes the entries of an array or the properties of an object, followed by `}`.
+   *
+   * @private
+   */
+  private writeEntries(aPrefix: string, anArray: UFPhpArray): void {
+    this.append(aPrefix);
+    anArray.forEach((value, key) => {
+      // keys are not counted as values
+      if ((typeof key === 'number') || UFPhpSerializer.isIntegerKey(key)) {
+        this.append('i:' + key + ';');
+      }
+      else {
+        this.writeString(Buffer.from(key, 'utf8'));
+      }
+      this.write(value);
+    });
+    this.append('}');
+  }
+
+  /**
+   * Writes a string.
+   *
+   * @private
+   */
+  private writeString(aBytes: Buffer): void {
+    this.append('s:' + aBytes.length + ':"');
+    this.m_parts.push(aBytes);
+    this.append('";');
+  }
+
+  /**
+   * Adds ascii text to the output.
+   *
+   * @private
+   */
+  private append(aText: string): void {
+    this.m_parts.push(Buffer.from(aText, 'latin1'));
+  }
+
+  // endregion
+
+  // region private unserialize methods
+
+  /**
+   * Reads a value.
+   *
+   * @private
+   */
+  private read(): any {
+    const type = String.fromCharCode(this.m_data[this.m_offset]);
+    // references do not get a number themselves
+    if (type === 'R') {
+      return this.m_slots[this.readReference('R') - 1];
+    }
+    const slot = this.m_slots.length;
+    this.m_slots.push(undefined);
+    const value = this.readValue(type, slot);
+    this.m_slots[slot] = value;
+    return value;
+  }
+
+  /**
+   * Reads a value that is not a reference.
+   *
+   * @param {string} aType
+   *   Type character
+   * @param {number} aSlot
+   *   Index in {@link m_slots} for the value
+   *
+   * @private
+   */
+  private readValue(aType: string, aSlot: number): any {
+    switch (aType) {
+      case 'N':
+        this.expect('N;');
+        return null;
+      case 'b':
+        return this.readBoolean();
+      case 'i':
+        return this.readInteger();
+      case 'd':
+        return this.readFloat();
+      case 's':
+      case 'S':
+        return UFPhpSerializer.decodeString(this.readString());
+      case 'a':
+        return this.readArray(aSlot);
+      case 'O':
+        return this.readObject(aSlot);
+      case 'C':
+        return this.readCustomObject();
+      case 'r':
+        return this.m_slots[this.readReference('r') - 1];
+      default:
+        if (this.m_offset >= this.m_data.length) {
+          this.fail('Unexpected end of data');
+        }
+        return this.fail('Unsupported type "' + aType + '"');
+    }
+  }
+
+  /**
+   * Reads `b:<0 or 1>;`.
+   *
+   * @private
+   */
+  private readBoolean(): boolean {
+    this.expect('b:');
+    const text = this.readUntil(';');
+    if ((text !== '0') && (text !== '1')) {
+      this.fail('Invalid boolean "' + text + '"', -text.length - 1);
+    }
+    return text === '1';
+  }
+
+  /**
+   * Reads `i:<number>;`. Integers that are not safe integers in javascript are returned as bigint.
+   *
+   * @private
+   */
+  private readInteger(): number | bigint {
+    this.expect('i:');
+    const text = this.readUntil(';');
+    if (!/^[+-]?[0-9]+$/.test(text)) {
+      this.fail('Invalid integer "' + text + '"', -text.length - 1);
+    }
+    const value = parseInt(text, 10);
+    if (Number.isSafeInteger(value)) {
+      return value;
+    }
+    const bigValue = BigInt(text);
+    if (!UFPhpSerializer.isInt64(bigValue)) {
+      this.fail('Integer "' + text + '" is out of range', -text.length - 1);
+    }
+    return bigValue;
+  }
+
+  /**
+   * Reads `d:<number>;`.
+   *
+   * @private
+   */
+  private readFloat(): number {
+    this.expect('d:');
+    const text = this.readUntil(';');
+    switch (text) {
+      case 'INF':
+        return Infinity;
+      case '-INF':
+        return -Infinity;
+      case 'NAN':
+        return NaN;
+    }
+    if (!/^[+-]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][+-]?[0-9]+)?$/.test(text)) {
+      this.fail('Invalid float "' + text + '"', -text.length - 1);
+    }
+    return parseFloat(text);
+  }
+
+  /**
+   * Reads `s:<length>:"<bytes>";` or the escaped variant `S:<length>:"<text>";`.
+   *
+   * @private
+   */
+  private readString(): Buffer {
+    const escaped = this.m_data[this.m_offset] === 0x53;
+    this.expect(escaped ? 'S:' : 's:');
+    const length = this.readLength(':');
+    this.expect('"');
+    let bytes: Buffer;
+    if (escaped) {
+      bytes = Buffer.alloc(length);
+      for (let index = 0; index < length; index++) {
+        const char = this.readBytes(1)[0];
+        if (char !== 0x5c) {
+          bytes[index] = char;
+          continue;
+        }
+        const hex = this.readBytes(2).toString('latin1');
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+          this.fail('Invalid escape sequence', -3);
+        }
+        bytes[index] = parseInt(hex, 16);
+      }
+    }
+    else {
+      bytes = this.readBytes(length);
+    }
+    this.expect('";');
+    return bytes;
+  }
+
+  /**
+   * Reads a key of an array or a property name.
+   *
+   * @private
+   */
+  private readKey(): UFPhpArrayKey {
+    switch (String.fromCharCode(this.m_data[this.m_offset])) {
+      case 'i': {
+        const key = this.readInteger();
+        // keys that are not safe integers are kept as exact decimal string, since the keys of objects can not be
+        // bigint
+        return typeof key === 'bigint' ? String(key) : key;
+      }
+      case 's':
+      case 'S':
+        // numeric string keys become integer keys, like php does for arrays
+        return UFPhpArray.normalizeKey(this.readString().toString('utf8'));
+      default:
+        return this.fail('Invalid key');
+    }
+  }
+
+  /**
+   * Reads `a:<count>:{<key><value>...}`.
+   *
+   * @private
+   */
+  private readArray(aSlot: number): any {
+    this.expect('a:');
+    const count = this.readLength(':');
+    this.expect('{');
+    const array = new UFPhpArray();
+    this.m_slots[aSlot] = array;
+    this.readEntries(array, count);
+    return this.m_options.arrayMode === UFPhpArrayMode.PhpArray ? array : UFPhpSerializer.convertArray(array);
+  }
+
+  /**
+   * Reads `O:<length>:"<class>":<count>:{<name><value>...}`.
+   *
+   * @private
+   */
+  private readObject(aSlot: number): any {
+    this.expect('O:');
+    const className = this.readClassName();
+    this.expect(':');
+    const count = this.readLength(':');
+    this.expect('{');
+    const allowed = this.isAllowed(className);
+    const properties = new UFPhpArray();
+    if (!allowed) {
+      properties.set(INCOMPLETE_CLASS_NAME, className);
+    }
+    const object = new UFPhpObject(allowed ? className : INCOMPLETE_CLASS, properties);
+    this.m_slots[aSlot] = object;
+    this.readEntries(properties, count);
+    return allowed && this.m_options.createObject ? this.m_options.createObject(object) : object;
+  }
+
+  /**
+   * Reads `C:<length>:"<class>":<length>:{<data>}`.
+   *
+   * @private
+   */
+  private readCustomObject(): any {
+    this.expect('C:');
+    const className = this.readClassName();
+    this.expect(':');
+    const length = this.readLength(':');
+    this.expect('{');
+    const data = UFPhpSerializer.decodeString(this.readBytes(length));
+    this.expect('}');
+    if (!this.isAllowed(className)) {
+      return new UFPhpObject(INCOMPLETE_CLASS, new UFPhpArray([[INCOMPLETE_CLASS_NAME, className]]));
+    }
+    const object = new UFPhpObject(className, new UFPhpArray(), data);
+    return this.m_options.createObject ? this.m_options.createObject(object) : object;
+  }
+
+  /**
+   * Reads the entries of an array or the properties of an object, followed by `}`.
+   *
+   * @private
+   */
+  private readEntries(anArray: UFPhpArray, aCount: number): void {
+    const maxDepth = this.m_options.maxDepth === undefined ? DEFAULT_MAX_DEPTH : this.m_options.maxDepth;
+    if (++this.m_depth > maxDepth) {
+      this.fail('Maximum depth of ' + maxDepth + ' exceeded');
+    }
+    for (let index = 0; index < aCount; index++) {
+      const key = this.readKey();
+      anArray.set(key, this.read());
+    }
+    this.m_depth--;
+    this.expect('}');
+  }
+
+  /**
+   * Reads `<length>:"<class>"`.
+   *
+   * @private
+   */
+  private readClassName(): string {
+    const length = this.readLength(':');
+    this.expect('"');
+    const name = this.readBytes(length).toString('utf8');
+    if (!/^[A-Za-z_\x7f-\uffff\\][A-Za-z0-9_\x7f-\uffff\\]*$/.test(name)) {
+      this.fail('Invalid class name "' + name + '"', -length);
+    }
+    this.expect('"');
+    return name;
+  }
+
+  /**
+   * Reads `r:<number>;` or `R:<number>;` and checks if the number refers to an existing value.
+   *
+   * @private
+   */
+  private readReference(aType: string): number {
+    this.expect(aType + ':');
+    const number = this.readLength(';');
+    if ((number < 1) || (number > this.m_slots.length)) {
+      this.fail('Invalid reference ' + number, -number.toString().length - 1);
+    }
+    return number;
+  }
+
+  /**
+   * Reads a positive integer followed by a delimiter.
+   *
+   * @private
+   */
+  private readLength(aDelimiter: string): number {
+    const text = this.readUntil(aDelimiter);
+    if (!/^[0-9]+$/.test(text)) {
+      this.fail('Invalid number "' + text + '"', -text.length - 1);
+    }
+    return parseInt(text, 10);
+  }
+
+  /**
+   * Reads the text up to a delimiter and skips the delimiter.
+   *
+   * @private
+   */
+  private readUntil(aDelimiter: string): string {
+    const end = this.m_data.indexOf(aDelimiter, this.m_offset, 'latin1');
+    if (end < 0) {
+      this.fail('Missing "' + aDelimiter + '"');
+    }
+    const text = this.m_data.toString('latin1', this.m_offset, end);
+    this.m_offset = end + 1;
+    return text;
+  }
+
+  /**
+   * Reads a number of bytes.
+   *
+   * @private
+   */
+  private readBytes(aLength: number): Buffer {
+    if (this.m_offset + aLength > this.m_data.length) {
+      this.fail('Unexpected end of data');
+    }
+    const bytes = this.m_data.subarray(this.m_offset, this.m_offset + aLength);
+    this.m_offset += aLength;
+    return bytes;
+  }
+
+  /**
+   * Skips text that must be present at the current offset.
+   *
+   * @private
+   */
+  private expect(aText: string): void {
+    if (this.m_data.toString('latin1', this.m_offset, this.m_offset + aText.length) !== aText) {
+      this.fail('Expected "' + aText + '"');
+    }
+    this.m_offset += aText.length;
+  }
+
+  /**
+   * Checks if objects of a class may be created.
+   *
+   * @private
+   */
+  private isAllowed(aClassName: string): boolean {
+    const allowed = this.m_options.allowedClasses;
+    if (Array.isArray(allowed)) {
+      const name = aClassName.toLowerCase();
+      return allowed.some(className => className.replace(/^\\/, '').toLowerCase() === name);
+    }
+    return allowed !== false;
+  }
+
+  /**
+   * Throws an error for the current offset.
+   *
+   * @param {string} aMessage
+   *   Description of the problem
+   * @param {number} aDelta
+   *   Value to add to the current offset
+   *
+   * @private
+   */
+  private fail(aMessage: string, aDelta: number = 0): never {
+    throw new Error(
+      'Error at offset ' + (this.m_offset + aDelta) + ' of ' + this.m_data.length + ' bytes: ' + aMessage
+    );
+  }
+
+  // endregion
+
+  // region private static methods
+
+  /**
+   * Checks if a bigint fits in a php integer (64 bit).
+   *
+   * @private
+   */
+  private static isInt64(aValue: bigint): boolean {
+    return BigInt.asIntN(64, aValue) === aValue;
+  }
+
+  /**
+   * Checks if a string key is an integer key in php; these are the decimal strings of 64 bit integers that are
+   * not safe integers in javascript (see {@link readKey}).
+   *
+   * @private
+   */
+  private static isIntegerKey(aKey: string): boolean {
+    return INTEGER_KEY.test(aKey) && UFPhpSerializer.isInt64(BigInt(aKey));
+  }
+
+  /**
+   * Gets the entries of a value that is serialized as php array.
+   *
+   * @return {UFPhpArray|null} entries or null if the value is not an array
+   *
+   * @private
+   */
+  private static toArray(aValue: any): UFPhpArray | null {
+    if (aValue instanceof UFPhpArray) {
+      return aValue;
+    }
+    if (Array.isArray(aValue)) {
+      return new UFPhpArray(aValue.entries());
+    }
+    const prototype = Object.getPrototypeOf(aValue);
+    return (prototype === Object.prototype) || (prototype === null)
+      ? new UFPhpArray(Object.keys(aValue).map(key => [key, aValue[key]]))
+      : null;
+  }
+
+  /**
+   * Converts an array whose entries have been converted already.
+   *
+   * @private
+   */
+  private static convertArray(anArray: UFPhpArray): any[] | { [key: string]: any } {
+    if (anArray.isList()) {
+      return Array.from(anArray.values());
+    }
+    const result: { [key: string]: any } = {};
+    anArray.forEach((value, key) => result[key] = value);
+    return result;
+  }
+
+  /**
+   * Converts bytes to a string if they are valid UTF-8.
+   *
+   * @private
+   */
+  private static decodeString(aBytes: Buffer): string | Buffer {
+    try {
+      return UTF8_DECODER.decode(aBytes);
+    } catch (error) {
+      return Buffer.from(aBytes);
+    }
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,468 @@
+// region local constants
+
+/**
+ * Soundex codes for the letters A to Z (php `soundex_table`)
+ */
+const SOUNDEX_CODES = '01230120022455012623010202';
+
+/**
+ * Metaphone flags for the letters A to Z (php `_codes`): 1 = vowel, 2 = unchanged, 4 = forms a diphthong with a
+ * following H, 8 = makes C and G soft, 16 = prevents GH from becoming F
+ */
+const METAPHONE_FLAGS = [1, 16, 4, 16, 9, 2, 4, 16, 9, 2, 0, 2, 2, 2, 1, 4, 0, 2, 4, 4, 1, 0, 0, 0, 8, 0];
+
+/**
+ * Metaphone flag for vowels (AEIOU)
+ */
+const VOWEL = 1;
+
+/**
+ * Metaphone flag for letters that form a diphthong with a following H (CGPST)
+ */
+const AFFECT_H = 4;
+
+/**
+ * Metaphone flag for letters that make C and G soft (EIY)
+ */
+const MAKE_SOFT = 8;
+
+/**
+ * Metaphone flag for letters that prevent GH from becoming F (BDH)
+ */
+const NO_GH_TO_F = 16;
+
+// endregion
+
+// region types
+
+/**
+ * Result of {@link UFPhpText.similarText}.
+ */
+export interface IUFPhpSimilarTextResult {
+  /**
+   * Number of matching bytes (the return value of php `similar_text`)
+   */
+  readonly similar: number;
+
+  /**
+   * Similarity in percent (the third argument of php `similar_text`)
+   */
+  readonly percent: number;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpText} implements the php string similarity and phonetic functions `levenshtein`, `similar_text`,
+ * `soundex` and `metaphone`.
+ *
+ * Like php, all functions work on bytes: strings are encoded as UTF-8 first, so a multibyte character counts as
+ * several characters and only the ASCII letters are handled by `soundex` and `metaphone`.
+ *
+ * @example
+ * UFPhpText.levenshtein('kitten', 'sitting') // 3
+ * UFPhpText.similarText('World', 'Word') // {similar: 4, percent: 88.88888888888889}
+ * UFPhpText.metaphone('Knight') // 'NFT'
+ */
+export class UFPhpText {
+  // region constructor
+
+  /**
+   * Constructs an instance of {@link UFPhpText}; all methods are static.
+   *
+   * @private
+   */
+  private constructor() {
+  }
+
+  // endregion
+
+  // region public methods
+
+  /**
+   * Calculates the Levenshtein distance like php `levenshtein` does.
+   *
+   * @param {string|Buffer} aFirst
+   *   First text
+   * @param {string|Buffer} aSecond
+   *   Second text
+   * @param {number} anInsertCost
+   *   Cost of inserting a byte
+   * @param {number} aReplaceCost
+   *   Cost of replacing a byte
+   * @param {number} aDeleteCost
+   *   Cost of deleting a byte
+   *
+   * @return {number} minimal cost to change the first text into the second text
+   */
+  static levenshtein(
+    aFirst: string | Buffer, aSecond: string | Buffer, anInsertCost: number = 1, aReplaceCost: number = 1,
+    aDeleteCost: number = 1
+  ): number {
+    const first = UFPhpText.toBytes(aFirst);
+    const second = UFPhpText.toBytes(aSecond);
+    if (!first.length) {
+      return second.length * anInsertCost;
+    }
+    if (!second.length) {
+      return first.length * aDeleteCost;
+    }
+    let previous: number[] = [];
+    let current: number[] = [];
+    for (let index = 0; index <= second.length; index++) {
+      previous.push(index * anInsertCost);
+    }
+    for (const byte of first) {
+      current[0] = previous[0] + aDeleteCost;
+      for (let index = 0; index < second.length; index++) {
+        current[index + 1] = Math.min(
+          previous[index] + (byte === second[index] ? 0 : aReplaceCost),
+          previous[index + 1] + aDeleteCost,
+          current[index] + anInsertCost
+        );
+      }
+      [previous, current] = [current, previous];
+    }
+    return previous[second.length];
+  }
+
+  /**
+   * Calculates the similarity of two texts like php `similar_text` does.
+   *
+   * @param {string|Buffer} aFirst
+   *   First text
+   * @param {string|Buffer} aSecond
+   *   Second text
+   *
+   * @return {IUFPhpSimilarTextResult} number of matching bytes and similarity in percent
+   */
+  static similarText(aFirst: string | Buffer, aSecond: string | Buffer): IUFPhpSimilarTextResult {
+    const first = UFPhpText.toBytes(aFirst);
+    const second = UFPhpText.toBytes(aSecond);
+    const length = first.length + second.length;
+    if (!length) {
+      return {similar: 0, percent: 0};
+    }
+    const similar = UFPhpText.similarChars(first, second);
+    return {similar, percent: similar * 200 / length};
+  }
+
+  /**
+   * Calculates the soundex key like php `soundex` does.
+   *
+   * @param {string|Buffer} aText
+   *   Text to get the key for
+   *
+   * @return {string} four character key or an empty string for an empty text
+   */
+  static soundex(aText: string | Buffer): string {
+    const bytes = UFPhpText.toBytes(aText);
+    if (!bytes.length) {
+      return '';
+    }
+    let result = '';
+    let last = '';
+    for (let index = 0; (index < bytes.length) && (result.length < 4); index++) {
+      const letter = UFPhpText.upperByte(bytes[index]);
+      if ((letter < 'A') || (letter > 'Z')) {
+        continue;
+      }
+      const code = SOUNDEX_CODES[letter.charCodeAt(0) - 0x41];
+      if (!result.length) {
+        result = letter;
+        last = code;
+      }
+      // sequences of letters with the same code are ignored, H and W (code 0) separate sequences
+      else if (code !== last) {
+        if (code !== '0') {
+          result += code;
+        }
+        last = code;
+      }
+    }
+    return result.padEnd(4, '0');
+  }
+
+  /**
+   * Calculates the metaphone key like php `metaphone` does.
+   *
+   * @param {string|Buffer} aText
+   *   Text to get the key for
+   * @param {number} aMaxPhonemes
+   *   Maximum number of phonemes or 0 for no limit (the key can be one longer, since X produces two phonemes)
+   *
+   * @return {string} metaphone key
+   *
+   * @throws {Error} when the maximum is negative
+   */
+  static metaphone(aText: string | Buffer, aMaxPhonemes: number = 0): string {
+    if (aMaxPhonemes < 0) {
+      throw new Error('metaphone(): Argument #2 ($max_phonemes) must be greater than or equal to 0');
+    }
+    const bytes = UFPhpText.toBytes(aText);
+    // php works on a NUL terminated string
+    const end = bytes.indexOf(0) < 0 ? bytes.length : bytes.indexOf(0);
+    const letterAt = (index: number): string => (index >= 0) && (index < end)
+      ? UFPhpText.upperByte(bytes[index])
+      : '';
+    const isLetter = (letter: string): boolean => (letter >= 'A') && (letter <= 'Z');
+    const flags = (letter: string): number => isLetter(letter) ? METAPHONE_FLAGS[letter.charCodeAt(0) - 0x41] : 0;
+    let result = '';
+    let index = 0;
+    while (!isLetter(letterAt(index))) {
+      if (index >= end) {
+        return '';
+      }
+      index++;
+    }
+    // handle the start of the word
+    const next = letterAt(index + 1);
+    switch (letterAt(index)) {
+      case 'A':
+        result = next === 'E' ? 'E' : 'A';
+        index += next === 'E' ? 2 : 1;
+        break;
+      case 'G':
+      case 'K':
+      case 'P':
+        if (next === 'N') {
+          result = 'N';
+          index += 2;
+        }
+        break;
+      case 'W':
+        if (next === 'R') {
+          result = 'R';
+          index += 2;
+        }
+        else if ((next === 'H') || (flags(next) & VOWEL)) {
+          result = 'W';
+          index += 2;
+        }
+        break;
+      case 'X':
+        result = 'S';
+        index++;
+        break;
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+        result = letterAt(index);
+        index++;
+        break;
+    }
+    for (; (index < end) && ((aMaxPhonemes === 0) || (result.length < aMaxPhonemes)); index++) {
+      const letter = letterAt(index);
+      const previous = letterAt(index - 1);
+      if (!isLetter(letter) || ((letter === previous) && (letter !== 'C'))) {
+        continue;
+      }
+      const nextLetter = letterAt(index + 1);
+      const afterNext = nextLetter ? letterAt(index + 2) : '';
+      let skip = 0;
+      switch (letter) {
+        case 'B':
+          if (previous !== 'M') {
+            result += 'B';
+          }
+          break;
+        case 'C':
+          if (flags(nextLetter) & MAKE_SOFT) {
+            if ((nextLetter === 'I') && (afterNext === 'A')) {
+              result += 'X';
+            }
+            else if (previous !== 'S') {
+              result += 'S';
+            }
+          }
+          else if (nextLetter === 'H') {
+            result += 'X';
+            skip++;
+          }
+          else {
+            result += 'K';
+          }
+          break;
+        case 'D':
+          if ((nextLetter === 'G') && (flags(afterNext) & MAKE_SOFT)) {
+            result += 'J';
+            skip++;
+          }
+          else {
+            result += 'T';
+          }
+          break;
+        case 'G':
+          if (nextLetter === 'H') {
+            if (!((flags(letterAt(index - 3)) & NO_GH_TO_F) || (letterAt(index - 4) === 'H'))) {
+              result += 'F';
+              skip++;
+            }
+          }
+          else if (nextLetter === 'N') {
+            if (isLetter(afterNext) && !((afterNext === 'E') && (letterAt(index + 3) === 'D'))) {
+              result += 'K';
+            }
+          }
+          else if ((flags(nextLetter) & MAKE_SOFT) && (previous !== 'G')) {
+            result += 'J';
+          }
+          else {
+            result += 'K';
+          }
+          break;
+        case 'H':
+          if ((flags(nextLetter) & VOWEL) && !(flags(previous) & AFFECT_H)) {
+            result += 'H';
+          }
+          break;
+        case 'K':
+          if (previous !== 'C') {
+            result += 'K';
+          }
+          break;
+        case 'P':
+          result += nextLetter === 'H' ? 'F' : 'P';
+          break;
+        case 'Q':
+          result += 'K';
+          break;
+        case 'S':
+          if ((nextLetter === 'I') && ((afterNext === 'O') || (afterNext === 'A'))) {
+            result += 'X';
+          }
+          else if (nextLetter === 'H') {
+            result += 'X';
+            skip++;
+          }
+          else {
+            result += 'S';
+          }
+          break;
+        case 'T':
+          if ((nextLetter === 'I') && ((afterNext === 'O') || (afterNext === 'A'))) {
+            result += 'X';
+          }
+          else if (nextLetter === 'H') {
+            // '0' is used for 'th'
+            result += '0';
+            skip++;
+          }
+          else if (!((nextLetter === 'C') && (afterNext === 'H'))) {
+            result += 'T';
+          }
+          break;
+        case 'V':
+          result += 'F';
+          break;
+        case 'W':
+        case 'Y':
+          if (flags(nextLetter) & VOWEL) {
+            result += letter;
+          }
+          break;
+        case 'X':
+          result += 'KS';
+          break;
+        case 'Z':
+          result += 'S';
+          break;
+        case 'F':
+        case 'J':
+        case 'L':
+        case 'M':
+        case 'N':
+        case 'R':
+          result += letter;
+          break;
+      }
+      index += skip;
+    }
+    return result;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Converts a text to bytes.
+   *
+   * @param {string|Buffer} aText
+   *   Text to convert
+   *
+   * @return {Buffer} UTF-8 encoded text
+   *
+   * @private
+   */
+  private static toBytes(aText: string | Buffer): Buffer {
+    return Buffer.isBuffer(aText) ? aText : Buffer.from(String(aText));
+  }
+
+  /**
+   * Converts a byte to a character, changing only the ASCII lower case letters to upper case (like C `toupper`).
+   *
+   * @param {number} aByte
+   *   Byte to convert
+   *
+   * @return {string} single character
+   *
+   * @private
+   */
+  private static upperByte(aByte: number): string {
+    return String.fromCharCode((aByte >= 0x61) && (aByte <= 0x7a) ? aByte - 0x20 : aByte);
+  }
+
+  /**
+   * Counts the matching bytes (php `php_similar_char`): the longest common part is found first, then the parts
+   * before and after it are compared recursively.
+   *
+   * @param {Buffer} aFirst
+   *   First text
+   * @param {Buffer} aSecond
+   *   Second text
+   *
+   * @return {number} number of matching bytes
+   *
+   * @private
+   */
+  private static similarChars(aFirst: Buffer, aSecond: Buffer): number {
+    let max = 0;
+    let count = 0;
+    let firstPosition = 0;
+    let secondPosition = 0;
+    for (let first = 0; first < aFirst.length; first++) {
+      for (let second = 0; second < aSecond.length; second++) {
+        let length = 0;
+        while ((first + length < aFirst.length) && (second + length < aSecond.length) &&
+          (aFirst[first + length] === aSecond[second + length])) {
+          length++;
+        }
+        if (length > max) {
+          max = length;
+          count++;
+          firstPosition = first;
+          secondPosition = second;
+        }
+      }
+    }
+    let sum = max;
+    if (sum) {
+      // php only compares the parts before the common part when more than one candidate was found
+      if (firstPosition && secondPosition && (count > 1)) {
+        sum += UFPhpText.similarChars(aFirst.subarray(0, firstPosition), aSecond.subarray(0, secondPosition));
+      }
+      if ((firstPosition + max < aFirst.length) && (secondPosition + max < aSecond.length)) {
+        sum += UFPhpText.similarChars(aFirst.subarray(firstPosition + max), aSecond.subarray(secondPosition + max));
+      }
+    }
+    return sum;
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,324 @@
+// region imports
+
+import {UFPhpArray} from './UFPhpArray.js';
+
+// endregion
+
+// region local constants
+
+/**
+ * Matches a numeric string (leading whitespace and trailing whitespace are allowed).
+ */
+const NUMERIC = /^[ \t\n\r\v\f]*[+-]?(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?[ \t\n\r\v\f]*$/;
+
+/**
+ * Matches the numeric part at the start of a string.
+ */
+const LEADING_NUMERIC = /^[ \t\n\r\v\f]*[+-]?(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/;
+
+// endregion
+
+// region types
+
+/**
+ * {@link UFPhpValue} implements the php type conversion and comparison rules for javascript values.
+ *
+ * Php arrays are represented by {@link UFPhpArray} instances, javascript arrays or objects. Php makes a difference
+ * between integers and floats; javascript numbers are treated as integers when they have no fraction.
+ */
+export class UFPhpValue {
+  // region public methods
+
+  /**
+   * Converts a value to a boolean; `false`, `0`, `0.0`, `''`, `'0'`, `null` and empty arrays are false.
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {boolean} converted value
+   */
+  static toBoolean(aValue: any): boolean {
+    switch (typeof aValue) {
+      case 'boolean':
+        return aValue;
+      case 'number':
+        return aValue !== 0;
+      case 'string':
+        return (aValue !== '') && (aValue !== '0');
+      case 'undefined':
+        return false;
+      case 'object':
+        return (aValue !== null) && (UFPhpValue.getCount(aValue) > 0);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Converts a value to a number. Strings use the leading numeric part (if any).
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {number} converted value
+   */
+  static toNumber(aValue: any): number {
+    switch (typeof aValue) {
+      case 'number':
+        return aValue;
+      case 'boolean':
+        return aValue ? 1 : 0;
+      case 'string': {
+        const match = LEADING_NUMERIC.exec(aValue);
+        return match ? parseFloat(match[0]) : 0;
+      }
+      case 'object':
+        return (aValue !== null) && (UFPhpValue.getCount(aValue) > 0) ? 1 : 0;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Converts a value to an integer.
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {number} converted value (without fraction)
+   */
+  static toInteger(aValue: any): number {
+    const value = UFPhpValue.toNumber(aValue);
+    return isFinite(value) ? Math.trunc(value) || 0 : 0;
+  }
+
+  /**
+   * Converts a value to a string. Floats are formatted using a precision of 14 digits, like php does when
+   * converting a float to a string.
+   *
+   * @param {any} aValue
+   *   Value to convert
+   *
+   * @return {string} converted value
+   */
+  static toString(aValue: any): string {
+    switch (typeof aValue) {
+      case 'string':
+        return aValue;
+      case 'boolean':
+        return aValue ? '1' : '';
+      case 'number':
+        return UFPhpValue.formatFloat(aValue, 14);
+      case 'undefined':
+        return '';
+      case 'object':
+        return aValue === null ? '' : 'Array';
+      default:
+        return String(aValue);
+    }
+  }
+
+  /**
+   * Checks if a value is a number or numeric string.
+   *
+   * @param {any} aValue
+   *   Value to check
+   *
+   * @return {boolean} true if the value is numeric
+   */
+  static isNumeric(aValue: any): boolean {
+    return (typeof aValue === 'number') || ((typeof aValue === 'string') && NUMERIC.test(aValue));
+  }
+
+  /**
+   * Formats a number the way php converts a float to a string, using a certain number of significant digits.
+   * Integer values are formatted without fraction; large and small values use the exponential notation of php
+   * (for example `1.0E+25`).
+   *
+   * @param {number} aValue
+   *   Value to format
+   * @param {number} aPrecision
+   *   Number of significant digits or -1 for the shortest representation that is still exact (this matches the
+   *   php `serialize_precision` setting of -1)
+   *
+   * @return {string} formatted value
+   */
+  static formatFloat(aValue: number, aPrecision: number): string {
+    if (isNaN(aValue)) {
+      return 'NAN';
+    }
+    if (!isFinite(aValue)) {
+      return aValue > 0 ? 'INF' : '-INF';
+    }
+    if (aValue === 0) {
+      return Object.is(aValue, -0) ? '-0' : '0';
+    }
+    // get significant digits and exponent
+    const exponential = aPrecision < 0 ? aValue.toExponential() : aValue.toExponential(aPrecision - 1);
+    const [mantissa, exponentText] = exponential.split('e');
+    const negative = mantissa.startsWith('-');
+    const digits = mantissa.replace(/[-.]/g, '').replace(/0+$/, '') || '0';
+    const exponent = parseInt(exponentText, 10);
+    // position of the decimal point relative to the digits
+    const decimalPoint = exponent + 1;
+    const maxDigits = aPrecision < 0 ? 17 : aPrecision;
+    let result: string;
+    if ((decimalPoint < 0) ? (decimalPoint < -3) : (decimalPoint > maxDigits)) {
+      result = digits[0] + '.' + (digits.length > 1 ? digits.substring(1) : '0') + 'E' +
+        (exponent < 0 ? '-' : '+') + Math.abs(exponent);
+    }
+    else if (decimalPoint <= 0) {
+      result = '0.' + '0'.repeat(-decimalPoint) + digits;
+    }
+    else if (digits.length <= decimalPoint) {
+      result = digits + '0'.repeat(decimalPoint - digits.length);
+    }
+    else {
+      result = digits.substring(0, decimalPoint) + '.' + digits.substring(decimalPoint);
+    }
+    return negative ? '-' + result : result;
+  }
+
+  /**
+   * Compares two values using the loose comparison rules of php 8.
+   *
+   * @param {any} aFirst
+   *   First value
+   * @param {any} aSecond
+   *   Second value
+   *
+   * @return {number} -1, 0 or 1
+   */
+  static compare(aFirst: any, aSecond: any): number {
+    const first = aFirst === undefined ? null : aFirst;
+    const second = aSecond === undefined ? null : aSecond;
+    // null <=> string: null is converted to ''
+    if ((first === null) && (typeof second === 'string')) {
+      return UFPhpValue.compareStrings('', second);
+    }
+    if ((second === null) && (typeof first === 'string')) {
+      return UFPhpValue.compareStrings(first, '');
+    }
+    // bool or null <=> anything: both are converted to boolean
+    if ((typeof first === 'boolean') || (typeof second === 'boolean') || (first === null) || (second === null)) {
+      return UFPhpValue.sign(Number(UFPhpValue.toBoolean(first)) - Number(UFPhpValue.toBoolean(second)));
+    }
+    if ((typeof first === 'string') && (typeof second === 'string')) {
+      return UFPhpValue.compareStrings(first, second);
+    }
+    if ((typeof first === 'number') && (typeof second === 'string')) {
+      return UFPhpValue.isNumeric(second)
+        ? UFPhpValue.sign(first - parseFloat(second))
+        : UFPhpValue.compareStrings(UFPhpValue.toString(first), second);
+    }
+    if ((typeof first === 'string') && (typeof second === 'number')) {
+      return -UFPhpValue.compare(second, first);
+    }
+    if ((typeof first === 'object') && (typeof second === 'object')) {
+      return UFPhpValue.compareArrays(first, second);
+    }
+    // arrays are always greater
+    if (typeof first === 'object') {
+      return 1;
+    }
+    if (typeof second === 'object') {
+      return -1;
+    }
+    return UFPhpValue.sign(UFPhpValue.toNumber(first) - UFPhpValue.toNumber(second));
+  }
+
+  /**
+   * Checks if two values are identical (php `===`).
+   *
+   * @param {any} aFirst
+   *   First value
+   * @param {any} aSecond
+   *   Second value
+   *
+   * @return {boolean} true if both values have the same type and value
+   */
+  static isIdentical(aFirst: any, aSecond: any): boolean {
+    if ((typeof aFirst === 'object') && (typeof aSecond === 'object') && (aFirst !== null) && (aSecond !== null)) {
+      const firstEntries = [...UFPhpValue.toArray(aFirst)];
+      const secondEntries = [...UFPhpValue.toArray(aSecond)];
+      return (firstEntries.length === secondEntries.length) &&
+        firstEntries.every(([key, value], index) =>
+          (key === secondEntries[index][0]) && UFPhpValue.isIdentical(value, secondEntries[index][1])
+        );
+    }
+    return aFirst === aSecond;
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Compares two strings; numeric strings are compared as numbers.
+   *
+   * @private
+   */
+  private static compareStrings(aFirst: string, aSecond: string): number {
+    if (UFPhpValue.isNumeric(aFirst) && UFPhpValue.isNumeric(aSecond)) {
+      return UFPhpValue.sign(parseFloat(aFirst) - parseFloat(aSecond));
+    }
+    return aFirst < aSecond ? -1 : (aFirst > aSecond ? 1 : 0);
+  }
+
+  /**
+   * Compares two arrays: the array with fewer entries is smaller, else the values are compared per key.
+   *
+   * @private
+   */
+  private static compareArrays(aFirst: any, aSecond: any): number {
+    const countDifference = UFPhpValue.getCount(aFirst) - UFPhpValue.getCount(aSecond);
+    if (countDifference !== 0) {
+      return UFPhpValue.sign(countDifference);
+    }
+    const second = UFPhpValue.toArray(aSecond);
+    for (const [key, value] of UFPhpValue.toArray(aFirst)) {
+      if (!second.has(key)) {
+        return 1;
+      }
+      const result = UFPhpValue.compare(value, second.get(key));
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Gets the number of entries in an array or object.
+   *
+   * @private
+   */
+  private static getCount(aValue: any): number {
+    if (aValue instanceof Map) {
+      return aValue.size;
+    }
+    return Array.isArray(aValue) ? aValue.length : Object.keys(aValue).length;
+  }
+
+  /**
+   * Gets a {@link UFPhpArray} for an array or object.
+   *
+   * @private
+   */
+  private static toArray(aValue: any): UFPhpArray {
+    return aValue instanceof UFPhpArray ? aValue : new UFPhpArray(Object.entries(aValue));
+  }
+
+  /**
+   * Gets the sign of a number as -1, 0 or 1.
+   *
+   * @private
+   */
+  private static sign(aValue: number): number {
+    return aValue < 0 ? -1 : (aValue > 0 ? 1 : 0);
+  }
+
+  // endregion
+}
+
+// endregion
@@ -0,0 +1,167 @@
+// region imports
+
+import {UFPhpArray} from './UFPhpArray.js';
+import {UFPhpValue} from './UFPhpValue.js';
+import {UFPhpPlaceholder} from '../parser/UFPhpPlaceholder.js';
+
+// endregion
+
+// region types
+
+/**
+ * Options for {@link UFPhpWriter}.
+ */
+export interface IUFPhpWriterOptions {
+  /**
+   * Text used for one level of indentation, default is two spaces (like var_export).
+   */
+  indent?: string;
+
+  /**
+   * Use `[...]` (default) instead of `array (...)`. With false, arrays are written exactly like var_export does.
+   */
+  shortArraySyntax?: boolean;
+
+  /**
+   * Leave out the keys of lists (arrays with the keys 0 to n - 1 in order), default is false (like var_export).
+   */
+  omitListKeys?: boolean;
+
+  /**
+   * Line ending to use, default is `\n`.
+   */
+  eol?: string;
+}
+
+// endregion
+
+// region class
+
+/**
+ * {@link UFPhpWriter} converts javascript values to php code, using the same formatting as php `var_export`.
+ *
+ * Javascript arrays, plain objects and {@link UFPhpArray} instances are written as php arrays; strings are
+ * single quoted; integers without fraction, floats with at least one decimal or an exponent; null and undefined
+ * as `NULL`. A {@link UFPhpPlaceholder} is written as its php code, so expressions that could not be evaluated
+ * are kept.
+ */
+export class UFPhpWriter {
+  // region public methods
+
+  /**
+   * Converts a value to a php configuration file returning the value.
+   *
+   * @param {any} aValue
+   *   Value to write
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options to use
+   *
+   * @return {string} php source
+   *
+   * @throws {Error} when the value contains something that can not be written as php (like functions)
+   */
+  static stringifyConfig(aValue: any, anOptions: IUFPhpWriterOptions = {}): string {
+    const eol = anOptions.eol || '\n';
+    return '<?php' + eol + eol + 'return ' + UFPhpWriter.exportValue(aValue, anOptions) + ';' + eol;
+  }
+
+  /**
+   * Converts a value to a php expression.
+   *
+   * @param {any} aValue
+   *   Value to write
+   * @param {IUFPhpWriterOptions} anOptions
+   *   Options to use
+   * @param {string} anIndent
+   *   Indentation of the line the expression starts on; lines after the first line are prefixed with it
+   *
+   * @return {string} php expression
+   *
+   * @throws {Error} when the value contains something that can not be written as php (like functions)
+   */
+  static exportValue(aValue: any, anOptions: IUFPhpWriterOptions = {}, anIndent: string = ''): string {
+    switch (typeof aValue) {
+      case 'undefined':
+        return 'NULL';
+      case 'boolean':
+        return aValue ? 'true' : 'false';
+      case 'number':
+        return UFPhpWriter.exportNumber(aValue);
+      case 'string':
+        return UFPhpWriter.exportString(aValue);
+      case 'object':
+        if (aValue === null) {
+          return 'NULL';
+        }
+        if (aValue instanceof UFPhpPlaceholder) {
+          return aValue.code;
+        }
+        return UFPhpWriter.exportArray(UFPhpArray.fromNative(aValue), anOptions, anIndent);
+    }
+    throw new Error('Can not convert ' + typeof aValue + ' to php');
+  }
+
+  // endregion
+
+  // region private methods
+
+  /**
+   * Writes a number.
+   *
+   * @private
+   */
+  private static exportNumber(aValue: number): string {
+    if (Number.isSafeInteger(aValue)) {
+      return aValue.toString();
+    }
+    const result = UFPhpValue.formatFloat(aValue, -1);
+    // var_export makes sure a float can not be mistaken for an integer
+    return /^-?[0-9]+$/.test(result) ? result + '.0' : result;
+  }
+
+  /**
+   * Writes a single quoted string. Null characters are written as `"\0"`, like var_export does.
+   *
+   * @private
+   */
+  private static exportString(aValue: string): string {
+    return aValue
+      .split('\0')
+      .map(part => '\'' + part.replace(/\\/g, '\\\\').replace(/'/g, '\\\'') + '\'')
+      .join(' . "\\0" . ');
+  }
+
+  /**
+   * Writes an array.
+   *
+   * @private
+   */
+  private static exportArray(anArray: any, anOptions: IUFPhpWriterOptions, anIndent: string): string {
+    if (!(anArray instanceof UFPhpArray)) {
+      throw new Error('Can not convert ' + Object.prototype.toString.call(anArray) + ' to php');
+    }
+    const short = anOptions.shortArraySyntax !== false;
+    const eol = anOptions.eol || '\n';
+    const indent = anIndent + (anOptions.indent === undefined ? '  ' : anOptions.indent);
+    if (short && !anArray.size) {
+      return '[]';
+    }
+    const omitKeys = anOptions.omitListKeys && anArray.isList();
+    let result = short ? '[' : 'array (';
+    anArray.forEach((value, key) => {
+      const isArray = (typeof value === 'object') && (value !== null) && !(value instanceof UFPhpPlaceholder);
+      result += eol + indent;
+      if (!omitKeys) {
+        result += (typeof key === 'number' ? key : UFPhpWriter.exportString(key)) + ' =>';
+        // var_export places nested arrays on the next line
+        result += isArray && !short ? ' ' + eol + indent : ' ';
+      }
+      result += UFPhpWriter.exportValue(value, anOptions, indent) + ',';
+    });
+    return result + eol + anIndent + (short ? ']' : ')');
+  }
+
+  // endregion
+}
+
+// endregion
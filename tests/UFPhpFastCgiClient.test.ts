@@ -0,0 +1,114 @@
+import {AddressInfo, Server} from 'net';
+import {UFPhpFastCgiClient} from '../src/fastcgi/UFPhpFastCgiClient.js';
+import {UFPhpFastCgiError} from '../src/fastcgi/UFPhpFastCgiError.js';
+import {
+  UFPhpFastCgiProtocol, UFPhpFastCgiProtocolStatus, UFPhpFastCgiRecordType
+} from '../src/fastcgi/UFPhpFastCgiProtocol.js';
+import {respond, startFastCgiServer, TestFastCgiHandler} from './UFPhpFastCgiServer.js';
+
+/**
+ * Headers php-fpm sends when a script does not set any
+ */
+const HEADERS = 'Content-type: text/html; charset=UTF-8\r\n\r\n';
+
+describe('UFPhpFastCgiClient', () => {
+  let server: Server;
+  let client: UFPhpFastCgiClient;
+  let connections: number;
+
+  const start = async (aHandler: TestFastCgiHandler, anOptions: object = {}) => {
+    server = await startFastCgiServer(aHandler);
+    connections = 0;
+    server.on('connection', () => connections++);
+    client = new UFPhpFastCgiClient({host: '127.0.0.1', port: (server.address() as AddressInfo).port, ...anOptions});
+  };
+
+  afterEach(done => {
+    client.close();
+    server.close(() => done());
+  });
+
+  test('run sends the params and body and parses the response', async () => {
+    await start((aSocket, aRequest) => respond(
+      aSocket,
+      aRequest,
+      'Status: 201 Created\r\nX-Test: 1\r\nx-test: 2\r\n\r\n' +
+      [aRequest.params.REQUEST_METHOD, aRequest.params.SCRIPT_FILENAME, aRequest.params.QUERY_STRING,
+        aRequest.params.CONTENT_LENGTH, aRequest.stdin.toString()].join('|'),
+      'warning'
+    ));
+    const response = await client.run('/app/test.php', {method: 'post', query: {a: [1, 2]}, stdin: 'héllo'});
+    expect(response.status).toBe(201);
+    expect(response.statusText).toBe('Created');
+    expect(response.headers['x-test']).toEqual(['1', '2']);
+    expect(response.body.toString()).toBe('POST|/app/test.php|a%5B0%5D=1&a%5B1%5D=2|6|héllo');
+    expect(response.stderr).toBe('warning');
+    expect(response.appStatus).toBe(0);
+  });
+
+  test('sends bodies larger than one record', async () => {
+    await start((aSocket, aRequest) => respond(aSocket, aRequest, HEADERS + aRequest.stdin.length));
+    const response = await client.run('/big.php', {stdin: Buffer.alloc(200000, 65)});
+    expect(response.status).toBe(200);
+    expect(response.body.toString()).toBe('200000');
+  });
+
+  test('reuses connections when keepAlive is set', async () => {
+    await start((aSocket, aRequest) => respond(aSocket, aRequest, HEADERS + 'ok'));
+    await client.run('/a.php');
+    await client.run('/a.php');
+    expect(connections).toBe(1);
+  });
+
+  test('closes connections that were not used within the idle timeout', async () => {
+    await start((aSocket, aRequest) => respond(aSocket, aRequest, HEADERS + 'ok'), {idleTimeout: 20});
+    await client.run('/a.php');
+    await new Promise(aResolve => setTimeout(aResolve, 100));
+    await client.run('/a.php');
+    expect(connections).toBe(2);
+  });
+
+  test('opens a connection per request when keepAlive is false', async () => {
+    await start((aSocket, aRequest) => respond(aSocket, aRequest, HEADERS + 'ok'), {keepAlive: false});
+    await client.run('/a.php');
+    await client.run('/a.php');
+    expect(connections).toBe(2);
+  });
+
+  test('limits the number of connections', async () => {
+    await start(
+      (aSocket, aRequest) => setTimeout(() => respond(aSocket, aRequest, HEADERS + aRequest.params.SCRIPT_FILENAME)),
+      {maxConnections: 2}
+    );
+    const files = ['/1.php', '/2.php', '/3.php', '/4.php', '/5.php'];
+    const responses = await Promise.all(files.map(file => client.run(file)));
+    expect(responses.map(response => response.body.toString())).toEqual(files);
+    expect(connections).toBe(2);
+  });
+
+  test('fails when the request times out', async () => {
+    await start(() => undefined, {timeout: 100});
+    await expect(client.run('/slow.php')).rejects.toThrow(UFPhpFastCgiError);
+  });
+
+  test('fails when the server closes the connection during a request', async () => {
+    await start((aSocket, aRequest) => {
+      aSocket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stderr, aRequest.id, 'partial'));
+      setTimeout(() => aSocket.destroy(), 10);
+    });
+    await expect(client.run('/close.php')).rejects.toMatchObject({stderr: 'partial'});
+  });
+
+  test('fails when the server is overloaded', async () => {
+    await start((aSocket, aRequest) => aSocket.write(
+      UFPhpFastCgiProtocol.encodeEndRequest(aRequest.id, 0, UFPhpFastCgiProtocolStatus.Overloaded)
+    ));
+    await expect(client.run('/a.php')).rejects.toMatchObject({reason: 'Server is overloaded'});
+  });
+
+  test('fails after the client was closed', async () => {
+    await start((aSocket, aRequest) => respond(aSocket, aRequest, HEADERS + 'ok'));
+    client.close();
+    await expect(client.run('/a.php')).rejects.toMatchObject({reason: 'Client was closed'});
+  });
+});
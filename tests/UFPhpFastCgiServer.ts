@@ -0,0 +1,68 @@
+import {createServer, Server, Socket} from 'net';
+import {UFPhpFastCgiProtocol, UFPhpFastCgiRecordType} from '../src/fastcgi/UFPhpFastCgiProtocol.js';
+import {UFPhpFastCgiRecordReader} from '../src/fastcgi/UFPhpFastCgiRecordReader.js';
+
+/**
+ * A request received by the stand-in server.
+ */
+export interface ITestFastCgiRequest {
+  readonly id: number;
+  readonly keepConnection: boolean;
+  readonly params: { [name: string]: string };
+  readonly stdin: Buffer;
+}
+
+/**
+ * Handles a complete request; it should write the response records to the socket.
+ */
+export type TestFastCgiHandler = (aSocket: Socket, aRequest: ITestFastCgiRequest) => void;
+
+/**
+ * A FastCGI server that stands in for php-fpm: it collects the params and stdin of every request and passes the
+ * request to a handler. The server listens on a random port.
+ */
+export function startFastCgiServer(aHandler: TestFastCgiHandler): Promise<Server> {
+  const server = createServer(socket => {
+    const reader = new UFPhpFastCgiRecordReader();
+    const requests = new Map<number, { keepConnection: boolean, params: Buffer[], stdin: Buffer[] }>();
+    socket.on('data', data => reader.push(data).forEach(record => {
+      const request = requests.get(record.requestId);
+      if (record.type === UFPhpFastCgiRecordType.BeginRequest) {
+        const begin = UFPhpFastCgiProtocol.decodeBeginRequest(record.content);
+        requests.set(record.requestId, {keepConnection: begin.keepConnection, params: [], stdin: []});
+      }
+      else if (request && (record.type === UFPhpFastCgiRecordType.Params)) {
+        request.params.push(record.content);
+      }
+      else if (request && (record.type === UFPhpFastCgiRecordType.Stdin) && record.content.length) {
+        request.stdin.push(record.content);
+      }
+      else if (request && (record.type === UFPhpFastCgiRecordType.Stdin)) {
+        requests.delete(record.requestId);
+        aHandler(socket, {
+          id: record.requestId,
+          keepConnection: request.keepConnection,
+          params: UFPhpFastCgiProtocol.decodePairs(Buffer.concat(request.params)),
+          stdin: Buffer.concat(request.stdin),
+        });
+      }
+    }));
+    socket.on('error', () => undefined);
+  });
+  return new Promise(aResolve => server.listen(0, '127.0.0.1', () => aResolve(server)));
+}
+
+/**
+ * Writes a complete response for a request.
+ */
+export function respond(aSocket: Socket, aRequest: ITestFastCgiRequest, anOutput: string, aStderr: string = ''): void {
+  aSocket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stdout, aRequest.id, anOutput));
+  if (aStderr) {
+    aSocket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stderr, aRequest.id, aStderr));
+  }
+  aSocket.write(UFPhpFastCgiProtocol.encodeRecord(UFPhpFastCgiRecordType.Stdout, aRequest.id));
+  aSocket.write(UFPhpFastCgiProtocol.encodeEndRequest(aRequest.id, 0));
+  if (!aRequest.keepConnection) {
+    aSocket.end();
+  }
+}
@@ -0,0 +1,87 @@
+import {UFPhpFormat} from '../src/tools/UFPhpFormat.js';
+
+/**
+ * Format, value and the output of php sprintf.
+ */
+const SPRINTF: [string, any, string][] = [
+  ['%d', 1e20, '7766279631452241920'],
+  ['%d', -0.5, '0'],
+  ['%d', '12abc', '12'],
+  ['%d', true, '1'],
+  ['%+d', 5, '+5'],
+  ['%+d', -5, '-5'],
+  ['%u', -1, '18446744073709551615'],
+  ['%x', -1, 'ffffffffffffffff'],
+  ['%b', 5, '101'],
+  ['%o', 8, '10'],
+  ['%c', 65, 'A'],
+  ['%.2f', -0.001, '-0.00'],
+  ['%.1f', 0.05, '0.1'],
+  ['%.0f', 0.5, '0'],
+  ['%.0f', 1.5, '2'],
+  ['%.0f', 2.5, '2'],
+  ['%5.1f', -2.35, ' -2.4'],
+  ['%05.1f', 9.96, '010.0'],
+  ['%10.4f', Math.PI, '    3.1416'],
+  ['%.15f', 0.1, '0.100000000000000'],
+  ['%F', 1.5, '1.500000'],
+  ['%e', 1234.5678, '1.234568e+3'],
+  ['%e', 0, '0.000000e+0'],
+  ['%.2e', 1e-10, '1.00e-10'],
+  ['%e', 1e100, '1.000000e+100'],
+  ['%E', 12345, '1.234500E+4'],
+  ['%g', 0.00001234, '1.234e-5'],
+  ['%g', 123456789, '1.23457e+8'],
+  ['%G', 1e-10, '1.0E-10'],
+  ['%s', 0.1 + 0.2, '0.3'],
+  ['%s', 1.0, '1'],
+  ['%.3s', 'abcdef', 'abc'],
+  ['%-5s|', 'ab', 'ab   |'],
+  ['%\'*8s', 'x', '*******x'],
+  ['%1$s %1$s', 'a', 'a a'],
+  ['%%', 1, '%'],
+];
+
+/**
+ * Arguments and the output of php number_format.
+ */
+const NUMBER_FORMAT: [[number, number?, string?, string?], string][] = [
+  [[1.005, 2], '1.01'],
+  [[-0.4], '0'],
+  [[-0.001, 2], '0.00'],
+  [[0.5], '1'],
+  [[2.5], '3'],
+  [[-0.5], '-1'],
+  [[1234.5], '1,235'],
+  [[1234.5678, 2], '1,234.57'],
+  [[-1234.567, 2], '-1,234.57'],
+  [[1234.5678, 2, ',', '.'], '1.234,57'],
+  [[1234567.891, 2, '.', ' '], '1 234 567.89'],
+  [[1234.5678, -2], '1,200'],
+  [[1235, -1], '1,240'],
+  [[-1234.567, -2], '-1,200'],
+  [[1e15, 2], '1,000,000,000,000,000.00'],
+];
+
+describe('UFPhpFormat', () => {
+  test.each(SPRINTF)('sprintf(%p, %p)', (aFormat, aValue, anExpected) => {
+    expect(UFPhpFormat.sprintf(aFormat, aValue)).toBe(anExpected);
+  });
+
+  test('sprintf with several values and argnum', () => {
+    expect(UFPhpFormat.sprintf('%2$s %1$04d %2$s', 7, 'x')).toBe('x 0007 x');
+    expect(UFPhpFormat.sprintf('%s-%s', 'a', 'b')).toBe('a-b');
+  });
+
+  test('sprintf throws when there are too few values', () => {
+    expect(() => UFPhpFormat.sprintf('%s %s', 'a')).toThrow();
+  });
+
+  test('vsprintf', () => {
+    expect(UFPhpFormat.vsprintf('%s=%.1f', ['pi', Math.PI])).toBe('pi=3.1');
+  });
+
+  test.each(NUMBER_FORMAT)('number_format(%p)', (anArguments, anExpected) => {
+    expect(UFPhpFormat.numberFormat(...anArguments)).toBe(anExpected);
+  });
+});
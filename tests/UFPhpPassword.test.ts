@@ -0,0 +1,84 @@
+import {UFPhpPassword} from '../src/tools/UFPhpPassword.js';
+
+/**
+ * Test vectors of crypt_blowfish (also used by the php tests in ext/standard/tests/strings/crypt_blowfish.phpt),
+ * passwords are given as binary strings.
+ */
+const VECTORS: [string, string][] = [
+  ['$2a$05$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW', 'U*U'],
+  ['$2a$05$CCCCCCCCCCCCCCCCCCCCC.VGOzA784oUp/Z0DY336zx7pLYAy0lwK', 'U*U*'],
+  ['$2a$05$XXXXXXXXXXXXXXXXXXXXXOAcXxm9kjPGEMsLznoKqmqw7tc8WCx4a', 'U*U*U'],
+  [
+    '$2a$05$abcdefghijklmnopqrstuu5s2v8.iXieOjg/.AySBTTZIIVFJeBui',
+    '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789chars after 72 are ignored',
+  ],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.CE5elHaaO4EbggVDjb8P19RukzXSM3e', '\xa3'],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.CE5elHaaO4EbggVDjb8P19RukzXSM3e', '\xff\xff\xa3'],
+  ['$2y$05$/OK.fbVrR/bpIqNJ5ianF.CE5elHaaO4EbggVDjb8P19RukzXSM3e', '\xff\xff\xa3'],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.nqd1wy.pTMdcvrRWxyiGL2eMz.2a85.', '\xff\xff\xa3'],
+  ['$2b$05$/OK.fbVrR/bpIqNJ5ianF.CE5elHaaO4EbggVDjb8P19RukzXSM3e', '\xff\xff\xa3'],
+  ['$2y$05$/OK.fbVrR/bpIqNJ5ianF.Sa7shbm4.OzKpvFnX1pQLmQW96oUlCq', '\xa3'],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.Sa7shbm4.OzKpvFnX1pQLmQW96oUlCq', '\xa3'],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.o./n25XVfn6oAPaUvHe.Csk4zRfsYPi', '1\xa3345'],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.o./n25XVfn6oAPaUvHe.Csk4zRfsYPi', '\xff\xa3345'],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.o./n25XVfn6oAPaUvHe.Csk4zRfsYPi', '\xff\xa334\xff\xff\xff\xa3345'],
+  ['$2y$05$/OK.fbVrR/bpIqNJ5ianF.o./n25XVfn6oAPaUvHe.Csk4zRfsYPi', '\xff\xa334\xff\xff\xff\xa3345'],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.ZC1JEJ8Z4gPfpe1JOr/oyPXTWl9EFd.', '\xff\xa334\xff\xff\xff\xa3345'],
+  ['$2y$05$/OK.fbVrR/bpIqNJ5ianF.nRht2l/HRhr6zmCp9vYUvvsqynflf9e', '\xff\xa3345'],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.nRht2l/HRhr6zmCp9vYUvvsqynflf9e', '\xff\xa3345'],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.6IflQkJytoRVc1yuaNtHfiuq.FRlSIS', '\xa3ab'],
+  ['$2x$05$/OK.fbVrR/bpIqNJ5ianF.6IflQkJytoRVc1yuaNtHfiuq.FRlSIS', '\xa3ab'],
+  ['$2y$05$/OK.fbVrR/bpIqNJ5ianF.6IflQkJytoRVc1yuaNtHfiuq.FRlSIS', '\xa3ab'],
+  ['$2x$05$6bNw2HLQYeqHYyBfLMsv/OiwqTymGIGzFsA4hOTWebfehXHNprcAS', '\xd1\x91'],
+  ['$2x$05$6bNw2HLQYeqHYyBfLMsv/O9LIGgn8OMzuDoHfof8AQimSGfcSWxnS', '\xd0\xc1\xd2\xcf\xcc\xd8'],
+  [
+    '$2a$05$/OK.fbVrR/bpIqNJ5ianF.swQOIzjOiJ9GHEPuhEkvqrUyvWhEMx6',
+    '\xaa'.repeat(72) + 'chars after 72 are ignored as usual',
+  ],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.R9xrDjiycxMbQE2bp.vgqlYpW5wx2yy', '\xaa\x55'.repeat(36)],
+  ['$2a$05$/OK.fbVrR/bpIqNJ5ianF.9tQZzcJfm3uj2NvJ/n5xkhpqLrMpWCe', '\x55\xaa\xff'.repeat(24)],
+  ['$2a$05$CCCCCCCCCCCCCCCCCCCCC.7uG0VCzI2bS7j6ymqJi9CdcdxiRTWNy', ''],
+];
+
+describe('UFPhpPassword', () => {
+  test.each(VECTORS)('verify %s', (aHash, aPassword) => {
+    expect(UFPhpPassword.verify(Buffer.from(aPassword, 'latin1'), aHash)).toBe(true);
+  });
+
+  test('verify rejects a wrong password', () => {
+    expect(UFPhpPassword.verify('U*U*', '$2a$05$CCCCCCCCCCCCCCCCCCCCC.E5YPO9kmyuRGyh0XouQYb4YMJKvyOeW')).toBe(false);
+  });
+
+  test('$2a$ and $2y$ differ for passwords affected by the 8-bit bug', () => {
+    const password = Buffer.from('\xff\xff\xa3', 'latin1');
+    expect(UFPhpPassword.verify(password, '$2a$05$/OK.fbVrR/bpIqNJ5ianF.CE5elHaaO4EbggVDjb8P19RukzXSM3e')).toBe(false);
+    expect(UFPhpPassword.verify(password, '$2y$05$/OK.fbVrR/bpIqNJ5ianF.nqd1wy.pTMdcvrRWxyiGL2eMz.2a85.')).toBe(false);
+  });
+
+  test('only the first 72 bytes are significant', () => {
+    const hash = UFPhpPassword.hash('x'.repeat(72), {cost: 4});
+    expect(UFPhpPassword.verify('x'.repeat(72) + 'ignored', hash)).toBe(true);
+    expect(UFPhpPassword.verify('x'.repeat(71), hash)).toBe(false);
+  });
+
+  test('hash creates a $2y$ hash that can be verified', () => {
+    const hash = UFPhpPassword.hash('secret', {cost: 4});
+    expect(hash).toMatch(/^\$2y\$04\$[./A-Za-z0-9]{53}$/);
+    expect(UFPhpPassword.verify('secret', hash)).toBe(true);
+    expect(UFPhpPassword.verify('Secret', hash)).toBe(false);
+  });
+
+  test('verify accepts a hash generated by php password_hash', () => {
+    expect(UFPhpPassword.verify(
+      'rasmuslerdorf', '$2y$10$.vGA1O9wmRjrwAVXD98HNOgsNpDczlqm3Jq7KnEd1rVAGv3Fykk1a'
+    )).toBe(true);
+  });
+
+  test('needsRehash and getInfo', () => {
+    const hash = '$2y$10$.vGA1O9wmRjrwAVXD98HNOgsNpDczlqm3Jq7KnEd1rVAGv3Fykk1a';
+    expect(UFPhpPassword.getInfo(hash)).toEqual({algo: '2y', algoName: 'bcrypt', options: {cost: 10}});
+    expect(UFPhpPassword.needsRehash(hash, {cost: 10})).toBe(false);
+    expect(UFPhpPassword.needsRehash(hash, {cost: 11})).toBe(true);
+    expect(UFPhpPassword.getInfo('plain').algo).toBeNull();
+  });
+});